@@ -669,9 +669,10 @@ export function validateHooks(hooks: PluginHooks): { isValid: boolean; errors: s
     'onServerStart', 'onServerStop', 'onDatabaseConnect', 'beforeQuery', 'afterQuery',
     'beforePostCreate', 'afterPostCreate', 'beforePostUpdate', 'afterPostUpdate',
     'beforePostDelete', 'afterPostDelete', 'beforeRequest', 'afterRequest',
+    'filterStructuredData', 'checkCommentSpam',
     'beforeLogin', 'afterLogin', 'beforeLogout', 'afterLogout',
     'registerPostTypes', 'registerMetaFields', 'registerAdminPages',
-    'registerShortcodes', 'registerWidgets', 'registerBlocks'
+    'registerShortcodes', 'registerWidgets', 'registerBlocks', 'registerTaxonomies'
   ];
   
   for (const [hookName, callback] of Object.entries(hooks)) {
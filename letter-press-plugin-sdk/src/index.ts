@@ -15,7 +15,8 @@ export type {
     PluginAdminPage,
     PluginShortcode,
     PluginWidget,
-    PluginBlock
+    PluginBlock,
+    PluginTaxonomy
 } from './types/index.js';
 
 // Re-export utilities
@@ -34,7 +35,8 @@ import type {
     PluginAdminPage,
     PluginShortcode,
     PluginWidget,
-    PluginBlock
+    PluginBlock,
+    PluginTaxonomy
 } from './types/index.js';
 
 import {
@@ -62,6 +64,7 @@ export class PluginSDK {
     private shortcodes: PluginShortcode[] = [];
     private widgets: PluginWidget[] = [];
     private blocks: PluginBlock[] = [];
+    private taxonomies: PluginTaxonomy[] = [];
 
     private hookHelper = new HookHelper();
     private contentFilter = new ContentFilter();
@@ -149,6 +152,20 @@ export class PluginSDK {
         return this.addHook('afterLogout', callback);
     }
 
+    /**
+     * Add output filters
+     */
+    filterStructuredData(callback: NonNullable<PluginHooks['filterStructuredData']>): this {
+        return this.addHook('filterStructuredData', callback);
+    }
+
+    /**
+     * Add a comment spam check
+     */
+    checkCommentSpam(callback: NonNullable<PluginHooks['checkCommentSpam']>): this {
+        return this.addHook('checkCommentSpam', callback);
+    }
+
     /**
      * Register custom post types
      */
@@ -211,6 +228,15 @@ export class PluginSDK {
         return this;
     }
 
+    /**
+     * Add custom taxonomy
+     */
+    addTaxonomy(taxonomy: PluginTaxonomy): this {
+        this.taxonomies.push(taxonomy);
+        this.hooks.registerTaxonomies = () => this.taxonomies;
+        return this;
+    }
+
     /**
      * Add settings schema
      */
@@ -372,6 +398,7 @@ export function definePlugin(config: {
     shortcodes?: PluginShortcode[];
     widgets?: PluginWidget[];
     blocks?: PluginBlock[];
+    taxonomies?: PluginTaxonomy[];
 }): Plugin {
     const pluginConfig: PluginConfig = {
         name: config.name,
@@ -404,6 +431,7 @@ export function definePlugin(config: {
     if (config.shortcodes) config.shortcodes.forEach(shortcode => sdk.addShortcode(shortcode));
     if (config.widgets) config.widgets.forEach(widget => sdk.addWidget(widget));
     if (config.blocks) config.blocks.forEach(block => sdk.addBlock(block));
+    if (config.taxonomies) config.taxonomies.forEach(taxonomy => sdk.addTaxonomy(taxonomy));
 
     return sdk.build();
 }
@@ -42,6 +42,20 @@ export interface PluginConfig {
   settings?: PluginSettingsSchema;
 }
 
+/**
+ * A new comment passed to `checkCommentSpam` hooks
+ */
+export interface CommentSpamCheck {
+  postId: number;
+  authorId?: number;
+  authorName: string;
+  authorEmail: string;
+  authorUrl?: string;
+  authorIp?: string;
+  agent?: string;
+  content: string;
+}
+
 /**
  * Plugin lifecycle and content hooks
  */
@@ -79,6 +93,14 @@ export interface PluginHooks {
   beforeRequest?: (event: any) => Promise<void> | void;
   /** Called after processing a request */
   afterRequest?: (event: any, response?: Response) => Promise<void> | void;
+
+  // Output hooks
+  /** Filter the schema.org JSON-LD graph of a public page; return the graph to use */
+  filterStructuredData?: (graph: Record<string, unknown>[], context: { kind: string; url: string; baseUrl: string }) => Promise<Record<string, unknown>[]> | Record<string, unknown>[];
+
+  // Comment hooks
+  /** Check a new comment for spam; return a reason to mark it as spam, or null to let it through */
+  checkCommentSpam?: (comment: CommentSpamCheck) => Promise<string | null | undefined> | string | null | undefined;
   
   // Auth hooks
   /** Called before user login */
@@ -103,6 +125,8 @@ export interface PluginHooks {
   registerWidgets?: () => PluginWidget[];
   /** Register editor blocks */
   registerBlocks?: () => PluginBlock[];
+  /** Register custom taxonomies for post types */
+  registerTaxonomies?: () => PluginTaxonomy[];
 }
 
 /**
@@ -255,6 +279,22 @@ export interface PluginBlock {
   };
 }
 
+/**
+ * Custom taxonomy definition
+ */
+export interface PluginTaxonomy {
+  /** Name of the post type the taxonomy belongs to */
+  postType: string;
+  /** Taxonomy identifier, used in term archive URLs (lowercase letters, numbers and hyphens) */
+  name: string;
+  /** Display label */
+  label: string;
+  /** Taxonomy description */
+  description?: string;
+  /** Whether terms can have parent terms, like categories */
+  hierarchical?: boolean;
+}
+
 /**
  * Plugin settings schema
  */
@@ -431,6 +471,12 @@ export type HookName =
   | 'beforeRequest'
   | 'afterRequest'
   
+  // Output filters
+  | 'filterStructuredData'
+
+  // Comment checks
+  | 'checkCommentSpam'
+  
   // Auth lifecycle
   | 'beforeLogin'
   | 'afterLogin'
@@ -443,7 +489,8 @@ export type HookName =
   | 'registerAdminPages'
   | 'registerShortcodes'
   | 'registerWidgets'
-  | 'registerBlocks';
+  | 'registerBlocks'
+  | 'registerTaxonomies';
 
 // ====== EVENT SYSTEM TYPES ======
 
@@ -458,6 +505,9 @@ export type EventName =
   | 'content:deleted'
   | 'content:published'
   | 'content:draft'
+  | 'content:expired'
+  // Comment events
+  | 'comment:created'
   // User events
   | 'user:login'
   | 'user:logout'
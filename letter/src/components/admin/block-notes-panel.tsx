@@ -0,0 +1,293 @@
+import { For, Show, createEffect, createSignal, on, type JSX } from "solid-js";
+
+export interface NoteUser {
+    id: number;
+    name: string | null;
+    username: string | null;
+}
+
+export interface BlockNoteItem {
+    id: number;
+    blockUid: string;
+    quote: string | null;
+    resolvedAt: Date | string | null;
+    createdAt: Date | string;
+    author: NoteUser;
+    resolvedBy: NoteUser | null;
+    comments: {
+        id: number;
+        body: string;
+        createdAt: Date | string;
+        author: NoteUser;
+    }[];
+}
+
+export interface NoteBlock {
+    uid: string;
+    blockType: string;
+    excerpt: string;
+}
+
+// Where a new note goes, picked in the block editor
+export interface NoteDraft {
+    blockUid: string;
+    quote: string | null;
+}
+
+interface BlockNotesPanelProps {
+    notes: BlockNoteItem[];
+    blocks: NoteBlock[];
+    mentionCandidates: NoteUser[];
+    draft: NoteDraft | null;
+    busy: boolean;
+    onCreate: (body: string) => Promise<unknown>;
+    onCancelDraft: () => void;
+    onReply: (noteId: number, body: string) => Promise<unknown>;
+    onResolve: (noteId: number, resolved: boolean) => Promise<unknown>;
+}
+
+function userName(user: NoteUser | null): string {
+    return user?.name || user?.username || "Someone";
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Bring a note's block into view in the editor
+function showBlock(blockUid: string) {
+    document.querySelector(`[data-block-uid="${CSS.escape(blockUid)}"]`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+}
+
+function NoteBody(props: { body: string }): JSX.Element {
+    return (
+        <p class="text-gray-800 whitespace-pre-wrap">
+            <For each={props.body.split(/(@[\w.-]+)/)}>
+                {(part) => part.startsWith("@")
+                    ? <span class="text-blue-700 font-medium">{part}</span>
+                    : part}
+            </For>
+        </p>
+    );
+}
+
+function NoteComposer(props: {
+    placeholder: string;
+    submitLabel: string;
+    candidates: NoteUser[];
+    busy: boolean;
+    onSubmit: (body: string) => Promise<unknown>;
+    onCancel?: () => void;
+}): JSX.Element {
+    const [body, setBody] = createSignal("");
+
+    const mention = (username: string) => {
+        setBody(current => `${current}${current && !current.endsWith(" ") ? " " : ""}@${username} `);
+    };
+
+    const submit = async () => {
+        if (!body().trim()) return;
+        try {
+            await props.onSubmit(body());
+            setBody("");
+        } catch (error) {
+            alert(`Error saving note: ${errorMessage(error)}`);
+        }
+    };
+
+    return (
+        <div class="mt-2">
+            <textarea
+                value={body()}
+                onInput={(e) => setBody(e.currentTarget.value)}
+                rows={2}
+                placeholder={props.placeholder}
+                class="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div class="mt-1 flex items-center gap-2">
+                <Show when={props.candidates.length > 0}>
+                    <select
+                        value=""
+                        onChange={(e) => {
+                            if (e.currentTarget.value) mention(e.currentTarget.value);
+                            e.currentTarget.value = "";
+                        }}
+                        class="px-2 py-1 border border-gray-300 rounded text-xs text-gray-700"
+                    >
+                        <option value="">Mention…</option>
+                        <For each={props.candidates}>
+                            {(user) => <option value={user.username!}>{userName(user)} (@{user.username})</option>}
+                        </For>
+                    </select>
+                </Show>
+                <div class="ml-auto flex gap-2">
+                    <Show when={props.onCancel}>
+                        <button type="button" onClick={() => props.onCancel?.()} class="px-2 py-1 text-xs text-gray-600 hover:text-gray-900">
+                            Cancel
+                        </button>
+                    </Show>
+                    <button
+                        type="button"
+                        onClick={submit}
+                        disabled={props.busy || !body().trim()}
+                        class="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-xs font-medium disabled:cursor-not-allowed"
+                    >
+                        {props.submitLabel}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Sidebar of internal notes on the post's blocks: open threads, with
+ * resolved ones on request, and a composer for a note started from a block.
+ */
+export function BlockNotesPanel(props: BlockNotesPanelProps): JSX.Element {
+    const [showResolved, setShowResolved] = createSignal(false);
+    let composer: HTMLDivElement | undefined;
+
+    // A note started from a block is written here, so bring it into view
+    createEffect(on(() => props.draft, (draft) => {
+        if (draft) composer?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }));
+
+    const blockFor = (uid: string) => props.blocks.find(block => block.uid === uid);
+    const openNotes = () => props.notes.filter(note => !note.resolvedAt);
+    const resolvedNotes = () => props.notes.filter(note => note.resolvedAt);
+    const visibleNotes = () => showResolved() ? props.notes : openNotes();
+
+    const blockLabel = (uid: string) => {
+        const block = blockFor(uid);
+        if (!block) return "Block not in the saved post";
+        return block.excerpt ? `${block.blockType}: ${block.excerpt}` : block.blockType;
+    };
+
+    const resolve = async (noteId: number, resolved: boolean) => {
+        try {
+            await props.onResolve(noteId, resolved);
+        } catch (error) {
+            alert(`Error updating note: ${errorMessage(error)}`);
+        }
+    };
+
+    return (
+        <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-6">
+            <div class="flex items-center justify-between">
+                <h3 class="text-lg font-semibold text-gray-900">Notes</h3>
+                <Show when={resolvedNotes().length > 0}>
+                    <label class="flex items-center text-xs text-gray-600">
+                        <input
+                            type="checkbox"
+                            class="mr-1"
+                            checked={showResolved()}
+                            onChange={(e) => setShowResolved(e.currentTarget.checked)}
+                        />
+                        Show resolved ({resolvedNotes().length})
+                    </label>
+                </Show>
+            </div>
+            <p class="text-xs text-gray-500 mb-4">
+                Only editors see notes. Select text in a block and press 💬 to note part of it.
+            </p>
+
+            <Show when={props.draft}>
+                {(draft) => (
+                    <div ref={composer} class="mb-4 p-3 rounded-lg border border-blue-200 bg-blue-50 text-sm">
+                        <div class="text-xs text-gray-600">New note on {blockLabel(draft().blockUid)}</div>
+                        <Show when={draft().quote}>
+                            <blockquote class="mt-1 pl-2 border-l-2 border-blue-300 text-gray-700 italic">
+                                {draft().quote}
+                            </blockquote>
+                        </Show>
+                        <NoteComposer
+                            placeholder="Write a note; @username mentions someone"
+                            submitLabel="Add note"
+                            candidates={props.mentionCandidates}
+                            busy={props.busy}
+                            onSubmit={props.onCreate}
+                            onCancel={props.onCancelDraft}
+                        />
+                    </div>
+                )}
+            </Show>
+
+            <Show
+                when={visibleNotes().length > 0}
+                fallback={<p class="text-sm text-gray-500">No open notes.</p>}
+            >
+                <ul class="space-y-4">
+                    <For each={visibleNotes()}>
+                        {(note) => (
+                            <li class={`p-3 rounded-lg border text-sm ${note.resolvedAt ? "border-gray-200 bg-gray-50" : "border-yellow-200 bg-yellow-50"}`}>
+                                <button
+                                    type="button"
+                                    onClick={() => showBlock(note.blockUid)}
+                                    class="text-xs text-gray-600 hover:text-blue-700 text-left"
+                                    title="Show this block in the editor"
+                                >
+                                    {blockLabel(note.blockUid)}
+                                </button>
+                                <Show when={note.quote}>
+                                    <blockquote class="mt-1 pl-2 border-l-2 border-yellow-300 text-gray-700 italic">
+                                        {note.quote}
+                                    </blockquote>
+                                </Show>
+
+                                <ul class="mt-2 space-y-2">
+                                    <For each={note.comments}>
+                                        {(comment) => (
+                                            <li>
+                                                <div class="text-xs text-gray-500">
+                                                    {userName(comment.author)} • {new Date(comment.createdAt).toLocaleString()}
+                                                </div>
+                                                <NoteBody body={comment.body} />
+                                            </li>
+                                        )}
+                                    </For>
+                                </ul>
+
+                                <Show
+                                    when={!note.resolvedAt}
+                                    fallback={
+                                        <div class="mt-2 flex items-center justify-between text-xs text-gray-500">
+                                            <span>
+                                                Resolved by {userName(note.resolvedBy)} on {new Date(note.resolvedAt!).toLocaleString()}
+                                            </span>
+                                            <button
+                                                type="button"
+                                                onClick={() => resolve(note.id, false)}
+                                                disabled={props.busy}
+                                                class="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                                            >
+                                                Reopen
+                                            </button>
+                                        </div>
+                                    }
+                                >
+                                    <NoteComposer
+                                        placeholder="Reply"
+                                        submitLabel="Reply"
+                                        candidates={props.mentionCandidates}
+                                        busy={props.busy}
+                                        onSubmit={(body) => props.onReply(note.id, body)}
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => resolve(note.id, true)}
+                                        disabled={props.busy}
+                                        class="mt-1 text-xs text-green-700 hover:text-green-900 disabled:opacity-50"
+                                    >
+                                        Resolve
+                                    </button>
+                                </Show>
+                            </li>
+                        )}
+                    </For>
+                </ul>
+            </Show>
+        </div>
+    );
+}
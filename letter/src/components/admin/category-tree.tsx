@@ -0,0 +1,170 @@
+import { For, Show, createSignal, type JSX } from "solid-js";
+
+export interface CategoryTreeItem {
+    id: number;
+    name: string;
+    slug: string;
+    description: string | null;
+    parentId: number | null;
+    postCount: number;
+}
+
+interface CategoryTreeProps {
+    categories: CategoryTreeItem[];
+    selected: number[];
+    editingId: number | null;
+    moving: boolean;
+    onToggle: (id: number) => void;
+    onEdit: (id: number | null) => void;
+    onMove: (id: number, parentId: number | null) => void;
+}
+
+type TreeRow = CategoryTreeItem & { depth: number };
+
+// Depth-first list of the tree, alphabetical within each level. Categories
+// whose parent is missing are shown at the top level.
+function flattenTree(categories: CategoryTreeItem[]): TreeRow[] {
+    const ids = new Set(categories.map(category => category.id));
+    const rows: TreeRow[] = [];
+    const visit = (parentId: number | null, depth: number) => {
+        const children = categories
+            .filter(category => category.parentId === parentId)
+            .sort((a, b) => a.name.localeCompare(b.name));
+        for (const category of children) {
+            rows.push({ ...category, depth });
+            visit(category.id, depth + 1);
+        }
+    };
+    visit(null, 0);
+    for (const category of categories) {
+        if (category.parentId !== null && !ids.has(category.parentId)) {
+            rows.push({ ...category, depth: 0 });
+            visit(category.id, 1);
+        }
+    }
+    return rows;
+}
+
+// Whether `id` is `ancestorId` or sits somewhere below it
+function isWithin(categories: CategoryTreeItem[], id: number, ancestorId: number): boolean {
+    const parents = new Map(categories.map(category => [category.id, category.parentId]));
+    const seen = new Set<number>();
+    for (let current: number | null = id; current !== null && !seen.has(current); current = parents.get(current) ?? null) {
+        if (current === ancestorId) return true;
+        seen.add(current);
+    }
+    return false;
+}
+
+/**
+ * Category hierarchy editor. Dropping a category on another makes it a
+ * subcategory; dropping it on the top-level zone detaches it. Each move is
+ * saved right away.
+ */
+export function CategoryTree(props: CategoryTreeProps): JSX.Element {
+    const [dragged, setDragged] = createSignal<number | null>(null);
+    const [dropTarget, setDropTarget] = createSignal<number | "root" | null>(null);
+
+    const rows = () => flattenTree(props.categories);
+
+    const canDrop = (parentId: number | null) => {
+        const id = dragged();
+        if (id === null || props.moving) return false;
+        const category = props.categories.find(candidate => candidate.id === id);
+        if (!category || category.parentId === parentId) return false;
+        return parentId === null || !isWithin(props.categories, parentId, id);
+    };
+
+    const dragOver = (event: DragEvent, target: number | "root") => {
+        if (!canDrop(target === "root" ? null : target)) return;
+        event.preventDefault();
+        setDropTarget(target);
+    };
+
+    const drop = (event: DragEvent, parentId: number | null) => {
+        event.preventDefault();
+        const id = dragged();
+        if (id !== null && canDrop(parentId)) props.onMove(id, parentId);
+        endDrag();
+    };
+
+    const endDrag = () => {
+        setDragged(null);
+        setDropTarget(null);
+    };
+
+    return (
+        <div>
+            <Show
+                when={rows().length > 0}
+                fallback={<p class="p-6 text-sm text-gray-500">No categories yet.</p>}
+            >
+                <ul class="divide-y divide-gray-100">
+                    <For each={rows()}>
+                        {(row) => (
+                            <li
+                                draggable={!props.moving}
+                                onDragStart={(event) => {
+                                    event.dataTransfer?.setData("text/plain", String(row.id));
+                                    setDragged(row.id);
+                                }}
+                                onDragEnd={endDrag}
+                                onDragOver={(event) => dragOver(event, row.id)}
+                                onDragLeave={() => dropTarget() === row.id && setDropTarget(null)}
+                                onDrop={(event) => drop(event, row.id)}
+                                class={`px-6 py-3 flex items-center gap-3 ${
+                                    dropTarget() === row.id ? "bg-blue-50 ring-2 ring-inset ring-blue-400" : ""
+                                } ${dragged() === row.id ? "opacity-50" : ""}`}
+                                style={{ "padding-left": `${1.5 + row.depth * 1.5}rem` }}
+                            >
+                                <span class="cursor-move text-gray-400 select-none" title="Drag to move">⋮⋮</span>
+                                <input
+                                    type="checkbox"
+                                    checked={props.selected.includes(row.id)}
+                                    onChange={() => props.onToggle(row.id)}
+                                />
+                                <div class="flex-1 min-w-0">
+                                    <div class="text-sm font-medium text-gray-900">
+                                        <Show when={row.depth > 0}>
+                                            <span class="text-gray-400 mr-1">└</span>
+                                        </Show>
+                                        {row.name}
+                                        <span class="ml-2 text-xs text-gray-500">/{row.slug}</span>
+                                    </div>
+                                    <Show when={row.description}>
+                                        <div class="text-xs text-gray-500 truncate">{row.description}</div>
+                                    </Show>
+                                </div>
+                                <span class="text-xs text-gray-500 whitespace-nowrap">
+                                    {row.postCount === 1 ? "1 post" : `${row.postCount} posts`}
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={() => props.onEdit(props.editingId === row.id ? null : row.id)}
+                                    class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+                                >
+                                    {props.editingId === row.id ? "Close" : "Edit"}
+                                </button>
+                            </li>
+                        )}
+                    </For>
+                </ul>
+            </Show>
+
+            <Show when={dragged() !== null}>
+                <div
+                    onDragOver={(event) => dragOver(event, "root")}
+                    onDragLeave={() => dropTarget() === "root" && setDropTarget(null)}
+                    onDrop={(event) => drop(event, null)}
+                    class={`m-4 p-4 rounded-lg border-2 border-dashed text-center text-sm ${
+                        dropTarget() === "root"
+                            ? "border-blue-400 bg-blue-50 text-blue-700"
+                            : "border-gray-300 text-gray-500"
+                    }`}
+                >
+                    Drop here to make it a top-level category
+                </div>
+            </Show>
+        </div>
+    );
+}
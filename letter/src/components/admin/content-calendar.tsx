@@ -0,0 +1,215 @@
+import { For, Show, createSignal, type JSX } from "solid-js";
+import { A } from "@solidjs/router";
+
+export type CalendarView = "month" | "week";
+
+export interface CalendarItem {
+    id: number;
+    title: string;
+    status: string;
+    type: string;
+    customType: string | null;
+    publishedAt: Date | string | null;
+    author: { id: number; name: string | null; username: string | null };
+}
+
+interface ContentCalendarProps {
+    view: CalendarView;
+    // Any day of the month or week shown
+    date: Date;
+    items: CalendarItem[];
+    tray: CalendarItem[];
+    moving: boolean;
+    // Dropped on a day; the item keeps its time of day, undated ones get 9:00
+    onMove: (item: CalendarItem, publishedAt: Date) => Promise<unknown>;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const STATUS_STYLES: Record<string, string> = {
+    PUBLISHED: "bg-green-100 text-green-800 border-green-200",
+    SCHEDULED: "bg-blue-100 text-blue-800 border-blue-200",
+    PRIVATE: "bg-purple-100 text-purple-800 border-purple-200",
+    REVIEW: "bg-orange-100 text-orange-800 border-orange-200",
+    DRAFT: "bg-gray-100 text-gray-800 border-gray-200",
+};
+
+function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function sameDay(a: Date, b: Date): boolean {
+    return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
+
+/**
+ * Days shown for a month or week, in whole weeks from Sunday, and the range
+ * to load content for: from the first day up to, not including, `to`.
+ */
+export function calendarRange(view: CalendarView, date: Date): { from: Date; to: Date; days: Date[] } {
+    let first: Date;
+    let count: number;
+    if (view === "week") {
+        first = addDays(startOfDay(date), -date.getDay());
+        count = 7;
+    } else {
+        const monthStart = new Date(date.getFullYear(), date.getMonth(), 1);
+        const monthEnd = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+        first = addDays(monthStart, -monthStart.getDay());
+        count = Math.ceil((monthStart.getDay() + monthEnd.getDate()) / 7) * 7;
+    }
+    const days = Array.from({ length: count }, (_, index) => addDays(first, index));
+    return { from: first, to: addDays(first, count), days };
+}
+
+/**
+ * The same month or week, `step` months or weeks away.
+ */
+export function shiftCalendar(view: CalendarView, date: Date, step: number): Date {
+    return view === "week"
+        ? addDays(date, step * 7)
+        : new Date(date.getFullYear(), date.getMonth() + step, 1);
+}
+
+/**
+ * Title of the month or week shown.
+ */
+export function calendarTitle(view: CalendarView, date: Date): string {
+    if (view === "month") return date.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+    const { days } = calendarRange("week", date);
+    const format = (day: Date) => day.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+    return `${format(days[0])} – ${format(days[6])}, ${days[6].getFullYear()}`;
+}
+
+function editPath(item: CalendarItem): string {
+    return `/admin/${item.type === "PAGE" ? "pages" : "posts"}/edit/${item.id}`;
+}
+
+// Publish date for an item dropped on a day
+function movedDate(item: CalendarItem, day: Date): Date {
+    const moved = new Date(day);
+    if (item.publishedAt) {
+        const current = new Date(item.publishedAt);
+        moved.setHours(current.getHours(), current.getMinutes(), 0, 0);
+    } else {
+        moved.setHours(9, 0, 0, 0);
+    }
+    return moved;
+}
+
+function CalendarEntry(props: { item: CalendarItem; onDragStart: () => void }): JSX.Element {
+    return (
+        <div
+            draggable={true}
+            onDragStart={(e) => {
+                e.dataTransfer!.effectAllowed = "move";
+                e.dataTransfer!.setData("text/plain", String(props.item.id));
+                props.onDragStart();
+            }}
+            class={`px-2 py-1 rounded border text-xs cursor-move ${STATUS_STYLES[props.item.status] ?? STATUS_STYLES.DRAFT}`}
+            title={`${props.item.title} • ${props.item.status} • ${props.item.author.name || props.item.author.username || ""}`}
+        >
+            <A href={editPath(props.item)} class="block truncate font-medium hover:underline">
+                {props.item.title}
+            </A>
+            <div class="flex justify-between gap-1 opacity-75">
+                <span class="truncate">{props.item.customType || props.item.status.toLowerCase()}</span>
+                <Show when={props.item.publishedAt}>
+                    <span>
+                        {new Date(props.item.publishedAt!).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                    </span>
+                </Show>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Month or week grid of content by publish date, beside a tray of undated
+ * drafts. Dragging an entry onto a day moves its publish date there.
+ */
+export function ContentCalendar(props: ContentCalendarProps): JSX.Element {
+    const [dragged, setDragged] = createSignal<CalendarItem | null>(null);
+    const [overDay, setOverDay] = createSignal<number | null>(null);
+
+    const range = () => calendarRange(props.view, props.date);
+    const itemsOn = (day: Date) =>
+        props.items.filter((item) => item.publishedAt && sameDay(new Date(item.publishedAt), day));
+    const inPeriod = (day: Date) => props.view === "week" || day.getMonth() === props.date.getMonth();
+
+    const drop = async (day: Date) => {
+        const item = dragged();
+        setDragged(null);
+        setOverDay(null);
+        if (!item || props.moving) return;
+        if (item.publishedAt && sameDay(new Date(item.publishedAt), day)) return;
+
+        const publishedAt = movedDate(item, day);
+        if (
+            item.status === "PUBLISHED" &&
+            publishedAt > new Date() &&
+            !confirm(`"${item.title}" is live. Moving it to a future day takes it offline until then. Move it?`)
+        ) {
+            return;
+        }
+        await props.onMove(item, publishedAt);
+    };
+
+    return (
+        <div class="flex gap-6 items-start">
+            <div class="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                <div class="grid grid-cols-7 border-b border-gray-200 bg-gray-50">
+                    <For each={WEEKDAYS}>
+                        {(weekday) => <div class="px-2 py-2 text-xs font-medium text-gray-500 text-center">{weekday}</div>}
+                    </For>
+                </div>
+                <div class="grid grid-cols-7">
+                    <For each={range().days}>
+                        {(day) => (
+                            <div
+                                onDragOver={(e) => {
+                                    e.preventDefault();
+                                    setOverDay(day.getTime());
+                                }}
+                                onDragLeave={() => setOverDay(null)}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    drop(day);
+                                }}
+                                class={`border-b border-r border-gray-100 p-1 space-y-1 ${props.view === "week" ? "min-h-[24rem]" : "min-h-[7rem]"} ${
+                                    overDay() === day.getTime() ? "bg-blue-50" : inPeriod(day) ? "" : "bg-gray-50"
+                                }`}
+                            >
+                                <div class={`text-xs text-right ${sameDay(day, new Date()) ? "font-bold text-blue-700" : inPeriod(day) ? "text-gray-700" : "text-gray-400"}`}>
+                                    {day.getDate()}
+                                </div>
+                                <For each={itemsOn(day)}>
+                                    {(item) => <CalendarEntry item={item} onDragStart={() => setDragged(item)} />}
+                                </For>
+                            </div>
+                        )}
+                    </For>
+                </div>
+            </div>
+
+            <div class="w-64 shrink-0 bg-white rounded-lg shadow-sm border border-gray-200 p-3">
+                <h3 class="text-sm font-semibold text-gray-900">Unscheduled</h3>
+                <p class="text-xs text-gray-500 mb-3">Drag a draft onto a day to plan it.</p>
+                <Show
+                    when={props.tray.length > 0}
+                    fallback={<p class="text-xs text-gray-500">Nothing waiting.</p>}
+                >
+                    <div class="space-y-1 max-h-[36rem] overflow-y-auto">
+                        <For each={props.tray}>
+                            {(item) => <CalendarEntry item={item} onDragStart={() => setDragged(item)} />}
+                        </For>
+                    </div>
+                </Show>
+            </div>
+        </div>
+    );
+}
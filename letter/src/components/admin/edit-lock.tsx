@@ -0,0 +1,125 @@
+import { Match, Show, Switch, createSignal, onCleanup, onMount, type JSX } from "solid-js";
+import { A } from "@solidjs/router";
+
+// How often the editor renews its lock; well within the lock timeout
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+export interface LockHolder {
+    id: number;
+    name: string | null;
+    username: string | null;
+}
+
+export interface LockResult {
+    acquired: boolean;
+    holder: LockHolder | null;
+}
+
+interface EditLockProps {
+    // Claims or renews the lock; takeover claims it from another editor
+    acquire: (takeover: boolean) => Promise<LockResult | undefined>;
+    release: () => Promise<unknown>;
+    backHref: string;
+    children: JSX.Element;
+}
+
+type LockState = "checking" | "held" | "blocked" | "lost";
+
+export function holderName(holder: LockHolder | null | undefined): string {
+    return holder?.name || holder?.username || "Another editor";
+}
+
+/**
+ * Hold the edit lock of a post while its editor is open. When someone else
+ * is editing, the editor stays hidden until the user takes over; the other
+ * editor is told on their next heartbeat.
+ */
+export function EditLock(props: EditLockProps): JSX.Element {
+    const [state, setState] = createSignal<LockState>("checking");
+    const [holder, setHolder] = createSignal<LockHolder | null>(null);
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const stopHeartbeat = () => {
+        if (timer) clearInterval(timer);
+        timer = undefined;
+    };
+
+    const apply = (result: LockResult | undefined, lostState: "blocked" | "lost") => {
+        if (result?.acquired) {
+            setState("held");
+            return;
+        }
+        stopHeartbeat();
+        setHolder(result?.holder ?? null);
+        setState(lostState);
+    };
+
+    // A failed heartbeat is retried on the next one; the lock outlives a few misses
+    const heartbeat = async () => {
+        try {
+            apply(await props.acquire(false), "lost");
+        } catch (error) {
+            console.error("Failed to renew edit lock:", error);
+        }
+    };
+
+    const claim = async (takeover: boolean) => {
+        try {
+            apply(await props.acquire(takeover), "blocked");
+            if (state() === "held" && !timer) timer = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+        } catch (error) {
+            console.error("Failed to lock post for editing:", error);
+            // Editing without a lock beats not editing at all
+            setState("held");
+        }
+    };
+
+    onMount(() => claim(false));
+
+    onCleanup(() => {
+        stopHeartbeat();
+        if (state() === "held") props.release().catch(() => {});
+    });
+
+    return (
+        <Switch>
+            <Match when={state() === "checking"}>
+                <p class="text-sm text-gray-500">Checking whether anyone else is editing...</p>
+            </Match>
+            <Match when={state() === "blocked"}>
+                <div class="p-6 rounded-lg bg-yellow-50 border border-yellow-200">
+                    <h3 class="text-lg font-semibold text-yellow-900">
+                        {holderName(holder())} is editing this
+                    </h3>
+                    <p class="mt-1 text-sm text-yellow-800">
+                        If you take over, they'll be told and their unsaved changes may be lost.
+                    </p>
+                    <div class="mt-4 flex gap-2">
+                        <A
+                            href={props.backHref}
+                            class="px-4 py-2 rounded-lg border border-yellow-300 text-sm text-yellow-900 hover:bg-yellow-100"
+                        >
+                            Go back
+                        </A>
+                        <button
+                            type="button"
+                            onClick={() => claim(true)}
+                            class="px-4 py-2 rounded-lg bg-yellow-600 hover:bg-yellow-700 text-sm font-medium text-white"
+                        >
+                            Take over
+                        </button>
+                    </div>
+                </div>
+            </Match>
+            <Match when={state() === "held" || state() === "lost"}>
+                <Show when={state() === "lost"}>
+                    <div class="mb-6 p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                        {holderName(holder())} has taken over editing. Saving now would overwrite their
+                        work; copy anything you need and go back.
+                    </div>
+                </Show>
+                {props.children}
+            </Match>
+        </Switch>
+    );
+}
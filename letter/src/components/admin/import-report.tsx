@@ -0,0 +1,116 @@
+import { For, Show, type JSX } from "solid-js";
+import type { ImportTally, WordPressImportReport } from "~/lib/wordpress-import";
+
+interface ImportReportProps {
+    report: WordPressImportReport;
+}
+
+const AUTHOR_ACTIONS: Record<string, string> = {
+    mapped: "Assigned to the chosen user",
+    matched: "Matched to an existing user",
+    created: "New user",
+    existing: "Imported earlier",
+};
+
+function TallyRow(props: { label: string; tally: ImportTally }): JSX.Element {
+    return (
+        <tr>
+            <td class="py-1 pr-6 text-gray-700">{props.label}</td>
+            <td class="py-1 pr-6 text-right font-medium text-gray-900">{props.tally.created}</td>
+            <td class="py-1 pr-6 text-right text-gray-600">{props.tally.existing}</td>
+            <td class="py-1 text-right text-gray-600">{props.tally.skipped}</td>
+        </tr>
+    );
+}
+
+/**
+ * What an import did, or for a dry run would do: counts per kind of
+ * content, where each author's content goes, and anything left behind.
+ */
+export function ImportReport(props: ImportReportProps): JSX.Element {
+    const unsupported = () => Object.entries(props.report.blocks.unsupported);
+
+    return (
+        <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+            <div>
+                <h2 class="text-lg font-semibold text-gray-900">
+                    {props.report.dryRun ? "Dry run" : "Import finished"}: {props.report.siteTitle || props.report.source}
+                </h2>
+                <p class="text-sm text-gray-500">
+                    {props.report.dryRun
+                        ? "Nothing was written. This is what importing the file would do."
+                        : "Importing the same file again only adds what's new."}
+                </p>
+            </div>
+
+            <table class="text-sm">
+                <thead>
+                    <tr class="text-xs text-gray-500 uppercase tracking-wider">
+                        <th class="pb-2 pr-6 text-left font-medium"></th>
+                        <th class="pb-2 pr-6 text-right font-medium">{props.report.dryRun ? "To create" : "Created"}</th>
+                        <th class="pb-2 pr-6 text-right font-medium">Existing</th>
+                        <th class="pb-2 text-right font-medium">Skipped</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <TallyRow label="Users" tally={props.report.users} />
+                    <TallyRow label="Categories" tally={props.report.categories} />
+                    <TallyRow label="Tags" tally={props.report.tags} />
+                    <TallyRow label="Media" tally={props.report.media} />
+                    <TallyRow label="Posts" tally={props.report.posts} />
+                    <TallyRow label="Pages" tally={props.report.pages} />
+                    <TallyRow label="Comments" tally={props.report.comments} />
+                </tbody>
+            </table>
+
+            <p class="text-sm text-gray-600">
+                {props.report.blocks.converted} blocks converted and {props.report.meta} meta entries
+                {props.report.dryRun ? " to store" : " stored"}.
+            </p>
+
+            <Show when={unsupported().length > 0}>
+                <div>
+                    <h3 class="text-sm font-semibold text-gray-900 mb-1">Kept as rich text</h3>
+                    <p class="text-xs text-gray-500 mb-2">These WordPress blocks have no counterpart here; their HTML is kept as is.</p>
+                    <div class="flex flex-wrap gap-2">
+                        <For each={unsupported()}>
+                            {([name, count]) => (
+                                <span class="px-2 py-1 rounded bg-gray-100 text-xs text-gray-700">
+                                    {name} × {count}
+                                </span>
+                            )}
+                        </For>
+                    </div>
+                </div>
+            </Show>
+
+            <Show when={props.report.authors.length > 0}>
+                <div>
+                    <h3 class="text-sm font-semibold text-gray-900 mb-2">Authors</h3>
+                    <ul class="text-sm space-y-1">
+                        <For each={props.report.authors}>
+                            {(author) => (
+                                <li class="text-gray-700">
+                                    <span class="font-medium">{author.displayName}</span>
+                                    <span class="text-gray-500"> ({author.login})</span>: {AUTHOR_ACTIONS[author.action]}
+                                    <Show when={author.userId}>
+                                        <span class="text-gray-500"> #{author.userId}</span>
+                                    </Show>
+                                </li>
+                            )}
+                        </For>
+                    </ul>
+                </div>
+            </Show>
+
+            <Show when={props.report.warnings.length > 0}>
+                <div class="p-4 rounded-lg bg-yellow-50 border border-yellow-200">
+                    <h3 class="text-sm font-semibold text-yellow-900 mb-2">Warnings</h3>
+                    <ul class="text-sm text-yellow-800 space-y-1 list-disc pl-5">
+                        <For each={props.report.warnings}>{(warning) => <li>{warning}</li>}</For>
+                    </ul>
+                </div>
+            </Show>
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+import { For, Show, createSignal, type JSX } from "solid-js";
+import { A } from "@solidjs/router";
+
+export interface AdminNotificationItem {
+    id: number;
+    message: string;
+    link: string | null;
+    readAt: Date | string | null;
+    createdAt: Date | string;
+}
+
+interface NotificationBellProps {
+    notifications: AdminNotificationItem[];
+    unread: number;
+    // Marks every notification of the user as read
+    onRead: () => Promise<unknown>;
+}
+
+/**
+ * Header bell listing the user's latest admin notifications. Opening it
+ * marks them all as read.
+ */
+export function NotificationBell(props: NotificationBellProps): JSX.Element {
+    const [open, setOpen] = createSignal(false);
+    // Read on this page, before the notifications are next loaded
+    const [readHere, setReadHere] = createSignal(false);
+
+    const unread = () => readHere() ? 0 : props.unread;
+
+    const toggle = async () => {
+        setOpen(!open());
+        if (!open() || unread() === 0) return;
+        try {
+            await props.onRead();
+            setReadHere(true);
+        } catch (error) {
+            console.error("Failed to mark notifications as read:", error);
+        }
+    };
+
+    return (
+        <div class="relative">
+            <button
+                type="button"
+                onClick={toggle}
+                class="relative text-blue-600 hover:text-blue-800 p-2 rounded-lg border-2 border-transparent hover:border-blue-200 transition-all duration-200"
+                title="Notifications"
+                aria-expanded={open()}
+            >
+                <span class="text-lg">🔔</span>
+                <Show when={unread() > 0}>
+                    <span class="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+                        {unread() > 99 ? "99+" : unread()}
+                    </span>
+                </Show>
+            </button>
+
+            <Show when={open()}>
+                <div class="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+                    <Show
+                        when={props.notifications.length > 0}
+                        fallback={<p class="p-4 text-sm text-gray-500">No notifications.</p>}
+                    >
+                        <ul class="divide-y divide-gray-100">
+                            <For each={props.notifications}>
+                                {(notification) => (
+                                    <li class={`p-3 text-sm ${notification.readAt || readHere() ? "" : "bg-blue-50"}`}>
+                                        <Show
+                                            when={notification.link}
+                                            fallback={<p class="text-gray-900">{notification.message}</p>}
+                                        >
+                                            <A
+                                                href={notification.link!}
+                                                onClick={() => setOpen(false)}
+                                                class="text-gray-900 hover:text-blue-700"
+                                            >
+                                                {notification.message}
+                                            </A>
+                                        </Show>
+                                        <p class="mt-1 text-xs text-gray-500">
+                                            {new Date(notification.createdAt).toLocaleString()}
+                                        </p>
+                                    </li>
+                                )}
+                            </For>
+                        </ul>
+                    </Show>
+                </div>
+            </Show>
+        </div>
+    );
+}
@@ -0,0 +1,189 @@
+import { For, Show, createSignal, createEffect, type JSX } from "solid-js";
+import type { PostStatus } from "@prisma/client";
+
+export interface PageTreeItem {
+    id: number;
+    title: string;
+    slug: string;
+    status: PostStatus;
+    parentId: number | null;
+    menuOrder: number;
+    path: string;
+}
+
+export interface PageTreePosition {
+    id: number;
+    parentId: number | null;
+    menuOrder: number;
+}
+
+interface PageTreeProps {
+    pages: PageTreeItem[];
+    saving: boolean;
+    onSave: (positions: PageTreePosition[]) => Promise<unknown>;
+}
+
+type TreeRow = PageTreeItem & { depth: number };
+
+function childrenOf(pages: PageTreeItem[], parentId: number | null): PageTreeItem[] {
+    return pages
+        .filter(page => page.parentId === parentId)
+        .sort((a, b) => a.menuOrder - b.menuOrder || a.title.localeCompare(b.title));
+}
+
+// Depth-first list of the tree. Pages whose parent is missing are shown at the top level.
+function flattenTree(pages: PageTreeItem[]): TreeRow[] {
+    const ids = new Set(pages.map(page => page.id));
+    const rows: TreeRow[] = [];
+    const visit = (parentId: number | null, depth: number) => {
+        for (const page of childrenOf(pages, parentId)) {
+            rows.push({ ...page, depth });
+            visit(page.id, depth + 1);
+        }
+    };
+    visit(null, 0);
+    for (const page of pages) {
+        if (page.parentId !== null && !ids.has(page.parentId)) {
+            rows.push({ ...page, depth: 0 });
+            visit(page.id, 1);
+        }
+    }
+    return rows;
+}
+
+// Place `page` among the children of `parentId` at `index`, renumbering menuOrder
+function placePage(pages: PageTreeItem[], pageId: number, parentId: number | null, index: number): PageTreeItem[] {
+    const siblings = childrenOf(pages, parentId).filter(page => page.id !== pageId);
+    const moved = pages.find(page => page.id === pageId)!;
+    siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, { ...moved, parentId });
+
+    const positions = new Map(siblings.map((page, order) => [page.id, order]));
+    return pages.map(page => positions.has(page.id)
+        ? { ...page, parentId: page.id === pageId ? parentId : page.parentId, menuOrder: positions.get(page.id)! }
+        : page);
+}
+
+/**
+ * Page hierarchy editor. Pages are moved with up/down and indent/outdent
+ * controls; nothing is stored until the new order is saved.
+ */
+export function PageTree(props: PageTreeProps): JSX.Element {
+    const [pages, setPages] = createSignal<PageTreeItem[]>(props.pages);
+    const [dirty, setDirty] = createSignal(false);
+
+    // Start over from the server's tree whenever it is reloaded
+    createEffect(() => {
+        setPages(props.pages);
+        setDirty(false);
+    });
+
+    const rows = () => flattenTree(pages());
+
+    const siblingsOf = (page: PageTreeItem) => childrenOf(pages(), page.parentId);
+
+    const update = (next: PageTreeItem[]) => {
+        setPages(next);
+        setDirty(true);
+    };
+
+    const moveBy = (page: PageTreeItem, offset: number) => {
+        const index = siblingsOf(page).findIndex(sibling => sibling.id === page.id);
+        update(placePage(pages(), page.id, page.parentId, index + offset));
+    };
+
+    // Make the page the last child of the sibling above it
+    const indent = (page: PageTreeItem) => {
+        const siblings = siblingsOf(page);
+        const previous = siblings[siblings.findIndex(sibling => sibling.id === page.id) - 1];
+        if (!previous) return;
+        update(placePage(pages(), page.id, previous.id, childrenOf(pages(), previous.id).length));
+    };
+
+    // Move the page up a level, right after its current parent
+    const outdent = (page: PageTreeItem) => {
+        const parent = pages().find(candidate => candidate.id === page.parentId);
+        if (!parent) return;
+        const index = childrenOf(pages(), parent.parentId).findIndex(sibling => sibling.id === parent.id);
+        update(placePage(pages(), page.id, parent.parentId, index + 1));
+    };
+
+    // Failures are reported by the caller; the changes stay unsaved
+    const save = async () => {
+        try {
+            await props.onSave(pages().map(page => ({
+                id: page.id,
+                parentId: page.parentId,
+                menuOrder: page.menuOrder
+            })));
+            setDirty(false);
+        } catch {
+            setDirty(true);
+        }
+    };
+
+    const buttonClass = "px-2 py-1 text-xs rounded border border-gray-300 text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+    return (
+        <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div class="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+                <div>
+                    <h2 class="text-lg font-semibold text-gray-900">Page Tree</h2>
+                    <p class="text-sm text-gray-500">
+                        Moving or renaming a page redirects its old address to the new one.
+                    </p>
+                </div>
+                <button
+                    type="button"
+                    onClick={save}
+                    disabled={!dirty() || props.saving}
+                    class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium transition-colors disabled:cursor-not-allowed"
+                >
+                    {props.saving ? "Saving..." : "Save Order"}
+                </button>
+            </div>
+
+            <Show
+                when={rows().length > 0}
+                fallback={<p class="p-6 text-sm text-gray-500">No pages yet.</p>}
+            >
+                <ul class="divide-y divide-gray-100">
+                    <For each={rows()}>
+                        {(row) => {
+                            const position = () => siblingsOf(row).findIndex(sibling => sibling.id === row.id);
+                            return (
+                                <li class="flex items-center justify-between px-6 py-3 hover:bg-gray-50">
+                                    <div class="flex items-center min-w-0" style={{ "padding-left": `${row.depth * 1.5}rem` }}>
+                                        <Show when={row.depth > 0}>
+                                            <span class="text-gray-300 mr-2">└</span>
+                                        </Show>
+                                        <div class="min-w-0">
+                                            <div class="text-sm font-medium text-gray-900 truncate">{row.title}</div>
+                                            <div class="text-xs text-gray-500 truncate">
+                                                {row.path}
+                                                <Show when={row.status !== "PUBLISHED"}>
+                                                    <span class="ml-2 uppercase tracking-wide text-yellow-600">
+                                                        {row.status.toLowerCase()}
+                                                    </span>
+                                                </Show>
+                                            </div>
+                                        </div>
+                                    </div>
+                                    <div class="flex items-center space-x-1 ml-4">
+                                        <button type="button" class={buttonClass} title="Move up"
+                                            disabled={position() <= 0} onClick={() => moveBy(row, -1)}>↑</button>
+                                        <button type="button" class={buttonClass} title="Move down"
+                                            disabled={position() >= siblingsOf(row).length - 1} onClick={() => moveBy(row, 1)}>↓</button>
+                                        <button type="button" class={buttonClass} title="Make subpage of the page above"
+                                            disabled={position() <= 0} onClick={() => indent(row)}>→</button>
+                                        <button type="button" class={buttonClass} title="Move up a level"
+                                            disabled={row.parentId === null} onClick={() => outdent(row)}>←</button>
+                                    </div>
+                                </li>
+                            );
+                        }}
+                    </For>
+                </ul>
+            </Show>
+        </div>
+    );
+}
@@ -0,0 +1,128 @@
+import { For, Show, createSignal, createEffect, type JSX } from "solid-js";
+
+export interface PostTaxonomyItem {
+    id: number;
+    label: string;
+    hierarchical: boolean;
+    terms: Array<{ id: number; name: string; parentId: number | null }>;
+    selectedTermIds: number[];
+}
+
+interface PostTermsProps {
+    taxonomies: PostTaxonomyItem[];
+    saving: boolean;
+    onSave: (taxonomyId: number, termIds: number[]) => Promise<unknown>;
+}
+
+/**
+ * Pick the terms a custom post type entry is filed under, one box per
+ * taxonomy of its type. Each taxonomy is saved on its own.
+ */
+export function PostTerms(props: PostTermsProps): JSX.Element {
+    return (
+        <Show when={props.taxonomies.length > 0}>
+            <div class="mt-8 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                    <h2 class="text-lg font-semibold text-gray-900">Taxonomies</h2>
+                </div>
+                <div class="divide-y divide-gray-100">
+                    <For each={props.taxonomies}>
+                        {(taxonomy) => <TaxonomyTerms taxonomy={taxonomy} saving={props.saving} onSave={props.onSave} />}
+                    </For>
+                </div>
+            </div>
+        </Show>
+    );
+}
+
+function TaxonomyTerms(props: {
+    taxonomy: PostTaxonomyItem;
+    saving: boolean;
+    onSave: PostTermsProps["onSave"];
+}): JSX.Element {
+    const [selected, setSelected] = createSignal<number[]>([]);
+    const [dirty, setDirty] = createSignal(false);
+
+    // Start over from the stored terms whenever they are reloaded
+    createEffect(() => {
+        setSelected(props.taxonomy.selectedTermIds);
+        setDirty(false);
+    });
+
+    // Hierarchical taxonomies list children right below their parents
+    const rows = () => {
+        const terms = props.taxonomy.terms;
+        if (!props.taxonomy.hierarchical) return terms.map(term => ({ ...term, depth: 0 }));
+
+        const ids = new Set(terms.map(term => term.id));
+        const rows: Array<PostTaxonomyItem["terms"][number] & { depth: number }> = [];
+        const visit = (parentId: number | null, depth: number) => {
+            for (const term of terms.filter(candidate => candidate.parentId === parentId)) {
+                rows.push({ ...term, depth });
+                visit(term.id, depth + 1);
+            }
+        };
+        visit(null, 0);
+        for (const term of terms) {
+            if (term.parentId !== null && !ids.has(term.parentId)) {
+                rows.push({ ...term, depth: 0 });
+                visit(term.id, 1);
+            }
+        }
+        return rows;
+    };
+
+    const toggle = (id: number) => {
+        setSelected(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+        setDirty(true);
+    };
+
+    // Failures are reported by the caller; the changes stay unsaved
+    const save = async () => {
+        try {
+            await props.onSave(props.taxonomy.id, selected());
+            setDirty(false);
+        } catch {
+            setDirty(true);
+        }
+    };
+
+    return (
+        <div class="px-6 py-4">
+            <div class="flex items-center justify-between mb-3">
+                <h3 class="text-sm font-medium text-gray-900">{props.taxonomy.label}</h3>
+                <button
+                    type="button"
+                    onClick={save}
+                    disabled={!dirty() || props.saving}
+                    class="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-xs font-medium disabled:cursor-not-allowed"
+                >
+                    {props.saving ? "Saving..." : "Save"}
+                </button>
+            </div>
+            <Show
+                when={props.taxonomy.terms.length > 0}
+                fallback={<p class="text-sm text-gray-500">No terms yet.</p>}
+            >
+                <div class={props.taxonomy.hierarchical ? "space-y-1" : "flex flex-wrap gap-x-4 gap-y-1"}>
+                    <For each={rows()}>
+                        {(term) => (
+                            <label
+                                class="flex items-center text-sm text-gray-700"
+                                style={{ "padding-left": `${term.depth * 1.25}rem` }}
+                            >
+                                <input
+                                    type="checkbox"
+                                    class="mr-2"
+                                    checked={selected().includes(term.id)}
+                                    onChange={() => toggle(term.id)}
+                                />
+                                {term.name}
+                            </label>
+                        )}
+                    </For>
+                </div>
+            </Show>
+        </div>
+    );
+}
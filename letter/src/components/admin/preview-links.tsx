@@ -0,0 +1,183 @@
+import { For, Show, createSignal, type JSX } from "solid-js";
+
+export interface PreviewLinkItem {
+    id: number;
+    label: string | null;
+    expiresAt: Date | string;
+    revokedAt: Date | string | null;
+    lastUsedAt: Date | string | null;
+    createdAt: Date | string;
+    createdBy: { name: string | null; username: string | null } | null;
+}
+
+interface PreviewLinksProps {
+    links: PreviewLinkItem[];
+    creating: boolean;
+    // Resolves to the new link's path
+    onCreate: (options: { expiresInHours: number; label: string }) => Promise<string | undefined>;
+    onRevoke: (id: number) => Promise<unknown>;
+}
+
+const EXPIRY_OPTIONS = [
+    { hours: 1, label: "1 hour" },
+    { hours: 24, label: "1 day" },
+    { hours: 24 * 7, label: "7 days" },
+    { hours: 24 * 30, label: "30 days" },
+];
+
+function linkState(link: PreviewLinkItem): { label: string; class: string } {
+    if (link.revokedAt) return { label: "Revoked", class: "bg-gray-100 text-gray-600" };
+    if (new Date(link.expiresAt) <= new Date()) return { label: "Expired", class: "bg-gray-100 text-gray-600" };
+    return { label: "Active", class: "bg-green-100 text-green-800" };
+}
+
+/**
+ * Create and revoke shareable preview links for a post. A new link is only
+ * shown right after it's created; afterwards just its record is listed.
+ */
+export function PreviewLinks(props: PreviewLinksProps): JSX.Element {
+    const [expiresInHours, setExpiresInHours] = createSignal(24);
+    const [label, setLabel] = createSignal("");
+    const [createdUrl, setCreatedUrl] = createSignal<string | null>(null);
+    const [copied, setCopied] = createSignal(false);
+
+    const create = async () => {
+        try {
+            const path = await props.onCreate({ expiresInHours: expiresInHours(), label: label() });
+            if (path) {
+                setCreatedUrl(new URL(path, window.location.origin).toString());
+                setCopied(false);
+                setLabel("");
+            }
+        } catch (error) {
+            console.error("Failed to create preview link:", error);
+            alert("Failed to create preview link. Please try again.");
+        }
+    };
+
+    const revoke = async (link: PreviewLinkItem) => {
+        if (!confirm("Revoke this preview link? Anyone using it will lose access.")) return;
+        try {
+            await props.onRevoke(link.id);
+        } catch (error) {
+            console.error("Failed to revoke preview link:", error);
+            alert("Failed to revoke preview link. Please try again.");
+        }
+    };
+
+    const copy = async () => {
+        const url = createdUrl();
+        if (!url) return;
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+    };
+
+    return (
+        <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-6">
+            <h3 class="text-lg font-semibold text-gray-900">Preview Links</h3>
+            <p class="text-sm text-gray-500 mb-4">
+                Anyone with a preview link can view this content, even as a draft, until the link expires or is revoked.
+            </p>
+
+            <div class="flex flex-wrap items-end gap-3">
+                <label class="text-sm text-gray-700">
+                    Label
+                    <input
+                        type="text"
+                        value={label()}
+                        onInput={(e) => setLabel(e.currentTarget.value)}
+                        placeholder="e.g. For legal review"
+                        class="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                </label>
+                <label class="text-sm text-gray-700">
+                    Expires after
+                    <select
+                        value={expiresInHours()}
+                        onChange={(e) => setExpiresInHours(Number(e.currentTarget.value))}
+                        class="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <For each={EXPIRY_OPTIONS}>
+                            {(option) => <option value={option.hours}>{option.label}</option>}
+                        </For>
+                    </select>
+                </label>
+                <button
+                    type="button"
+                    onClick={create}
+                    disabled={props.creating}
+                    class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium transition-colors disabled:cursor-not-allowed"
+                >
+                    {props.creating ? "Creating..." : "Create Link"}
+                </button>
+            </div>
+
+            <Show when={createdUrl()}>
+                {(url) => (
+                    <div class="mt-4 p-3 rounded-lg bg-blue-50 border border-blue-200">
+                        <p class="text-xs text-blue-800 mb-2">
+                            Copy this link now; it won't be shown again.
+                        </p>
+                        <div class="flex items-center gap-2">
+                            <input
+                                type="text"
+                                readOnly
+                                value={url()}
+                                onFocus={(e) => e.currentTarget.select()}
+                                class="flex-1 px-3 py-2 border border-blue-200 rounded-lg text-sm bg-white"
+                            />
+                            <button
+                                type="button"
+                                onClick={copy}
+                                class="px-3 py-2 text-sm rounded-lg border border-blue-300 text-blue-700 hover:bg-blue-100"
+                            >
+                                {copied() ? "Copied" : "Copy"}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </Show>
+
+            <Show when={props.links.length > 0}>
+                <ul class="mt-4 divide-y divide-gray-100">
+                    <For each={props.links}>
+                        {(link) => {
+                            const state = () => linkState(link);
+                            return (
+                                <li class="flex items-center justify-between py-3">
+                                    <div class="min-w-0">
+                                        <div class="text-sm font-medium text-gray-900 truncate">
+                                            {link.label || "Untitled link"}
+                                            <span class={`ml-2 px-2 py-0.5 text-xs rounded-full ${state().class}`}>
+                                                {state().label}
+                                            </span>
+                                        </div>
+                                        <div class="text-xs text-gray-500">
+                                            Created {new Date(link.createdAt).toLocaleString()}
+                                            <Show when={link.createdBy}>
+                                                {(author) => <> by {author().name || author().username}</>}
+                                            </Show>
+                                            {" • "}Expires {new Date(link.expiresAt).toLocaleString()}
+                                            <Show when={link.lastUsedAt}>
+                                                {" • "}Last viewed {new Date(link.lastUsedAt!).toLocaleString()}
+                                            </Show>
+                                        </div>
+                                    </div>
+                                    <Show when={state().label === "Active"}>
+                                        <button
+                                            type="button"
+                                            onClick={() => revoke(link)}
+                                            class="ml-4 px-3 py-1 text-sm rounded-lg border border-red-300 text-red-700 hover:bg-red-50"
+                                        >
+                                            Revoke
+                                        </button>
+                                    </Show>
+                                </li>
+                            );
+                        }}
+                    </For>
+                </ul>
+            </Show>
+        </div>
+    );
+}
@@ -0,0 +1,202 @@
+import { For, Show, createSignal, createEffect, type JSX } from "solid-js";
+
+export interface ReviewUser {
+    id: number;
+    name: string | null;
+    username: string | null;
+}
+
+export interface ReviewEventItem {
+    id: number;
+    action: string;
+    fromStatus: string;
+    toStatus: string;
+    note: string | null;
+    createdAt: Date | string;
+    actor: ReviewUser | null;
+}
+
+export type ReviewDecisionAction = "submit" | "approve" | "request_changes" | "reject";
+
+interface ReviewPanelProps {
+    status: string;
+    // Whether the user may publish, and so decide on content in review
+    canReview: boolean;
+    trail: ReviewEventItem[];
+    reviewerIds: number[];
+    candidates: ReviewUser[];
+    busy: boolean;
+    onDecide: (action: ReviewDecisionAction, note: string) => Promise<unknown>;
+    onAssign: (reviewerIds: number[]) => Promise<unknown>;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+    submit: "Submitted for review",
+    approve: "Approved",
+    request_changes: "Requested changes",
+    reject: "Rejected",
+    status_change: "Changed status",
+};
+
+function userName(user: ReviewUser | null): string {
+    return user?.name || user?.username || "System";
+}
+
+/**
+ * Move a post through review: submit it, or approve, send back or reject
+ * it when it's in review. Also picks the reviewers to notify and lists the
+ * post's status history.
+ */
+export function ReviewPanel(props: ReviewPanelProps): JSX.Element {
+    const [note, setNote] = createSignal("");
+    const [selected, setSelected] = createSignal<number[]>([]);
+
+    createEffect(() => setSelected(props.reviewerIds));
+
+    const decide = async (action: ReviewDecisionAction) => {
+        if (action === "request_changes" && !note().trim()) {
+            alert("Add a note telling the author what to change.");
+            return;
+        }
+        if (action === "reject" && !confirm("Reject this and move it to the trash?")) return;
+        try {
+            await props.onDecide(action, note());
+            setNote("");
+        } catch (error) {
+            alert(`Error: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    const toggleReviewer = (id: number) => {
+        setSelected(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+    };
+
+    const assignmentChanged = () =>
+        selected().length !== props.reviewerIds.length || selected().some(id => !props.reviewerIds.includes(id));
+
+    const saveReviewers = async () => {
+        try {
+            await props.onAssign(selected());
+        } catch (error) {
+            alert(`Error saving reviewers: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    return (
+        <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-6">
+            <h3 class="text-lg font-semibold text-gray-900">Review</h3>
+            <p class="text-sm text-gray-500 mb-4">
+                Status: <span class="font-medium text-gray-900">{props.status}</span>
+            </p>
+
+            <Show when={props.status === "DRAFT" || (props.status === "REVIEW" && props.canReview)}>
+                <textarea
+                    value={note()}
+                    onInput={(e) => setNote(e.currentTarget.value)}
+                    rows={2}
+                    placeholder={props.status === "REVIEW" ? "Note for the author" : "Note for the reviewers (optional)"}
+                    class="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div class="mt-2 flex flex-wrap gap-2">
+                    <Show when={props.status === "DRAFT"}>
+                        <button
+                            type="button"
+                            onClick={() => decide("submit")}
+                            disabled={props.busy}
+                            class="px-3 py-1 rounded-lg bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-sm font-medium text-white"
+                        >
+                            Submit for review
+                        </button>
+                    </Show>
+                    <Show when={props.status === "REVIEW"}>
+                        <button
+                            type="button"
+                            onClick={() => decide("approve")}
+                            disabled={props.busy}
+                            class="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 disabled:opacity-50 text-sm font-medium text-white"
+                        >
+                            Approve and publish
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => decide("request_changes")}
+                            disabled={props.busy}
+                            class="px-3 py-1 rounded-lg border border-yellow-300 text-yellow-800 hover:bg-yellow-50 disabled:opacity-50 text-sm"
+                        >
+                            Request changes
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => decide("reject")}
+                            disabled={props.busy}
+                            class="px-3 py-1 rounded-lg border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50 text-sm"
+                        >
+                            Reject
+                        </button>
+                    </Show>
+                </div>
+            </Show>
+            <Show when={props.status === "REVIEW" && !props.canReview}>
+                <p class="text-sm text-gray-600">Waiting for an editor to review this.</p>
+            </Show>
+
+            <Show when={props.candidates.length > 0}>
+                <div class="mt-6">
+                    <h4 class="text-sm font-medium text-gray-900 mb-2">Reviewers</h4>
+                    <div class="flex flex-wrap gap-x-4 gap-y-1">
+                        <For each={props.candidates}>
+                            {(candidate) => (
+                                <label class="flex items-center text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        class="mr-2"
+                                        checked={selected().includes(candidate.id)}
+                                        onChange={() => toggleReviewer(candidate.id)}
+                                    />
+                                    {userName(candidate)}
+                                </label>
+                            )}
+                        </For>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={saveReviewers}
+                        disabled={!assignmentChanged() || props.busy}
+                        class="mt-2 px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-xs font-medium disabled:cursor-not-allowed"
+                    >
+                        Save reviewers
+                    </button>
+                </div>
+            </Show>
+
+            <div class="mt-6">
+                <h4 class="text-sm font-medium text-gray-900 mb-2">History</h4>
+                <Show
+                    when={props.trail.length > 0}
+                    fallback={<p class="text-sm text-gray-500">No status changes yet.</p>}
+                >
+                    <ul class="space-y-2">
+                        <For each={props.trail}>
+                            {(event) => (
+                                <li class="text-sm">
+                                    <div class="text-gray-900">
+                                        {ACTION_LABELS[event.action] ?? event.action}
+                                        <span class="text-gray-500">
+                                            {" "}({event.fromStatus} → {event.toStatus})
+                                        </span>
+                                    </div>
+                                    <div class="text-xs text-gray-500">
+                                        {userName(event.actor)} • {new Date(event.createdAt).toLocaleString()}
+                                    </div>
+                                    <Show when={event.note}>
+                                        <p class="mt-1 text-gray-700 whitespace-pre-wrap">{event.note}</p>
+                                    </Show>
+                                </li>
+                            )}
+                        </For>
+                    </ul>
+                </Show>
+            </div>
+        </div>
+    );
+}
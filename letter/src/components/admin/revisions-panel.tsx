@@ -0,0 +1,187 @@
+import { For, Show, type JSX } from "solid-js";
+import type { BlockDiff, TextDiffPart } from "~/lib/revisions";
+
+export interface RevisionItem {
+    id: number;
+    title: string | null;
+    status: string | null;
+    createdAt: Date | string;
+    author: { name: string | null; username: string | null };
+}
+
+export interface RevisionComparisonItem {
+    revisionId: number;
+    previousId: number | null;
+    title: TextDiffPart[];
+    excerpt: TextDiffPart[];
+    status: { before: string | null; after: string | null };
+    blocks: BlockDiff[];
+}
+
+interface RevisionsPanelProps {
+    revisions: RevisionItem[];
+    selectedId: number | null;
+    comparison: RevisionComparisonItem | null | undefined;
+    restoring: boolean;
+    onSelect: (id: number | null) => void;
+    onRestore: (id: number) => Promise<unknown>;
+}
+
+const BLOCK_STATES: Record<BlockDiff["kind"], { label: string; class: string }> = {
+    added: { label: "Added", class: "border-green-300 bg-green-50" },
+    removed: { label: "Removed", class: "border-red-300 bg-red-50" },
+    changed: { label: "Changed", class: "border-yellow-300 bg-yellow-50" },
+    unchanged: { label: "Unchanged", class: "border-gray-200" },
+};
+
+function DiffText(props: { parts: TextDiffPart[] }): JSX.Element {
+    return (
+        <span class="whitespace-pre-wrap break-words">
+            <For each={props.parts}>
+                {(part) => (
+                    <span
+                        classList={{
+                            "bg-green-200 text-green-900": part.type === "insert",
+                            "bg-red-200 text-red-900 line-through": part.type === "delete",
+                        }}
+                    >
+                        {part.text}
+                    </span>
+                )}
+            </For>
+        </span>
+    );
+}
+
+/**
+ * Saved revisions of a post, newest first. Selecting one shows what it
+ * changed since the revision before it, block by block; restoring it saves
+ * its content as a new revision.
+ */
+export function RevisionsPanel(props: RevisionsPanelProps): JSX.Element {
+    const restore = async (id: number) => {
+        if (!confirm("Restore this revision? Unsaved changes in the editor will be lost.")) return;
+        try {
+            await props.onRestore(id);
+        } catch (error) {
+            console.error("Failed to restore revision:", error);
+            alert("Failed to restore revision. Please try again.");
+        }
+    };
+
+    const changedParts = (parts: TextDiffPart[]) => parts.some((part) => part.type !== "equal");
+
+    return (
+        <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mt-6">
+            <h3 class="text-lg font-semibold text-gray-900">Revisions</h3>
+            <p class="text-sm text-gray-500 mb-4">
+                Every save is kept as a revision. Select one to see what it changed.
+            </p>
+
+            <Show
+                when={props.revisions.length > 0}
+                fallback={<p class="text-sm text-gray-500">No revisions yet.</p>}
+            >
+                <ul class="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    <For each={props.revisions}>
+                        {(revision, index) => (
+                            <li>
+                                <div class="flex items-center gap-3 px-3 py-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => props.onSelect(props.selectedId === revision.id ? null : revision.id)}
+                                        class="flex-1 min-w-0 text-left"
+                                    >
+                                        <div class="text-sm font-medium text-gray-900 truncate">
+                                            {new Date(revision.createdAt).toLocaleString()}
+                                            <Show when={index() === 0}>
+                                                <span class="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
+                                                    Current
+                                                </span>
+                                            </Show>
+                                        </div>
+                                        <div class="text-xs text-gray-500 truncate">
+                                            {revision.author.name || revision.author.username || "Unknown"}
+                                            <span class="mx-2">•</span>
+                                            {revision.title || "(no title)"}
+                                            <Show when={revision.status}>
+                                                <span class="mx-2">•</span>
+                                                {revision.status}
+                                            </Show>
+                                        </div>
+                                    </button>
+                                    <Show when={index() > 0}>
+                                        <button
+                                            type="button"
+                                            onClick={() => restore(revision.id)}
+                                            disabled={props.restoring}
+                                            class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                        >
+                                            {props.restoring ? "Restoring..." : "Restore"}
+                                        </button>
+                                    </Show>
+                                </div>
+
+                                <Show when={props.selectedId === revision.id}>
+                                    <div class="px-3 pb-4">
+                                        <Show
+                                            when={props.comparison?.revisionId === revision.id ? props.comparison : null}
+                                            fallback={<p class="text-sm text-gray-500">Loading changes...</p>}
+                                        >
+                                            {(comparison) => (
+                                                <div class="space-y-3 text-sm">
+                                                    <Show when={comparison().previousId === null}>
+                                                        <p class="text-xs text-gray-500">
+                                                            The oldest revision kept; everything is shown as added.
+                                                        </p>
+                                                    </Show>
+                                                    <Show when={changedParts(comparison().title)}>
+                                                        <div>
+                                                            <div class="text-xs font-medium text-gray-500">Title</div>
+                                                            <DiffText parts={comparison().title} />
+                                                        </div>
+                                                    </Show>
+                                                    <Show when={changedParts(comparison().excerpt)}>
+                                                        <div>
+                                                            <div class="text-xs font-medium text-gray-500">Excerpt</div>
+                                                            <DiffText parts={comparison().excerpt} />
+                                                        </div>
+                                                    </Show>
+                                                    <Show when={comparison().status.before !== comparison().status.after}>
+                                                        <div class="text-xs text-gray-600">
+                                                            Status: {comparison().status.before || "none"} → {comparison().status.after || "none"}
+                                                        </div>
+                                                    </Show>
+                                                    <For
+                                                        each={comparison().blocks}
+                                                        fallback={<p class="text-xs text-gray-500">No blocks.</p>}
+                                                    >
+                                                        {(block) => (
+                                                            <div class={`border-l-4 rounded px-3 py-2 ${BLOCK_STATES[block.kind].class}`}>
+                                                                <div class="text-xs text-gray-500 mb-1">
+                                                                    {block.customType || block.blockType}
+                                                                    <span class="mx-2">•</span>
+                                                                    {BLOCK_STATES[block.kind].label}
+                                                                    <Show when={block.kind === "changed" && !changedParts(block.text)}>
+                                                                        {" "}(settings only)
+                                                                    </Show>
+                                                                </div>
+                                                                <div class={block.kind === "unchanged" ? "text-gray-500 line-clamp-2" : "text-gray-800"}>
+                                                                    <DiffText parts={block.text} />
+                                                                </div>
+                                                            </div>
+                                                        )}
+                                                    </For>
+                                                </div>
+                                            )}
+                                        </Show>
+                                    </div>
+                                </Show>
+                            </li>
+                        )}
+                    </For>
+                </ul>
+            </Show>
+        </div>
+    );
+}
@@ -0,0 +1,160 @@
+import { For, Show, createSignal, type JSX } from "solid-js";
+
+export interface TrashRow {
+    id: number;
+    title: string;
+    // Second line under the title, like the author or the post commented on
+    detail: string | null;
+    // Status a restore brings back, if the item has one
+    restoresTo: string | null;
+    trashedAt: Date | string;
+    purgeAt: Date | null;
+}
+
+interface TrashTableProps {
+    rows: TrashRow[];
+    // What the rows are, like "posts", for empty states and prompts
+    noun: string;
+    busy: boolean;
+    onRestore: (ids: number[]) => Promise<unknown>;
+    onDelete: (ids: number[]) => Promise<unknown>;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Trashed items of one kind, each with when it's purged, to restore or
+ * delete for good one at a time, by selection or all at once.
+ */
+export function TrashTable(props: TrashTableProps): JSX.Element {
+    const [selected, setSelected] = createSignal<number[]>([]);
+
+    const isSelected = (id: number) => selected().includes(id);
+    const allSelected = () => props.rows.length > 0 && props.rows.every(row => isSelected(row.id));
+    const toggle = (id: number) => {
+        setSelected(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+    };
+
+    const run = async (change: (ids: number[]) => Promise<unknown>, ids: number[], verb: string) => {
+        if (ids.length === 0) return;
+        try {
+            await change(ids);
+            setSelected(current => current.filter(id => !ids.includes(id)));
+        } catch (error) {
+            alert(`Error ${verb}: ${errorMessage(error)}`);
+        }
+    };
+
+    const restore = (ids: number[]) => run(props.onRestore, ids, "restoring");
+    const remove = (ids: number[], prompt: string) => {
+        if (!confirm(`${prompt} This can't be undone.`)) return;
+        return run(props.onDelete, ids, "deleting");
+    };
+
+    return (
+        <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div class="px-6 py-3 border-b border-gray-200 bg-gray-50 flex items-center gap-3 text-sm">
+                <span class="text-gray-600">
+                    {selected().length > 0 ? `${selected().length} selected` : `${props.rows.length} ${props.noun}`}
+                </span>
+                <div class="ml-auto flex gap-2">
+                    <Show when={selected().length > 0}>
+                        <button
+                            type="button"
+                            onClick={() => restore(selected())}
+                            disabled={props.busy}
+                            class="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-white disabled:opacity-50"
+                        >
+                            Restore selected
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => remove(selected(), `Delete ${selected().length} ${props.noun} permanently?`)}
+                            disabled={props.busy}
+                            class="px-3 py-1 rounded-lg border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                        >
+                            Delete selected
+                        </button>
+                    </Show>
+                    <button
+                        type="button"
+                        onClick={() => remove(props.rows.map(row => row.id), `Permanently delete all ${props.rows.length} trashed ${props.noun}?`)}
+                        disabled={props.busy || props.rows.length === 0}
+                        class="px-3 py-1 rounded-lg bg-red-600 hover:bg-red-700 text-white disabled:bg-red-300 disabled:cursor-not-allowed"
+                    >
+                        Empty trash
+                    </button>
+                </div>
+            </div>
+
+            <Show
+                when={props.rows.length > 0}
+                fallback={<p class="px-6 py-12 text-center text-sm text-gray-500">No trashed {props.noun}.</p>}
+            >
+                <table class="min-w-full divide-y divide-gray-200">
+                    <thead class="bg-gray-50">
+                        <tr>
+                            <th class="px-6 py-3 w-8">
+                                <input
+                                    type="checkbox"
+                                    checked={allSelected()}
+                                    onChange={(e) => setSelected(e.currentTarget.checked ? props.rows.map(row => row.id) : [])}
+                                />
+                            </th>
+                            <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                            <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trashed</th>
+                            <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purged</th>
+                            <th class="px-6 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody class="bg-white divide-y divide-gray-200">
+                        <For each={props.rows}>
+                            {(row) => (
+                                <tr class="hover:bg-gray-50">
+                                    <td class="px-6 py-4">
+                                        <input type="checkbox" checked={isSelected(row.id)} onChange={() => toggle(row.id)} />
+                                    </td>
+                                    <td class="px-6 py-4 text-sm">
+                                        <div class="font-medium text-gray-900">{row.title}</div>
+                                        <div class="text-xs text-gray-500">
+                                            {row.detail}
+                                            <Show when={row.restoresTo}>
+                                                <span>{row.detail ? " • " : ""}Restores as {row.restoresTo!.toLowerCase()}</span>
+                                            </Show>
+                                        </div>
+                                    </td>
+                                    <td class="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                        {new Date(row.trashedAt).toLocaleDateString()}
+                                    </td>
+                                    <td class="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                        {row.purgeAt ? row.purgeAt.toLocaleDateString() : "Never"}
+                                    </td>
+                                    <td class="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                        <button
+                                            type="button"
+                                            onClick={() => restore([row.id])}
+                                            disabled={props.busy}
+                                            class="text-blue-600 hover:text-blue-800 px-3 py-1 rounded hover:bg-blue-50 transition-colors disabled:opacity-50"
+                                        >
+                                            Restore
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => remove([row.id], `Delete "${row.title}" permanently?`)}
+                                            disabled={props.busy}
+                                            class="text-red-600 hover:text-red-800 px-3 py-1 rounded hover:bg-red-50 transition-colors disabled:opacity-50"
+                                        >
+                                            Delete permanently
+                                        </button>
+                                    </td>
+                                </tr>
+                            )}
+                        </For>
+                    </tbody>
+                </table>
+            </Show>
+        </div>
+    );
+}
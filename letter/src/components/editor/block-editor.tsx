@@ -17,6 +17,10 @@ export interface BlockEditorProps {
     onChange?: (blocks: ContentBlockWithChildren[]) => void;
     readonly?: boolean;
     className?: string;
+    // Open editorial notes per block uid, shown as a marker on the block
+    noteCounts?: Record<string, number>;
+    // Start a note on a block, quoting the text selected in it, if any
+    onAddNote?: (blockUid: string, quote: string | null) => void;
 }
 
 export interface EditorBlock extends Omit<ContentBlockWithChildren, 'id' | 'postId' | 'createdAt' | 'updatedAt'> {
@@ -75,6 +79,15 @@ export function BlockEditor(props: BlockEditorProps): JSX.Element {
     });
 
     const generateBlockId = () => `block-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const generateBlockUid = () => `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+
+    // Text selected inside the given block element, for a note about part of it
+    const selectedTextIn = (element: Element | null): string | null => {
+        const selection = window.getSelection();
+        if (!element || !selection || selection.isCollapsed || !selection.anchorNode) return null;
+        if (!element.contains(selection.anchorNode)) return null;
+        return selection.toString().trim() || null;
+    };
 
     const addBlock = (blockType: string, position: number = blocks.length, content?: BlockContent) => {
         if (props.readonly) return;
@@ -84,6 +97,7 @@ export function BlockEditor(props: BlockEditorProps): JSX.Element {
 
         const newBlock: EditorBlock = {
             id: generateBlockId(),
+            uid: generateBlockUid(),
             blockType: blockType as any,
             customType: blockType.startsWith('custom-') ? blockType : null,
             order: position,
@@ -116,6 +130,7 @@ export function BlockEditor(props: BlockEditorProps): JSX.Element {
 
             const newBlock: EditorBlock = {
                 id: generateBlockId(),
+                uid: generateBlockUid(),
                 blockType: patternBlock.type as any,
                 customType: patternBlock.type.startsWith('custom-') ? patternBlock.type : null,
                 order: position + index,
@@ -209,6 +224,7 @@ export function BlockEditor(props: BlockEditorProps): JSX.Element {
         const duplicatedBlock: EditorBlock = {
             ...originalBlock,
             id: generateBlockId(),
+            uid: generateBlockUid(),
             selected: false,
             editing: false,
         };
@@ -265,7 +281,8 @@ export function BlockEditor(props: BlockEditorProps): JSX.Element {
 
         return (
             <div
-                class={`block-item ${block.selected ? 'selected' : ''} ${block.editing ? 'editing' : ''}`}
+                class={`block-item relative ${block.selected ? 'selected' : ''} ${block.editing ? 'editing' : ''}`}
+                data-block-uid={block.uid}
                 onClick={(e) => {
                     if (block.editing && e.target !== e.currentTarget) return;
                     e.stopPropagation();
@@ -295,6 +312,24 @@ export function BlockEditor(props: BlockEditorProps): JSX.Element {
                     onDragStart={(e: DragEvent) => handleDragStart(e, block)}
                     onDragEnd={handleDragEnd}
                 />
+                <Show when={props.onAddNote}>
+                    <button
+                        type="button"
+                        class={`absolute -right-9 top-1 px-1 rounded text-sm ${props.noteCounts?.[block.uid] ? 'bg-yellow-100 text-yellow-800' : 'text-gray-400 hover:text-gray-700'}`}
+                        title={props.noteCounts?.[block.uid] ? `${props.noteCounts[block.uid]} open notes` : 'Add a note'}
+                        onMouseDown={(e) => {
+                            // Keep the text selection, which the note quotes
+                            e.preventDefault();
+                        }}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            const quote = selectedTextIn(e.currentTarget.closest('[data-block-uid]'));
+                            props.onAddNote?.(block.uid, quote);
+                        }}
+                    >
+                        💬{props.noteCounts?.[block.uid] || ''}
+                    </button>
+                </Show>
             </div>
         );
     };
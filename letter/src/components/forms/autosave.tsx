@@ -0,0 +1,129 @@
+import { Show, createSignal, onCleanup, onMount, type JSX } from "solid-js";
+import type { ContentBlockWithChildren } from "~/lib/types";
+
+// How often the editor checks for changes to autosave
+export const AUTOSAVE_INTERVAL_MS = 15_000;
+
+export interface AutosaveContent {
+  title: string;
+  excerpt: string;
+  content: string;
+  blocks: ContentBlockWithChildren[];
+}
+
+// Changes autosaved in an earlier session, offered back when the editor opens
+export interface AutosaveDraft {
+  title: string | null;
+  excerpt: string | null;
+  content: string | null;
+  blocks: unknown[];
+  savedAt: Date | string;
+}
+
+// Blocks differ in their editor ids and timestamps on every change, so only
+// what's saved is compared
+function contentKey(content: AutosaveContent): string {
+  return JSON.stringify([
+    content.title,
+    content.excerpt,
+    content.content,
+    content.blocks.map((block) => [block.blockType, block.customType, block.content, block.attributes]),
+  ]);
+}
+
+/**
+ * Periodically hand the form's content to `save` while it differs from what
+ * was last saved. `markSaved` sets that baseline, e.g. once the form loads.
+ */
+export function createAutosave(options: {
+  content: () => AutosaveContent | null;
+  save?: (content: AutosaveContent) => Promise<unknown>;
+  paused?: () => boolean;
+}) {
+  const [lastSavedAt, setLastSavedAt] = createSignal<Date | null>(null);
+  const [failed, setFailed] = createSignal(false);
+  let savedKey: string | null = null;
+  let saving = false;
+
+  const markSaved = (content: AutosaveContent) => {
+    savedKey = contentKey(content);
+  };
+
+  const tick = async () => {
+    const content = options.content();
+    if (!options.save || !content || saving || options.paused?.()) return;
+
+    const key = contentKey(content);
+    if (key === savedKey) return;
+
+    saving = true;
+    try {
+      await options.save(content);
+      savedKey = key;
+      setLastSavedAt(new Date());
+      setFailed(false);
+    } catch (error) {
+      console.error("Autosave failed:", error);
+      setFailed(true);
+    } finally {
+      saving = false;
+    }
+  };
+
+  onMount(() => {
+    const timer = setInterval(tick, AUTOSAVE_INTERVAL_MS);
+    onCleanup(() => clearInterval(timer));
+  });
+
+  return { lastSavedAt, failed, markSaved };
+}
+
+/**
+ * Offer to bring back changes autosaved in an earlier session, and show
+ * when the current changes were last autosaved.
+ */
+export function AutosaveNotice(props: {
+  draft: AutosaveDraft | null;
+  lastSavedAt: Date | null;
+  failed: boolean;
+  onRestore: () => void;
+  onDiscard: () => void;
+}): JSX.Element {
+  return (
+    <>
+      <Show when={props.draft}>
+        {(draft) => (
+          <div class="p-4 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800 flex items-center justify-between gap-4">
+            <span>
+              Restore unsaved changes? Changes you made on {new Date(draft().savedAt).toLocaleString()} were
+              never saved.
+            </span>
+            <div class="flex gap-2 shrink-0">
+              <button
+                type="button"
+                onClick={props.onRestore}
+                class="px-3 py-1 rounded-lg bg-yellow-600 hover:bg-yellow-700 text-white font-medium"
+              >
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={props.onDiscard}
+                class="px-3 py-1 rounded-lg border border-yellow-300 hover:bg-yellow-100"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+      </Show>
+      <Show when={props.failed || props.lastSavedAt}>
+        <p class={`text-xs ${props.failed ? "text-red-600" : "text-gray-500"}`}>
+          {props.failed
+            ? "Autosave failed; your changes are not saved yet."
+            : `Unsaved changes autosaved at ${props.lastSavedAt?.toLocaleTimeString()}.`}
+        </p>
+      </Show>
+    </>
+  );
+}
@@ -5,6 +5,7 @@ import type {
   ContentBlockWithChildren,
 } from "~/lib/types";
 import { BlockEditor } from "~/components/editor/block-editor";
+import { createAutosave, AutosaveNotice, type AutosaveContent, type AutosaveDraft } from "./autosave";
 
 // Define a simplified interface for the page data we actually need
 interface PageData {
@@ -27,6 +28,13 @@ interface PageFormProps {
   isSubmitting: boolean;
   onSubmit: (data: PageFormData) => Promise<void>;
   onCancel: () => void;
+  // Changes autosaved in an earlier session, offered back to the user
+  autosave?: AutosaveDraft | null;
+  onAutosave?: (content: AutosaveContent) => Promise<unknown>;
+  onDiscardAutosave?: () => Promise<unknown>;
+  // Open editorial notes per block uid, and starting a note from a block
+  noteCounts?: Record<string, number>;
+  onAddNote?: (blockUid: string, quote: string | null) => void;
 }
 
 export interface PageFormData {
@@ -54,6 +62,21 @@ export function PageForm(props: PageFormProps) {
   >({});
   const [isInitialized, setIsInitialized] = createSignal(false);
   const [useBlockEditor, setUseBlockEditor] = createSignal(true);
+  const [draftDismissed, setDraftDismissed] = createSignal(false);
+  // Bumped to reload the block editor with other blocks
+  const [editorKey, setEditorKey] = createSignal(1);
+
+  const currentContent = (): AutosaveContent | null =>
+    isInitialized()
+      ? { title: title(), excerpt: excerpt(), content: content(), blocks: blocks() }
+      : null;
+  const autosave = createAutosave({
+    content: currentContent,
+    save: props.onAutosave ? (content) => props.onAutosave!(content) : undefined,
+    paused: () => props.isSubmitting,
+  });
+  let editorLoaded = false;
+  const draft = () => (draftDismissed() ? null : props.autosave ?? null);
 
   // Initialize form with data
   createEffect(() => {
@@ -80,6 +103,7 @@ export function PageForm(props: PageFormProps) {
           content: { text: data.content },
           attributes: {},
           pluginId: null,
+          uid: "legacy",
           createdAt: new Date(),
           updatedAt: new Date(),
         };
@@ -97,9 +121,36 @@ export function PageForm(props: PageFormProps) {
         setCustomFields(meta);
       }
       setIsInitialized(true);
+      autosave.markSaved(currentContent()!);
     }
   });
 
+  const restoreDraft = () => {
+    const saved = draft();
+    if (!saved) return;
+    setTitle(saved.title || "");
+    setExcerpt(saved.excerpt || "");
+    setContent(saved.content || "");
+    setBlocks(
+      saved.blocks.map((block, index) => ({
+        ...(block as ContentBlockWithChildren),
+        id: index + 1,
+        postId: props.initialData?.id || 0,
+        parentId: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }))
+    );
+    setUseBlockEditor(true);
+    setEditorKey((key) => key + 1);
+    setDraftDismissed(true);
+  };
+
+  const discardDraft = () => {
+    setDraftDismissed(true);
+    props.onDiscardAutosave?.();
+  };
+
   const generateSlug = (text: string) => {
     return text
       .toLowerCase()
@@ -134,6 +185,12 @@ export function PageForm(props: PageFormProps) {
       .join("\n\n");
 
     setContent(textContent);
+
+    // The editor's first output is the loaded page, not a change
+    if (isInitialized() && !editorLoaded) {
+      editorLoaded = true;
+      autosave.markSaved(currentContent()!);
+    }
   };
 
   const handleSubmit = async (e: Event) => {
@@ -181,6 +238,7 @@ export function PageForm(props: PageFormProps) {
           content: { text: content() },
           attributes: {},
           pluginId: null,
+          uid: "legacy",
           createdAt: new Date(),
           updatedAt: new Date(),
         };
@@ -192,6 +250,14 @@ export function PageForm(props: PageFormProps) {
 
   return (
     <form onSubmit={handleSubmit} class="space-y-6">
+      <AutosaveNotice
+        draft={draft()}
+        lastSavedAt={autosave.lastSavedAt()}
+        failed={autosave.failed()}
+        onRestore={restoreDraft}
+        onDiscard={discardDraft}
+      />
+
       <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         {/* Title */}
         <div class="mb-6">
@@ -222,7 +288,7 @@ export function PageForm(props: PageFormProps) {
           </label>
           <div class="flex">
             <span class="inline-flex items-center px-3 rounded-l-md border border-r-0 border-gray-300 bg-gray-50 text-gray-500 text-sm">
-              /pages/
+              /
             </span>
             <input
               type="text"
@@ -276,11 +342,15 @@ export function PageForm(props: PageFormProps) {
                 </span>
               </div>
               <div class="">
-                <BlockEditor
-                  initialBlocks={blocks()}
-                  onChange={handleBlocksChange}
-                  className=""
-                />
+                <Show when={editorKey()} keyed>
+                  <BlockEditor
+                    initialBlocks={blocks()}
+                    onChange={handleBlocksChange}
+                    className=""
+                    noteCounts={props.noteCounts}
+                    onAddNote={props.onAddNote}
+                  />
+                </Show>
               </div>
             </div>
           </Show>
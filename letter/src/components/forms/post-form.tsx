@@ -5,6 +5,7 @@ import { BlockEditor } from "~/components/editor/block-editor";
 import { CustomFieldRenderer } from "./custom-field-renderer";
 import { SEOFields } from "~/components/seo/seo-fields";
 import { SEOAnalyzer } from "~/components/seo/seo-analyzer";
+import { createAutosave, AutosaveNotice, type AutosaveContent, type AutosaveDraft } from "./autosave";
 
 // Define a simplified interface for the post data we actually need
 interface PostData {
@@ -15,6 +16,10 @@ interface PostData {
   slug?: string;
   status?: PostStatus;
   type?: PostType;
+  publishedAt?: Date | string | null;
+  expiresAt?: Date | string | null;
+  expiryStatus?: PostStatus;
+  commentStatus?: boolean;
   blocks?: ContentBlockWithChildren[];
   postMeta?: Array<{
     metaKey: string;
@@ -29,6 +34,13 @@ interface PostFormProps {
   onSubmit: (data: PostFormData) => Promise<void>;
   onCancel: () => void;
   type?: 'POST' | 'PAGE';
+  // Changes autosaved in an earlier session, offered back to the user
+  autosave?: AutosaveDraft | null;
+  onAutosave?: (content: AutosaveContent) => Promise<unknown>;
+  onDiscardAutosave?: () => Promise<unknown>;
+  // Open editorial notes per block uid, and starting a note from a block
+  noteCounts?: Record<string, number>;
+  onAddNote?: (blockUid: string, quote: string | null) => void;
 }
 
 export interface PostFormData {
@@ -38,6 +50,11 @@ export interface PostFormData {
   slug: string;
   status: PostStatus;
   type: 'POST' | 'PAGE';
+  // ISO dates; a future publishedAt schedules a published post
+  publishedAt?: string;
+  expiresAt: string | null;
+  expiryStatus: 'DRAFT' | 'PRIVATE';
+  commentStatus: boolean;
   blocks: ContentBlockWithChildren[];
   customFields: Record<string, string | number | boolean | string[] | undefined>;
   metaTitle?: string;
@@ -45,12 +62,28 @@ export interface PostFormData {
   focusKeyword?: string;
 }
 
+// <input type="datetime-local"> works in local time without a zone
+function toDateTimeInput(value?: Date | string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromDateTimeInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
 export function PostForm(props: PostFormProps) {
   const [title, setTitle] = createSignal("");
   const [content, setContent] = createSignal(""); // Legacy content for backward compatibility
   const [excerpt, setExcerpt] = createSignal("");
   const [slug, setSlug] = createSignal("");
   const [status, setStatus] = createSignal<PostStatus>("DRAFT");
+  const [publishedAt, setPublishedAt] = createSignal("");
+  const [expiresAt, setExpiresAt] = createSignal("");
+  const [expiryStatus, setExpiryStatus] = createSignal<'DRAFT' | 'PRIVATE'>("DRAFT");
+  const [commentStatus, setCommentStatus] = createSignal(true);
   const [blocks, setBlocks] = createSignal<ContentBlockWithChildren[]>([]);
   const [customFields, setCustomFields] = createSignal<
     Record<string, string | number | boolean | string[] | undefined>
@@ -59,9 +92,23 @@ export function PostForm(props: PostFormProps) {
   const [metaDescription, setMetaDescription] = createSignal("");
   const [focusKeyword, setFocusKeyword] = createSignal("");
   const [isInitialized, setIsInitialized] = createSignal(false);
+  const [draftDismissed, setDraftDismissed] = createSignal(false);
+  // Bumped to reload the block editor with other blocks
+  const [editorKey, setEditorKey] = createSignal(1);
 
   const postType = () => props.type || 'POST';
 
+  const currentContent = (): AutosaveContent | null => isInitialized()
+    ? { title: title(), excerpt: excerpt(), content: content(), blocks: blocks() }
+    : null;
+  const autosave = createAutosave({
+    content: currentContent,
+    save: props.onAutosave ? (content) => props.onAutosave!(content) : undefined,
+    paused: () => props.isSubmitting,
+  });
+  let editorLoaded = false;
+  const draft = () => draftDismissed() ? null : props.autosave ?? null;
+
   // Initialize form with data
   createEffect(() => {
     const data = props.initialData;
@@ -70,7 +117,12 @@ export function PostForm(props: PostFormProps) {
       setContent(data.content || "");
       setExcerpt(data.excerpt || "");
       setSlug(data.slug || "");
-      setStatus(data.status || "DRAFT");
+      // Scheduled posts are published posts with a future date
+      setStatus(data.status === "SCHEDULED" ? "PUBLISHED" : data.status || "DRAFT");
+      setPublishedAt(toDateTimeInput(data.publishedAt));
+      setExpiresAt(toDateTimeInput(data.expiresAt));
+      setExpiryStatus(data.expiryStatus === "PRIVATE" ? "PRIVATE" : "DRAFT");
+      setCommentStatus(data.commentStatus ?? true);
       
       if (data.blocks && data.blocks.length > 0) {
         setBlocks(data.blocks);
@@ -86,6 +138,7 @@ export function PostForm(props: PostFormProps) {
           content: { text: data.content },
           attributes: {},
           pluginId: null,
+          uid: "legacy",
           createdAt: new Date(),
           updatedAt: new Date(),
         };
@@ -100,9 +153,33 @@ export function PostForm(props: PostFormProps) {
         setCustomFields(meta);
       }
       setIsInitialized(true);
+      autosave.markSaved(currentContent()!);
     }
   });
 
+  const restoreDraft = () => {
+    const saved = draft();
+    if (!saved) return;
+    setTitle(saved.title || "");
+    setExcerpt(saved.excerpt || "");
+    setContent(saved.content || "");
+    setBlocks(saved.blocks.map((block, index) => ({
+      ...(block as ContentBlockWithChildren),
+      id: index + 1,
+      postId: props.initialData?.id || 0,
+      parentId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })));
+    setEditorKey(key => key + 1);
+    setDraftDismissed(true);
+  };
+
+  const discardDraft = () => {
+    setDraftDismissed(true);
+    props.onDiscardAutosave?.();
+  };
+
   const generateSlug = (text: string) => {
     return text
       .toLowerCase()
@@ -139,6 +216,12 @@ export function PostForm(props: PostFormProps) {
       .join('\n\n');
     
     setContent(textContent);
+
+    // The editor's first output is the loaded post, not a change
+    if (isInitialized() && !editorLoaded) {
+      editorLoaded = true;
+      autosave.markSaved(currentContent()!);
+    }
   };
 
   const handleSubmit = async (e: Event) => {
@@ -151,6 +234,10 @@ export function PostForm(props: PostFormProps) {
       slug: slug(),
       status: status(),
       type: postType(),
+      publishedAt: fromDateTimeInput(publishedAt()),
+      expiresAt: fromDateTimeInput(expiresAt()) ?? null,
+      expiryStatus: expiryStatus(),
+      commentStatus: commentStatus(),
       blocks: blocks(),
       customFields: customFields(),
       metaTitle: metaTitle(),
@@ -168,6 +255,14 @@ export function PostForm(props: PostFormProps) {
   return (
     <div class="max-w-none mx-auto">
       <form onSubmit={handleSubmit} class="space-y-6">
+        <AutosaveNotice
+          draft={draft()}
+          lastSavedAt={autosave.lastSavedAt()}
+          failed={autosave.failed()}
+          onRestore={restoreDraft}
+          onDiscard={discardDraft}
+        />
+
         {/* Header section with title and slug */}
         <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
           <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -232,11 +327,15 @@ export function PostForm(props: PostFormProps) {
             </div>
           </div>
           <div class="p-4">
-            <BlockEditor
-              initialBlocks={blocks()}
-              onChange={handleBlocksChange}
-              className="min-h-[600px] focus:outline-none"
-            />
+            <Show when={editorKey()} keyed>
+              <BlockEditor
+                initialBlocks={blocks()}
+                onChange={handleBlocksChange}
+                className="min-h-[600px] focus:outline-none"
+                noteCounts={props.noteCounts}
+                onAddNote={props.onAddNote}
+              />
+            </Show>
           </div>
         </div>
 
@@ -288,6 +387,53 @@ export function PostForm(props: PostFormProps) {
                 <option value="PRIVATE">🔒 Private</option>
                 <option value="REVIEW">👀 Review</option>
               </select>
+
+              <label for="publishedAt" class="block text-sm font-medium text-gray-700 mt-4 mb-1">
+                Publish on
+              </label>
+              <input
+                id="publishedAt"
+                type="datetime-local"
+                value={publishedAt()}
+                onInput={(e) => setPublishedAt(e.currentTarget.value)}
+                class="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <Show when={status() === "PUBLISHED" && publishedAt() && new Date(publishedAt()) > new Date()}>
+                <p class="mt-1 text-xs text-blue-600">
+                  ⏰ Will be scheduled and published automatically on this date.
+                </p>
+              </Show>
+
+              <label for="expiresAt" class="block text-sm font-medium text-gray-700 mt-4 mb-1">
+                Expires on
+              </label>
+              <input
+                id="expiresAt"
+                type="datetime-local"
+                value={expiresAt()}
+                onInput={(e) => setExpiresAt(e.currentTarget.value)}
+                class="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <Show when={expiresAt()}>
+                <select
+                  value={expiryStatus()}
+                  onChange={(e) => setExpiryStatus(e.currentTarget.value as 'DRAFT' | 'PRIVATE')}
+                  class="w-full mt-2 px-4 py-2 border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="DRAFT">Then move to drafts</option>
+                  <option value="PRIVATE">Then make private</option>
+                </select>
+              </Show>
+
+              <label class="flex items-center mt-4 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={commentStatus()}
+                  onChange={(e) => setCommentStatus(e.currentTarget.checked)}
+                  class="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Allow comments
+              </label>
             </div>
 
             {/* Action buttons */}
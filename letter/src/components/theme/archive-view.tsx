@@ -0,0 +1,236 @@
+import { For, Show, type JSX } from "solid-js";
+import { A } from "@solidjs/router";
+import { buildPostPath } from "~/lib/permalinks";
+import type { getArchivePosts } from "~/lib/cms-utils";
+
+export type ArchivePage = NonNullable<Awaited<ReturnType<typeof getArchivePosts>>["data"]>;
+export type ArchivePost = ArchivePage["posts"][number];
+
+export interface Breadcrumb {
+  name: string;
+  url: string;
+}
+
+interface ArchiveViewProps {
+  title: string;
+  label: string;
+  description?: string | null;
+  breadcrumbs: Breadcrumb[];
+  archive: ArchivePage;
+  basePath: string;
+  // Entries link to `<postBasePath>/<slug>` instead of their post permalink
+  postBasePath?: string;
+  feedUrl?: string;
+  children?: JSX.Element;
+}
+
+/**
+ * Paginated list of posts for a category, tag, author or post type archive.
+ * Meant to be wrapped in a ThemedLayout using the archive layout.
+ */
+export function ArchiveView(props: ArchiveViewProps): JSX.Element {
+  return (
+    <div>
+      <Breadcrumbs items={props.breadcrumbs} />
+
+      <header class="mb-8">
+        <p class="text-sm font-medium uppercase tracking-wide text-blue-600 mb-2">
+          {props.label}
+        </p>
+        <h1 class="text-4xl font-bold text-gray-900 mb-4">{props.title}</h1>
+        <Show when={props.description}>
+          <p class="text-xl text-gray-600 leading-relaxed">{props.description}</p>
+        </Show>
+        {props.children}
+        <Show when={props.feedUrl}>
+          <a
+            href={props.feedUrl}
+            class="inline-flex items-center mt-4 text-sm text-orange-600 hover:text-orange-700"
+          >
+            <span class="mr-1">📡</span>
+            Subscribe via RSS
+          </a>
+        </Show>
+      </header>
+
+      <Show
+        when={props.archive.posts.length > 0}
+        fallback={<p class="text-gray-500 italic">No posts found.</p>}
+      >
+        <div class="space-y-6">
+          <For each={props.archive.posts}>
+            {(post) => (
+              <ArchivePostCard
+                post={post}
+                href={
+                  props.postBasePath
+                    ? `${props.postBasePath}/${post.slug}`
+                    : buildPostPath(post, props.archive.permalinkStructure)
+                }
+              />
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <Pagination
+        page={props.archive.page}
+        totalPages={props.archive.totalPages}
+        basePath={props.basePath}
+      />
+    </div>
+  );
+}
+
+/**
+ * Build the URL of an archive page; page 1 is the bare archive path.
+ */
+export function archivePageUrl(basePath: string, page: number): string {
+  return page > 1 ? `${basePath}?page=${page}` : basePath;
+}
+
+/**
+ * Read a 1-based page number from a `?page=` search param.
+ */
+export function parsePageParam(value: string | string[] | undefined): number {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const page = Number.parseInt(raw || "1", 10);
+  return Number.isFinite(page) && page > 0 ? page : 1;
+}
+
+export function Breadcrumbs(props: { items: Breadcrumb[] }): JSX.Element {
+  return (
+    <Show when={props.items.length > 1}>
+      <nav aria-label="Breadcrumb" class="mb-6 text-sm text-gray-500">
+        <ol class="flex flex-wrap items-center">
+          <For each={props.items}>
+            {(item, index) => (
+              <li class="flex items-center">
+                <Show when={index() > 0}>
+                  <span class="mx-2 text-gray-400">/</span>
+                </Show>
+                <Show
+                  when={index() < props.items.length - 1}
+                  fallback={<span class="text-gray-900 font-medium" aria-current="page">{item.name}</span>}
+                >
+                  <A href={item.url} class="hover:text-blue-600 transition-colors">
+                    {item.name}
+                  </A>
+                </Show>
+              </li>
+            )}
+          </For>
+        </ol>
+      </nav>
+    </Show>
+  );
+}
+
+function ArchivePostCard(props: { post: ArchivePost; href: string }): JSX.Element {
+  const date = () => props.post.publishedAt || props.post.createdAt;
+  const authorName = () => props.post.author.name || props.post.author.username || "Unknown author";
+
+  return (
+    <article class="bg-white rounded-lg shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow">
+      <h2 class="text-2xl font-semibold text-gray-900 mb-2">
+        <A href={props.href} class="hover:text-blue-600 transition-colors">
+          {props.post.title}
+        </A>
+      </h2>
+      <div class="flex flex-wrap items-center text-sm text-gray-500 mb-3">
+        <time dateTime={new Date(date()).toISOString()}>
+          {new Date(date()).toLocaleDateString()}
+        </time>
+        <span class="mx-2">•</span>
+        <Show when={props.post.author.username} fallback={<span>{authorName()}</span>}>
+          <A href={`/author/${props.post.author.username}`} class="hover:text-blue-600">
+            {authorName()}
+          </A>
+        </Show>
+        <Show when={props.post._count.comments > 0}>
+          <span class="mx-2">•</span>
+          <span>
+            {props.post._count.comments === 1
+              ? "1 comment"
+              : `${props.post._count.comments} comments`}
+          </span>
+        </Show>
+      </div>
+      <Show when={props.post.excerpt}>
+        <p class="text-gray-700 leading-relaxed">{props.post.excerpt}</p>
+      </Show>
+      <Show when={props.post.categories.length > 0}>
+        <div class="flex flex-wrap gap-2 mt-4">
+          <For each={props.post.categories}>
+            {({ category }) => (
+              <A
+                href={`/category/${category.slug}`}
+                class="px-3 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+              >
+                {category.name}
+              </A>
+            )}
+          </For>
+        </div>
+      </Show>
+    </article>
+  );
+}
+
+function Pagination(props: { page: number; totalPages: number; basePath: string }): JSX.Element {
+  const pages = () => Array.from({ length: props.totalPages }, (_, i) => i + 1);
+
+  return (
+    <Show when={props.totalPages > 1}>
+      <nav aria-label="Pagination" class="flex items-center justify-center gap-2 mt-10">
+        <Show when={props.page > 1}>
+          <A
+            href={archivePageUrl(props.basePath, props.page - 1)}
+            class="px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+          >
+            ← Newer
+          </A>
+        </Show>
+        <For each={pages()}>
+          {(page) => (
+            <A
+              href={archivePageUrl(props.basePath, page)}
+              aria-current={page === props.page ? "page" : undefined}
+              class={`px-3 py-2 text-sm rounded-lg border ${
+                page === props.page
+                  ? "bg-blue-600 border-blue-600 text-white"
+                  : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {page}
+            </A>
+          )}
+        </For>
+        <Show when={props.page < props.totalPages}>
+          <A
+            href={archivePageUrl(props.basePath, props.page + 1)}
+            class="px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+          >
+            Older →
+          </A>
+        </Show>
+      </nav>
+    </Show>
+  );
+}
+
+export function ArchiveNotFound(props: { label: string }): JSX.Element {
+  return (
+    <div class="text-center py-24">
+      <div class="text-9xl font-bold text-gray-300 mb-4">404</div>
+      <h1 class="text-4xl font-bold text-gray-900 mb-4">{props.label} Not Found</h1>
+      <p class="text-xl text-gray-600 mb-8">
+        The archive you're looking for doesn't exist or has no public posts.
+      </p>
+      <A href="/" class="btn btn-primary">
+        <span class="mr-2">🏠</span>
+        Go Home
+      </A>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { For, Show, type JSX } from "solid-js";
+import { A, createAsync } from "@solidjs/router";
+import { getArchives } from "~/lib/cms-utils";
+import { dateArchivePath, formatDateArchiveTitle } from "~/lib/date-archives";
+
+// Server function to get archive buckets for published blog posts
+async function getArchiveLinks(type: "monthly" | "yearly", limit?: number) {
+  "use server";
+
+  const result = await getArchives({ type, postType: "POST", limit });
+
+  return (result.data || []).map((item) => ({
+    period: item.period.toISOString(),
+    count: item.count,
+  }));
+}
+
+interface ArchivesWidgetProps {
+  title?: string;
+  type?: "monthly" | "yearly";
+  limit?: number;
+  showCounts?: boolean;
+}
+
+/**
+ * "Archives" listing linking to date archives, for theme footers and sidebars.
+ */
+export function ArchivesWidget(props: ArchivesWidgetProps): JSX.Element {
+  const type = () => props.type || "monthly";
+
+  const archives = createAsync(() => getArchiveLinks(type(), props.limit), {
+    deferStream: true,
+  });
+
+  const linkFor = (period: string) => {
+    const date = new Date(period);
+    const year = date.getUTCFullYear();
+    return type() === "yearly"
+      ? { href: dateArchivePath(year), label: String(year) }
+      : {
+          href: dateArchivePath(year, date.getUTCMonth() + 1),
+          label: formatDateArchiveTitle({ granularity: "month", from: date }),
+        };
+  };
+
+  return (
+    <Show when={(archives() || []).length > 0}>
+      <section>
+        <h4 class="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">
+          {props.title || "Archives"}
+        </h4>
+        <ul class="space-y-2">
+          <For each={archives()}>
+            {(item) => (
+              <li>
+                <A
+                  href={linkFor(item.period).href}
+                  class="text-gray-600 hover:text-gray-900 transition-colors duration-200 text-sm"
+                >
+                  {linkFor(item.period).label}
+                </A>
+                <Show when={props.showCounts !== false}>
+                  <span class="ml-1 text-xs text-gray-400">({item.count})</span>
+                </Show>
+              </li>
+            )}
+          </For>
+        </ul>
+      </section>
+    </Show>
+  );
+}
@@ -0,0 +1,255 @@
+import { For, Show, createSignal, createEffect, on, type JSX } from "solid-js";
+import { action, useSubmission } from "@solidjs/router";
+import { getRequestEvent } from "solid-js/web";
+import { getSessionOptional } from "~/lib/auth-utils";
+import { submitComment, COMMENT_MAX_LENGTH, type CommentThread, type ThreadedComment } from "~/lib/comments";
+import { isWebURL } from "~/lib/validation-schemas";
+
+// Server action to accept a comment from the public site
+const postComment = action(async (formData: FormData) => {
+  "use server";
+
+  const event = getRequestEvent();
+  const session = await getSessionOptional();
+  const forwardedFor = event?.request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+
+  const result = await submitComment(
+    {
+      postId: Number(formData.get("postId")),
+      parentId: Number(formData.get("parentId")) || undefined,
+      authorName: String(formData.get("authorName") || ""),
+      authorEmail: String(formData.get("authorEmail") || ""),
+      authorUrl: String(formData.get("authorUrl") || "") || undefined,
+      content: String(formData.get("content") || ""),
+      honeypot: String(formData.get("homepage") || "") || undefined,
+      startedAt: Number(formData.get("startedAt")) || undefined,
+    },
+    {
+      user: session?.user
+        ? {
+            id: Number(session.user.id),
+            name: session.user.name ?? null,
+            username: session.user.username,
+            email: session.user.email,
+          }
+        : null,
+      ip: forwardedFor || event?.clientAddress,
+      agent: event?.request.headers.get("user-agent") ?? undefined,
+    }
+  );
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to post comment");
+  }
+
+  return result.data;
+}, "postComment");
+
+interface CommentsProps {
+  postId: number;
+  thread: CommentThread;
+  // Display name of the signed-in visitor, who doesn't need to give a name and email
+  commenter?: string | null;
+}
+
+/**
+ * Threaded comment list of a post with the form to join the discussion.
+ */
+export function Comments(props: CommentsProps): JSX.Element {
+  const [replyTo, setReplyTo] = createSignal<number | null>(null);
+
+  return (
+    <section id="comments" class="mt-12 pt-8 border-t border-gray-200">
+      <h2 class="text-2xl font-semibold text-gray-900 mb-6">
+        {props.thread.total === 1 ? "1 Comment" : `${props.thread.total} Comments`}
+      </h2>
+      <Show
+        when={props.thread.comments.length > 0}
+        fallback={<p class="text-gray-500 italic">No comments yet.</p>}
+      >
+        <ol class="space-y-6">
+          <For each={props.thread.comments}>
+            {(comment) => (
+              <CommentItem
+                comment={comment}
+                postId={props.postId}
+                thread={props.thread}
+                commenter={props.commenter}
+                replyTo={replyTo()}
+                onReply={setReplyTo}
+              />
+            )}
+          </For>
+        </ol>
+      </Show>
+
+      <div class="mt-10">
+        <Show
+          when={props.thread.open}
+          fallback={<p class="text-gray-500 italic">{props.thread.closedReason}</p>}
+        >
+          <h3 class="text-lg font-semibold text-gray-900 mb-4">Leave a comment</h3>
+          <CommentForm postId={props.postId} commenter={props.commenter} />
+        </Show>
+      </div>
+    </section>
+  );
+}
+
+function CommentItem(props: {
+  comment: ThreadedComment;
+  postId: number;
+  thread: CommentThread;
+  commenter?: string | null;
+  replyTo: number | null;
+  onReply: (id: number | null) => void;
+}): JSX.Element {
+  const canReply = () => props.thread.open && props.comment.depth < props.thread.maxDepth;
+
+  return (
+    <li id={`comment-${props.comment.id}`}>
+      <article>
+        <div class="flex items-center text-sm mb-2">
+          <Show when={props.comment.author?.image}>
+            <img src={props.comment.author!.image!} alt="" class="h-6 w-6 rounded-full object-cover mr-2" />
+          </Show>
+          <Show
+            when={props.comment.authorUrl && isWebURL(props.comment.authorUrl)}
+            fallback={<span class="font-medium text-gray-900">{commentAuthorName(props.comment)}</span>}
+          >
+            <a href={props.comment.authorUrl!} rel="nofollow ugc noopener" class="font-medium text-blue-600 hover:underline">
+              {commentAuthorName(props.comment)}
+            </a>
+          </Show>
+          <span class="mx-2 text-gray-400">•</span>
+          <time class="text-gray-500" dateTime={new Date(props.comment.createdAt).toISOString()}>
+            {new Date(props.comment.createdAt).toLocaleDateString()}
+          </time>
+        </div>
+        <p class="text-gray-700 leading-relaxed whitespace-pre-line">{props.comment.content}</p>
+        <Show when={canReply() && props.replyTo !== props.comment.id}>
+          <button
+            type="button"
+            onClick={() => props.onReply(props.comment.id)}
+            class="mt-2 text-sm text-blue-600 hover:text-blue-700"
+          >
+            Reply
+          </button>
+        </Show>
+      </article>
+
+      <Show when={canReply() && props.replyTo === props.comment.id}>
+        <div class="mt-4 ml-8">
+          <CommentForm
+            postId={props.postId}
+            parentId={props.comment.id}
+            commenter={props.commenter}
+            onCancel={() => props.onReply(null)}
+          />
+        </div>
+      </Show>
+
+      <Show when={props.comment.replies.length > 0}>
+        <ol class="mt-4 ml-8 space-y-4 border-l-2 border-gray-100 pl-4">
+          <For each={props.comment.replies}>
+            {(reply) => (
+              <CommentItem
+                comment={reply}
+                postId={props.postId}
+                thread={props.thread}
+                commenter={props.commenter}
+                replyTo={props.replyTo}
+                onReply={props.onReply}
+              />
+            )}
+          </For>
+        </ol>
+      </Show>
+    </li>
+  );
+}
+
+function CommentForm(props: {
+  postId: number;
+  parentId?: number;
+  commenter?: string | null;
+  onCancel?: () => void;
+}): JSX.Element {
+  let form: HTMLFormElement | undefined;
+  // Each reply form only tracks its own submissions
+  const submission = useSubmission(
+    postComment,
+    ([formData]) => formData.get("parentId") === String(props.parentId ?? "")
+  );
+
+  createEffect(
+    on(
+      () => submission.result,
+      (result) => {
+        if (result) form?.reset();
+      },
+      { defer: true }
+    )
+  );
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <form ref={form} action={postComment} method="post" class="space-y-4">
+      <input type="hidden" name="postId" value={props.postId} />
+      <input type="hidden" name="parentId" value={props.parentId ?? ""} />
+      <input type="hidden" name="startedAt" value={Date.now()} />
+      {/* Honeypot: hidden from people, so anything in it came from a bot */}
+      <div aria-hidden="true" style={{ position: "absolute", left: "-10000px" }}>
+        <input type="text" name="homepage" tabIndex={-1} autocomplete="off" />
+      </div>
+
+      <Show
+        when={!props.commenter}
+        fallback={<p class="text-sm text-gray-600">Commenting as {props.commenter}</p>}
+      >
+        <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input type="text" name="authorName" required placeholder="Name *" class={inputClass} />
+          <input type="email" name="authorEmail" required placeholder="Email * (not published)" class={inputClass} />
+          <input type="url" name="authorUrl" placeholder="Website" class={inputClass} />
+        </div>
+      </Show>
+
+      <textarea
+        name="content"
+        required
+        rows={props.parentId ? 3 : 5}
+        maxLength={COMMENT_MAX_LENGTH}
+        placeholder={props.parentId ? "Write a reply..." : "Write a comment..."}
+        class={inputClass}
+      />
+
+      <Show when={submission.error}>
+        <p class="text-sm text-red-600">{submission.error?.message}</p>
+      </Show>
+      <Show when={submission.result?.status === "PENDING"}>
+        <p class="text-sm text-amber-700">Thanks! Your comment is awaiting moderation.</p>
+      </Show>
+
+      <div class="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={submission.pending}
+          class="px-5 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg font-medium transition-colors"
+        >
+          {submission.pending ? "Posting..." : props.parentId ? "Post Reply" : "Post Comment"}
+        </button>
+        <Show when={props.onCancel}>
+          <button type="button" onClick={() => props.onCancel?.()} class="text-sm text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+        </Show>
+      </div>
+    </form>
+  );
+}
+
+function commentAuthorName(comment: ThreadedComment): string {
+  return comment.author?.name || comment.author?.username || comment.authorName;
+}
@@ -0,0 +1,80 @@
+import { For, Show, Switch, Match, type JSX } from "solid-js";
+import type { CustomFieldType } from "@prisma/client";
+import type { FieldValue, CustomFieldValues } from "~/lib/post-types";
+
+export interface CustomFieldDisplay {
+  name: string;
+  label: string;
+  type: CustomFieldType;
+}
+
+interface CustomFieldsViewProps {
+  fields: CustomFieldDisplay[];
+  values: CustomFieldValues;
+}
+
+const FILE_FIELD_TYPES: CustomFieldType[] = [
+  "FILE",
+  "FILE_VIDEO",
+  "FILE_AUDIO",
+  "FILE_PDF",
+  "FILE_WORD",
+  "FILE_EXCEL",
+  "FILE_PPT",
+  "FILE_OTHER",
+];
+
+function formatValue(type: CustomFieldType, value: FieldValue): string {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (type === "DATE" && typeof value === "string") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+  }
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+/**
+ * Definition list of a custom post type entry's field values. Fields
+ * without a value are left out.
+ */
+export function CustomFieldsView(props: CustomFieldsViewProps): JSX.Element {
+  const filled = () => props.fields.filter((field) => props.values[field.name] != null);
+
+  return (
+    <Show when={filled().length > 0}>
+      <dl class="mt-10 border-t border-gray-200 pt-6 grid grid-cols-1 sm:grid-cols-3 gap-x-6 gap-y-4">
+        <For each={filled()}>
+          {(field) => {
+            const value = () => props.values[field.name];
+            return (
+              <>
+                <dt class="text-sm font-medium text-gray-500">{field.label}</dt>
+                <dd class="sm:col-span-2 text-gray-900">
+                  <Switch fallback={formatValue(field.type, value())}>
+                    <Match when={field.type === "FILE_IMAGE"}>
+                      <img src={String(value())} alt={field.label} class="max-w-full h-auto rounded-lg" />
+                    </Match>
+                    <Match when={FILE_FIELD_TYPES.includes(field.type)}>
+                      <a href={String(value())} class="text-blue-600 hover:text-blue-700 underline">
+                        {String(value()).split("/").pop()}
+                      </a>
+                    </Match>
+                    <Match when={field.type === "HTML"}>
+                      <div class="prose max-w-none" innerHTML={String(value())} />
+                    </Match>
+                    <Match when={field.type === "JSON"}>
+                      <pre class="text-sm bg-gray-50 rounded p-3 overflow-x-auto">
+                        {formatValue(field.type, value())}
+                      </pre>
+                    </Match>
+                  </Switch>
+                </dd>
+              </>
+            );
+          }}
+        </For>
+      </dl>
+    </Show>
+  );
+}
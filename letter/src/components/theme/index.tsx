@@ -15,14 +15,26 @@ export interface ThemedLayoutProps extends LayoutProps {
   children: JSX.Element;
 }
 
+/**
+ * Theme layout key of a custom post type: the type name for its entries and
+ * `<name>:archive` for its archive. Type names can't contain a colon, so the
+ * keys never clash with a type's own name.
+ */
+export function postTypeLayoutKey(postType: string, layoutType?: LayoutProps['layoutType']): string {
+  return layoutType === 'archive' ? `${postType}:archive` : postType;
+}
+
 export function ThemedLayout(props: ThemedLayoutProps) {
   const { getThemeConfig } = useTheme();
   
   const themeConfig = getThemeConfig();
   const layoutType = props.layoutType || 'default';
   
-  // Get layout component name from theme config
-  const layoutName = themeConfig?.layouts?.[layoutType] || 'DefaultLayout';
+  // Get layout component name from theme config, preferring one set for the post type
+  const layoutName =
+    (props.postType && themeConfig?.layouts?.[postTypeLayoutKey(props.postType, layoutType)]) ||
+    themeConfig?.layouts?.[layoutType] ||
+    'DefaultLayout';
   
   // Get the actual component
   const LayoutComponent = layoutComponents[layoutName as keyof typeof layoutComponents] || DefaultLayout;
@@ -37,4 +49,5 @@ export function ThemedLayout(props: ThemedLayoutProps) {
 // Export individual layouts for direct use
 export * from "./layouts";
 export * from "./navigation";
-export * from "./footer";
\ No newline at end of file
+export * from "./footer";
+export * from "./archives-widget";
\ No newline at end of file
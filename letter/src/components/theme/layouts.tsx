@@ -1,5 +1,7 @@
 import { Show, JSX } from "solid-js";
 import { useTheme, type LayoutProps } from "~/lib/theme-manager";
+import type { SeoMeta } from "~/lib/seo";
+import type { StructuredData } from "~/lib/structured-data";
 import { Navigation } from "./navigation";
 import { Footer } from "./footer";
 
@@ -19,7 +21,12 @@ export function DefaultLayout(props: LayoutProps) {
   return (
     <div class="min-h-screen flex flex-col bg-gray-50">
       {/* SEO Head */}
-      <Head title={metaTitle()} description={metaDescription()} />
+      <Head
+        title={metaTitle()}
+        description={metaDescription()}
+        seo={props.seo}
+        structuredData={props.structuredData}
+      />
       
       {/* Header */}
       <header>
@@ -81,18 +88,87 @@ export function ArchiveLayout(props: LayoutProps) {
   );
 }
 
-// SEO Head component
-function Head(props: { title: string; description: string }) {
+// Serialize JSON-LD for an inline script; escaping `<` keeps values from
+// closing the script element
+function serializeJsonLd(data: StructuredData): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
+
+// SEO Head component. Routes pass resolved `seo` meta; without it only the
+// layout title and description are emitted.
+function Head(props: {
+  title: string;
+  description: string;
+  seo?: SeoMeta;
+  structuredData?: StructuredData;
+}) {
   return (
     <>
-      <title>{props.title}</title>
-      <meta name="description" content={props.description} />
-      <meta property="og:title" content={props.title} />
-      <meta property="og:description" content={props.description} />
-      <meta property="og:type" content="website" />
-      <meta name="twitter:card" content="summary" />
-      <meta name="twitter:title" content={props.title} />
-      <meta name="twitter:description" content={props.description} />
+      <Show
+        when={props.seo}
+        fallback={
+          <>
+            <title>{props.title}</title>
+            <meta name="description" content={props.description} />
+            <meta property="og:title" content={props.title} />
+            <meta property="og:description" content={props.description} />
+            <meta property="og:type" content="website" />
+            <meta name="twitter:card" content="summary" />
+            <meta name="twitter:title" content={props.title} />
+            <meta name="twitter:description" content={props.description} />
+          </>
+        }
+      >
+        {(seo) => (
+          <>
+            <title>{seo().title}</title>
+            <meta name="description" content={seo().description} />
+            <Show when={seo().robots}>
+              <meta name="robots" content={seo().robots} />
+            </Show>
+            <Show when={seo().canonical}>
+              <link rel="canonical" href={seo().canonical} />
+            </Show>
+            <meta property="og:site_name" content={seo().siteName} />
+            <Show when={seo().locale}>
+              <meta property="og:locale" content={seo().locale} />
+            </Show>
+            <meta property="og:type" content={seo().ogType} />
+            <meta property="og:title" content={seo().ogTitle} />
+            <meta property="og:description" content={seo().ogDescription} />
+            <Show when={seo().ogUrl}>
+              <meta property="og:url" content={seo().ogUrl} />
+            </Show>
+            <Show when={seo().ogImage}>
+              <meta property="og:image" content={seo().ogImage} />
+            </Show>
+            <Show when={seo().ogImageAlt}>
+              <meta property="og:image:alt" content={seo().ogImageAlt} />
+            </Show>
+            <Show when={seo().ogType === "article" && seo().publishedTime}>
+              <meta property="article:published_time" content={seo().publishedTime} />
+            </Show>
+            <Show when={seo().ogType === "article" && seo().modifiedTime}>
+              <meta property="article:modified_time" content={seo().modifiedTime} />
+            </Show>
+            <meta name="twitter:card" content={seo().twitterCard} />
+            <Show when={seo().twitterSite}>
+              <meta name="twitter:site" content={seo().twitterSite} />
+            </Show>
+            <meta name="twitter:title" content={seo().twitterTitle} />
+            <meta name="twitter:description" content={seo().twitterDescription} />
+            <Show when={seo().twitterImage}>
+              <meta name="twitter:image" content={seo().twitterImage} />
+            </Show>
+          </>
+        )}
+      </Show>
+      <Show when={props.structuredData}>
+        {(data) => <script type="application/ld+json" innerHTML={serializeJsonLd(data())} />}
+      </Show>
+      <link rel="alternate" type="application/rss+xml" title="RSS" href="/feed.xml" />
+      <link rel="alternate" type="application/atom+xml" title="Atom" href="/atom.xml" />
+      <link rel="alternate" type="application/feed+json" title="JSON Feed" href="/feed.json" />
       <meta name="viewport" content="width=device-width, initial-scale=1" />
     </>
   );
@@ -0,0 +1,64 @@
+import { Show, type JSX } from "solid-js";
+import { BlockRenderer } from "~/components/editor/block-renderer";
+import { Breadcrumbs, type Breadcrumb } from "./archive-view";
+import type { PublicPost } from "./post-view";
+
+interface PageViewProps {
+  page: PublicPost;
+  breadcrumbs: Breadcrumb[];
+}
+
+/**
+ * Single-page view: breadcrumbs for nested pages, header and block content.
+ * Meant to be wrapped in a ThemedLayout using the page layout.
+ */
+export function PageView(props: PageViewProps): JSX.Element {
+  const page = () => props.page;
+
+  return (
+    <article class="p-8">
+      {/* Only nested pages have a trail beyond Home and the page itself */}
+      <Show when={props.breadcrumbs.length > 2}>
+        <Breadcrumbs items={props.breadcrumbs} />
+      </Show>
+
+      <header class="mb-8">
+        <h1 class="text-4xl font-bold text-gray-900 mb-4">
+          {page().title}
+        </h1>
+        <Show when={page().excerpt}>
+          <p class="text-xl text-gray-600 leading-relaxed">
+            {page().excerpt}
+          </p>
+        </Show>
+        <div class="flex items-center text-sm text-gray-500 mt-6">
+          <Show when={page().publishedAt}>
+            <time dateTime={new Date(page().publishedAt!).toISOString()}>
+              Published on {new Date(page().publishedAt!).toLocaleDateString()}
+            </time>
+          </Show>
+          <Show when={page().author}>
+            <span class="mx-2">•</span>
+            <span>By {page().author.name || page().author.username}</span>
+          </Show>
+        </div>
+      </header>
+
+      <div class="prose prose-lg max-w-none">
+        <Show
+          when={page().blocks && page().blocks.length > 0}
+          fallback={
+            <Show
+              when={page().content && typeof page().content === "string"}
+              fallback={<p class="text-gray-500 italic">No content available.</p>}
+            >
+              <div innerHTML={page().content || ""} />
+            </Show>
+          }
+        >
+          <BlockRenderer blocks={page().blocks} />
+        </Show>
+      </div>
+    </article>
+  );
+}
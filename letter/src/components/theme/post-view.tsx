@@ -0,0 +1,161 @@
+import { For, Show, type JSX } from "solid-js";
+import { A } from "@solidjs/router";
+import { BlockRenderer } from "~/components/editor/block-renderer";
+import { buildPostPath } from "~/lib/permalinks";
+import { Comments } from "~/components/theme/comments";
+import type { getPostBySlug } from "~/lib/queries";
+import type { getRelatedPosts } from "~/lib/cms-utils";
+import type { CommentThread } from "~/lib/comments";
+
+export type PublicPost = NonNullable<Awaited<ReturnType<typeof getPostBySlug>>["data"]>;
+export type RelatedPost = Awaited<ReturnType<typeof getRelatedPosts>>["data"][number];
+
+interface PostViewProps {
+  post: PublicPost;
+  // Approved comments and whether new ones are accepted; omit to hide comments
+  comments?: CommentThread | null;
+  // Display name of the signed-in visitor, prefilled as the comment author
+  commenter?: string | null;
+  relatedPosts: RelatedPost[];
+  permalinkStructure: string;
+  // Hides the comments, e.g. for post types that don't support comments
+  hideComments?: boolean;
+  // Rendered below the content, e.g. custom field values
+  children?: JSX.Element;
+}
+
+/**
+ * Full single-post view: header with byline and taxonomy, block content,
+ * related posts and the comment thread. Meant to be wrapped in a ThemedLayout.
+ */
+export function PostView(props: PostViewProps): JSX.Element {
+  const post = () => props.post;
+
+  return (
+    <div class="p-8">
+      <header class="mb-8">
+        <Show when={post().status === "PRIVATE"}>
+          <span class="inline-flex items-center px-3 py-1 mb-4 text-xs font-semibold rounded-full bg-purple-100 text-purple-800 border border-purple-200">
+            🔒 Private
+          </span>
+        </Show>
+        <h1 class="text-4xl font-bold text-gray-900 mb-4">{post().title}</h1>
+        <Show when={post().excerpt}>
+          <p class="text-xl text-gray-600 leading-relaxed">{post().excerpt}</p>
+        </Show>
+        <PostByline post={post()} />
+        <PostTaxonomy post={post()} />
+      </header>
+
+      <Show when={post().media?.filePath}>
+        <figure class="mb-8">
+          <img
+            src={post().media!.filePath}
+            alt={post().media!.altText || post().title}
+            class="w-full h-auto rounded-lg shadow-sm"
+          />
+        </figure>
+      </Show>
+
+      <div class="prose prose-lg max-w-none">
+        <Show
+          when={post().blocks.length > 0}
+          fallback={
+            <Show
+              when={post().content}
+              fallback={<p class="text-gray-500 italic">No content available.</p>}
+            >
+              <div innerHTML={post().content || ""} />
+            </Show>
+          }
+        >
+          <BlockRenderer blocks={post().blocks} />
+        </Show>
+      </div>
+
+      {props.children}
+
+      <Show when={props.relatedPosts.length > 0}>
+        <RelatedPosts posts={props.relatedPosts} permalinkStructure={props.permalinkStructure} />
+      </Show>
+
+      <Show when={!props.hideComments && props.comments}>
+        {(thread) => <Comments postId={post().id} thread={thread()} commenter={props.commenter} />}
+      </Show>
+    </div>
+  );
+}
+
+function PostByline(props: { post: PublicPost }): JSX.Element {
+  const authorName = () => props.post.author.name || props.post.author.username || "Unknown author";
+  const date = () => props.post.publishedAt || props.post.createdAt;
+
+  return (
+    <div class="flex items-center text-sm text-gray-500 mt-6">
+      <Show when={props.post.author.image}>
+        <img
+          src={props.post.author.image!}
+          alt=""
+          class="h-8 w-8 rounded-full object-cover mr-3"
+        />
+      </Show>
+      <span>By {authorName()}</span>
+      <span class="mx-2">•</span>
+      <time dateTime={new Date(date()).toISOString()}>
+        {new Date(date()).toLocaleDateString()}
+      </time>
+    </div>
+  );
+}
+
+function PostTaxonomy(props: { post: PublicPost }): JSX.Element {
+  return (
+    <Show when={props.post.categories.length > 0 || props.post.tags.length > 0}>
+      <div class="flex flex-wrap items-center gap-2 mt-4">
+        <For each={props.post.categories}>
+          {({ category }) => (
+            <A
+              href={`/category/${category.slug}`}
+              class="px-3 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+            >
+              {category.name}
+            </A>
+          )}
+        </For>
+        <For each={props.post.tags}>
+          {({ tag }) => (
+            <A
+              href={`/tag/${tag.slug}`}
+              class="px-3 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+            >
+              #{tag.name}
+            </A>
+          )}
+        </For>
+      </div>
+    </Show>
+  );
+}
+
+function RelatedPosts(props: { posts: RelatedPost[]; permalinkStructure: string }): JSX.Element {
+  return (
+    <section class="mt-12 pt-8 border-t border-gray-200">
+      <h2 class="text-2xl font-semibold text-gray-900 mb-6">Related Posts</h2>
+      <div class="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <For each={props.posts}>
+          {(related) => (
+            <A
+              href={buildPostPath(related, props.permalinkStructure)}
+              class="block p-4 rounded-lg border border-gray-200 hover:border-blue-300 hover:shadow-sm transition-all"
+            >
+              <h3 class="font-semibold text-gray-900 mb-2">{related.title}</h3>
+              <Show when={related.excerpt}>
+                <p class="text-sm text-gray-600 line-clamp-3">{related.excerpt}</p>
+              </Show>
+            </A>
+          )}
+        </For>
+      </div>
+    </section>
+  );
+}
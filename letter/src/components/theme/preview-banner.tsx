@@ -0,0 +1,33 @@
+import type { JSX } from "solid-js";
+import type { PostStatus } from "@prisma/client";
+
+interface PreviewBannerProps {
+  status: PostStatus;
+  expiresAt: Date | string;
+}
+
+const STATUS_LABELS: Partial<Record<PostStatus, string>> = {
+  DRAFT: "a draft",
+  REVIEW: "awaiting review",
+  SCHEDULED: "scheduled",
+  PRIVATE: "private",
+  PUBLISHED: "published",
+};
+
+/**
+ * Bar shown above content viewed through a preview link, so a preview is
+ * never mistaken for the live site.
+ */
+export function PreviewBanner(props: PreviewBannerProps): JSX.Element {
+  return (
+    <div
+      role="status"
+      class="sticky top-0 z-50 bg-amber-400 text-amber-950 text-sm text-center px-4 py-2 shadow"
+    >
+      <strong class="uppercase tracking-wide mr-2">Preview</strong>
+      This content is {STATUS_LABELS[props.status] ?? props.status.toLowerCase()} and may change
+      before it's published. This link expires on{" "}
+      {new Date(props.expiresAt).toLocaleString()}.
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { For, Show, type JSX } from "solid-js";
+import { A } from "@solidjs/router";
+import { buildPostPath } from "~/lib/permalinks";
+import type { SnippetPart } from "~/lib/search-index";
+import type { searchContent, SearchFilters } from "~/lib/cms-utils";
+
+export type SearchPage = NonNullable<Awaited<ReturnType<typeof searchContent>>["data"]>;
+export type SearchResult = SearchPage["results"][number];
+
+export interface SearchState extends SearchFilters {
+  query: string;
+  page: number;
+}
+
+interface SearchViewProps {
+  state: SearchState;
+  search: SearchPage;
+  perPage: number;
+  permalinkStructure?: string;
+}
+
+/**
+ * Build a `/search` URL from a search state, dropping empty values.
+ */
+export function searchUrl(state: SearchState): string {
+  const params = new URLSearchParams();
+  if (state.query) params.set("q", state.query);
+  if (state.postTypes?.[0]) params.set("type", state.postTypes[0]);
+  if (state.categorySlug) params.set("category", state.categorySlug);
+  if (state.tagSlug) params.set("tag", state.tagSlug);
+  if (state.author) params.set("author", state.author);
+  if (state.page > 1) params.set("page", String(state.page));
+  const query = params.toString();
+  return query ? `/search?${query}` : "/search";
+}
+
+/**
+ * Search form, ranked results with highlighted snippets and facet filters.
+ * Meant to be wrapped in a ThemedLayout using the archive layout.
+ */
+export function SearchView(props: SearchViewProps): JSX.Element {
+  const totalPages = () => Math.max(1, Math.ceil(props.search.total / props.perPage));
+  const hasFilters = () =>
+    !!(props.state.postTypes?.length || props.state.categorySlug || props.state.tagSlug || props.state.author);
+
+  return (
+    <div>
+      <header class="mb-8">
+        <h1 class="text-4xl font-bold text-gray-900 mb-6">Search</h1>
+        <form method="get" action="/search" role="search" class="flex gap-2">
+          <input
+            type="search"
+            name="q"
+            value={props.state.query}
+            placeholder="Search posts and pages..."
+            class="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            class="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Search
+          </button>
+        </form>
+        <Show when={props.state.query}>
+          <p class="text-sm text-gray-500 mt-4">
+            {props.search.total === 1 ? "1 result" : `${props.search.total} results`} for
+            "<span class="font-medium text-gray-900">{props.state.query}</span>"
+            <Show when={hasFilters()}>
+              <A href={searchUrl({ query: props.state.query, page: 1 })} class="ml-3 text-blue-600 hover:underline">
+                Clear filters
+              </A>
+            </Show>
+          </p>
+        </Show>
+      </header>
+
+      <Show when={props.state.query}>
+        <div class="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <div class="lg:col-span-3">
+            <Show
+              when={props.search.results.length > 0}
+              fallback={<p class="text-gray-500 italic">No results found.</p>}
+            >
+              <div class="space-y-6">
+                <For each={props.search.results}>
+                  {(result) => (
+                    <SearchResultCard result={result} permalinkStructure={props.permalinkStructure} />
+                  )}
+                </For>
+              </div>
+            </Show>
+
+            <Show when={totalPages() > 1}>
+              <nav aria-label="Pagination" class="flex items-center justify-between mt-10">
+                <Show when={props.state.page > 1} fallback={<span />}>
+                  <A
+                    href={searchUrl({ ...props.state, page: props.state.page - 1 })}
+                    class="px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                  >
+                    ← Previous
+                  </A>
+                </Show>
+                <span class="text-sm text-gray-500">
+                  Page {props.state.page} of {totalPages()}
+                </span>
+                <Show when={props.state.page < totalPages()} fallback={<span />}>
+                  <A
+                    href={searchUrl({ ...props.state, page: props.state.page + 1 })}
+                    class="px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+                  >
+                    Next →
+                  </A>
+                </Show>
+              </nav>
+            </Show>
+          </div>
+
+          <aside class="space-y-6">
+            <FacetGroup
+              title="Type"
+              items={props.search.facets.types.map((facet) => ({
+                label: facet.type.charAt(0) + facet.type.slice(1).toLowerCase(),
+                count: facet.count,
+                active: props.state.postTypes?.[0] === facet.type,
+                href: searchUrl({
+                  ...props.state,
+                  postTypes: props.state.postTypes?.[0] === facet.type ? undefined : [facet.type],
+                  page: 1,
+                }),
+              }))}
+            />
+            <FacetGroup
+              title="Categories"
+              items={props.search.facets.categories.map((facet) => ({
+                label: facet.name,
+                count: facet.count,
+                active: props.state.categorySlug === facet.slug,
+                href: searchUrl({
+                  ...props.state,
+                  categorySlug: props.state.categorySlug === facet.slug ? undefined : facet.slug,
+                  page: 1,
+                }),
+              }))}
+            />
+            <FacetGroup
+              title="Tags"
+              items={props.search.facets.tags.map((facet) => ({
+                label: `#${facet.name}`,
+                count: facet.count,
+                active: props.state.tagSlug === facet.slug,
+                href: searchUrl({
+                  ...props.state,
+                  tagSlug: props.state.tagSlug === facet.slug ? undefined : facet.slug,
+                  page: 1,
+                }),
+              }))}
+            />
+            <FacetGroup
+              title="Authors"
+              items={props.search.facets.authors.map((facet) => ({
+                label: facet.name || facet.username,
+                count: facet.count,
+                active: props.state.author === facet.username,
+                href: searchUrl({
+                  ...props.state,
+                  author: props.state.author === facet.username ? undefined : facet.username,
+                  page: 1,
+                }),
+              }))}
+            />
+          </aside>
+        </div>
+      </Show>
+    </div>
+  );
+}
+
+/**
+ * Public path of a search result. Blog posts follow the permalink structure,
+ * pages their place in the page hierarchy and custom post type entries their
+ * type's URL base; anything else is served by slug.
+ */
+function resultPath(result: SearchResult, permalinkStructure?: string): string {
+  if (result.type === "POST" && !result.customType) {
+    return buildPostPath(result, permalinkStructure);
+  }
+  return result.path || `/${result.slug}`;
+}
+
+function SearchResultCard(props: { result: SearchResult; permalinkStructure?: string }): JSX.Element {
+  const date = () => props.result.publishedAt || props.result.createdAt;
+
+  return (
+    <article class="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 class="text-xl font-semibold text-gray-900 mb-1">
+        <A
+          href={resultPath(props.result, props.permalinkStructure)}
+          class="hover:text-blue-600 transition-colors"
+        >
+          {props.result.title}
+        </A>
+      </h2>
+      <div class="text-xs text-gray-500 mb-3">
+        <span class="uppercase tracking-wide">
+          {props.result.customType || props.result.type.toLowerCase()}
+        </span>
+        <span class="mx-2">•</span>
+        <time dateTime={new Date(date()).toISOString()}>
+          {new Date(date()).toLocaleDateString()}
+        </time>
+      </div>
+      <p class="text-gray-700 leading-relaxed">
+        <Snippet parts={props.result.snippet} />
+      </p>
+    </article>
+  );
+}
+
+// Render snippet parts as text and <mark>, never as HTML
+function Snippet(props: { parts: SnippetPart[] }): JSX.Element {
+  return (
+    <For each={props.parts}>
+      {(part) => (
+        <Show when={part.highlight} fallback={part.text}>
+          <mark class="bg-yellow-100 text-gray-900 rounded px-0.5">{part.text}</mark>
+        </Show>
+      )}
+    </For>
+  );
+}
+
+function FacetGroup(props: {
+  title: string;
+  items: Array<{ label: string; count: number; active: boolean; href: string }>;
+}): JSX.Element {
+  return (
+    <Show when={props.items.length > 0}>
+      <section>
+        <h3 class="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">
+          {props.title}
+        </h3>
+        <ul class="space-y-1">
+          <For each={props.items}>
+            {(item) => (
+              <li>
+                <A
+                  href={item.href}
+                  class={`flex items-center justify-between text-sm rounded px-2 py-1 transition-colors ${
+                    item.active ? "bg-blue-50 text-blue-700 font-medium" : "text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  <span>{item.label}</span>
+                  <span class="text-xs text-gray-400">{item.count}</span>
+                </A>
+              </li>
+            )}
+          </For>
+        </ul>
+      </section>
+    </Show>
+  );
+}
@@ -1,5 +1,5 @@
 import { createSignal, createResource, For, Show, onMount, type JSX } from "solid-js";
-import { uploadMedia, getMediaLibrary, updateMedia, deleteMedia } from "~/lib/media-actions";
+import { uploadMedia, getMediaLibrary, updateMedia, trashMediaItem } from "~/lib/media-actions";
 import type { Media } from "@prisma/client";
 
 interface MediaLibraryProps {
@@ -114,9 +114,9 @@ export function MediaLibrary(props: MediaLibraryProps): JSX.Element {
     };
 
     const handleDeleteMedia = async (media: Media) => {
-        if (confirm(`Are you sure you want to delete "${media.fileName}"?`)) {
+        if (confirm(`Move "${media.fileName}" to the trash?`)) {
             try {
-                await deleteMedia(media.id);
+                await trashMediaItem(media.id);
                 refetch();
             } catch (error) {
                 console.error('Delete failed:', error);
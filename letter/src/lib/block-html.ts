@@ -0,0 +1,99 @@
+import type { ContentBlockWithChildren } from './types';
+
+// ====== BLOCK HTML ======
+// Plain HTML rendering of block content for output that can't use the
+// Solid BlockRenderer, such as feeds. Mirrors BlockRenderer's handling
+// of each block type but without presentation classes.
+
+type BlockContent = Record<string, unknown> | null;
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Resolve a site-relative URL against the site URL, leaving absolute URLs untouched.
+ */
+export function absoluteUrl(url: string, baseUrl?: string): string {
+    if (!baseUrl || /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('//')) return url;
+    return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+function str(content: BlockContent, key: string): string {
+    const value = content?.[key];
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+}
+
+function renderBlock(block: ContentBlockWithChildren, children: string, baseUrl?: string): string {
+    const content = block.content as BlockContent;
+    const html = str(content, 'html');
+    const text = escapeHtml(str(content, 'text'));
+
+    switch (block.blockType) {
+        case 'PARAGRAPH':
+            return `<p>${html || text}</p>`;
+        case 'HEADING': {
+            const level = Math.min(6, Math.max(1, Number(content?.level) || 2));
+            return `<h${level}>${html || text}</h${level}>`;
+        }
+        case 'RICH_TEXT':
+            return `<div>${html || text}</div>`;
+        case 'IMAGE': {
+            const url = str(content, 'url');
+            if (!url) return '';
+            const caption = str(content, 'caption');
+            return `<figure><img src="${escapeHtml(absoluteUrl(url, baseUrl))}" alt="${escapeHtml(str(content, 'alt'))}" />` +
+                (caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : '') +
+                `</figure>`;
+        }
+        case 'QUOTE': {
+            const citation = str(content, 'citation');
+            return `<blockquote><p>${text}</p>${citation ? `<cite>${escapeHtml(citation)}</cite>` : ''}</blockquote>`;
+        }
+        case 'CODE': {
+            const language = str(content, 'language') || 'text';
+            return `<pre><code class="language-${escapeHtml(language)}">${escapeHtml(str(content, 'code'))}</code></pre>`;
+        }
+        case 'LIST': {
+            const tag = content?.type === 'ordered' ? 'ol' : 'ul';
+            const items = Array.isArray(content?.items) ? content.items as Array<{ text?: string } | string> : [];
+            const rendered = items
+                .map(item => `<li>${escapeHtml(typeof item === 'string' ? item : item?.text || '')}</li>`)
+                .join('');
+            return `<${tag}>${rendered}</${tag}>`;
+        }
+        case 'SEPARATOR':
+            return '<hr />';
+        case 'SPACER':
+            return '';
+        default: {
+            const fallback = text || escapeHtml(str(content, 'content'));
+            if (children) return `<div>${children}</div>`;
+            return fallback ? `<div>${fallback}</div>` : '';
+        }
+    }
+}
+
+/**
+ * Render blocks to an HTML string. Accepts either a flat list (as returned
+ * by getPostBySlug) or top-level blocks with `children`; nested blocks are
+ * rendered inside their container.
+ */
+export function renderBlocksToHtml(blocks: ContentBlockWithChildren[], baseUrl?: string): string {
+    const ids = new Set(blocks.map(block => block.id));
+    const roots = blocks.filter(block => block.parentId === null || !ids.has(block.parentId));
+
+    const render = (block: ContentBlockWithChildren): string => {
+        const children = block.children?.length
+            ? block.children
+            : blocks.filter(child => child.parentId === block.id);
+        return renderBlock(block, children.map(render).filter(Boolean).join('\n'), baseUrl);
+    };
+
+    return roots.map(render).filter(Boolean).join('\n');
+}
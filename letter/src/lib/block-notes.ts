@@ -0,0 +1,123 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { Permission, hasPermission, ROLE_PERMISSIONS } from './permissions';
+import { blockText } from './revisions';
+import { notifyAdminUsers, adminEditPath } from './review-workflow';
+import type { PostType, UserRole, Prisma } from '@prisma/client';
+
+// ====== BLOCK NOTES ======
+// Editors discuss content in threads anchored to a block of the post, by
+// the block's uid, which survives saves and reordering. Notes are internal:
+// they live apart from the post's content, so nothing that renders, feeds
+// or exports the post ever sees them.
+
+type NoteClient = Prisma.TransactionClient;
+
+const NOTE_USER_SELECT = {
+    id: true,
+    name: true,
+    username: true
+} as const;
+
+// Longest block excerpt shown next to a note
+const BLOCK_EXCERPT_LENGTH = 80;
+
+/**
+ * Usernames mentioned in a note as @username, each once.
+ */
+export function mentionedUsernames(body: string): string[] {
+    const usernames = Array.from(body.matchAll(/(?:^|[^\w@])@([\w.-]+)/g), match => match[1].replace(/\.+$/, ''));
+    return [...new Set(usernames.filter(Boolean))];
+}
+
+/**
+ * Notify users mentioned in a note, and anyone else who should hear about
+ * it, except whoever wrote it.
+ */
+export async function notifyNoteReaders(
+    client: NoteClient,
+    note: {
+        post: { id: number; title: string; type: PostType };
+        authorId: number;
+        body: string;
+        alsoNotify?: number[];
+    }
+): Promise<void> {
+    const usernames = mentionedUsernames(note.body);
+    const mentioned = usernames.length === 0 ? [] : await client.user.findMany({
+        where: { username: { in: usernames } },
+        select: { id: true }
+    });
+    const link = adminEditPath(note.post);
+
+    const mentionedIds = mentioned.map(user => user.id).filter(id => id !== note.authorId);
+    await notifyAdminUsers(client, mentionedIds, `You were mentioned in a note on "${note.post.title}"`, link);
+
+    const otherIds = (note.alsoNotify ?? []).filter(id => id !== note.authorId && !mentionedIds.includes(id));
+    await notifyAdminUsers(client, [...new Set(otherIds)], `New reply to a note on "${note.post.title}"`, link);
+}
+
+// ====== BLOCK NOTE QUERIES ======
+
+/**
+ * A post's notes with their threads, oldest first, and a short excerpt of
+ * each of the post's blocks to show beside them. Notes whose block is no
+ * longer in the post have no excerpt.
+ */
+export async function getBlockNotes(postId: number) {
+    "use server";
+    return tryCatch(async () => {
+        const [notes, blocks] = await Promise.all([
+            db.blockNote.findMany({
+                where: { postId },
+                select: {
+                    id: true,
+                    blockUid: true,
+                    quote: true,
+                    resolvedAt: true,
+                    createdAt: true,
+                    author: { select: NOTE_USER_SELECT },
+                    resolvedBy: { select: NOTE_USER_SELECT },
+                    comments: {
+                        select: {
+                            id: true,
+                            body: true,
+                            createdAt: true,
+                            author: { select: NOTE_USER_SELECT }
+                        },
+                        orderBy: { id: 'asc' }
+                    }
+                },
+                orderBy: { id: 'asc' }
+            }),
+            db.contentBlock.findMany({
+                where: { postId },
+                select: { uid: true, blockType: true, content: true },
+                orderBy: { order: 'asc' }
+            })
+        ]);
+
+        return {
+            notes,
+            blocks: blocks.map(block => ({
+                uid: block.uid,
+                blockType: block.blockType,
+                excerpt: blockText(block).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, BLOCK_EXCERPT_LENGTH)
+            }))
+        };
+    });
+}
+
+/**
+ * Users who can be mentioned in notes: everyone with admin access.
+ */
+export async function getNoteMentionCandidates() {
+    "use server";
+    const roles = (Object.keys(ROLE_PERMISSIONS) as UserRole[])
+        .filter(role => hasPermission(role, Permission.ADMIN_ACCESS));
+    return tryCatch(db.user.findMany({
+        where: { role: { in: roles }, username: { not: null } },
+        select: NOTE_USER_SELECT,
+        orderBy: { username: 'asc' }
+    }));
+}
@@ -0,0 +1,82 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import type { PostStatus, Prisma } from '@prisma/client';
+
+// ====== CONTENT CALENDAR ======
+// The editorial calendar lays posts out by publish date: published and
+// scheduled posts, and drafts already planned for a day. Drafts without a
+// date wait in a tray until they're dragged onto one.
+
+export interface CalendarFilters {
+    // Dates the calendar shows, from inclusive to exclusive
+    from: Date;
+    to: Date;
+    authorId?: number;
+    categoryId?: number;
+    status?: PostStatus;
+    // POST, PAGE or the name of a custom post type
+    postType?: string;
+}
+
+// Statuses of undated content waiting in the tray
+const UNSCHEDULED_STATUSES: PostStatus[] = ['DRAFT', 'REVIEW'];
+
+// Most undated drafts listed in the tray
+const TRAY_LIMIT = 100;
+
+const CALENDAR_POST_SELECT = {
+    id: true,
+    title: true,
+    status: true,
+    type: true,
+    customType: true,
+    publishedAt: true,
+    author: { select: { id: true, name: true, username: true } }
+} as const;
+
+function calendarWhere(filters: Omit<CalendarFilters, 'from' | 'to'>): Prisma.PostWhereInput {
+    const where: Prisma.PostWhereInput = { status: { not: 'TRASH' } };
+
+    if (filters.status) where.status = filters.status;
+    if (filters.authorId) where.authorId = filters.authorId;
+    if (filters.categoryId) where.categories = { some: { categoryId: filters.categoryId } };
+    if (filters.postType === 'POST' || filters.postType === 'PAGE') {
+        where.type = filters.postType;
+        where.customType = null;
+    } else if (filters.postType) {
+        where.customType = filters.postType;
+    }
+
+    return where;
+}
+
+/**
+ * Content dated within the calendar's range, and the undated drafts for its
+ * tray, both narrowed by the filters.
+ */
+export async function getCalendarPosts(filters: CalendarFilters) {
+    "use server";
+    const { from, to, ...rest } = filters;
+    const where = calendarWhere(rest);
+
+    return tryCatch(async () => {
+        const [scheduled, unscheduled] = await Promise.all([
+            db.post.findMany({
+                where: { ...where, publishedAt: { gte: from, lt: to } },
+                select: CALENDAR_POST_SELECT,
+                orderBy: { publishedAt: 'asc' }
+            }),
+            db.post.findMany({
+                where: {
+                    ...where,
+                    status: rest.status ?? { in: UNSCHEDULED_STATUSES },
+                    publishedAt: null
+                },
+                select: CALENDAR_POST_SELECT,
+                orderBy: { updatedAt: 'desc' },
+                take: TRAY_LIMIT
+            })
+        ]);
+        return { scheduled, unscheduled };
+    });
+}
@@ -1,117 +1,245 @@
 import { db } from './db';
 import { tryCatch } from "./try-catch";
+import { Prisma } from '@prisma/client';
+import { getPostBySlug } from './queries';
+import { getSiteSettings } from './site-settings';
+import { buildPostPath, matchPermalink, permalinkMatchesPost } from './permalinks';
+import { invalidateContentCache } from './content-cache';
+import { getPagePathMap } from './page-hierarchy';
+import { getPostTypeBaseMap } from './post-types';
+import { getSearchConfig, splitSnippet, SNIPPET_START, SNIPPET_STOP } from './search-index';
 
 // ====== SEARCH & FILTERING ======
-export async function searchContent(query: string, options?: {
+export interface SearchFilters {
     postTypes?: string[];
+    categorySlug?: string;
+    tagSlug?: string;
+    author?: string;
+}
+
+// Visibility, query match and facet filters shared by result, count and facet queries
+function searchConditions(filters?: SearchFilters) {
+    const conditions = [
+        Prisma.sql`p."searchVector" @@ q.query`,
+        Prisma.sql`p."status" = 'PUBLISHED'`,
+        Prisma.sql`p."publishedAt" <= NOW()`,
+        Prisma.sql`p."type" <> 'ATTACHMENT'`
+    ];
+
+    if (filters?.postTypes && filters.postTypes.length > 0) {
+        conditions.push(Prisma.sql`(p."type"::text IN (${Prisma.join(filters.postTypes)}) OR p."customType" IN (${Prisma.join(filters.postTypes)}))`);
+    }
+    if (filters?.categorySlug) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "PostCategory" pc
+            INNER JOIN "Category" c ON c.id = pc."categoryId"
+            WHERE pc."postId" = p.id AND c.slug = ${filters.categorySlug}
+        )`);
+    }
+    if (filters?.tagSlug) {
+        conditions.push(Prisma.sql`EXISTS (
+            SELECT 1 FROM "PostTag" pt
+            INNER JOIN "Tag" t ON t.id = pt."tagId"
+            WHERE pt."postId" = p.id AND t.slug = ${filters.tagSlug}
+        )`);
+    }
+    if (filters?.author) {
+        conditions.push(Prisma.sql`p."authorId" IN (SELECT id FROM "User" WHERE username = ${filters.author})`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Full-text search over published content using the Postgres search index.
+ * Results are ranked by relevance and carry a snippet split into
+ * highlighted parts. Facet counts reflect the current filters.
+ */
+export async function searchContent(query: string, options?: SearchFilters & {
     limit?: number;
     offset?: number;
 }) {
     "use server";
-    const searchTerms = query.split(' ').filter(term => term.length > 2);
-
-    if (searchTerms.length === 0) {
-        return tryCatch(Promise.resolve([]));
-    }
+    const trimmed = query.trim();
+    const limit = options?.limit || 20;
+    const offset = options?.offset || 0;
+
+    return tryCatch(async () => {
+        if (trimmed.length === 0) {
+            return {
+                results: [],
+                total: 0,
+                facets: { categories: [], tags: [], authors: [], types: [] }
+            };
+        }
 
-    // Optimized: Use multiple terms for better search accuracy
-    const searchConditions = searchTerms.map(term => ({
-        OR: [
-            {
-                title: {
-                    contains: term,
-                    mode: 'insensitive' as const
-                }
-            },
-            {
-                content: {
-                    contains: term,
-                    mode: 'insensitive' as const
-                }
-            },
-            {
-                excerpt: {
-                    contains: term,
-                    mode: 'insensitive' as const
-                }
-            }
-        ]
-    }));
+        const settings = await getSiteSettings();
+        const config = getSearchConfig(settings.data?.siteLanguage);
+        const where = searchConditions(options);
+        const matched = Prisma.sql`
+            q AS (SELECT websearch_to_tsquery(${config}::regconfig, ${trimmed}) AS query),
+            matched AS (SELECT p.id FROM "Post" p, q WHERE ${where})
+        `;
+        const headlineOptions = `StartSel=${SNIPPET_START}, StopSel=${SNIPPET_STOP}, MaxWords=35, MinWords=15, MaxFragments=2`;
+
+        const [hits, totals, categories, tags, authors, types] = await Promise.all([
+            db.$queryRaw<Array<{ id: number; rank: number; snippet: string }>>`
+                WITH q AS (SELECT websearch_to_tsquery(${config}::regconfig, ${trimmed}) AS query)
+                SELECT p.id,
+                    ts_rank_cd(p."searchVector", q.query) AS rank,
+                    ts_headline(${config}::regconfig, COALESCE(p."searchText", p.title), q.query, ${headlineOptions}) AS snippet
+                FROM "Post" p, q
+                WHERE ${where}
+                ORDER BY rank DESC, p."publishedAt" DESC
+                LIMIT ${limit} OFFSET ${offset}
+            `,
+            db.$queryRaw<Array<{ count: bigint }>>`
+                WITH ${matched}
+                SELECT COUNT(*)::bigint AS count FROM matched
+            `,
+            db.$queryRaw<Array<{ slug: string; name: string; count: bigint }>>`
+                WITH ${matched}
+                SELECT c.slug, c.name, COUNT(*)::bigint AS count
+                FROM matched m
+                INNER JOIN "PostCategory" pc ON pc."postId" = m.id
+                INNER JOIN "Category" c ON c.id = pc."categoryId"
+                GROUP BY c.id, c.slug, c.name
+                ORDER BY count DESC, c.name ASC
+                LIMIT 20
+            `,
+            db.$queryRaw<Array<{ slug: string; name: string; count: bigint }>>`
+                WITH ${matched}
+                SELECT t.slug, t.name, COUNT(*)::bigint AS count
+                FROM matched m
+                INNER JOIN "PostTag" pt ON pt."postId" = m.id
+                INNER JOIN "Tag" t ON t.id = pt."tagId"
+                GROUP BY t.id, t.slug, t.name
+                ORDER BY count DESC, t.name ASC
+                LIMIT 20
+            `,
+            db.$queryRaw<Array<{ username: string; name: string | null; count: bigint }>>`
+                WITH ${matched}
+                SELECT u.username, u.name, COUNT(*)::bigint AS count
+                FROM matched m
+                INNER JOIN "Post" p ON p.id = m.id
+                INNER JOIN "User" u ON u.id = p."authorId"
+                WHERE u.username IS NOT NULL
+                GROUP BY u.id, u.username, u.name
+                ORDER BY count DESC, u.username ASC
+                LIMIT 20
+            `,
+            db.$queryRaw<Array<{ type: string; count: bigint }>>`
+                WITH ${matched}
+                SELECT COALESCE(p."customType", p."type"::text) AS type, COUNT(*)::bigint AS count
+                FROM matched m
+                INNER JOIN "Post" p ON p.id = m.id
+                GROUP BY 1
+                ORDER BY count DESC
+            `
+        ]);
 
-    const baseWhere = {
-        status: 'PUBLISHED' as const,
-        AND: searchConditions
-    };
-
-    const where = options?.postTypes && options.postTypes.length > 0
-        ? {
-            ...baseWhere,
-            AND: [
-                ...searchConditions,
-                {
-                    OR: [
-                        {
-                            type: {
-                                in: options.postTypes as Array<'POST' | 'PAGE' | 'ATTACHMENT'>
-                            }
-                        },
-                        {
-                            customType: {
-                                in: options.postTypes
+        const posts = await db.post.findMany({
+            where: { id: { in: hits.map(hit => hit.id) } },
+            select: {
+                id: true,
+                title: true,
+                slug: true,
+                excerpt: true,
+                publishedAt: true,
+                createdAt: true,
+                type: true,
+                customType: true,
+                author: {
+                    select: {
+                        id: true,
+                        username: true,
+                        name: true,
+                        image: true
+                    }
+                },
+                categories: {
+                    select: {
+                        category: {
+                            select: {
+                                id: true,
+                                name: true,
+                                slug: true
                             }
                         }
-                    ]
-                }
-            ]
-        }
-        : baseWhere;
-
-    return tryCatch(db.post.findMany({
-        where,
-        // Optimized: Use select instead of include for better performance
-        select: {
-            id: true,
-            title: true,
-            slug: true,
-            excerpt: true,
-            publishedAt: true,
-            type: true,
-            customType: true,
-            author: {
-                select: {
-                    id: true,
-                    username: true,
-                    name: true,
-                    image: true
-                }
-            },
-            categories: {
-                select: {
-                    category: {
-                        select: {
-                            id: true,
-                            name: true,
-                            slug: true
-                        }
                     }
-                }
-            },
-            tags: {
-                select: {
-                    tag: {
-                        select: {
-                            id: true,
-                            name: true,
-                            slug: true
+                },
+                tags: {
+                    select: {
+                        tag: {
+                            select: {
+                                id: true,
+                                name: true,
+                                slug: true
+                            }
                         }
                     }
                 }
             }
-        },
-        take: options?.limit || 20,
-        skip: options?.offset || 0,
-        orderBy: { publishedAt: 'desc' }
-    }));
+        });
+
+        // Keep relevance order from the ranked query
+        const postsById = new Map(posts.map(post => [post.id, post]));
+        const pagePaths = posts.some(post => post.type === 'PAGE') ? await getPagePathMap() : null;
+        const typeBases = posts.some(post => post.customType) ? await getPostTypeBaseMap() : null;
+        const fixedPath = (post: typeof posts[number]) => {
+            if (post.customType) {
+                const base = typeBases?.get(post.customType);
+                return base ? `/${base}/${post.slug}` : null;
+            }
+            return pagePaths?.get(post.id) ?? null;
+        };
+        const results = hits.flatMap(hit => {
+            const post = postsById.get(hit.id);
+            return post ? [{
+                ...post,
+                // Pages are served at their path in the page hierarchy and
+                // custom post type entries under their type's URL base
+                path: fixedPath(post),
+                rank: Number(hit.rank),
+                snippet: splitSnippet(hit.snippet)
+            }] : [];
+        });
+
+        return {
+            results,
+            total: Number(totals[0]?.count ?? 0),
+            facets: {
+                categories: categories.map(row => ({ slug: row.slug, name: row.name, count: Number(row.count) })),
+                tags: tags.map(row => ({ slug: row.slug, name: row.name, count: Number(row.count) })),
+                authors: authors.map(row => ({ username: row.username, name: row.name, count: Number(row.count) })),
+                types: types.map(row => ({ type: row.type, count: Number(row.count) }))
+            }
+        };
+    });
+}
+
+// ====== PERMALINKS ======
+/**
+ * Resolve a request path to a blog post using the configured permalink structure.
+ * Only checks that the path matches the post; visibility by status is left to the caller.
+ */
+export async function getPostByPermalink(pathname: string) {
+    "use server";
+    return tryCatch(async () => {
+        const settings = await getSiteSettings();
+        const structure = settings.data?.permalinkStructure;
+        const params = matchPermalink(pathname, structure);
+
+        if (!params?.slug) return null;
+
+        const result = await getPostBySlug(params.slug);
+        const post = result.data;
+
+        if (!post || post.type !== 'POST' || post.customType) return null;
+        if (!permalinkMatchesPost(params, post)) return null;
+
+        return post;
+    });
 }
 
 // ====== ARCHIVES ======
@@ -121,9 +249,6 @@ export async function getArchives(options?: {
     limit?: number;
 }) {
     "use server";
-
-
-
     const isYearly = options?.type === 'yearly';
 
     // Use database-level grouping with raw SQL for optimal performance
@@ -137,13 +262,14 @@ export async function getArchives(options?: {
         FROM "Post"
         WHERE "status" = 'PUBLISHED' 
             AND "publishedAt" IS NOT NULL
+            AND "publishedAt" <= NOW()
             ${options?.postType ?
-            db.$queryRaw`AND ("type" = ${options.postType} OR "customType" = ${options.postType})` :
-            db.$queryRaw``
+            Prisma.sql`AND ("type"::text = ${options.postType} OR "customType" = ${options.postType})` :
+            Prisma.empty
         }
         GROUP BY period
         ORDER BY period DESC
-        ${options?.limit ? db.$queryRaw`LIMIT ${options.limit}` : db.$queryRaw``}
+        ${options?.limit ? Prisma.sql`LIMIT ${options.limit}` : Prisma.empty}
     `.then(data => {
             // Transform results to expected format
             return data.map(item => ({
@@ -155,6 +281,140 @@ export async function getArchives(options?: {
         }));
 }
 
+/**
+ * Ids of a category and all of its descendants, so parent archives
+ * also list posts filed under child categories.
+ */
+export async function getCategoryTreeIds(categoryId: number) {
+    "use server";
+    return tryCatch(db.$queryRaw<Array<{ id: number }>>`
+        WITH RECURSIVE category_tree AS (
+            SELECT id
+            FROM "Category"
+            WHERE id = ${categoryId}
+
+            UNION ALL
+
+            SELECT c.id
+            FROM "Category" c
+            INNER JOIN category_tree ct ON c."parentId" = ct.id
+        )
+        SELECT id FROM category_tree
+    `.then(rows => rows.map(row => row.id)));
+}
+
+/**
+ * One page of publicly visible blog posts for a category, tag, author or date archive.
+ * Page size comes from the `postsPerPage` setting; pages are 1-based.
+ */
+export async function getArchivePosts(filter: {
+    categoryIds?: number[];
+    tagId?: number;
+    // Terms of a custom taxonomy; entries filed under any of them are listed
+    termIds?: number[];
+    authorId?: number;
+    publishedFrom?: Date;
+    publishedBefore?: Date;
+    // Name of a custom post type; regular posts are listed when omitted
+    customType?: string;
+}, page = 1) {
+    "use server";
+    return tryCatch(async () => {
+        const settings = await getSiteSettings();
+        const perPage = Math.max(1, settings.data?.postsPerPage ?? 10);
+        const currentPage = Math.max(1, Math.floor(page) || 1);
+
+        const now = new Date();
+        const before = filter.publishedBefore && filter.publishedBefore < now
+            ? filter.publishedBefore
+            : undefined;
+
+        const where: Prisma.PostWhereInput = {
+            type: 'POST',
+            customType: filter.customType ?? null,
+            status: 'PUBLISHED',
+            publishedAt: {
+                gte: filter.publishedFrom,
+                ...(before ? { lt: before } : { lte: now })
+            }
+        };
+
+        if (filter.categoryIds) {
+            where.categories = {
+                some: {
+                    categoryId: { in: filter.categoryIds }
+                }
+            };
+        }
+        if (filter.tagId) {
+            where.tags = {
+                some: { tagId: filter.tagId }
+            };
+        }
+        if (filter.termIds) {
+            where.terms = {
+                some: {
+                    termId: { in: filter.termIds }
+                }
+            };
+        }
+        if (filter.authorId) where.authorId = filter.authorId;
+
+        const [posts, total] = await db.$transaction([
+            db.post.findMany({
+                where,
+                select: {
+                    id: true,
+                    title: true,
+                    slug: true,
+                    excerpt: true,
+                    publishedAt: true,
+                    createdAt: true,
+                    author: {
+                        select: {
+                            id: true,
+                            username: true,
+                            name: true,
+                            image: true
+                        }
+                    },
+                    categories: {
+                        select: {
+                            category: {
+                                select: {
+                                    id: true,
+                                    name: true,
+                                    slug: true
+                                }
+                            }
+                        }
+                    },
+                    _count: {
+                        select: {
+                            comments: {
+                                where: { status: 'APPROVED' }
+                            }
+                        }
+                    }
+                },
+                orderBy: { publishedAt: 'desc' },
+                take: perPage,
+                skip: (currentPage - 1) * perPage
+            }),
+            db.post.count({ where })
+        ]);
+
+        return {
+            posts,
+            total,
+            page: currentPage,
+            perPage,
+            totalPages: Math.max(1, Math.ceil(total / perPage)),
+            permalinkStructure: settings.data?.permalinkStructure
+        };
+    });
+}
+
 // ====== RELATED CONTENT ======
 export async function getRelatedPosts(postId: number, limit = 5) {
     "use server";
@@ -182,6 +442,7 @@ export async function getRelatedPosts(postId: number, limit = 5) {
             return tx.post.findMany({
                 where: {
                     id: { not: postId },
+                    type: 'POST',
                     status: 'PUBLISHED'
                 },
                 select: {
@@ -257,6 +518,7 @@ export async function getRelatedPosts(postId: number, limit = 5) {
         const relatedPosts = await tx.post.findMany({
             where: {
                 id: { not: postId },
+                type: 'POST',
                 status: 'PUBLISHED',
                 OR: relationConditions
             },
@@ -332,7 +594,7 @@ export async function getRelatedPosts(postId: number, limit = 5) {
 }
 
 // ====== BREADCRUMBS ======
-export async function getBreadcrumbs(type: 'post' | 'category' | 'tag', id: number) {
+export async function getBreadcrumbs(type: 'post' | 'page' | 'category' | 'tag' | 'author', id: number) {
     "use server";
     const breadcrumbs: Array<{ name: string; url: string }> = [
         { name: 'Home', url: '/' }
@@ -342,8 +604,11 @@ export async function getBreadcrumbs(type: 'post' | 'category' | 'tag', id: numb
         return tryCatch(db.post.findUnique({
             where: { id },
             select: {
+                id: true,
                 title: true,
                 slug: true,
+                publishedAt: true,
+                createdAt: true,
                 categories: {
                     select: {
                         categoryId: true
@@ -361,15 +626,15 @@ export async function getBreadcrumbs(type: 'post' | 'category' | 'tag', id: numb
                 // Build category path with single query using recursive CTE approach
                 const categoryPath = await db.$queryRaw<Array<{ name: string; slug: string; level: number }>>`
                     WITH RECURSIVE category_path AS (
-                        SELECT id, name, slug, parent_id, 0 as level
+                        SELECT id, name, slug, "parentId", 0 as level
                         FROM "Category"
                         WHERE id = ${categoryId}
                         
                         UNION ALL
                         
-                        SELECT c.id, c.name, c.slug, c.parent_id, cp.level + 1
+                        SELECT c.id, c.name, c.slug, c."parentId", cp.level + 1
                         FROM "Category" c
-                        INNER JOIN category_path cp ON c.id = cp.parent_id
+                        INNER JOIN category_path cp ON c.id = cp."parentId"
                     )
                     SELECT name, slug, level
                     FROM category_path
@@ -385,9 +650,10 @@ export async function getBreadcrumbs(type: 'post' | 'category' | 'tag', id: numb
             }
 
             // Add current post
+            const settings = await getSiteSettings();
             breadcrumbs.push({
                 name: post.title,
-                url: `/${post.slug}`
+                url: buildPostPath(post, settings.data?.permalinkStructure)
             });
 
             return breadcrumbs;
@@ -397,15 +663,15 @@ export async function getBreadcrumbs(type: 'post' | 'category' | 'tag', id: numb
     if (type === 'category') {
         return tryCatch(db.$queryRaw<Array<{ name: string; slug: string; level: number }>>`
             WITH RECURSIVE category_path AS (
-                SELECT id, name, slug, parent_id, 0 as level
+                SELECT id, name, slug, "parentId", 0 as level
                 FROM "Category"
                 WHERE id = ${id}
                 
                 UNION ALL
                 
-                SELECT c.id, c.name, c.slug, c.parent_id, cp.level + 1
+                SELECT c.id, c.name, c.slug, c."parentId", cp.level + 1
                 FROM "Category" c
-                INNER JOIN category_path cp ON c.id = cp.parent_id
+                INNER JOIN category_path cp ON c.id = cp."parentId"
             )
             SELECT name, slug, level
             FROM category_path
@@ -441,6 +707,53 @@ export async function getBreadcrumbs(type: 'post' | 'category' | 'tag', id: numb
         }));
     }
 
+    if (type === 'page') {
+        return tryCatch(db.$queryRaw<Array<{ title: string; slug: string; level: number }>>`
+            WITH RECURSIVE page_path AS (
+                SELECT id, title, slug, "parentId", 0 as level
+                FROM "Post"
+                WHERE id = ${id} AND "type"::text = 'PAGE'
+
+                UNION ALL
+
+                SELECT p.id, p.title, p.slug, p."parentId", pp.level + 1
+                FROM "Post" p
+                INNER JOIN page_path pp ON p.id = pp."parentId"
+                WHERE p."type"::text = 'PAGE' AND p.id <> ${id} AND pp.level < 32
+            )
+            SELECT title, slug, level
+            FROM page_path
+            ORDER BY level DESC
+        `.then(pages => {
+            // Each crumb's URL is the path of slugs down to that page
+            let path = '';
+            pages.forEach(page => {
+                path += `/${page.slug}`;
+                breadcrumbs.push({ name: page.title, url: path });
+            });
+            return breadcrumbs;
+        }));
+    }
+
+    if (type === 'author') {
+        return tryCatch(db.user.findUnique({
+            where: { id },
+            select: {
+                name: true,
+                username: true
+            }
+        }).then(user => {
+            if (!user?.username) return breadcrumbs;
+
+            breadcrumbs.push({
+                name: user.name || user.username,
+                url: `/author/${user.username}`
+            });
+
+            return breadcrumbs;
+        }));
+    }
+
     return tryCatch(Promise.resolve(breadcrumbs));
 }
 
@@ -575,13 +888,13 @@ export async function getNavigationMenu() {
 // These utilities are available through the plugin-types export
 
 // ====== CACHE INVALIDATION HELPERS ======
+// Post and taxonomy changes affect every sitemap (lastmod, category and tag
+// listings), so both helpers drop all cached sitemaps.
 export async function invalidatePostCache(postId: number) {
     "use server";
-    // Implementation depends on your caching strategy
-    // This is a placeholder for cache invalidation logic
     return tryCatch(Promise.resolve({
         postId,
-        invalidated: true,
+        invalidated: invalidateContentCache('sitemap:'),
         timestamp: new Date()
     }));
 }
@@ -590,7 +903,16 @@ export async function invalidateCategoryCache(categoryId: number) {
     "use server";
     return tryCatch(Promise.resolve({
         categoryId,
-        invalidated: true,
+        invalidated: invalidateContentCache('sitemap:'),
+        timestamp: new Date()
+    }));
+}
+
+export async function invalidateTagCache(tagId: number) {
+    "use server";
+    return tryCatch(Promise.resolve({
+        tagId,
+        invalidated: invalidateContentCache('sitemap:'),
         timestamp: new Date()
     }));
 }
@@ -0,0 +1,362 @@
+import { db } from './db';
+import { executePluginHook } from './plugin-manager';
+import type { SiteSettings } from './site-settings';
+import type { CommentStatus } from '@prisma/client';
+
+// ====== COMMENT MODERATION ======
+// Every new comment runs through the spam checks in order; the first check
+// to flag it marks the comment SPAM. Comments that pass start PENDING unless
+// an auto-approval setting applies.
+
+export type CommentModerationSettings = Pick<
+    SiteSettings,
+    | 'commentsRequireApproval'
+    | 'commentsAutoApproveKnown'
+    | 'commentsAutoApproveUsers'
+    | 'spamMinSubmitSeconds'
+    | 'spamMaxLinks'
+    | 'spamBlockedKeywords'
+    | 'spamBlockedIps'
+    | 'spamBlockedEmails'
+    | 'spamClassifierEnabled'
+    | 'spamClassifierThreshold'
+>;
+
+// A new comment as seen by the spam checks
+export interface SpamCheckInput {
+    postId: number;
+    authorId?: number;
+    authorName: string;
+    authorEmail: string;
+    authorUrl?: string;
+    authorIp?: string;
+    agent?: string;
+    content: string;
+    // Value of the hidden form field only bots fill in
+    honeypot?: string;
+    // When the comment form was rendered, in ms since the epoch
+    startedAt?: number;
+}
+
+export interface SpamChecker {
+    name: string;
+    // Returns why the comment is spam, or null to let it through
+    check: (comment: SpamCheckInput, settings: CommentModerationSettings) => Promise<string | null> | string | null;
+}
+
+export interface SpamCheckOutcome {
+    spam: boolean;
+    // Checker that flagged the comment and its reason
+    checker: string | null;
+    reason: string | null;
+}
+
+/**
+ * Status a new comment starts with under the moderation settings.
+ */
+export async function resolveCommentStatus(
+    comment: { authorEmail: string; authorId?: number },
+    settings: CommentModerationSettings
+): Promise<CommentStatus> {
+    if (!settings.commentsRequireApproval) return 'APPROVED';
+    if (settings.commentsAutoApproveUsers && comment.authorId) return 'APPROVED';
+
+    if (settings.commentsAutoApproveKnown) {
+        const approved = await db.comment.count({
+            where: {
+                authorEmail: { equals: comment.authorEmail, mode: 'insensitive' },
+                status: 'APPROVED'
+            }
+        });
+        if (approved > 0) return 'APPROVED';
+    }
+    return 'PENDING';
+}
+
+// ====== SPAM CHECKS ======
+
+const LINK_PATTERN = /https?:\/\/|www\./gi;
+
+// Split a blocklist setting into its entries, one per line
+function blocklistEntries(value: string): string[] {
+    return value
+        .split('\n')
+        .map(entry => entry.trim().toLowerCase())
+        .filter(entry => entry && !entry.startsWith('#'));
+}
+
+// Blocked IPs match exactly, or by prefix when they end in "*"
+function matchesIp(ip: string, entry: string): boolean {
+    return entry.endsWith('*') ? ip.startsWith(entry.slice(0, -1)) : ip === entry;
+}
+
+// Blocked emails match exactly, or by domain when they start with "@"
+function matchesEmail(email: string, entry: string): boolean {
+    return entry.startsWith('@') ? email.endsWith(entry) : email === entry;
+}
+
+const honeypotChecker: SpamChecker = {
+    name: 'honeypot',
+    check: (comment) => comment.honeypot ? 'Filled in the hidden honeypot field' : null
+};
+
+const submitTimeChecker: SpamChecker = {
+    name: 'submit-time',
+    check: (comment, settings) => {
+        if (comment.startedAt === undefined || settings.spamMinSubmitSeconds <= 0) return null;
+        const seconds = (Date.now() - comment.startedAt) / 1000;
+        return seconds < settings.spamMinSubmitSeconds
+            ? `Submitted ${Math.max(0, seconds).toFixed(1)}s after the form loaded`
+            : null;
+    }
+};
+
+const linkCountChecker: SpamChecker = {
+    name: 'link-count',
+    check: (comment, settings) => {
+        if (settings.spamMaxLinks < 0) return null;
+        const links = comment.content.match(LINK_PATTERN)?.length ?? 0;
+        return links > settings.spamMaxLinks ? `Contains ${links} links` : null;
+    }
+};
+
+const blocklistChecker: SpamChecker = {
+    name: 'blocklist',
+    check: (comment, settings) => {
+        const ip = comment.authorIp?.toLowerCase();
+        if (ip && blocklistEntries(settings.spamBlockedIps).some(entry => matchesIp(ip, entry))) {
+            return `IP address ${comment.authorIp} is blocked`;
+        }
+
+        const email = comment.authorEmail.toLowerCase();
+        if (blocklistEntries(settings.spamBlockedEmails).some(entry => matchesEmail(email, entry))) {
+            return `Email ${comment.authorEmail} is blocked`;
+        }
+
+        const text = [comment.content, comment.authorName, comment.authorEmail, comment.authorUrl ?? '']
+            .join('\n')
+            .toLowerCase();
+        const keyword = blocklistEntries(settings.spamBlockedKeywords).find(entry => text.includes(entry));
+        return keyword ? `Contains the blocked keyword "${keyword}"` : null;
+    }
+};
+
+const classifierChecker: SpamChecker = {
+    name: 'classifier',
+    check: async (comment, settings) => {
+        if (!settings.spamClassifierEnabled) return null;
+        const model = await getSpamModel();
+        if (!model) return null;
+
+        const probability = spamProbability(model, tokenizeComment(comment));
+        return probability >= settings.spamClassifierThreshold
+            ? `Classified as spam (${Math.round(probability * 100)}% likely)`
+            : null;
+    }
+};
+
+// Cheap checks run first, so most spam never reaches the classifier
+const spamCheckers: SpamChecker[] = [
+    honeypotChecker,
+    submitTimeChecker,
+    blocklistChecker,
+    linkCountChecker,
+    classifierChecker
+];
+
+/**
+ * Add a spam check to the pipeline, replacing any check with the same name.
+ * Plugins can also use the `checkCommentSpam` hook.
+ */
+export function registerSpamChecker(checker: SpamChecker): void {
+    unregisterSpamChecker(checker.name);
+    spamCheckers.push(checker);
+}
+
+export function unregisterSpamChecker(name: string): void {
+    const index = spamCheckers.findIndex(checker => checker.name === name);
+    if (index !== -1) spamCheckers.splice(index, 1);
+}
+
+/**
+ * Run a new comment through the spam checks, then through plugins'
+ * `checkCommentSpam` hooks. A check that throws is skipped.
+ */
+export async function runSpamChecks(
+    comment: SpamCheckInput,
+    settings: CommentModerationSettings
+): Promise<SpamCheckOutcome> {
+    for (const checker of spamCheckers) {
+        try {
+            const reason = await checker.check(comment, settings);
+            if (reason) return { spam: true, checker: checker.name, reason };
+        } catch (error) {
+            console.error(`Spam check "${checker.name}" failed:`, error);
+        }
+    }
+
+    // Plugins see the comment without the form's anti-bot fields
+    const hookResults = await executePluginHook('checkCommentSpam', {
+        postId: comment.postId,
+        authorId: comment.authorId,
+        authorName: comment.authorName,
+        authorEmail: comment.authorEmail,
+        authorUrl: comment.authorUrl,
+        authorIp: comment.authorIp,
+        agent: comment.agent,
+        content: comment.content
+    });
+    const reason = hookResults.find((result): result is string => typeof result === 'string' && result.length > 0);
+    if (reason) return { spam: true, checker: 'plugin', reason };
+
+    return { spam: false, checker: null, reason: null };
+}
+
+// ====== SPAM CLASSIFIER ======
+// A naive Bayes classifier over the words of comments a moderator marked
+// SPAM or APPROVED. The model is built on first use and rebuilt after
+// moderators change comment statuses.
+
+// Both classes need this many examples before the classifier votes
+const CLASSIFIER_MIN_EXAMPLES = 10;
+
+// Most recent examples of each class used for training
+const CLASSIFIER_TRAINING_LIMIT = 5000;
+
+export interface SpamModel {
+    spamExamples: number;
+    hamExamples: number;
+    spamTokens: Map<string, number>;
+    hamTokens: Map<string, number>;
+    spamTokenTotal: number;
+    hamTokenTotal: number;
+    vocabularySize: number;
+}
+
+let spamModel: Promise<SpamModel | null> | null = null;
+
+/**
+ * Distinct tokens of a comment: words of its content and author name, plus
+ * the domains of its author email and URL.
+ */
+export function tokenizeComment(comment: Pick<SpamCheckInput, 'content' | 'authorName' | 'authorEmail' | 'authorUrl'>): string[] {
+    const words = `${comment.content} ${comment.authorName}`
+        .toLowerCase()
+        .match(/[\p{L}\p{N}']{2,24}/gu) ?? [];
+    const tokens = new Set(words);
+
+    const emailDomain = comment.authorEmail.split('@')[1];
+    if (emailDomain) tokens.add(`email:${emailDomain.toLowerCase()}`);
+    if (comment.authorUrl) {
+        try {
+            tokens.add(`url:${new URL(comment.authorUrl).hostname.toLowerCase()}`);
+        } catch {
+            // Not a URL; ignore it
+        }
+    }
+    if (comment.content.match(LINK_PATTERN)) tokens.add('has:link');
+
+    return [...tokens];
+}
+
+/**
+ * Build a classifier from tokenized examples.
+ */
+export function trainSpamModel(examples: Array<{ tokens: string[]; spam: boolean }>): SpamModel {
+    const model: SpamModel = {
+        spamExamples: 0,
+        hamExamples: 0,
+        spamTokens: new Map(),
+        hamTokens: new Map(),
+        spamTokenTotal: 0,
+        hamTokenTotal: 0,
+        vocabularySize: 0
+    };
+    const vocabulary = new Set<string>();
+
+    for (const example of examples) {
+        const counts = example.spam ? model.spamTokens : model.hamTokens;
+        if (example.spam) {
+            model.spamExamples++;
+            model.spamTokenTotal += example.tokens.length;
+        } else {
+            model.hamExamples++;
+            model.hamTokenTotal += example.tokens.length;
+        }
+        for (const token of example.tokens) {
+            counts.set(token, (counts.get(token) ?? 0) + 1);
+            vocabulary.add(token);
+        }
+    }
+
+    model.vocabularySize = vocabulary.size;
+    return model;
+}
+
+/**
+ * Probability that a tokenized comment is spam, with add-one smoothing.
+ * Tokens the model has never seen are ignored.
+ */
+export function spamProbability(model: SpamModel, tokens: string[]): number {
+    const total = model.spamExamples + model.hamExamples;
+    let logSpam = Math.log(model.spamExamples / total);
+    let logHam = Math.log(model.hamExamples / total);
+
+    for (const token of tokens) {
+        const spamCount = model.spamTokens.get(token) ?? 0;
+        const hamCount = model.hamTokens.get(token) ?? 0;
+        if (spamCount === 0 && hamCount === 0) continue;
+
+        logSpam += Math.log((spamCount + 1) / (model.spamTokenTotal + model.vocabularySize));
+        logHam += Math.log((hamCount + 1) / (model.hamTokenTotal + model.vocabularySize));
+    }
+
+    return 1 / (1 + Math.exp(logHam - logSpam));
+}
+
+async function loadSpamModel(): Promise<SpamModel | null> {
+    const select = { content: true, authorName: true, authorEmail: true, authorUrl: true } as const;
+    const [spam, ham] = await Promise.all([
+        db.comment.findMany({
+            where: { status: 'SPAM', moderatedAt: { not: null } },
+            select,
+            orderBy: { moderatedAt: 'desc' },
+            take: CLASSIFIER_TRAINING_LIMIT
+        }),
+        db.comment.findMany({
+            where: { status: 'APPROVED', moderatedAt: { not: null } },
+            select,
+            orderBy: { moderatedAt: 'desc' },
+            take: CLASSIFIER_TRAINING_LIMIT
+        })
+    ]);
+
+    if (spam.length < CLASSIFIER_MIN_EXAMPLES || ham.length < CLASSIFIER_MIN_EXAMPLES) return null;
+
+    const toExample = (spamExample: boolean) => (comment: typeof spam[number]) => ({
+        tokens: tokenizeComment({ ...comment, authorUrl: comment.authorUrl ?? undefined }),
+        spam: spamExample
+    });
+    return trainSpamModel([...spam.map(toExample(true)), ...ham.map(toExample(false))]);
+}
+
+/**
+ * The trained classifier, or null while there are too few examples.
+ */
+export function getSpamModel(): Promise<SpamModel | null> {
+    if (!spamModel) {
+        spamModel = loadSpamModel().catch(error => {
+            spamModel = null;
+            throw error;
+        });
+    }
+    return spamModel;
+}
+
+/**
+ * Drop the trained classifier so the next check retrains it. Call after
+ * moderators change comment statuses.
+ */
+export function invalidateSpamClassifier(): void {
+    spamModel = null;
+}
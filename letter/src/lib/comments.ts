@@ -0,0 +1,254 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { getSiteSettings, SITE_SETTING_DEFAULTS, type SiteSettings } from './site-settings';
+import { runSpamChecks, resolveCommentStatus } from './comment-moderation';
+import { emitSystemEvent } from './plugin-manager';
+import { CommentCreateSchema } from './validation-schemas';
+import { validateData } from './validation-utils';
+
+// ====== PUBLIC COMMENTS ======
+// Visitors and signed-in users can comment on posts whose comments are open:
+// comments enabled site-wide, on the post, and not closed by age. Replies
+// nest up to the commentMaxDepth setting; replies stored deeper than that
+// (e.g. after lowering the setting) are shown at the deepest level.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Maximum length of a comment's content
+export const COMMENT_MAX_LENGTH = 5000;
+
+type CommentSettings = Pick<SiteSettings, 'commentsEnabled' | 'commentMaxDepth' | 'closeCommentsAfterDays'>;
+
+export interface CommentablePost {
+    commentStatus: boolean;
+    publishedAt: Date | null;
+    createdAt: Date;
+}
+
+export interface ThreadedComment {
+    id: number;
+    parentId: number | null;
+    authorName: string;
+    authorUrl: string | null;
+    content: string;
+    createdAt: Date;
+    author: { name: string | null; username: string | null; image: string | null } | null;
+    depth: number;
+    replies: ThreadedComment[];
+}
+
+export interface CommentThread {
+    comments: ThreadedComment[];
+    total: number;
+    open: boolean;
+    // Why comments are closed, shown in place of the form
+    closedReason: string | null;
+    maxDepth: number;
+}
+
+export interface CommentSubmission {
+    postId: number;
+    parentId?: number;
+    authorName?: string;
+    authorEmail?: string;
+    authorUrl?: string;
+    content: string;
+    honeypot?: string;
+    startedAt?: number;
+}
+
+export interface CommentAuthorContext {
+    user?: { id: number; name: string | null; username: string | null; email: string | null } | null;
+    ip?: string;
+    agent?: string;
+}
+
+const threadedCommentSelect = {
+    id: true,
+    parentId: true,
+    authorName: true,
+    authorUrl: true,
+    content: true,
+    createdAt: true,
+    author: {
+        select: { name: true, username: true, image: true }
+    }
+} as const;
+
+/**
+ * Why a post isn't accepting comments, or null when comments are open.
+ */
+export function commentsClosedReason(
+    post: CommentablePost,
+    settings: CommentSettings,
+    now: Date = new Date()
+): string | null {
+    if (!settings.commentsEnabled) return 'Comments are disabled on this site.';
+    if (!post.commentStatus) return 'Comments are closed for this post.';
+
+    if (settings.closeCommentsAfterDays > 0) {
+        const opened = post.publishedAt ?? post.createdAt;
+        if (now.getTime() - new Date(opened).getTime() > settings.closeCommentsAfterDays * MS_PER_DAY) {
+            return 'Comments are closed for this post.';
+        }
+    }
+    return null;
+}
+
+/**
+ * Arrange comments, oldest first, into reply threads no deeper than maxDepth.
+ * Comments whose parent isn't in the list are treated as top-level.
+ */
+export function buildCommentTree(
+    comments: Array<Omit<ThreadedComment, 'depth' | 'replies'>>,
+    maxDepth: number
+): ThreadedComment[] {
+    const nodes = new Map<number, ThreadedComment>(
+        comments.map(comment => [comment.id, { ...comment, depth: 1, replies: [] }])
+    );
+    const roots: ThreadedComment[] = [];
+
+    for (const comment of comments) {
+        const node = nodes.get(comment.id)!;
+        let parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+        if (!parent) {
+            roots.push(node);
+            continue;
+        }
+        // Attach too-deep replies to their ancestor at the deepest level
+        while (parent.depth >= Math.max(maxDepth, 1) && parent.parentId && nodes.has(parent.parentId)) {
+            parent = nodes.get(parent.parentId)!;
+        }
+        if (parent.depth >= Math.max(maxDepth, 1)) {
+            roots.push(node);
+            continue;
+        }
+        node.depth = parent.depth + 1;
+        parent.replies.push(node);
+    }
+    return roots;
+}
+
+/**
+ * Approved comments of a post as reply threads, with whether new comments
+ * are accepted.
+ */
+export async function getCommentThread(postId: number) {
+    "use server";
+    return tryCatch(async (): Promise<CommentThread> => {
+        const [post, settingsResult, comments] = await Promise.all([
+            db.post.findUniqueOrThrow({
+                where: { id: postId },
+                select: { commentStatus: true, publishedAt: true, createdAt: true }
+            }),
+            getSiteSettings(),
+            db.comment.findMany({
+                where: { postId, status: 'APPROVED' },
+                select: threadedCommentSelect,
+                orderBy: { createdAt: 'asc' }
+            })
+        ]);
+        const settings = settingsResult.data ?? SITE_SETTING_DEFAULTS;
+        const closedReason = commentsClosedReason(post, settings);
+
+        return {
+            comments: buildCommentTree(comments, settings.commentMaxDepth),
+            total: comments.length,
+            open: closedReason === null,
+            closedReason,
+            maxDepth: settings.commentMaxDepth
+        };
+    });
+}
+
+/**
+ * Accept a comment from the public site. Signed-in users comment under their
+ * account's name and email; guests must give both. The context comes from
+ * the session and request, so the spam checks and moderation trust only it.
+ */
+export async function submitComment(submission: CommentSubmission, context: CommentAuthorContext = {}) {
+    return tryCatch(async () => {
+        const settings = (await getSiteSettings()).data ?? SITE_SETTING_DEFAULTS;
+
+        const post = await db.post.findUnique({
+            where: { id: submission.postId },
+            select: { id: true, status: true, commentStatus: true, publishedAt: true, createdAt: true }
+        });
+        if (!post || post.status !== 'PUBLISHED') {
+            throw new Error('This post is not accepting comments');
+        }
+
+        const closedReason = commentsClosedReason(post, settings);
+        if (closedReason) throw new Error(closedReason);
+
+        if (submission.parentId) {
+            const depth = await commentDepth(submission.parentId, post.id);
+            if (depth === null) throw new Error('The comment you replied to no longer exists');
+            if (depth >= settings.commentMaxDepth) throw new Error('Replies cannot be nested any deeper');
+        }
+
+        const content = submission.content.trim();
+        if (content.length > COMMENT_MAX_LENGTH) {
+            throw new Error(`Comments can be at most ${COMMENT_MAX_LENGTH} characters`);
+        }
+
+        const user = context.user;
+        const validated = validateData(CommentCreateSchema, {
+            postId: post.id,
+            parentId: submission.parentId,
+            authorName: (user ? user.name || user.username : submission.authorName)?.trim() || '',
+            authorEmail: (user?.email ?? submission.authorEmail)?.trim() || '',
+            authorUrl: submission.authorUrl?.trim() || undefined,
+            content,
+            authorIp: context.ip,
+            agent: context.agent?.slice(0, 255)
+        });
+        if (!validated.success) throw new Error(validated.error);
+
+        const data = { ...validated.data, authorId: user?.id };
+        const spamCheck = await runSpamChecks(
+            { ...data, honeypot: submission.honeypot, startedAt: submission.startedAt },
+            settings
+        );
+        const comment = await db.comment.create({
+            data: {
+                ...data,
+                status: spamCheck.spam ? 'SPAM' : await resolveCommentStatus(data, settings)
+            }
+        });
+
+        await emitSystemEvent('comment:created', {
+            commentId: comment.id,
+            postId: comment.postId,
+            parentId: comment.parentId,
+            authorId: comment.authorId,
+            status: comment.status,
+            spamReason: spamCheck.reason
+        });
+
+        // Spam is reported like a held comment so bots learn nothing
+        return {
+            id: comment.id,
+            status: comment.status === 'SPAM' ? 'PENDING' as const : comment.status
+        };
+    });
+}
+
+// Depth of an approved comment of the post (1 for top-level), or null if
+// there is no such comment
+async function commentDepth(commentId: number, postId: number): Promise<number | null> {
+    let depth = 0;
+    let current: { parentId: number | null } | null = await db.comment.findFirst({
+        where: { id: commentId, postId, status: 'APPROVED' },
+        select: { parentId: true }
+    });
+    if (!current) return null;
+
+    while (current) {
+        depth++;
+        current = current.parentId
+            ? await db.comment.findUnique({ where: { id: current.parentId }, select: { parentId: true } })
+            : null;
+    }
+    return depth;
+}
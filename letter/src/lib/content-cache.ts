@@ -0,0 +1,47 @@
+// ====== CONTENT CACHE ======
+// Process-local cache for generated public documents such as sitemaps and
+// robots.txt. Entries expire after their TTL so time-based changes (e.g.
+// scheduled posts going live) show up even without an explicit invalidation.
+
+interface CacheEntry {
+    value: string;
+    expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 15 * 60 * 1000;
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Return the cached value for `key`, building and storing it when missing or expired.
+ */
+export async function getCachedContent(key: string, build: () => Promise<string>, ttlMs: number = DEFAULT_TTL_MS): Promise<string> {
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+        return entry.value;
+    }
+
+    const value = await build();
+    cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return value;
+}
+
+/**
+ * Drop cached entries whose key starts with `prefix`, or everything when omitted.
+ */
+export function invalidateContentCache(prefix?: string): number {
+    if (!prefix) {
+        const size = cache.size;
+        cache.clear();
+        return size;
+    }
+
+    let removed = 0;
+    for (const key of cache.keys()) {
+        if (key.startsWith(prefix)) {
+            cache.delete(key);
+            removed++;
+        }
+    }
+    return removed;
+}
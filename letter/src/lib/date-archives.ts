@@ -0,0 +1,85 @@
+// ====== DATE ARCHIVES ======
+// Date archives live under `/archive/YYYY`, `/archive/YYYY/MM` and
+// `/archive/YYYY/MM/DD`. Ranges are computed in UTC to line up with
+// `getArchives` buckets and post permalinks.
+
+export type DateArchiveGranularity = 'year' | 'month' | 'day';
+
+export interface DateArchiveRange {
+    granularity: DateArchiveGranularity;
+    year: number;
+    month?: number;
+    day?: number;
+    from: Date;
+    before: Date;
+}
+
+/**
+ * Parse `/archive/*` path segments into a UTC date range.
+ * Returns null for malformed or impossible dates such as `2026/02/30`.
+ */
+export function parseDateArchive(segments: string[]): DateArchiveRange | null {
+    if (segments.length < 1 || segments.length > 3) return null;
+
+    const [yearPart, monthPart, dayPart] = segments;
+    if (!/^\d{4}$/.test(yearPart)) return null;
+    if (monthPart !== undefined && !/^\d{2}$/.test(monthPart)) return null;
+    if (dayPart !== undefined && !/^\d{2}$/.test(dayPart)) return null;
+
+    const year = Number(yearPart);
+
+    if (monthPart === undefined) {
+        return {
+            granularity: 'year',
+            year,
+            from: new Date(Date.UTC(year, 0, 1)),
+            before: new Date(Date.UTC(year + 1, 0, 1))
+        };
+    }
+
+    const month = Number(monthPart);
+    if (month < 1 || month > 12) return null;
+
+    if (dayPart === undefined) {
+        return {
+            granularity: 'month',
+            year,
+            month,
+            from: new Date(Date.UTC(year, month - 1, 1)),
+            before: new Date(Date.UTC(year, month, 1))
+        };
+    }
+
+    const day = Number(dayPart);
+    const from = new Date(Date.UTC(year, month - 1, day));
+    if (day < 1 || from.getUTCMonth() !== month - 1) return null;
+
+    return {
+        granularity: 'day',
+        year,
+        month,
+        day,
+        from,
+        before: new Date(Date.UTC(year, month - 1, day + 1))
+    };
+}
+
+/**
+ * Public path of a date archive.
+ */
+export function dateArchivePath(year: number, month?: number, day?: number): string {
+    const parts = [String(year)];
+    if (month !== undefined) parts.push(String(month).padStart(2, '0'));
+    if (month !== undefined && day !== undefined) parts.push(String(day).padStart(2, '0'));
+    return `/archive/${parts.join('/')}`;
+}
+
+/**
+ * Human readable title of a date archive, e.g. "October 2026".
+ */
+export function formatDateArchiveTitle(range: Pick<DateArchiveRange, 'granularity' | 'from'>): string {
+    const options: Intl.DateTimeFormatOptions = { timeZone: 'UTC', year: 'numeric' };
+    if (range.granularity !== 'year') options.month = 'long';
+    if (range.granularity === 'day') options.day = 'numeric';
+    return range.from.toLocaleDateString('en-US', options);
+}
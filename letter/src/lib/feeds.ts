@@ -0,0 +1,363 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { getSiteSettings } from './site-settings';
+import { getCategoryTreeIds } from './cms-utils';
+import { buildPostPath } from './permalinks';
+import { renderBlocksToHtml, escapeHtml, absoluteUrl } from './block-html';
+import type { Prisma } from '@prisma/client';
+
+// ====== FEEDS ======
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 output for the whole blog or a
+// single category, tag or author. Items carry the full rendered content.
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedScope {
+    category?: string;
+    tag?: string;
+    author?: string;
+}
+
+export const FEED_ITEM_LIMIT = 20;
+
+const FEED_FILES: Record<FeedFormat, string> = {
+    rss: 'feed.xml',
+    atom: 'atom.xml',
+    json: 'feed.json'
+};
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+    rss: 'application/rss+xml; charset=utf-8',
+    atom: 'application/atom+xml; charset=utf-8',
+    json: 'application/feed+json; charset=utf-8'
+};
+
+interface FeedItem {
+    id: string;
+    url: string;
+    title: string;
+    summary: string;
+    contentHtml: string;
+    published: Date;
+    updated: Date;
+    authorName: string;
+    categories: string[];
+    enclosure?: {
+        url: string;
+        type: string;
+        length: number;
+    };
+}
+
+interface Feed {
+    title: string;
+    description: string;
+    language: string;
+    homeUrl: string;
+    feedUrl: string;
+    updated: Date;
+    items: FeedItem[];
+}
+
+/**
+ * Path of a feed, e.g. `/feed.xml` or `/category/news/atom.xml`.
+ */
+export function feedPath(format: FeedFormat, scope: FeedScope = {}): string {
+    if (scope.category) return `/category/${scope.category}/${FEED_FILES[format]}`;
+    if (scope.tag) return `/tag/${scope.tag}/${FEED_FILES[format]}`;
+    if (scope.author) return `/author/${scope.author}/${FEED_FILES[format]}`;
+    return `/${FEED_FILES[format]}`;
+}
+
+/**
+ * Load the latest published posts for a feed scope. Returns null when the
+ * category, tag or author doesn't exist.
+ */
+export async function getFeed(scope: FeedScope, format: FeedFormat, origin: string) {
+    "use server";
+    return tryCatch(async (): Promise<Feed | null> => {
+        const settings = (await getSiteSettings()).data;
+        const siteTitle = settings?.siteTitle || 'Letter-Press CMS';
+        const baseUrl = (settings?.siteUrl || origin).replace(/\/+$/, '');
+
+        const where: Prisma.PostWhereInput = {
+            type: 'POST',
+            customType: null,
+            status: 'PUBLISHED',
+            publishedAt: {
+                lte: new Date()
+            }
+        };
+        let title = siteTitle;
+        let description = settings?.siteDescription || '';
+        let homePath = '/';
+
+        if (scope.category) {
+            const category = await db.category.findUnique({ where: { slug: scope.category } });
+            if (!category) return null;
+            const treeIds = await getCategoryTreeIds(category.id);
+            where.categories = { some: { categoryId: { in: treeIds.data || [category.id] } } };
+            title = `${siteTitle} — ${category.name}`;
+            description = category.description || description;
+            homePath = `/category/${category.slug}`;
+        } else if (scope.tag) {
+            const tag = await db.tag.findUnique({ where: { slug: scope.tag } });
+            if (!tag) return null;
+            where.tags = { some: { tagId: tag.id } };
+            title = `${siteTitle} — #${tag.name}`;
+            description = tag.description || description;
+            homePath = `/tag/${tag.slug}`;
+        } else if (scope.author) {
+            const author = await db.user.findUnique({
+                where: { username: scope.author },
+                select: { id: true, name: true, username: true, bio: true }
+            });
+            if (!author) return null;
+            where.authorId = author.id;
+            title = `${siteTitle} — ${author.name || author.username}`;
+            description = author.bio || description;
+            homePath = `/author/${author.username}`;
+        }
+
+        const posts = await db.post.findMany({
+            where,
+            select: {
+                id: true,
+                title: true,
+                slug: true,
+                excerpt: true,
+                content: true,
+                publishedAt: true,
+                createdAt: true,
+                updatedAt: true,
+                author: {
+                    select: {
+                        name: true,
+                        username: true
+                    }
+                },
+                media: {
+                    select: {
+                        filePath: true,
+                        fileType: true,
+                        fileSize: true
+                    }
+                },
+                categories: {
+                    select: { category: { select: { name: true } } }
+                },
+                tags: {
+                    select: { tag: { select: { name: true } } }
+                },
+                blocks: {
+                    orderBy: { order: 'asc' }
+                }
+            },
+            orderBy: { publishedAt: 'desc' },
+            take: FEED_ITEM_LIMIT
+        });
+
+        const items = posts.map((post): FeedItem => {
+            const url = `${baseUrl}${buildPostPath(post, settings?.permalinkStructure)}`;
+            const contentHtml = post.blocks.length > 0
+                ? renderBlocksToHtml(post.blocks, baseUrl)
+                : post.content || '';
+
+            return {
+                id: url,
+                url,
+                title: post.title,
+                summary: post.excerpt || '',
+                contentHtml,
+                published: post.publishedAt || post.createdAt,
+                updated: post.updatedAt,
+                authorName: post.author.name || post.author.username || 'Unknown author',
+                categories: [
+                    ...post.categories.map(({ category }) => category.name),
+                    ...post.tags.map(({ tag }) => tag.name)
+                ],
+                enclosure: post.media ? {
+                    url: absoluteUrl(post.media.filePath, baseUrl),
+                    type: post.media.fileType,
+                    length: post.media.fileSize
+                } : undefined
+            };
+        });
+
+        const updated = items.reduce(
+            (latest, item) => item.updated > latest ? item.updated : latest,
+            new Date(0)
+        );
+
+        return {
+            title,
+            description,
+            language: settings?.siteLanguage || 'en',
+            homeUrl: `${baseUrl}${homePath}`,
+            feedUrl: `${baseUrl}${feedPath(format, scope)}`,
+            updated,
+            items
+        };
+    });
+}
+
+function renderRss(feed: Feed): string {
+    const items = feed.items.map(item => [
+        '<item>',
+        `<title>${escapeHtml(item.title)}</title>`,
+        `<link>${escapeHtml(item.url)}</link>`,
+        `<guid isPermaLink="true">${escapeHtml(item.id)}</guid>`,
+        `<pubDate>${item.published.toUTCString()}</pubDate>`,
+        `<dc:creator>${escapeHtml(item.authorName)}</dc:creator>`,
+        ...item.categories.map(name => `<category>${escapeHtml(name)}</category>`),
+        `<description>${escapeHtml(item.summary)}</description>`,
+        `<content:encoded>${escapeHtml(item.contentHtml)}</content:encoded>`,
+        item.enclosure
+            ? `<enclosure url="${escapeHtml(item.enclosure.url)}" length="${item.enclosure.length}" type="${escapeHtml(item.enclosure.type)}" />`
+            : '',
+        '</item>'
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:atom="http://www.w3.org/2005/Atom">',
+        '<channel>',
+        `<title>${escapeHtml(feed.title)}</title>`,
+        `<link>${escapeHtml(feed.homeUrl)}</link>`,
+        `<description>${escapeHtml(feed.description)}</description>`,
+        `<language>${escapeHtml(feed.language)}</language>`,
+        `<lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+        `<atom:link href="${escapeHtml(feed.feedUrl)}" rel="self" type="application/rss+xml" />`,
+        ...items,
+        '</channel>',
+        '</rss>'
+    ].join('\n');
+}
+
+function renderAtom(feed: Feed): string {
+    const entries = feed.items.map(item => [
+        '<entry>',
+        `<title>${escapeHtml(item.title)}</title>`,
+        `<link rel="alternate" type="text/html" href="${escapeHtml(item.url)}" />`,
+        `<id>${escapeHtml(item.id)}</id>`,
+        `<published>${item.published.toISOString()}</published>`,
+        `<updated>${item.updated.toISOString()}</updated>`,
+        `<author><name>${escapeHtml(item.authorName)}</name></author>`,
+        ...item.categories.map(name => `<category term="${escapeHtml(name)}" />`),
+        item.summary ? `<summary type="html">${escapeHtml(item.summary)}</summary>` : '',
+        `<content type="html">${escapeHtml(item.contentHtml)}</content>`,
+        item.enclosure
+            ? `<link rel="enclosure" href="${escapeHtml(item.enclosure.url)}" type="${escapeHtml(item.enclosure.type)}" length="${item.enclosure.length}" />`
+            : '',
+        '</entry>'
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeHtml(feed.language)}">`,
+        `<title>${escapeHtml(feed.title)}</title>`,
+        feed.description ? `<subtitle>${escapeHtml(feed.description)}</subtitle>` : '',
+        `<link rel="alternate" type="text/html" href="${escapeHtml(feed.homeUrl)}" />`,
+        `<link rel="self" type="application/atom+xml" href="${escapeHtml(feed.feedUrl)}" />`,
+        `<id>${escapeHtml(feed.feedUrl)}</id>`,
+        `<updated>${feed.updated.toISOString()}</updated>`,
+        ...entries,
+        '</feed>'
+    ].filter(Boolean).join('\n');
+}
+
+function renderJsonFeed(feed: Feed): string {
+    return JSON.stringify({
+        version: 'https://jsonfeed.org/version/1.1',
+        title: feed.title,
+        home_page_url: feed.homeUrl,
+        feed_url: feed.feedUrl,
+        description: feed.description || undefined,
+        language: feed.language,
+        items: feed.items.map(item => ({
+            id: item.id,
+            url: item.url,
+            title: item.title,
+            content_html: item.contentHtml,
+            summary: item.summary || undefined,
+            date_published: item.published.toISOString(),
+            date_modified: item.updated.toISOString(),
+            authors: [{ name: item.authorName }],
+            tags: item.categories.length > 0 ? item.categories : undefined,
+            image: item.enclosure?.type.startsWith('image/') ? item.enclosure.url : undefined,
+            attachments: item.enclosure ? [{
+                url: item.enclosure.url,
+                mime_type: item.enclosure.type,
+                size_in_bytes: item.enclosure.length
+            }] : undefined
+        }))
+    }, null, 2);
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+    if (format === 'atom') return renderAtom(feed);
+    if (format === 'json') return renderJsonFeed(feed);
+    return renderRss(feed);
+}
+
+async function computeETag(body: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `"${hex}"`;
+}
+
+/**
+ * Whether the client's cached copy is still current, per If-None-Match
+ * (preferred) or If-Modified-Since.
+ */
+function isNotModified(request: Request, etag: string, lastModified: Date): boolean {
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch) {
+        return ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag || tag.trim() === '*');
+    }
+
+    const ifModifiedSince = request.headers.get('if-modified-since');
+    if (ifModifiedSince) {
+        const since = Date.parse(ifModifiedSince);
+        // HTTP dates have second precision
+        return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+    }
+
+    return false;
+}
+
+/**
+ * Build the HTTP response for a feed, answering conditional requests with 304.
+ */
+export async function createFeedResponse(request: Request, format: FeedFormat, scope: FeedScope = {}): Promise<Response> {
+    const origin = new URL(request.url).origin;
+    const result = await getFeed(scope, format, origin);
+
+    if (result.error) {
+        console.error('Feed generation error:', result.error);
+        return new Response('Failed to generate feed', { status: 500 });
+    }
+    if (!result.data) {
+        return new Response('Feed not found', { status: 404 });
+    }
+
+    const body = renderFeed(result.data, format);
+    const etag = await computeETag(body);
+    const headers = {
+        'ETag': etag,
+        'Last-Modified': result.data.updated.toUTCString(),
+        'Cache-Control': 'public, max-age=0, must-revalidate'
+    };
+
+    if (isNotModified(request, etag, result.data.updated)) {
+        return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(body, {
+        status: 200,
+        headers: {
+            ...headers,
+            'Content-Type': FEED_CONTENT_TYPES[format]
+        }
+    });
+}
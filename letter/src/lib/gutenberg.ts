@@ -0,0 +1,322 @@
+import type { BlockType } from '@prisma/client';
+import { decodeXmlEntities } from './wxr';
+
+// ====== GUTENBERG CONVERSION ======
+// Turns WordPress post content into our content blocks. Gutenberg marks each
+// block with <!-- wp:name {attrs} --> comments around its saved HTML; content
+// from the classic editor has no markers and becomes a single rich text
+// block. Layout containers (columns, groups) are flattened into their inner
+// blocks, as our editor lays blocks out in a single column.
+
+export interface ConvertedBlock {
+    blockType: BlockType;
+    content: Record<string, unknown>;
+    attributes: Record<string, unknown>;
+}
+
+export interface GutenbergConversion {
+    blocks: ConvertedBlock[];
+    // Names of blocks with no counterpart, kept as rich text HTML
+    unsupported: string[];
+}
+
+interface ListItem {
+    text: string;
+    children?: { type: 'ordered' | 'unordered'; items: ListItem[] };
+}
+
+interface BlockNode {
+    name: string;
+    attrs: Record<string, any>;
+    // Saved HTML between the block's comments, inner block markers included
+    html: string;
+    children: BlockNode[];
+}
+
+const BLOCK_COMMENT = /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*(?:\/[a-z][a-z0-9_-]*)?)\s+(\{[\s\S]*?\}\s+)?(\/)?-->/g;
+
+// Blocks whose inner blocks are laid out side by side or grouped
+const CONTAINER_BLOCKS = new Set(['columns', 'column', 'group', 'row', 'stack', 'cover', 'media-text']);
+
+const EMBED_PROVIDERS = new Set(['youtube', 'vimeo', 'twitter', 'instagram']);
+
+// ====== HTML HELPERS ======
+
+function stripBlockComments(html: string): string {
+    return html.replace(BLOCK_COMMENT, '');
+}
+
+function htmlToText(html: string): string {
+    return decodeXmlEntities(html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '')).trim();
+}
+
+// Inner HTML of the first `tag` element, or null
+function innerOf(html: string, tag: string): string | null {
+    const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i'));
+    return match ? match[1] : null;
+}
+
+// Attribute of the first `tag` element, or ''
+function attrOf(html: string, tag: string, attribute: string): string {
+    const element = html.match(new RegExp(`<${tag}\\b[^>]*>`, 'i'))?.[0] ?? '';
+    const match = element.match(new RegExp(`\\s${attribute}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+    return match ? decodeXmlEntities(match[2] ?? match[3] ?? '') : '';
+}
+
+/**
+ * The top-level <li> items of the first list, with nested lists as children.
+ */
+function listItems(html: string): ListItem[] {
+    const items: ListItem[] = [];
+    const tags = /<(\/?)(li|ul|ol)\b[^>]*>/gi;
+    let depth = 0;
+    let itemStart = -1;
+
+    for (const match of html.matchAll(tags)) {
+        const closing = match[1] === '/';
+        const name = match[2].toLowerCase();
+        const position = match.index ?? 0;
+
+        if (name === 'li') {
+            if (!closing && depth === 1) itemStart = position + match[0].length;
+            if (closing && depth === 1 && itemStart !== -1) {
+                const itemHtml = html.slice(itemStart, position);
+                const nested = itemHtml.search(/<(ul|ol)\b/i);
+                items.push({
+                    text: htmlToText(nested === -1 ? itemHtml : itemHtml.slice(0, nested)),
+                    ...(nested === -1 ? {} : {
+                        children: {
+                            type: /^<ol/i.test(itemHtml.slice(nested)) ? 'ordered' as const : 'unordered' as const,
+                            items: listItems(itemHtml.slice(nested))
+                        }
+                    })
+                });
+                itemStart = -1;
+            }
+        } else {
+            depth += closing ? -1 : 1;
+        }
+    }
+
+    return items;
+}
+
+// ====== BLOCK PARSING ======
+
+/**
+ * Split content into its top-level blocks. HTML outside any block marker
+ * becomes a freeform block, like Gutenberg treats it.
+ */
+function parseBlocks(content: string): BlockNode[] {
+    const roots: BlockNode[] = [];
+    const stack: { node: BlockNode; start: number }[] = [];
+    let freeformStart = 0;
+
+    const addFreeform = (end: number) => {
+        const html = content.slice(freeformStart, end);
+        if (html.trim()) roots.push({ name: 'freeform', attrs: {}, html, children: [] });
+    };
+
+    for (const match of content.matchAll(BLOCK_COMMENT)) {
+        const [marker, closing, rawName, rawAttrs, selfClosing] = match;
+        const position = match.index ?? 0;
+        const name = rawName.replace(/^core\//, '');
+
+        if (closing) {
+            const open = stack.pop();
+            if (!open) continue;
+            open.node.html = content.slice(open.start, position);
+            if (stack.length === 0) freeformStart = position + marker.length;
+            continue;
+        }
+
+        let attrs: Record<string, any> = {};
+        try {
+            attrs = rawAttrs ? JSON.parse(rawAttrs) : {};
+        } catch {
+            // Keep the block with its defaults
+        }
+
+        const node: BlockNode = { name, attrs, html: '', children: [] };
+        const parent = stack[stack.length - 1];
+        if (parent) {
+            parent.node.children.push(node);
+        } else {
+            addFreeform(position);
+            roots.push(node);
+        }
+
+        if (selfClosing) {
+            if (stack.length === 0) freeformStart = position + marker.length;
+        } else {
+            stack.push({ node, start: position + marker.length });
+        }
+    }
+
+    // Close anything the content left open
+    for (const open of stack) {
+        open.node.html = content.slice(open.start);
+    }
+    if (stack.length === 0) addFreeform(content.length);
+
+    return roots;
+}
+
+/**
+ * WordPress's wpautop, roughly: blank lines separate paragraphs and single
+ * newlines become line breaks, except around block-level tags.
+ */
+function autop(html: string): string {
+    const blockTag = /^<\/?(p|div|h[1-6]|ul|ol|li|blockquote|pre|table|figure|hr|img|iframe|form|section|dl)\b/i;
+    return html
+        .replace(/\r\n?/g, '\n')
+        .split(/\n\s*\n/)
+        .map(part => part.trim())
+        .filter(Boolean)
+        .map(part => blockTag.test(part) ? part : `<p>${part.replace(/\n/g, '<br />\n')}</p>`)
+        .join('\n');
+}
+
+// ====== CONVERSION ======
+
+function richText(html: string, attributes: Record<string, unknown> = {}): ConvertedBlock {
+    return { blockType: 'RICH_TEXT', content: { text: htmlToText(html), html: html.trim() }, attributes };
+}
+
+function convertNode(node: BlockNode, rewrite: (value: string) => string, unsupported: string[]): ConvertedBlock[] {
+    const html = rewrite(stripBlockComments(node.html));
+    const attrs = node.attrs;
+    const attributes: Record<string, unknown> = {};
+    if (typeof attrs.className === 'string') attributes.className = attrs.className;
+    if (typeof attrs.anchor === 'string') attributes.anchor = attrs.anchor;
+
+    const flatten = () => node.children.flatMap(inner => convertNode(inner, rewrite, unsupported));
+
+    switch (node.name) {
+        case 'paragraph': {
+            const inner = innerOf(html, 'p') ?? html;
+            if (!inner.trim()) return [];
+            const content: Record<string, unknown> = { text: htmlToText(inner), html: inner.trim() };
+            if (attrs.align) content.format = { textAlign: attrs.align };
+            return [{ blockType: 'PARAGRAPH', content, attributes }];
+        }
+        case 'heading': {
+            const tag = html.match(/<h([1-6])\b/i);
+            const level = Number(attrs.level) || (tag ? Number(tag[1]) : 2);
+            const inner = tag ? innerOf(html, `h${tag[1]}`) ?? html : html;
+            return [{ blockType: 'HEADING', content: { text: htmlToText(inner), html: inner.trim(), level }, attributes }];
+        }
+        case 'image': {
+            const url = attrOf(html, 'img', 'src') || (typeof attrs.url === 'string' ? rewrite(attrs.url) : '');
+            if (!url) return [];
+            const caption = innerOf(html, 'figcaption');
+            const content: Record<string, unknown> = { url, alt: attrOf(html, 'img', 'alt') };
+            if (caption) content.caption = htmlToText(caption);
+            if (attrs.width) content.width = Number(attrs.width) || undefined;
+            if (attrs.height) content.height = Number(attrs.height) || undefined;
+            return [{ blockType: 'IMAGE', content, attributes }];
+        }
+        case 'quote':
+        case 'pullquote': {
+            const citation = innerOf(html, 'cite');
+            const quoted = (innerOf(html, 'blockquote') ?? html).replace(/<cite\b[\s\S]*?<\/cite>/i, '');
+            const content: Record<string, unknown> = { text: htmlToText(quoted), html: quoted.trim() };
+            if (citation) content.citation = htmlToText(citation);
+            if (node.name === 'pullquote') content.format = { style: 'pull' };
+            return [{ blockType: 'QUOTE', content, attributes }];
+        }
+        case 'code':
+        case 'preformatted': {
+            const code = innerOf(html, 'code') ?? innerOf(html, 'pre') ?? html;
+            return [{ blockType: 'CODE', content: { code: decodeXmlEntities(code.replace(/<br\s*\/?>/gi, '\n')) }, attributes }];
+        }
+        case 'list':
+            return [{
+                blockType: 'LIST',
+                content: { type: attrs.ordered ? 'ordered' : 'unordered', items: listItems(html) },
+                attributes
+            }];
+        case 'separator':
+            return [{ blockType: 'SEPARATOR', content: {}, attributes }];
+        case 'spacer':
+            return [{ blockType: 'SPACER', content: attrs.height ? { height: String(attrs.height) } : {}, attributes }];
+        case 'buttons':
+        case 'button': {
+            const links = [...html.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)];
+            return links.map(link => ({
+                blockType: 'BUTTON' as const,
+                content: { text: htmlToText(link[1]), url: attrOf(link[0], 'a', 'href') },
+                attributes
+            }));
+        }
+        case 'gallery': {
+            const images = [...html.matchAll(/<figure\b[^>]*>\s*(?:<a\b[^>]*>)?\s*<img\b[^>]*>[\s\S]*?<\/figure>/gi)].map(figure => {
+                const caption = innerOf(figure[0], 'figcaption');
+                return {
+                    url: attrOf(figure[0], 'img', 'src'),
+                    alt: attrOf(figure[0], 'img', 'alt'),
+                    ...(caption ? { caption: htmlToText(caption) } : {})
+                };
+            }).filter(image => image.url);
+            return [{ blockType: 'GALLERY', content: { images, columns: Number(attrs.columns) || 3 }, attributes }];
+        }
+        case 'video':
+        case 'audio': {
+            const url = attrOf(html, node.name, 'src') || attrOf(html, 'source', 'src');
+            if (!url) return [];
+            const caption = innerOf(html, 'figcaption');
+            return [{
+                blockType: node.name === 'video' ? 'VIDEO' : 'AUDIO',
+                content: { url, ...(caption ? { caption: htmlToText(caption) } : {}) },
+                attributes
+            }];
+        }
+        case 'html':
+        case 'freeform':
+        case 'shortcode':
+            return html.trim() ? [richText(node.name === 'freeform' ? autop(html) : html, attributes)] : [];
+    }
+
+    if (node.name === 'embed' || node.name.startsWith('core-embed/')) {
+        const provider = String(attrs.providerNameSlug ?? node.name.replace('core-embed/', ''));
+        const url = typeof attrs.url === 'string' ? attrs.url : htmlToText(innerOf(html, 'div') ?? '');
+        if (!url) return [];
+        const caption = innerOf(html, 'figcaption');
+        return [{
+            blockType: 'EMBED',
+            content: {
+                url,
+                type: EMBED_PROVIDERS.has(provider) ? provider : 'generic',
+                ...(caption ? { caption: htmlToText(caption) } : {})
+            },
+            attributes
+        }];
+    }
+
+    if (CONTAINER_BLOCKS.has(node.name)) {
+        // A cover's background image comes before its content
+        const background = node.name === 'cover' && typeof attrs.url === 'string'
+            ? [{ blockType: 'IMAGE' as const, content: { url: rewrite(attrs.url), alt: attrs.alt ?? '' }, attributes: {} }]
+            : [];
+        if (node.name === 'media-text' && typeof attrs.mediaUrl === 'string') {
+            background.push({ blockType: 'IMAGE', content: { url: rewrite(attrs.mediaUrl), alt: '' }, attributes: {} });
+        }
+        return [...background, ...flatten()];
+    }
+
+    unsupported.push(node.name);
+    return html.trim() ? [richText(html, attributes)] : [];
+}
+
+/**
+ * Convert post content to blocks. `rewrite` maps URLs in the content, such
+ * as attachments moved to our uploads.
+ */
+export function convertGutenbergContent(
+    content: string,
+    rewrite: (value: string) => string = value => value
+): GutenbergConversion {
+    const unsupported: string[] = [];
+    const blocks = parseBlocks(content).flatMap(node => convertNode(node, rewrite, unsupported));
+    return { blocks, unsupported };
+}
@@ -9,6 +9,61 @@ export * from './mutations';
 // Export CMS utilities
 export * from './cms-utils';
 
+// Export site settings, permalink, date archive and search index helpers
+export * from './site-settings';
+export * from './permalinks';
+export * from './date-archives';
+export * from './search-index';
+
+// Export feed, sitemap and content cache helpers
+export * from './feeds';
+export * from './sitemap';
+export * from './content-cache';
+
+// Export page hierarchy helpers
+export * from './page-hierarchy';
+
+// Export custom post type routing helpers and custom taxonomies
+export * from './post-types';
+export * from './taxonomies';
+
+// Export post revisions and their diffs
+export * from './revisions';
+
+// Export the editorial review workflow and admin notifications
+export * from './review-workflow';
+
+// Export editorial notes on blocks
+export * from './block-notes';
+
+// Export scheduled publishing
+export * from './scheduler';
+
+// Export the editorial content calendar
+export * from './calendar';
+
+// Export the trash and its automatic purge
+export * from './trash';
+
+// Export the WordPress importer and its WXR and Gutenberg readers
+export * from './wxr';
+export * from './gutenberg';
+export * from './wordpress-import';
+
+// Export preview link helpers
+export * from './preview-tokens';
+
+// Export post edit locks
+export * from './post-locks';
+
+// Export public comment threads and submission, and comment moderation
+export * from './comments';
+export * from './comment-moderation';
+
+// Export SEO head and structured data helpers
+export * from './seo';
+export * from './structured-data';
+
 // Export all types
 export * from './types';
 
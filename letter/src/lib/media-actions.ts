@@ -2,6 +2,7 @@ import { action } from '@solidjs/router';
 import type { APIEvent } from '@solidjs/start/server';
 import { db } from '~/lib/db';
 import { requireAuth } from '~/lib/auth-utils';
+import { removeMediaFile } from './trash';
 import { 
   MediaUploadSchema,
   MediaUpdateSchema,
@@ -166,7 +167,8 @@ export const getMediaLibrary = action(async (options: {
         const { page = 1, limit = 20, search, type } = validation.data;
         const offset = (page - 1) * limit;
 
-        const where: any = {};
+        // Trashed media stays out of the library until it's restored
+        const where: any = { trashedAt: null };
         
         if (search) {
             where.OR = [
@@ -281,20 +283,35 @@ export const deleteMedia = action(async (id: number) => {
         });
 
         // Delete physical file
-        try {
-            const fs = await import('fs');
-            const fullPath = `./public${media.filePath}`;
-            if (fs.existsSync(fullPath)) {
-                fs.unlinkSync(fullPath);
-            }
-        } catch (fileError) {
-            console.warn('Could not delete physical file:', fileError);
-            // Don't throw here as the database record is already deleted
-        }
+        await removeMediaFile(media.filePath);
 
         return { success: true };
     } catch (error) {
         console.error('Delete media error:', error);
         throw new Error(error instanceof Error ? error.message : 'Failed to delete media');
     }
+});
+
+// Server action to move media to the trash; its file stays until the trash is purged
+export const trashMediaItem = action(async (id: number) => {
+    'use server';
+    
+    try {
+        await requireAuth();
+
+        const validation = validateData(PositiveIntegerSchema, id, "Media ID");
+        if (!validation.success) {
+            throw new Error(validation.error);
+        }
+
+        await db.media.update({
+            where: { id: validation.data },
+            data: { trashedAt: new Date() },
+        });
+
+        return { success: true };
+    } catch (error) {
+        console.error('Trash media error:', error);
+        throw new Error(error instanceof Error ? error.message : 'Failed to move media to trash');
+    }
 });
\ No newline at end of file
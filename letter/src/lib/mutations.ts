@@ -3,7 +3,41 @@
 import { db } from './db';
 import { tryCatch } from "./try-catch";
 import { executePluginHook } from './plugin-manager';
-import type { PostStatus, PostType, CommentStatus, PostMetaType, CustomFieldType, BlockType } from '@prisma/client';
+import { updatePostSearchIndex } from './search-index';
+import { invalidatePostCache, invalidateCategoryCache, invalidateTagCache } from './cms-utils';
+import { invalidateContentCache } from './content-cache';
+import { getPagePathMap, recordPageRedirects, assertValidPageParents, assertSlugAvailable, clearServedPathRedirect } from './page-hierarchy';
+import { assertAvailablePostTypeBase } from './post-types';
+import { assertValidTermParent } from './taxonomies';
+import { resolvePublishStatus, emitContentPublished, type ScheduledPost } from './scheduler';
+import { generatePreviewToken, hashPreviewToken, previewPath } from './preview-tokens';
+import { postLockCutoff, LOCK_HOLDER_SELECT } from './post-locks';
+import {
+  statusChangeError,
+  recordStatusChange,
+  notifyAdminUsers,
+  adminEditPath,
+  REVIEW_DECISION_STATUS
+} from './review-workflow';
+import { notifyNoteReaders } from './block-notes';
+import { invalidateSpamClassifier } from './comment-moderation';
+import { getSiteSettings, SITE_SETTING_DEFAULTS } from './site-settings';
+import { recordRevision, toRevisionBlocks, POST_CONFLICT_MESSAGE } from './revisions';
+import {
+  trashFields,
+  trashPostRecords,
+  restorePostRecords,
+  trashCommentRecords,
+  restoreCommentRecords,
+  purgePostRecords,
+  purgeCommentRecords,
+  purgeMediaRecords
+} from './trash';
+import { getAuthSession } from './auth-utils';
+import { submitComment } from './comments';
+import { getRequestEvent } from 'solid-js/web';
+import { Prisma } from '@prisma/client';
+import type { PostStatus, PostType, CommentStatus, PostMetaType, CustomFieldType, BlockType, UserRole } from '@prisma/client';
 import type { ContentBlockWithChildren } from './types';
 import { type } from 'arktype';
 
@@ -16,6 +50,8 @@ interface BlockInput {
   content: any;
   attributes: any;
   pluginId?: string | null;
+  // Kept from the block's earlier save, so notes on it stay attached
+  uid?: string;
 }
 
 interface MetaInput {
@@ -26,36 +62,92 @@ interface MetaInput {
 import { 
   PostCreateSchema,
   PostUpdateSchema,
+  RevisionRestoreSchema,
+  PostAutosaveSchema,
+  AutosaveDiscardSchema,
   CategoryCreateSchema,
   CategoryUpdateSchema,
+  CategoryBulkDeleteSchema,
+  TermMergeSchema,
   TagCreateSchema,
   TagUpdateSchema,
   CommentCreateSchema,
   CommentUpdateSchema,
+  CommentReplySchema,
   SettingUpdateSchema,
   BulkPostOperationSchema,
   BulkCommentOperationSchema,
+  PageTreeUpdateSchema,
+  PreviewTokenCreateSchema,
+  PostLockSchema,
+  PostReviewSchema,
+  PostReviewersSchema,
+  NotificationReadSchema,
+  BlockNoteCreateSchema,
+  BlockNoteReplySchema,
+  BlockNoteResolveSchema,
   PostTypeCreateSchema,
+  PostTypeUpdateSchema,
   CustomFieldCreateSchema,
+  TaxonomyCreateSchema,
+  TaxonomyUpdateSchema,
+  TermCreateSchema,
+  TermUpdateSchema,
+  PostTermsUpdateSchema,
   PositiveIntegerSchema,
   PostStatusSchema,
   CommentStatusSchema,
   type PostCreate,
   type PostUpdate,
+  type RevisionRestore,
+  type PostAutosave,
+  type AutosaveDiscard,
   type CategoryCreate,
   type CategoryUpdate,
+  type CategoryBulkDelete,
+  type TermMerge,
   type TagCreate,
   type TagUpdate,
   type CommentCreate,
   type CommentUpdate,
+  type CommentReply,
   type SettingUpdate,
   type BulkPostOperation,
   type BulkCommentOperation,
+  type PageTreeUpdate,
+  type PreviewTokenCreate,
+  type PostLockRequest,
+  type PostReview,
+  type PostReviewers,
+  type NotificationRead,
+  type BlockNoteCreate,
+  type BlockNoteReply,
+  type BlockNoteResolve,
   type PostTypeCreate,
-  type CustomFieldCreate
+  type PostTypeUpdate,
+  type CustomFieldCreate,
+  type TaxonomyCreate,
+  type TaxonomyUpdate,
+  type TermCreate,
+  type TermUpdate,
+  type PostTermsUpdate
 } from './validation-schemas';
 import { createValidatedAction } from './validation-utils';
 
+/**
+ * The signed-in user making a change. Everything exported here can be called
+ * from the browser, so the editor comes from the session and a claimed
+ * editorId has to be them.
+ */
+async function requireEditor(claimedId?: number): Promise<{ id: number; role: UserRole }> {
+  const session = await getAuthSession();
+  const id = Number(session?.user?.id);
+  if (!id) throw new Error('You must be logged in to change content');
+  if (claimedId !== undefined && claimedId !== id) throw new Error('You can only save changes as yourself');
+
+  return { id, role: session!.user!.role as UserRole };
+}
+
 // ====== POST MUTATIONS ======
 export const createPost = createValidatedAction(
   PostCreateSchema,
@@ -64,16 +156,33 @@ export const createPost = createValidatedAction(
     const hookResults = await executePluginHook('beforePostCreate', data);
     const modifiedData = hookResults.length > 0 ? (hookResults[hookResults.length - 1] as typeof data) : data;
     
-    const { categoryIds, tagIds, meta, blocks, publishedAt, ...postData } = modifiedData;
+    const { categoryIds, tagIds, meta, blocks, publishedAt, expiresAt, ...postData } = modifiedData;
+    const publishDate = publishedAt ? new Date(publishedAt) : undefined;
+    const status = resolvePublishStatus(postData.status ?? 'DRAFT', publishDate);
+    const { revisionLimit, permalinkStructure } = (await getSiteSettings()).data ?? SITE_SETTING_DEFAULTS;
     
     return tryCatch(db.$transaction(async (tx) => {
+      // New content starts out as a draft, anything further is up to the workflow
+      const editor = await requireEditor();
+      const workflowError = statusChangeError(editor.role, postData.type ?? 'POST', 'DRAFT', status);
+      if (workflowError) throw new Error(workflowError);
+
+      await assertSlugAvailable(tx, {
+        slug: postData.slug,
+        type: postData.type ?? 'POST',
+        parentId: postData.parentId ?? null
+      });
+
       // Create the post
       const post = await tx.post.create({
         data: {
           ...postData,
-          publishedAt: publishedAt ? new Date(publishedAt) : undefined
+          status,
+          publishedAt: publishDate,
+          expiresAt: expiresAt ? new Date(expiresAt) : undefined
         }
       });
+      await clearServedPathRedirect(tx, post, permalinkStructure);
 
       // Add blocks if provided
       if (blocks && blocks.length > 0) {
@@ -89,6 +198,7 @@ export const createPost = createValidatedAction(
               content: blockInput.content as any,
               attributes: blockInput.attributes as any,
               pluginId: blockInput.pluginId,
+              uid: blockInput.uid,
             };
           })
         });
@@ -129,6 +239,9 @@ export const createPost = createValidatedAction(
         });
       }
 
+      await updatePostSearchIndex(tx, post.id);
+      await recordRevision(tx, post.id, post.authorId, revisionLimit);
+
       // Get the complete post with relations
       const completePost = await tx.post.findUnique({
         where: { id: post.id },
@@ -152,6 +265,10 @@ export const createPost = createValidatedAction(
       await executePluginHook('afterPostCreate', completePost);
       
       return completePost;
+    }).then(async (post) => {
+      if (post) await invalidatePostCache(post.id);
+      if (post?.status === 'PUBLISHED') await emitContentPublished(post, false);
+      return post;
     }));
   }
 );
@@ -159,18 +276,77 @@ export const createPost = createValidatedAction(
 export const updatePost = createValidatedAction(
   PostUpdateSchema,
   async (data: PostUpdate) => {
-    const { id, categoryIds, tagIds, meta, blocks, publishedAt, ...postData } = data;
+    const {
+      id, categoryIds, tagIds, meta, blocks, publishedAt, expiresAt, editorId, expectedUpdatedAt, reviewNote, ...postData
+    } = data;
+    const { revisionLimit, permalinkStructure } = (await getSiteSettings()).data ?? SITE_SETTING_DEFAULTS;
+    // Set when this update takes the post live, announced once committed
+    let wentLive: ScheduledPost | null = null;
     
     return tryCatch(db.$transaction(async (tx) => {
-      // Update the post
-      const post = await tx.post.update({
+      const current = await tx.post.findUniqueOrThrow({
         where: { id },
+        select: { type: true, status: true, publishedAt: true, slug: true, parentId: true }
+      });
+
+      // Renaming or moving a page changes its path and those of its subpages
+      const movesPost = postData.slug !== undefined || postData.parentId !== undefined;
+      const movesPage = movesPost && current.type === 'PAGE';
+      if (movesPage && postData.parentId !== undefined) {
+        await assertValidPageParents(tx, [{ id, parentId: postData.parentId }]);
+      }
+      if (movesPost) {
+        await assertSlugAvailable(tx, {
+          id,
+          slug: postData.slug ?? current.slug,
+          type: current.type,
+          parentId: postData.parentId ?? current.parentId
+        });
+      }
+      const pathsBefore = movesPage ? await getPagePathMap(tx) : null;
+
+      const publishDate = publishedAt ? new Date(publishedAt) : publishedAt === null ? null : current.publishedAt;
+      const status = resolvePublishStatus(postData.status ?? current.status, publishDate);
+
+      // Every save is held to the review workflow
+      const editor = await requireEditor(editorId);
+      const workflowError = statusChangeError(editor.role, current.type, current.status, status);
+      if (workflowError) throw new Error(workflowError);
+
+      // Update the post. A save the editor hasn't seen leaves no row to
+      // update, so overwriting it is refused in the same statement
+      const post = await tx.post.update({
+        where: { id, updatedAt: expectedUpdatedAt ? new Date(expectedUpdatedAt) : undefined },
         data: {
           ...postData,
-          publishedAt: publishedAt ? new Date(publishedAt) : undefined
+          status,
+          ...trashFields(current.status, status),
+          publishedAt: publishedAt === undefined ? undefined : publishDate,
+          expiresAt: expiresAt === undefined ? undefined : expiresAt ? new Date(expiresAt) : null
         }
+      }).catch((error: unknown) => {
+        if (expectedUpdatedAt && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+          throw new Error(POST_CONFLICT_MESSAGE);
+        }
+        throw error;
       });
 
+      if (status === 'PUBLISHED' && current.status !== 'PUBLISHED') wentLive = post;
+      if (status !== current.status) {
+        await recordStatusChange(tx, {
+          post,
+          actorId: editor.id,
+          fromStatus: current.status,
+          toStatus: status,
+          note: reviewNote
+        });
+      }
+
+      if (pathsBefore) {
+        await recordPageRedirects(tx, pathsBefore, await getPagePathMap(tx));
+      }
+      await clearServedPathRedirect(tx, post, permalinkStructure);
+
       // Update blocks if provided
       if (blocks !== undefined) {
         // Delete existing blocks
@@ -192,6 +368,7 @@ export const updatePost = createValidatedAction(
                 content: blockInput.content as any,
                 attributes: blockInput.attributes as any,
                 pluginId: blockInput.pluginId,
+                uid: blockInput.uid,
               };
             })
           });
@@ -251,43 +428,113 @@ export const updatePost = createValidatedAction(
         }
       }
 
+      await updatePostSearchIndex(tx, id);
+      await recordRevision(tx, id, editor.id, revisionLimit);
+      // Saving supersedes the editor's autosaved changes
+      await tx.revision.deleteMany({
+        where: { postId: id, authorId: editor.id, autosave: true }
+      });
+
+      return post;
+    }).then(async (post) => {
+      await invalidatePostCache(id);
+      if (wentLive) await emitContentPublished(wentLive, false);
       return post;
     }));
   }
 );
 
+/**
+ * Put a post's title, excerpt and blocks back as they were in a revision.
+ * The post keeps its current status, and the restore is saved as a new
+ * revision like any other edit.
+ */
+export const restoreRevision = createValidatedAction(
+  RevisionRestoreSchema,
+  async ({ revisionId, editorId }: RevisionRestore) => {
+    const revision = await db.revision.findUnique({ where: { id: revisionId } });
+    if (!revision || revision.autosave) throw new Error('Revision not found');
+
+    return updatePost({
+      id: revision.postId,
+      title: revision.title ?? undefined,
+      excerpt: revision.excerpt ?? undefined,
+      content: revision.content ?? undefined,
+      blocks: Array.isArray(revision.blocks) ? revision.blocks : [],
+      editorId
+    });
+  }
+);
+
+/**
+ * Keep a user's unsaved editor changes to a post, replacing any they
+ * autosaved before.
+ */
+export const autosavePost = createValidatedAction(
+  PostAutosaveSchema,
+  async ({ postId, authorId, blocks, ...fields }: PostAutosave) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const data = {
+        title: fields.title ?? null,
+        excerpt: fields.excerpt ?? null,
+        content: fields.content ?? null,
+        blocks: toRevisionBlocks(blocks) as unknown as Prisma.InputJsonValue,
+        createdAt: new Date()
+      };
+      // Written in one statement, so a concurrent autosave can't update a row that's gone
+      const updated = await tx.revision.updateMany({ where: { postId, authorId, autosave: true }, data });
+      if (updated.count > 0) {
+        return tx.revision.findFirstOrThrow({
+          where: { postId, authorId, autosave: true },
+          select: { id: true, createdAt: true }
+        });
+      }
+
+      return tx.revision.create({ data: { ...data, postId, authorId, autosave: true }, select: { id: true, createdAt: true } });
+    }));
+  }
+);
+
+export const discardAutosave = createValidatedAction(
+  AutosaveDiscardSchema,
+  async ({ postId, authorId }: AutosaveDiscard) => {
+    return tryCatch(db.revision.deleteMany({ where: { postId, authorId, autosave: true } }));
+  }
+);
+
 export const deletePost = createValidatedAction(
   PositiveIntegerSchema,
   async (id: number) => {
     return tryCatch(db.post.delete({
       where: { id }
+    }).then(async (post) => {
+      await invalidatePostCache(post.id);
+      return post;
     }));
   }
 );
 
+// Publishes now, or schedules the post when its publishedAt is in the future.
+// Like unpublishing, it's a regular save of the new status, so it's held to
+// the review workflow and recorded in the audit trail.
 export const publishPost = createValidatedAction(
   PositiveIntegerSchema,
   async (id: number) => {
-    return tryCatch(db.post.update({
-      where: { id },
-      data: {
-        status: 'PUBLISHED',
-        publishedAt: new Date()
-      }
-    }));
+    const current = await db.post.findUnique({ where: { id }, select: { publishedAt: true } });
+    if (!current) throw new Error('Post not found');
+
+    return updatePost({
+      id,
+      status: 'PUBLISHED',
+      publishedAt: current.publishedAt ? undefined : new Date().toISOString()
+    });
   }
 );
 
 export const unpublishPost = createValidatedAction(
   PositiveIntegerSchema,
   async (id: number) => {
-    return tryCatch(db.post.update({
-      where: { id },
-      data: {
-        status: 'DRAFT',
-        publishedAt: null
-      }
-    }));
+    return updatePost({ id, status: 'DRAFT', publishedAt: null });
   }
 );
 
@@ -301,13 +548,36 @@ export const createCategory = createValidatedAction(
   }
 );
 
+// Ids of a category's ancestors, nearest first
+async function getCategoryAncestorIds(client: Pick<typeof db, 'category'>, id: number | null): Promise<number[]> {
+  const categories = await client.category.findMany({ select: { id: true, parentId: true } });
+  const parents = new Map(categories.map(category => [category.id, category.parentId]));
+  const ancestors: number[] = [];
+
+  for (let current = id; current !== null && !ancestors.includes(current); current = parents.get(current) ?? null) {
+    ancestors.push(current);
+  }
+  return ancestors.slice(1);
+}
+
 export const updateCategory = createValidatedAction(
   CategoryUpdateSchema,
   async (data: CategoryUpdate) => {
     const { id, ...updateData } = data;
-    return tryCatch(db.category.update({
-      where: { id },
-      data: updateData
+    return tryCatch(db.$transaction(async (tx) => {
+      if (updateData.parentId) {
+        const ancestors = await getCategoryAncestorIds(tx, updateData.parentId);
+        if (ancestors.includes(id)) {
+          throw new Error('A category cannot be moved under one of its subcategories');
+        }
+      }
+      return tx.category.update({
+        where: { id },
+        data: updateData
+      });
+    }).then(async (category) => {
+      await invalidateCategoryCache(category.id);
+      return category;
     }));
   }
 );
@@ -317,6 +587,81 @@ export const deleteCategory = createValidatedAction(
   async (id: number) => {
     return tryCatch(db.category.delete({
       where: { id }
+    }).then(async (category) => {
+      await invalidateCategoryCache(category.id);
+      return category;
+    }));
+  }
+);
+
+// Posts of the source move to the target, and so do its subcategories
+export const mergeCategories = createValidatedAction(
+  TermMergeSchema,
+  async ({ sourceId, targetId }: TermMerge) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const source = await tx.category.findUniqueOrThrow({ where: { id: sourceId } });
+
+      // A target inside the source's subtree first moves up to the source's place
+      if ((await getCategoryAncestorIds(tx, targetId)).includes(sourceId)) {
+        await tx.category.update({ where: { id: targetId }, data: { parentId: source.parentId } });
+      }
+      await tx.category.updateMany({
+        where: { parentId: sourceId, id: { not: targetId } },
+        data: { parentId: targetId }
+      });
+
+      const links = await tx.postCategory.findMany({ where: { categoryId: sourceId }, select: { postId: true } });
+      await tx.postCategory.createMany({
+        data: links.map(link => ({ postId: link.postId, categoryId: targetId })),
+        skipDuplicates: true
+      });
+      await tx.category.delete({ where: { id: sourceId } });
+
+      return tx.category.findUniqueOrThrow({ where: { id: targetId } });
+    }).then(async (category) => {
+      await Promise.all([invalidateCategoryCache(sourceId), invalidateCategoryCache(targetId)]);
+      return category;
+    }));
+  }
+);
+
+// Subcategories of deleted categories move up to their nearest remaining
+// ancestor; posts left without any category are filed under the fallback
+export const bulkDeleteCategories = createValidatedAction(
+  CategoryBulkDeleteSchema,
+  async ({ categoryIds, fallbackId }: CategoryBulkDelete) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const deleted = new Set(categoryIds);
+      const categories = await tx.category.findMany({ select: { id: true, parentId: true } });
+      const parents = new Map(categories.map(category => [category.id, category.parentId]));
+
+      for (const category of categories) {
+        if (deleted.has(category.id) || category.parentId === null || !deleted.has(category.parentId)) continue;
+        let parentId: number | null = category.parentId;
+        while (parentId !== null && deleted.has(parentId)) parentId = parents.get(parentId) ?? null;
+        await tx.category.update({ where: { id: category.id }, data: { parentId } });
+      }
+
+      if (fallbackId) {
+        const orphaned = await tx.post.findMany({
+          where: {
+            categories: {
+              some: { categoryId: { in: categoryIds } },
+              every: { categoryId: { in: categoryIds } }
+            }
+          },
+          select: { id: true }
+        });
+        await tx.postCategory.createMany({
+          data: orphaned.map(post => ({ postId: post.id, categoryId: fallbackId })),
+          skipDuplicates: true
+        });
+      }
+
+      return tx.category.deleteMany({ where: { id: { in: categoryIds } } });
+    }).then(async (result) => {
+      await Promise.all(categoryIds.map(id => invalidateCategoryCache(id)));
+      return result;
     }));
   }
 );
@@ -338,6 +683,9 @@ export const updateTag = createValidatedAction(
     return tryCatch(db.tag.update({
       where: { id },
       data: updateData
+    }).then(async (tag) => {
+      await invalidateTagCache(tag.id);
+      return tag;
     }));
   }
 );
@@ -347,30 +695,96 @@ export const deleteTag = createValidatedAction(
   async (id: number) => {
     return tryCatch(db.tag.delete({
       where: { id }
+    }).then(async (tag) => {
+      await invalidateTagCache(tag.id);
+      return tag;
+    }));
+  }
+);
+
+export const mergeTags = createValidatedAction(
+  TermMergeSchema,
+  async ({ sourceId, targetId }: TermMerge) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const links = await tx.postTag.findMany({ where: { tagId: sourceId }, select: { postId: true } });
+      await tx.postTag.createMany({
+        data: links.map(link => ({ postId: link.postId, tagId: targetId })),
+        skipDuplicates: true
+      });
+      await tx.tag.delete({ where: { id: sourceId } });
+
+      return tx.tag.findUniqueOrThrow({ where: { id: targetId } });
+    }).then(async (tag) => {
+      await Promise.all([invalidateTagCache(sourceId), invalidateTagCache(targetId)]);
+      return tag;
+    }));
+  }
+);
+
+export const bulkDeleteTags = createValidatedAction(
+  type("number[]").pipe((ids, problems) => {
+    if (ids.length === 0) return problems.mustBe("a non-empty array");
+    return ids;
+  }),
+  async (tagIds: number[]) => {
+    return tryCatch(db.tag.deleteMany({
+      where: {
+        id: {
+          in: tagIds
+        }
+      }
+    }).then(async (result) => {
+      await Promise.all(tagIds.map(id => invalidateTagCache(id)));
+      return result;
     }));
   }
 );
 
 // ====== COMMENT MUTATIONS ======
+// New comments go through the spam checks; those that pass start PENDING
+// unless an auto-approval setting applies
+// Comments are submitted as from the public form: by the signed-in user, if
+// any, from the requesting address, and only where comments are open
 export const createComment = createValidatedAction(
   CommentCreateSchema,
-  async (data: CommentCreate) => {
-    return tryCatch(db.comment.create({
-      data: {
-        ...data,
-        status: 'PENDING' // Comments start as pending
-      }
-    }));
+  async ({ postId, parentId, authorName, authorEmail, authorUrl, content }: CommentCreate) => {
+    const session = await getAuthSession();
+    const event = getRequestEvent();
+    const forwardedFor = event?.request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+
+    return submitComment({ postId, parentId, authorName, authorEmail, authorUrl, content }, {
+      user: session?.user
+        ? {
+          id: Number(session.user.id),
+          name: session.user.name ?? null,
+          username: session.user.username,
+          email: session.user.email ?? null
+        }
+        : null,
+      ip: forwardedFor || event?.clientAddress,
+      agent: event?.request.headers.get('user-agent') ?? undefined
+    });
   }
 );
 
+// Status changes record moderatedAt, which makes the comment a training
+// example for the spam classifier
 export const updateComment = createValidatedAction(
   CommentUpdateSchema,
   async (data: CommentUpdate) => {
     const { id, ...updateData } = data;
-    return tryCatch(db.comment.update({
-      where: { id },
-      data: updateData
+    return tryCatch(db.$transaction(async (tx) => {
+      if (!updateData.status) {
+        return tx.comment.update({ where: { id }, data: updateData });
+      }
+
+      const current = await tx.comment.findUniqueOrThrow({ where: { id }, select: { status: true } });
+      const comment = await tx.comment.update({
+        where: { id },
+        data: { ...updateData, ...trashFields(current.status, updateData.status), moderatedAt: new Date() }
+      });
+      invalidateSpamClassifier();
+      return comment;
     }));
   }
 );
@@ -380,7 +794,10 @@ export const approveComment = createValidatedAction(
   async (id: number) => {
     return tryCatch(db.comment.update({
       where: { id },
-      data: { status: 'APPROVED' }
+      data: { status: 'APPROVED', moderatedAt: new Date() }
+    }).then(comment => {
+      invalidateSpamClassifier();
+      return comment;
     }));
   }
 );
@@ -390,7 +807,10 @@ export const rejectComment = createValidatedAction(
   async (id: number) => {
     return tryCatch(db.comment.update({
       where: { id },
-      data: { status: 'SPAM' }
+      data: { status: 'SPAM', moderatedAt: new Date() }
+    }).then(comment => {
+      invalidateSpamClassifier();
+      return comment;
     }));
   }
 );
@@ -400,6 +820,46 @@ export const deleteComment = createValidatedAction(
   async (id: number) => {
     return tryCatch(db.comment.delete({
       where: { id }
+    }).then(comment => {
+      invalidateSpamClassifier();
+      return comment;
+    }));
+  }
+);
+
+// Replying to a pending comment approves it, so the reply isn't orphaned
+export const replyToComment = createValidatedAction(
+  CommentReplySchema,
+  async (data: CommentReply) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const parent = await tx.comment.findUniqueOrThrow({
+        where: { id: data.parentId },
+        select: { id: true, postId: true, status: true }
+      });
+      const author = await tx.user.findUniqueOrThrow({
+        where: { id: data.authorId },
+        select: { name: true, username: true, email: true }
+      });
+
+      if (parent.status === 'PENDING') {
+        await tx.comment.update({
+          where: { id: parent.id },
+          data: { status: 'APPROVED', moderatedAt: new Date() }
+        });
+        invalidateSpamClassifier();
+      }
+
+      return tx.comment.create({
+        data: {
+          postId: parent.postId,
+          parentId: parent.id,
+          authorId: data.authorId,
+          authorName: author.name || author.username || 'Admin',
+          authorEmail: author.email || '',
+          content: data.content.trim(),
+          status: 'APPROVED'
+        }
+      });
     }));
   }
 );
@@ -413,6 +873,9 @@ export const setSetting = createValidatedAction(
       where: { key },
       update: { value, type, description },
       create: { key, value, type, description }
+    }).then((setting) => {
+      invalidateContentCache();
+      return setting;
     }));
   }
 );
@@ -425,24 +888,305 @@ export const deleteSetting = createValidatedAction(
   async (key: string) => {
     return tryCatch(db.setting.delete({
       where: { key }
+    }).then((setting) => {
+      invalidateContentCache();
+      return setting;
+    }));
+  }
+);
+
+// ====== PAGE TREE ======
+export const reorderPages = createValidatedAction(
+  PageTreeUpdateSchema,
+  async (data: PageTreeUpdate) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      await assertValidPageParents(tx, data.pages);
+      const pathsBefore = await getPagePathMap(tx);
+
+      for (const page of data.pages) {
+        await tx.post.update({
+          where: { id: page.id },
+          data: {
+            parentId: page.parentId,
+            menuOrder: page.menuOrder
+          }
+        });
+      }
+
+      const redirects = await recordPageRedirects(tx, pathsBefore, await getPagePathMap(tx));
+
+      return { updated: data.pages.length, redirects };
+    }).then(async (result) => {
+      await Promise.all(data.pages.map(page => invalidatePostCache(page.id)));
+      return result;
+    }));
+  }
+);
+
+// ====== PREVIEW LINKS ======
+// Returns the link's path along with its record; the token can't be read back later
+export const createPreviewToken = createValidatedAction(
+  PreviewTokenCreateSchema,
+  async (data: PreviewTokenCreate) => {
+    return tryCatch(async () => {
+      const token = generatePreviewToken();
+      const record = await db.previewToken.create({
+        data: {
+          postId: data.postId,
+          tokenHash: await hashPreviewToken(token),
+          label: data.label?.trim() || null,
+          expiresAt: new Date(Date.now() + data.expiresInHours * 60 * 60 * 1000),
+          createdById: data.createdById
+        },
+        select: { id: true, label: true, expiresAt: true }
+      });
+      return { ...record, path: previewPath(token) };
+    });
+  }
+);
+
+export const revokePreviewToken = createValidatedAction(
+  PositiveIntegerSchema,
+  async (id: number) => {
+    return tryCatch(db.previewToken.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: { id: true, revokedAt: true }
+    }));
+  }
+);
+
+// ====== REVIEW WORKFLOW ======
+/**
+ * Submit a post for review, or decide on one in review. The decision is a
+ * regular save of the new status, so it's checked against the actor's
+ * role and recorded in the audit trail with its note.
+ */
+export const reviewPost = createValidatedAction(
+  PostReviewSchema,
+  async ({ postId, actorId, action, note }: PostReview) => {
+    const current = await db.post.findUnique({
+      where: { id: postId },
+      select: { status: true, publishedAt: true }
+    });
+    if (!current) throw new Error('Post not found');
+    if (action === 'submit' ? current.status !== 'DRAFT' : current.status !== 'REVIEW') {
+      throw new Error(action === 'submit' ? 'Only drafts can be submitted for review' : 'This is not awaiting review');
+    }
+
+    return updatePost({
+      id: postId,
+      status: REVIEW_DECISION_STATUS[action],
+      // Approving a post without a publish date publishes it now
+      publishedAt: action === 'approve' && !current.publishedAt ? new Date().toISOString() : undefined,
+      editorId: actorId,
+      reviewNote: note
+    });
+  }
+);
+
+// Newly assigned reviewers are notified; the rest are left alone
+export const assignReviewers = createValidatedAction(
+  PostReviewersSchema,
+  async ({ postId, reviewerIds, assignedById }: PostReviewers) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const post = await tx.post.findUniqueOrThrow({
+        where: { id: postId },
+        select: { id: true, title: true, type: true }
+      });
+      const existing = await tx.postReviewer.findMany({ where: { postId }, select: { userId: true } });
+      const existingIds = existing.map(reviewer => reviewer.userId);
+      const added = reviewerIds.filter(id => !existingIds.includes(id));
+
+      await tx.postReviewer.deleteMany({ where: { postId, userId: { notIn: reviewerIds } } });
+      await tx.postReviewer.createMany({
+        data: added.map(userId => ({ postId, userId, assignedById }))
+      });
+      await notifyAdminUsers(
+        tx,
+        added.filter(id => id !== assignedById),
+        `You were asked to review "${post.title}"`,
+        adminEditPath(post)
+      );
+
+      return { postId, reviewerIds };
+    }));
+  }
+);
+
+export const markNotificationsRead = createValidatedAction(
+  NotificationReadSchema,
+  async ({ userId, ids }: NotificationRead) => {
+    return tryCatch(db.adminNotification.updateMany({
+      where: { userId, readAt: null, id: ids ? { in: ids } : undefined },
+      data: { readAt: new Date() }
+    }));
+  }
+);
+
+// ====== BLOCK NOTES ======
+/**
+ * Open a note thread on a block. Users mentioned in it are notified.
+ */
+export const createBlockNote = createValidatedAction(
+  BlockNoteCreateSchema,
+  async ({ postId, blockUid, quote, authorId, body }: BlockNoteCreate) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const post = await tx.post.findUniqueOrThrow({
+        where: { id: postId },
+        select: { id: true, title: true, type: true }
+      });
+      const note = await tx.blockNote.create({
+        data: {
+          postId,
+          blockUid,
+          quote: quote?.trim() || null,
+          authorId,
+          comments: { create: { authorId, body: body.trim() } }
+        }
+      });
+      await notifyNoteReaders(tx, { post, authorId, body });
+      return note;
+    }));
+  }
+);
+
+// Replies notify the mentioned users and whoever opened the thread
+export const replyToBlockNote = createValidatedAction(
+  BlockNoteReplySchema,
+  async ({ noteId, authorId, body }: BlockNoteReply) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const note = await tx.blockNote.findUniqueOrThrow({
+        where: { id: noteId },
+        select: { authorId: true, post: { select: { id: true, title: true, type: true } } }
+      });
+      const comment = await tx.blockNoteComment.create({
+        data: { noteId, authorId, body: body.trim() }
+      });
+      await tx.blockNote.update({ where: { id: noteId }, data: { updatedAt: new Date() } });
+      await notifyNoteReaders(tx, { post: note.post, authorId, body, alsoNotify: [note.authorId] });
+      return comment;
+    }));
+  }
+);
+
+export const setBlockNoteResolved = createValidatedAction(
+  BlockNoteResolveSchema,
+  async ({ noteId, userId, resolved }: BlockNoteResolve) => {
+    return tryCatch(db.blockNote.update({
+      where: { id: noteId },
+      data: resolved
+        ? { resolvedAt: new Date(), resolvedById: userId }
+        : { resolvedAt: null, resolvedById: null }
+    }));
+  }
+);
+
+// ====== EDIT LOCKS ======
+/**
+ * Claim a post's edit lock, or renew it when the user already holds it;
+ * the editor calls this as its heartbeat too. While someone else holds a
+ * live lock it's only claimed on takeover, otherwise their details are
+ * returned.
+ */
+export const acquirePostLock = createValidatedAction(
+  PostLockSchema,
+  async ({ postId, userId, takeover }: PostLockRequest) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const now = new Date();
+      const lock = await tx.postLock.findUnique({
+        where: { postId },
+        select: { userId: true, heartbeatAt: true, user: { select: LOCK_HOLDER_SELECT } }
+      });
+      const heldByOther = lock !== null && lock.userId !== userId && lock.heartbeatAt > postLockCutoff(now);
+
+      if (lock && heldByOther && !takeover) {
+        return { acquired: false, holder: lock.user };
+      }
+
+      if (lock?.userId === userId) {
+        await tx.postLock.update({ where: { postId }, data: { heartbeatAt: now } });
+      } else {
+        await tx.postLock.upsert({
+          where: { postId },
+          create: { postId, userId, acquiredAt: now, heartbeatAt: now },
+          update: { userId, acquiredAt: now, heartbeatAt: now }
+        });
+      }
+      return { acquired: true, holder: null };
     }));
   }
 );
 
+// Only the user's own lock is released; a lock taken over stays with the new editor
+export const releasePostLock = createValidatedAction(
+  PostLockSchema,
+  async ({ postId, userId }: PostLockRequest) => {
+    return tryCatch(db.postLock.deleteMany({ where: { postId, userId } }));
+  }
+);
+
 // ====== BULK OPERATIONS ======
 export const bulkUpdatePostStatus = createValidatedAction(
   BulkPostOperationSchema,
   async (data: BulkPostOperation) => {
     const { postIds, status } = data;
     if (!status) throw new Error('Status is required for bulk status update');
-    
-    return tryCatch(db.post.updateMany({
-      where: {
-        id: {
-          in: postIds
-        }
-      },
-      data: { status }
+    // Posts this change takes live, announced once committed
+    const wentLive: ScheduledPost[] = [];
+
+    return tryCatch(db.$transaction(async (tx) => {
+      const editor = await requireEditor();
+      const posts = await tx.post.findMany({
+        where: { id: { in: postIds } },
+        select: { id: true, type: true, status: true, publishedAt: true }
+      });
+      const now = new Date();
+
+      // Each post is saved as updatePost would: publishing without a date
+      // publishes now, a future date schedules, and the workflow applies
+      const changes = posts.map(post => {
+        const publishDate = post.publishedAt ?? (status === 'PUBLISHED' ? now : null);
+        return { post, publishDate, status: resolvePublishStatus(status, publishDate, now) };
+      });
+      for (const change of changes) {
+        const error = statusChangeError(editor.role, change.post.type, change.post.status, change.status);
+        if (error) throw new Error(error);
+      }
+
+      if (status === 'TRASH') {
+        return { count: (await trashPostRecords(tx, postIds)).length };
+      }
+
+      let count = 0;
+      for (const change of changes) {
+        if (change.status === change.post.status) continue;
+
+        const post = await tx.post.update({
+          where: { id: change.post.id },
+          data: {
+            status: change.status,
+            ...trashFields(change.post.status, change.status),
+            publishedAt: change.post.publishedAt ? undefined : change.publishDate
+          }
+        });
+        await recordStatusChange(tx, {
+          post,
+          actorId: editor.id,
+          fromStatus: change.post.status,
+          toStatus: change.status
+        });
+        if (change.status === 'PUBLISHED') wentLive.push(post);
+        count++;
+      }
+
+      return { count };
+    }).then(async (result) => {
+      await Promise.all(postIds.map(id => invalidatePostCache(id)));
+      for (const post of wentLive) {
+        await emitContentPublished(post, false);
+      }
+      return result;
     }));
   }
 );
@@ -459,6 +1203,9 @@ export const bulkDeletePosts = createValidatedAction(
           in: postIds
         }
       }
+    }).then(async (result) => {
+      await Promise.all(postIds.map(id => invalidatePostCache(id)));
+      return result;
     }));
   }
 );
@@ -469,13 +1216,20 @@ export const bulkUpdateCommentStatus = createValidatedAction(
     const { commentIds, status } = data;
     if (!status) throw new Error('Status is required for bulk status update');
     
+    if (status === 'TRASH') {
+      return trashComments(commentIds);
+    }
+
     return tryCatch(db.comment.updateMany({
       where: {
         id: {
           in: commentIds
         }
       },
-      data: { status }
+      data: { status, moderatedAt: new Date(), trashedAt: null, statusBeforeTrash: null }
+    }).then(result => {
+      invalidateSpamClassifier();
+      return result;
     }));
   }
 );
@@ -492,16 +1246,149 @@ export const bulkDeleteComments = createValidatedAction(
           in: commentIds
         }
       }
+    }).then(result => {
+      invalidateSpamClassifier();
+      return result;
+    }));
+  }
+);
+
+// ====== TRASH ======
+const TrashIdsSchema = type("number[]").pipe((ids, problems) => {
+  if (ids.length === 0) return problems.mustBe("a non-empty array");
+  return ids;
+});
+
+// Trashing remembers each post's status for restoring; the purge deletes it later
+export const trashPosts = createValidatedAction(
+  TrashIdsSchema,
+  async (postIds: number[]) => {
+    return tryCatch(db.$transaction(tx => trashPostRecords(tx, postIds)).then(async (trashed) => {
+      await Promise.all(trashed.map(id => invalidatePostCache(id)));
+      return { count: trashed.length };
     }));
   }
 );
 
+export const restorePosts = createValidatedAction(
+  TrashIdsSchema,
+  async (postIds: number[]) => {
+    return tryCatch(db.$transaction(tx => restorePostRecords(tx, postIds)).then(async (restored) => {
+      await Promise.all(restored.map(id => invalidatePostCache(id)));
+      return { count: restored.length };
+    }));
+  }
+);
+
+export const trashComments = createValidatedAction(
+  TrashIdsSchema,
+  async (commentIds: number[]) => {
+    return tryCatch(db.$transaction(tx => trashCommentRecords(tx, commentIds)).then(trashed => {
+      invalidateSpamClassifier();
+      return { count: trashed.length };
+    }));
+  }
+);
+
+export const restoreComments = createValidatedAction(
+  TrashIdsSchema,
+  async (commentIds: number[]) => {
+    return tryCatch(db.$transaction(tx => restoreCommentRecords(tx, commentIds)).then(restored => {
+      invalidateSpamClassifier();
+      return { count: restored.length };
+    }));
+  }
+);
+
+// Trashed media is hidden from the library, but posts using it keep it until it's purged
+export const trashMedia = createValidatedAction(
+  TrashIdsSchema,
+  async (mediaIds: number[]) => {
+    return tryCatch(db.media.updateMany({
+      where: { id: { in: mediaIds }, trashedAt: null },
+      data: { trashedAt: new Date() }
+    }));
+  }
+);
+
+export const restoreMedia = createValidatedAction(
+  TrashIdsSchema,
+  async (mediaIds: number[]) => {
+    return tryCatch(db.media.updateMany({
+      where: { id: { in: mediaIds } },
+      data: { trashedAt: null }
+    }));
+  }
+);
+
+// Deletes trashed posts now, without waiting for the purge
+export const purgePosts = createValidatedAction(
+  TrashIdsSchema,
+  async (postIds: number[]) => {
+    return tryCatch(purgePostRecords(postIds, 'POST').then(purged => ({ count: purged.length })));
+  }
+);
+
+// Deletes trashed pages now, without waiting for the purge
+export const purgePages = createValidatedAction(
+  TrashIdsSchema,
+  async (pageIds: number[]) => {
+    return tryCatch(purgePostRecords(pageIds, 'PAGE').then(purged => ({ count: purged.length })));
+  }
+);
+
+// Deletes trashed comments now, without waiting for the purge
+export const purgeComments = createValidatedAction(
+  TrashIdsSchema,
+  async (commentIds: number[]) => {
+    return tryCatch(purgeCommentRecords(commentIds).then(count => ({ count })));
+  }
+);
+
+// Deletes the media and its files now, without waiting for the purge
+export const purgeMedia = createValidatedAction(
+  TrashIdsSchema,
+  async (mediaIds: number[]) => {
+    return tryCatch(purgeMediaRecords(mediaIds).then(count => ({ count })));
+  }
+);
+
 // ====== CUSTOM POST TYPES ======
 export const createPostType = createValidatedAction(
   PostTypeCreateSchema,
   async (data: PostTypeCreate) => {
-    return tryCatch(db.postTypeDefinition.create({
-      data
+    return tryCatch(db.$transaction(async (tx) => {
+      await assertAvailablePostTypeBase(tx, { name: data.name, rewriteSlug: data.rewriteSlug ?? null });
+      const postType = await tx.postTypeDefinition.create({
+        data
+      });
+      invalidateContentCache();
+      return postType;
+    }));
+  }
+);
+
+export const updatePostType = createValidatedAction(
+  PostTypeUpdateSchema,
+  async (data: PostTypeUpdate) => {
+    const { id, ...updateData } = data;
+    return tryCatch(db.$transaction(async (tx) => {
+      const current = await tx.postTypeDefinition.findUniqueOrThrow({
+        where: { id },
+        select: { name: true, rewriteSlug: true }
+      });
+
+      if (updateData.rewriteSlug !== undefined) {
+        await assertAvailablePostTypeBase(tx, { id, name: current.name, rewriteSlug: updateData.rewriteSlug });
+      }
+
+      const postType = await tx.postTypeDefinition.update({
+        where: { id },
+        data: updateData
+      });
+      // Archive and entry URLs in feeds and sitemaps change with the type
+      invalidateContentCache();
+      return postType;
     }));
   }
 );
@@ -515,6 +1402,129 @@ export const createCustomField = createValidatedAction(
   }
 );
 
+// ====== TAXONOMY MUTATIONS ======
+export const createTaxonomy = createValidatedAction(
+  TaxonomyCreateSchema,
+  async (data: TaxonomyCreate) => {
+    return tryCatch(db.taxonomy.create({
+      data
+    }));
+  }
+);
+
+// A taxonomy can only become flat once none of its terms has a parent
+export const updateTaxonomy = createValidatedAction(
+  TaxonomyUpdateSchema,
+  async (data: TaxonomyUpdate) => {
+    const { id, ...updateData } = data;
+    return tryCatch(db.$transaction(async (tx) => {
+      if (updateData.hierarchical === false) {
+        const nested = await tx.term.count({ where: { taxonomyId: id, parentId: { not: null } } });
+        if (nested > 0) {
+          throw new Error('Move all terms to the top level before making the taxonomy flat');
+        }
+      }
+      return tx.taxonomy.update({
+        where: { id },
+        data: updateData
+      });
+    }).then(taxonomy => {
+      invalidateContentCache();
+      return taxonomy;
+    }));
+  }
+);
+
+export const deleteTaxonomy = createValidatedAction(
+  PositiveIntegerSchema,
+  async (id: number) => {
+    return tryCatch(db.taxonomy.delete({
+      where: { id }
+    }).then(taxonomy => {
+      invalidateContentCache();
+      return taxonomy;
+    }));
+  }
+);
+
+export const createTerm = createValidatedAction(
+  TermCreateSchema,
+  async (data: TermCreate) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      if (data.parentId) await assertValidTermParent(tx, data, data.parentId);
+      return tx.term.create({
+        data
+      });
+    }));
+  }
+);
+
+export const updateTerm = createValidatedAction(
+  TermUpdateSchema,
+  async (data: TermUpdate) => {
+    const { id, ...updateData } = data;
+    return tryCatch(db.$transaction(async (tx) => {
+      if (updateData.parentId) {
+        const term = await tx.term.findUniqueOrThrow({ where: { id }, select: { taxonomyId: true } });
+        await assertValidTermParent(tx, { id, taxonomyId: term.taxonomyId }, updateData.parentId);
+      }
+      return tx.term.update({
+        where: { id },
+        data: updateData
+      });
+    }).then(term => {
+      invalidateContentCache();
+      return term;
+    }));
+  }
+);
+
+export const deleteTerm = createValidatedAction(
+  PositiveIntegerSchema,
+  async (id: number) => {
+    return tryCatch(db.term.delete({
+      where: { id }
+    }).then(term => {
+      invalidateContentCache();
+      return term;
+    }));
+  }
+);
+
+// Terms must belong to the taxonomy, and the taxonomy to the post's type
+export const setPostTerms = createValidatedAction(
+  PostTermsUpdateSchema,
+  async ({ postId, taxonomyId, termIds }: PostTermsUpdate) => {
+    return tryCatch(db.$transaction(async (tx) => {
+      const [post, taxonomy] = await Promise.all([
+        tx.post.findUniqueOrThrow({ where: { id: postId }, select: { customType: true } }),
+        tx.taxonomy.findUniqueOrThrow({ where: { id: taxonomyId }, select: { postType: { select: { name: true } } } })
+      ]);
+      if (post.customType !== taxonomy.postType.name) {
+        throw new Error(`This taxonomy belongs to the ${taxonomy.postType.name} post type`);
+      }
+
+      const terms = await tx.term.count({ where: { id: { in: termIds }, taxonomyId } });
+      if (terms !== new Set(termIds).size) {
+        throw new Error('Terms must belong to the taxonomy');
+      }
+
+      await tx.postTerm.deleteMany({
+        where: { postId, term: { taxonomyId }, termId: { notIn: termIds } }
+      });
+      await tx.postTerm.createMany({
+        data: termIds.map(termId => ({ postId, termId })),
+        skipDuplicates: true
+      });
+
+      return tx.postTerm.findMany({ where: { postId, term: { taxonomyId } } });
+    }).then(async (postTerms) => {
+      await invalidatePostCache(postId);
+      return postTerms;
+    }));
+  }
+);
+
 // ====== UTILITY FUNCTIONS ======
 export const generateUniqueSlug = createValidatedAction(
   type({
@@ -629,3 +1639,44 @@ export const generateUniqueTagSlug = createValidatedAction(
     return slug;
   }
 );
+
+// Term slugs only need to be unique within their taxonomy
+export const generateUniqueTermSlug = createValidatedAction(
+  type({
+    name: "string",
+    taxonomyId: "number",
+    termId: "number?"
+  }).pipe((input, problems) => {
+    if (!input.name.trim()) {
+      return problems.mustBe("name cannot be empty");
+    }
+    return input;
+  }),
+  async ({ name, taxonomyId, termId }: { name: string; taxonomyId: number; termId?: number }) => {
+    const baseSlug = name
+      .toLowerCase()
+      .replace(/[^\w\s-]/g, '')
+      .replace(/\s+/g, '-')
+      .trim();
+
+    let slug = baseSlug;
+    let counter = 1;
+
+    while (true) {
+      const existing = await db.term.findFirst({
+        where: {
+          taxonomyId,
+          slug,
+          id: termId ? { not: termId } : undefined
+        }
+      });
+
+      if (!existing) break;
+
+      slug = `${baseSlug}-${counter}`;
+      counter++;
+    }
+
+    return slug;
+  }
+);
@@ -0,0 +1,309 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { getCachedContent, invalidateContentCache } from './content-cache';
+import { buildPostPath } from './permalinks';
+import { getPostTypeBaseMap } from './post-types';
+import type { Prisma, PostStatus, PostType } from '@prisma/client';
+
+// ====== PAGE HIERARCHY ======
+// Pages are served at the path of their ancestors' slugs, e.g. a page
+// `leadership` under `team` under `about` lives at `/about/team/leadership`.
+// When a page is renamed or moved, the old paths of it and its descendants
+// are stored as redirects to the new ones, until published content is
+// served at one of those paths again.
+//
+// A subpage's slug only has to be unique among its siblings. Top-level
+// pages and all other posts share one slug namespace, since a request path
+// is looked up there by its last segment once no page matches it.
+
+type HierarchyClient = Prisma.TransactionClient;
+
+export interface PageNode {
+    id: number;
+    slug: string;
+    parentId: number | null;
+}
+
+// Guards against parent cycles in stored data
+const MAX_PAGE_DEPTH = 32;
+
+/**
+ * Posts that share the site-wide slug namespace: everything but subpages.
+ */
+export const TOP_LEVEL_SLUGS: Prisma.PostWhereInput = {
+    OR: [{ type: { not: 'PAGE' } }, { parentId: null }]
+};
+
+function slugTakenError(slug: string): Error {
+    return new Error(`The slug "${slug}" is already in use here`);
+}
+
+/**
+ * Throw when another post already uses the slug where this one is served:
+ * among its siblings for a subpage, site-wide for anything else.
+ */
+export async function assertSlugAvailable(
+    client: HierarchyClient,
+    post: { id?: number; slug: string; type: PostType; parentId: number | null }
+): Promise<void> {
+    const scope = post.type === 'PAGE' && post.parentId !== null
+        ? { type: 'PAGE' as const, parentId: post.parentId }
+        : TOP_LEVEL_SLUGS;
+    const clash = await client.post.findFirst({
+        where: { ...scope, slug: post.slug, id: post.id ? { not: post.id } : undefined },
+        select: { id: true }
+    });
+    if (clash) throw slugTakenError(post.slug);
+}
+
+/**
+ * Normalize a request path: leading slash, no trailing slash or query.
+ */
+export function normalizePagePath(pathname: string): string {
+    const path = pathname.split(/[?#]/)[0].replace(/\/+$/, '');
+    return path.startsWith('/') ? path || '/' : `/${path}`;
+}
+
+/**
+ * Compute the public path of every page from a flat id/slug/parent list.
+ * Pages whose parent isn't in the list are treated as top-level.
+ */
+export function buildPagePaths(pages: PageNode[]): Map<number, string> {
+    const byId = new Map(pages.map(page => [page.id, page]));
+    const paths = new Map<number, string>();
+
+    const resolve = (page: PageNode, depth: number): string => {
+        const cached = paths.get(page.id);
+        if (cached) return cached;
+
+        const parent = page.parentId !== null ? byId.get(page.parentId) : undefined;
+        const path = parent && parent.id !== page.id && depth < MAX_PAGE_DEPTH
+            ? `${resolve(parent, depth + 1)}/${page.slug}`
+            : `/${page.slug}`;
+        paths.set(page.id, path);
+        return path;
+    };
+
+    pages.forEach(page => resolve(page, 0));
+    return paths;
+}
+
+/**
+ * Whether `parentId` is `pageId` itself or one of its descendants, which
+ * would make the page its own ancestor.
+ */
+export function wouldCreatePageCycle(pages: PageNode[], pageId: number, parentId: number | null): boolean {
+    const byId = new Map(pages.map(page => [page.id, page]));
+    let current = parentId;
+    for (let depth = 0; current !== null && depth <= MAX_PAGE_DEPTH; depth++) {
+        if (current === pageId) return true;
+        current = byId.get(current)?.parentId ?? null;
+    }
+    return current !== null;
+}
+
+async function getPageNodes(client: HierarchyClient): Promise<PageNode[]> {
+    return client.post.findMany({
+        where: { type: 'PAGE' },
+        select: { id: true, slug: true, parentId: true }
+    });
+}
+
+/**
+ * Check a set of parent changes against the current page tree, throwing
+ * when a parent isn't a page, a page would end up under itself or next to
+ * a page with the same slug.
+ */
+export async function assertValidPageParents(
+    client: HierarchyClient,
+    changes: Array<{ id: number; parentId: number | null }>
+): Promise<void> {
+    const parents = new Map(changes.map(change => [change.id, change.parentId]));
+    const pages = (await getPageNodes(client)).map(page => parents.has(page.id)
+        ? { ...page, parentId: parents.get(page.id)! }
+        : page);
+    const ids = new Set(pages.map(page => page.id));
+
+    for (const { id, parentId } of changes) {
+        if (!ids.has(id)) throw new Error(`Page ${id} not found`);
+        const { slug } = pages.find(page => page.id === id)!;
+        if (pages.some(page => page.id !== id && page.parentId === parentId && page.slug === slug)) {
+            throw slugTakenError(slug);
+        }
+        if (parentId === null) {
+            // Top-level pages share their slugs with posts as well
+            const post = await client.post.findFirst({
+                where: { type: { not: 'PAGE' }, slug },
+                select: { id: true }
+            });
+            if (post) throw slugTakenError(slug);
+            continue;
+        }
+        if (!ids.has(parentId)) throw new Error('Parent must be a page');
+        if (wouldCreatePageCycle(pages, id, parentId)) {
+            throw new Error('A page cannot be moved under itself or one of its subpages');
+        }
+    }
+}
+
+/**
+ * Public paths of all pages, keyed by page id.
+ */
+export async function getPagePathMap(client: HierarchyClient = db): Promise<Map<number, string>> {
+    return buildPagePaths(await getPageNodes(client));
+}
+
+/**
+ * Public path of one page, built by walking up its parents.
+ */
+export async function getPagePath(pageId: number, client: HierarchyClient = db): Promise<string | null> {
+    // Only page ancestors contribute to the path, matching buildPagePaths
+    const ancestors = await client.$queryRaw<Array<{ slug: string }>>`
+        WITH RECURSIVE ancestors AS (
+            SELECT id, slug, "parentId", 0 AS depth
+            FROM "Post"
+            WHERE id = ${pageId} AND "type"::text = 'PAGE'
+
+            UNION ALL
+
+            SELECT p.id, p.slug, p."parentId", a.depth + 1
+            FROM "Post" p
+            INNER JOIN ancestors a ON p.id = a."parentId"
+            WHERE p."type"::text = 'PAGE' AND p.id <> ${pageId} AND a.depth < ${MAX_PAGE_DEPTH}
+        )
+        SELECT slug
+        FROM ancestors
+        ORDER BY depth DESC
+    `;
+
+    if (ancestors.length === 0) return null;
+    return `/${ancestors.map(row => row.slug).join('/')}`;
+}
+
+/**
+ * Find the page served at a path by walking down the page tree, one
+ * segment at a time, from the top-level page with the first slug.
+ */
+export async function getPageIdByPath(pathname: string): Promise<number | null> {
+    const slugs = normalizePagePath(pathname).split('/').filter(Boolean);
+    if (slugs.length === 0 || slugs.length > MAX_PAGE_DEPTH) return null;
+
+    let pageId: number | null = null;
+    for (const slug of slugs) {
+        const page: { id: number } | null = await db.post.findFirst({
+            where: { type: 'PAGE', parentId: pageId, slug },
+            select: { id: true }
+        });
+        if (!page) return null;
+        pageId = page.id;
+    }
+    return pageId;
+}
+
+/**
+ * Store redirects for every page whose path changed between two snapshots
+ * from getPagePathMap. Existing redirects to an old path are pointed at the
+ * new one so visitors never follow a chain, and redirects from a path that
+ * is live again are dropped.
+ */
+export async function recordPageRedirects(
+    client: HierarchyClient,
+    before: Map<number, string>,
+    after: Map<number, string>
+): Promise<number> {
+    let recorded = 0;
+
+    for (const [id, oldPath] of before) {
+        const newPath = after.get(id);
+        if (!newPath || newPath === oldPath) continue;
+
+        await client.redirect.deleteMany({ where: { fromPath: newPath } });
+        await client.redirect.updateMany({
+            where: { toPath: oldPath },
+            data: { toPath: newPath }
+        });
+        await client.redirect.upsert({
+            where: { fromPath: oldPath },
+            update: { toPath: newPath, statusCode: 301 },
+            create: { fromPath: oldPath, toPath: newPath, statusCode: 301 }
+        });
+        recorded++;
+    }
+
+    if (recorded > 0) invalidateContentCache('redirects');
+    return recorded;
+}
+
+/**
+ * Drop the redirect from the path a published post or page is served at,
+ * so content taking over a moved page's old path isn't hidden behind it.
+ */
+export async function clearServedPathRedirect(
+    client: HierarchyClient,
+    post: {
+        id: number;
+        type: PostType;
+        customType: string | null;
+        slug: string;
+        status: PostStatus;
+        publishedAt: Date | null;
+        createdAt: Date;
+    },
+    permalinkStructure: string
+): Promise<boolean> {
+    if (post.status !== 'PUBLISHED') return false;
+
+    const typeBase = post.customType ? (await getPostTypeBaseMap(client)).get(post.customType) : undefined;
+    const path = post.type === 'PAGE'
+        ? await getPagePath(post.id, client)
+        : post.customType
+        ? typeBase && `/${typeBase}/${post.slug}`
+        : buildPostPath(post, permalinkStructure);
+    if (!path) return false;
+
+    const { count } = await client.redirect.deleteMany({ where: { fromPath: normalizePagePath(path) } });
+    if (count > 0) invalidateContentCache('redirects');
+    return count > 0;
+}
+
+/**
+ * Look up the stored redirect for a request path. The redirect table is
+ * cached as a whole since it's read on every public request.
+ */
+export async function findRedirect(pathname: string): Promise<{ toPath: string; statusCode: number } | null> {
+    const table = await getCachedContent('redirects', async () => {
+        const rows = await db.redirect.findMany({
+            select: { fromPath: true, toPath: true, statusCode: true }
+        });
+        return JSON.stringify(rows);
+    });
+
+    const path = normalizePagePath(pathname);
+    const rows = JSON.parse(table) as Array<{ fromPath: string; toPath: string; statusCode: number }>;
+    const match = rows.find(row => row.fromPath === path);
+    return match ? { toPath: match.toPath, statusCode: match.statusCode } : null;
+}
+
+/**
+ * All pages with their public paths, ordered by menuOrder, for the admin page tree.
+ */
+export async function getPageTree() {
+    "use server";
+    return tryCatch(async () => {
+        const pages = await db.post.findMany({
+            where: { type: 'PAGE' },
+            select: {
+                id: true,
+                title: true,
+                slug: true,
+                status: true,
+                parentId: true,
+                menuOrder: true
+            },
+            orderBy: [{ menuOrder: 'asc' }, { title: 'asc' }]
+        });
+
+        const paths = buildPagePaths(pages);
+        return pages.map(page => ({ ...page, path: paths.get(page.id)! }));
+    });
+}
@@ -0,0 +1,133 @@
+// ====== POST PERMALINKS ======
+// Permalink structures are path templates made of static segments and
+// `:token` segments, e.g. `/blog/:slug` or `/:year/:month/:slug`.
+// These helpers are pure so they can run on both server and client.
+
+export const PERMALINK_TOKENS = ['year', 'month', 'day', 'id', 'slug'] as const;
+
+export type PermalinkToken = typeof PERMALINK_TOKENS[number];
+
+export type PermalinkParams = Partial<Record<PermalinkToken, string>>;
+
+export const DEFAULT_PERMALINK_STRUCTURE = '/blog/:slug';
+
+const TOKEN_PATTERNS: Record<PermalinkToken, RegExp> = {
+    year: /^\d{4}$/,
+    month: /^\d{2}$/,
+    day: /^\d{2}$/,
+    id: /^\d+$/,
+    slug: /^[a-z0-9-]+$/
+};
+
+type PermalinkPost = {
+    id: number;
+    slug: string;
+    publishedAt?: Date | string | null;
+    createdAt?: Date | string | null;
+};
+
+function splitPath(path: string): string[] {
+    return path.split('/').filter(segment => segment.length > 0);
+}
+
+function tokenOf(segment: string): PermalinkToken | null {
+    if (!segment.startsWith(':')) return null;
+    const name = segment.slice(1);
+    return (PERMALINK_TOKENS as readonly string[]).includes(name) ? name as PermalinkToken : null;
+}
+
+/**
+ * Check that a structure only uses known tokens, contains `:slug`
+ * and does not repeat a token.
+ */
+export function isValidPermalinkStructure(structure: string): boolean {
+    if (!structure.startsWith('/')) return false;
+
+    const segments = splitPath(structure);
+    const seen = new Set<PermalinkToken>();
+
+    for (const segment of segments) {
+        if (segment.startsWith(':')) {
+            const token = tokenOf(segment);
+            if (!token || seen.has(token)) return false;
+            seen.add(token);
+        } else if (!/^[a-z0-9-]+$/.test(segment)) {
+            return false;
+        }
+    }
+
+    return seen.has('slug');
+}
+
+/**
+ * The date a permalink is built from: publish date, falling back to creation date.
+ */
+export function getPermalinkDate(post: PermalinkPost): Date {
+    return new Date(post.publishedAt || post.createdAt || Date.now());
+}
+
+/**
+ * Build the public path of a post for the given permalink structure.
+ * Date tokens are rendered in UTC so paths don't shift with server timezone.
+ */
+export function buildPostPath(post: PermalinkPost, structure: string = DEFAULT_PERMALINK_STRUCTURE): string {
+    const date = getPermalinkDate(post);
+    const values: Record<PermalinkToken, string> = {
+        year: String(date.getUTCFullYear()),
+        month: String(date.getUTCMonth() + 1).padStart(2, '0'),
+        day: String(date.getUTCDate()).padStart(2, '0'),
+        id: String(post.id),
+        slug: post.slug
+    };
+
+    const path = splitPath(structure)
+        .map(segment => {
+            const token = tokenOf(segment);
+            return token ? values[token] : segment;
+        })
+        .join('/');
+
+    return `/${path}`;
+}
+
+/**
+ * Match a request path against a permalink structure.
+ * Returns the captured token values, or null when the path doesn't fit.
+ */
+export function matchPermalink(pathname: string, structure: string = DEFAULT_PERMALINK_STRUCTURE): PermalinkParams | null {
+    const pathSegments = splitPath(pathname);
+    const structureSegments = splitPath(structure);
+
+    if (pathSegments.length !== structureSegments.length) return null;
+
+    const params: PermalinkParams = {};
+
+    for (let i = 0; i < structureSegments.length; i++) {
+        const token = tokenOf(structureSegments[i]);
+        const segment = pathSegments[i];
+
+        if (!token) {
+            if (segment !== structureSegments[i]) return null;
+            continue;
+        }
+
+        if (!TOKEN_PATTERNS[token].test(segment)) return null;
+        params[token] = segment;
+    }
+
+    return params;
+}
+
+/**
+ * Verify that the non-slug tokens captured from a path agree with the post,
+ * so `/2024/01/hello` doesn't resolve a post published in 2025.
+ */
+export function permalinkMatchesPost(params: PermalinkParams, post: PermalinkPost): boolean {
+    const expected = matchPermalink(
+        buildPostPath(post, '/:year/:month/:day/:id/:slug'),
+        '/:year/:month/:day/:id/:slug'
+    );
+    if (!expected) return false;
+
+    return PERMALINK_TOKENS.every(token => params[token] === undefined || params[token] === expected[token]);
+}
@@ -1,4 +1,4 @@
-import type { UserRole } from "@prisma/client";
+import type { UserRole, PostStatus } from "@prisma/client";
 import type { Session } from "@auth/solid-start";
 
 // Define permissions as bit flags for efficient checking
@@ -162,6 +162,26 @@ export function sessionHasPermission(session: Session | null, permission: Permis
     return hasPermission(session.user.role as UserRole, permission);
 }
 
+/**
+ * Check if a post may be shown on the public site to the given session.
+ * Published posts are public once their publish date has passed; private
+ * posts are only visible to users who can edit posts. Drafts, posts under
+ * review and trashed posts are never publicly visible.
+ */
+export function canViewPost(
+    post: { status: PostStatus; publishedAt: Date | string | null },
+    session: Session | null
+): boolean {
+    switch (post.status) {
+        case 'PUBLISHED':
+            return !!post.publishedAt && new Date(post.publishedAt) <= new Date();
+        case 'PRIVATE':
+            return sessionHasPermission(session, Permission.EDIT_POSTS);
+        default:
+            return false;
+    }
+}
+
 /**
  * Require permission middleware
  */
@@ -598,17 +598,26 @@ class PluginManager {
   }
 
   async executeHook(hookName: string, ...args: unknown[]): Promise<unknown[]> {
+    const results = await this.executeHookWithSources(hookName, ...args);
+    return results.map(({ result }) => result);
+  }
+
+  /**
+   * Like executeHook, but keeps which plugin returned each result. Used by
+   * registration hooks whose results are stored per plugin.
+   */
+  async executeHookWithSources(hookName: string, ...args: unknown[]): Promise<Array<{ pluginId: string; result: unknown }>> {
     const hookList = this.hooks.get(hookName);
     if (!hookList?.length) return [];
 
-    const results: unknown[] = [];
+    const results: Array<{ pluginId: string; result: unknown }> = [];
     for (const hook of hookList) {
       const instance = this.plugins.get(hook.pluginId);
       if (!instance?.enabled) continue;
 
       try {
         const result = await hook.callback(...args);
-        if (result !== undefined) results.push(result);
+        if (result !== undefined) results.push({ pluginId: hook.pluginId, result });
       } catch (error) {
         this.logError(hook.pluginId, error as Error, `Hook: ${hookName}`);
       }
@@ -915,6 +924,7 @@ export const pluginManager = new PluginManager();
 export const initializePlugins = (plugins: Plugin[]) => pluginManager.initialize(plugins);
 export const shutdownPlugins = () => pluginManager.shutdown();
 export const executePluginHook = (name: string, ...args: unknown[]) => pluginManager.executeHook(name, ...args);
+export const executePluginHookWithSources = (name: string, ...args: unknown[]) => pluginManager.executeHookWithSources(name, ...args);
 export const enablePlugin = (id: string) => pluginManager.enablePlugin(id);
 export const disablePlugin = (id: string) => pluginManager.disablePlugin(id);
 export const getPlugin = (id: string) => pluginManager.getPlugin(id);
@@ -0,0 +1,42 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+
+// ====== EDIT LOCKS ======
+// Opening a post in the editor locks it for that user, so others are warned
+// before editing it too. Locks are soft: another editor can take one over,
+// and the original holder finds out on their next heartbeat. A lock whose
+// editor was closed without releasing it expires after a while.
+
+// A lock is held this long after its last heartbeat
+export const POST_LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+
+export const LOCK_HOLDER_SELECT = {
+    id: true,
+    name: true,
+    username: true
+} as const;
+
+/**
+ * Heartbeats older than this mean the lock has expired.
+ */
+export function postLockCutoff(now: Date = new Date()): Date {
+    return new Date(now.getTime() - POST_LOCK_TIMEOUT_MS);
+}
+
+/**
+ * Who is editing each of the given posts, for posts with a live lock.
+ */
+export async function getActivePostLocks(postIds: number[]) {
+    "use server";
+    return tryCatch(db.postLock.findMany({
+        where: {
+            postId: { in: postIds },
+            heartbeatAt: { gt: postLockCutoff() }
+        },
+        select: {
+            postId: true,
+            heartbeatAt: true,
+            user: { select: LOCK_HOLDER_SELECT }
+        }
+    }));
+}
@@ -0,0 +1,150 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { RESERVED_REWRITE_SLUGS } from './validation-schemas';
+import type { CustomFieldType, Prisma } from '@prisma/client';
+
+// ====== CUSTOM POST TYPES ======
+// Entries of a public post type are served at `/<base>/<slug>` and listed at
+// `/<base>`, where the base is the type's rewrite slug, or its name when no
+// rewrite slug is set. Private types have no public routes.
+
+type PostTypeClient = Prisma.TransactionClient;
+
+export interface PostTypeRoute {
+    name: string;
+    rewriteSlug: string | null;
+}
+
+export type FieldValue = string | number | boolean | null | unknown[] | Record<string, unknown>;
+
+// Custom field values of an entry, keyed by field name
+export type CustomFieldValues = Record<string, FieldValue>;
+
+/**
+ * URL base of a post type's archive and entries.
+ */
+export function postTypeBase(type: PostTypeRoute): string {
+    return type.rewriteSlug || type.name;
+}
+
+/**
+ * Public path of a post type's archive.
+ */
+export function postTypeArchivePath(type: PostTypeRoute): string {
+    return `/${postTypeBase(type)}`;
+}
+
+/**
+ * Public path of a custom post type entry.
+ */
+export function customPostPath(type: PostTypeRoute, slug: string): string {
+    return `${postTypeArchivePath(type)}/${slug}`;
+}
+
+/**
+ * Convert a stored meta value to the JS value of its custom field type.
+ */
+export function parseCustomFieldValue(type: CustomFieldType, raw: string | null | undefined): FieldValue {
+    if (raw === null || raw === undefined || raw === '') return null;
+
+    switch (type) {
+        case 'NUMBER': {
+            const value = Number(raw);
+            return Number.isFinite(value) ? value : null;
+        }
+        case 'CHECKBOX':
+            return raw === 'true' || raw === '1' || raw === 'on';
+        case 'JSON':
+            try {
+                return JSON.parse(raw);
+            } catch {
+                return raw;
+            }
+        default:
+            return raw;
+    }
+}
+
+/**
+ * Collect an entry's custom field values from its post meta. Every field of
+ * the type is present; fields without a stored value are null.
+ */
+export function buildCustomFieldValues(
+    fields: Array<{ name: string; type: CustomFieldType }>,
+    meta: Array<{ metaKey: string; metaValue: string | null }>
+): CustomFieldValues {
+    const stored = new Map(meta.map(entry => [entry.metaKey, entry.metaValue]));
+    return Object.fromEntries(
+        fields.map(field => [field.name, parseCustomFieldValue(field.type, stored.get(field.name))])
+    );
+}
+
+/**
+ * URL bases of all public post types, keyed by type name.
+ */
+export async function getPostTypeBaseMap(client: PostTypeClient = db): Promise<Map<string, string>> {
+    const types = await client.postTypeDefinition.findMany({
+        where: { public: true },
+        select: { name: true, rewriteSlug: true }
+    });
+    return new Map(types.map(type => [type.name, postTypeBase(type)]));
+}
+
+/**
+ * Throw when a post type's URL base is reserved by another route or already
+ * used by a different post type.
+ */
+export async function assertAvailablePostTypeBase(
+    client: PostTypeClient,
+    type: PostTypeRoute & { id?: number }
+): Promise<void> {
+    const base = postTypeBase(type);
+    if ((RESERVED_REWRITE_SLUGS as readonly string[]).includes(base)) {
+        throw new Error(`"${base}" is used by another route; choose a different rewrite slug`);
+    }
+
+    const others = await client.postTypeDefinition.findMany({
+        where: type.id ? { id: { not: type.id } } : {},
+        select: { name: true, rewriteSlug: true, label: true }
+    });
+    const clash = others.find(other => postTypeBase(other) === base);
+    if (clash) {
+        throw new Error(`"${base}" is already the URL of the ${clash.label} post type`);
+    }
+}
+
+/**
+ * Find the public post type served at a URL base, with its custom fields.
+ */
+export async function getPublicPostType(base: string) {
+    "use server";
+    return tryCatch(db.postTypeDefinition.findFirst({
+        where: {
+            public: true,
+            OR: [
+                { rewriteSlug: base },
+                { rewriteSlug: null, name: base }
+            ]
+        },
+        include: {
+            customFields: {
+                orderBy: { createdAt: 'asc' }
+            }
+        }
+    }));
+}
+
+/**
+ * All post types with their field counts, for the admin post types screen.
+ */
+export async function getPostTypes() {
+    "use server";
+    return tryCatch(db.postTypeDefinition.findMany({
+        include: {
+            _count: {
+                select: { customFields: true }
+            }
+        },
+        orderBy: { label: 'asc' }
+    }));
+}
@@ -0,0 +1,98 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { getPublicPost } from './queries';
+
+// ====== PREVIEW LINKS ======
+// A preview link shows one post to anyone holding it, whatever the post's
+// status, until it expires or is revoked. Only a SHA-256 hash of the token
+// is stored, so the link can't be recovered from the database and is shown
+// to the editor once, when it's created.
+
+// Bytes of randomness in a token
+const PREVIEW_TOKEN_BYTES = 32;
+
+// Statuses never shown through a preview link
+const UNPREVIEWABLE_STATUSES = ['TRASH'];
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a new random preview token.
+ */
+export function generatePreviewToken(): string {
+    return toHex(crypto.getRandomValues(new Uint8Array(PREVIEW_TOKEN_BYTES)));
+}
+
+/**
+ * Hash a preview token for storage and lookup.
+ */
+export async function hashPreviewToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Public path of a preview link.
+ */
+export function previewPath(token: string): string {
+    return `/preview/${token}`;
+}
+
+/**
+ * Preview links of a post, newest first. Revoked and expired links are
+ * included so editors can see what was shared.
+ */
+export async function getPreviewTokens(postId: number) {
+    "use server";
+    return tryCatch(db.previewToken.findMany({
+        where: { postId },
+        select: {
+            id: true,
+            label: true,
+            expiresAt: true,
+            revokedAt: true,
+            lastUsedAt: true,
+            createdAt: true,
+            createdBy: {
+                select: { name: true, username: true }
+            }
+        },
+        orderBy: { createdAt: 'desc' }
+    }));
+}
+
+/**
+ * Resolve a preview token to the post it shows, with the link's expiry.
+ * Returns null for unknown, expired or revoked tokens.
+ */
+export async function resolvePreviewToken(token: string) {
+    "use server";
+    return tryCatch(async () => {
+        if (!/^[0-9a-f]+$/.test(token)) return null;
+
+        const record = await db.previewToken.findUnique({
+            where: { tokenHash: await hashPreviewToken(token) },
+            select: {
+                id: true,
+                expiresAt: true,
+                revokedAt: true,
+                postId: true
+            }
+        });
+
+        if (!record || record.revokedAt || record.expiresAt <= new Date()) return null;
+
+        const result = await getPublicPost(record.postId);
+        const post = result.data;
+        if (!post || UNPREVIEWABLE_STATUSES.includes(post.status)) return null;
+
+        await db.previewToken.update({
+            where: { id: record.id },
+            data: { lastUsedAt: new Date() }
+        });
+
+        return { post, expiresAt: record.expiresAt };
+    });
+}
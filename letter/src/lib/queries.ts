@@ -3,6 +3,7 @@
 
 import { db } from './db'
 import { tryCatch } from "./try-catch";
+import { TOP_LEVEL_SLUGS } from './page-hierarchy';
 import type { PostStatus, PostType, UserRole, CommentStatus, Prisma } from '@prisma/client';
 
 // ====== USER QUERIES ======
@@ -85,6 +86,9 @@ export async function getPost(id: number) {
             type: true,
             customType: true,
             publishedAt: true,
+            expiresAt: true,
+            expiryStatus: true,
+            commentStatus: true,
             createdAt: true,
             updatedAt: true,
             menuOrder: true,
@@ -139,6 +143,7 @@ export async function getPost(id: number) {
                     content: true,
                     attributes: true,
                     pluginId: true,
+                    uid: true,
                     createdAt: true,
                     updatedAt: true,
                     children: {
@@ -152,6 +157,7 @@ export async function getPost(id: number) {
                             content: true,
                             attributes: true,
                             pluginId: true,
+                            uid: true,
                             createdAt: true,
                             updatedAt: true
                         },
@@ -173,10 +179,10 @@ export async function getPost(id: number) {
     }));
 }
 
-export async function getPostBySlug(slug: string) {
-    "use server";
-    return tryCatch(db.post.findUnique({
-        where: { slug },
+// A post with everything its public view needs
+function findPublicPost(where: Prisma.PostWhereInput) {
+    return tryCatch(db.post.findFirst({
+        where,
         select: {
             id: true,
             title: true,
@@ -191,6 +197,16 @@ export async function getPostBySlug(slug: string) {
             updatedAt: true,
             menuOrder: true,
             parentId: true,
+            commentStatus: true,
+            media: {
+                select: {
+                    id: true,
+                    filePath: true,
+                    fileType: true,
+                    altText: true,
+                    title: true
+                }
+            },
             author: {
                 select: {
                     id: true,
@@ -241,6 +257,7 @@ export async function getPostBySlug(slug: string) {
                     content: true,
                     attributes: true,
                     pluginId: true,
+                    uid: true,
                     createdAt: true,
                     updatedAt: true,
                 },
@@ -252,12 +269,25 @@ export async function getPostBySlug(slug: string) {
     }));
 }
 
+// Subpages aren't found by slug alone; look them up by path with getPageIdByPath
+export async function getPostBySlug(slug: string) {
+    "use server";
+    return findPublicPost({ ...TOP_LEVEL_SLUGS, slug });
+}
+
+export async function getPublicPost(id: number) {
+    "use server";
+    return findPublicPost({ id });
+}
+
 export async function getPosts(options?: {
     status?: PostStatus;
     type?: PostType;
     authorId?: number;
     categoryId?: number;
     tagId?: number;
+    // Term of a custom taxonomy
+    termId?: number;
     search?: string;
     limit?: number;
     offset?: number;
@@ -268,8 +298,8 @@ export async function getPosts(options?: {
     // Optimized: Build where clause more efficiently
     const where: Prisma.PostWhereInput = {};
 
-    // Basic filters
-    if (options?.status) where.status = options.status;
+    // Basic filters; trashed posts only show up when asked for
+    where.status = options?.status ?? { not: 'TRASH' };
     if (options?.type) where.type = options.type;
     if (options?.authorId) where.authorId = options.authorId;
 
@@ -288,6 +318,13 @@ export async function getPosts(options?: {
             }
         };
     }
+    if (options?.termId) {
+        where.terms = {
+            some: {
+                termId: options.termId
+            }
+        };
+    }
 
     // Search optimization
     if (options?.search) {
@@ -317,6 +354,7 @@ export async function getPosts(options?: {
             type: true,
             customType: true,
             publishedAt: true,
+            expiresAt: true,
             createdAt: true,
             updatedAt: true,
             author: {
@@ -368,6 +406,11 @@ export async function getPublishedPosts(options?: {
     offset?: number;
     categorySlug?: string;
     tagSlug?: string;
+    // Term of a custom taxonomy, by post type name, taxonomy name and term
+    // slug; taxonomy names are only unique within a post type
+    postType?: string;
+    taxonomy?: string;
+    termSlug?: string;
 }) {
     "use server";
     const where: Prisma.PostWhereInput = {
@@ -397,6 +440,23 @@ export async function getPublishedPosts(options?: {
         };
     }
 
+    if (options?.postType && options?.taxonomy && options?.termSlug) {
+        where.customType = options.postType;
+        where.terms = {
+            some: {
+                term: {
+                    slug: options.termSlug,
+                    taxonomy: {
+                        name: options.taxonomy,
+                        postType: {
+                            name: options.postType
+                        }
+                    }
+                }
+            }
+        };
+    }
+
     return tryCatch(db.post.findMany({
         where,
         include: {
@@ -492,8 +552,8 @@ export async function getCategories() {
 
 export async function getPublishedPageBySlug(slug: string) {
     "use server";
-    return tryCatch(db.post.findUnique({
-        where: { slug },
+    return tryCatch(db.post.findFirst({
+        where: { ...TOP_LEVEL_SLUGS, slug },
         select: {
             id: true,
             title: true,
@@ -508,6 +568,15 @@ export async function getPublishedPageBySlug(slug: string) {
             updatedAt: true,
             menuOrder: true,
             parentId: true,
+            media: {
+                select: {
+                    id: true,
+                    filePath: true,
+                    fileType: true,
+                    altText: true,
+                    title: true
+                }
+            },
             postMeta: {
                 select: {
                     id: true,
@@ -667,17 +736,65 @@ export async function getPopularTags(limit = 20) {
     }));
 }
 
+// Admin listings count posts in every status, not only published ones
+export async function getCategoriesForAdmin() {
+    "use server";
+    return tryCatch(db.category.findMany({
+        select: {
+            id: true,
+            name: true,
+            slug: true,
+            description: true,
+            parentId: true,
+            _count: { select: { posts: true } }
+        },
+        orderBy: { name: 'asc' }
+    }));
+}
+
+export async function getTagsForAdmin(options?: {
+    search?: string;
+    limit?: number;
+    offset?: number;
+}) {
+    "use server";
+    const where: Prisma.TagWhereInput = options?.search
+        ? {
+            OR: [
+                { name: { contains: options.search, mode: 'insensitive' } },
+                { slug: { contains: options.search, mode: 'insensitive' } }
+            ]
+        }
+        : {};
+
+    return tryCatch(Promise.all([
+        db.tag.findMany({
+            where,
+            select: {
+                id: true,
+                name: true,
+                slug: true,
+                description: true,
+                _count: { select: { posts: true } }
+            },
+            orderBy: { name: 'asc' },
+            take: options?.limit,
+            skip: options?.offset
+        }),
+        db.tag.count({ where })
+    ]).then(([tags, total]) => ({ tags, total })));
+}
+
 // ====== COMMENT QUERIES ======
 export async function getComments(postId?: number, options?: {
     status?: CommentStatus;
+    authorEmail?: string;
+    authorIp?: string;
     limit?: number;
     offset?: number;
 }) {
     "use server";
-    const where: Prisma.CommentWhereInput = {};
-
-    if (postId) where.postId = postId;
-    if (options?.status) where.status = options.status;
+    const where = commentFilterWhere(postId, options);
 
     return tryCatch(db.comment.findMany({
         where,
@@ -717,6 +834,52 @@ export async function getComments(postId?: number, options?: {
     }));
 }
 
+/**
+ * Number of comments in each status, matching the same filters as getComments.
+ */
+export async function getCommentStatusCounts(postId?: number, options?: {
+    authorEmail?: string;
+    authorIp?: string;
+}) {
+    "use server";
+    return tryCatch(db.comment.groupBy({
+        by: ['status'],
+        where: commentFilterWhere(postId, options),
+        _count: { id: true }
+    }).then(groups => {
+        const counts: Record<CommentStatus, number> = { PENDING: 0, APPROVED: 0, SPAM: 0, TRASH: 0 };
+        for (const group of groups) counts[group.status] = group._count.id;
+        return counts;
+    }));
+}
+
+/**
+ * Posts that have comments, for filtering the moderation queue.
+ */
+export async function getCommentedPosts() {
+    "use server";
+    return tryCatch(db.post.findMany({
+        where: { comments: { some: {} } },
+        select: { id: true, title: true },
+        orderBy: { title: 'asc' }
+    }));
+}
+
+function commentFilterWhere(postId?: number, options?: {
+    status?: CommentStatus;
+    authorEmail?: string;
+    authorIp?: string;
+}): Prisma.CommentWhereInput {
+    const where: Prisma.CommentWhereInput = {};
+
+    if (postId) where.postId = postId;
+    if (options?.status) where.status = options.status;
+    if (options?.authorEmail) where.authorEmail = { contains: options.authorEmail, mode: 'insensitive' };
+    if (options?.authorIp) where.authorIp = options.authorIp;
+
+    return where;
+}
+
 export async function getApprovedComments(postId: number) {
     "use server";
     return tryCatch(db.comment.findMany({
@@ -0,0 +1,209 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { Permission, hasPermission, ROLE_PERMISSIONS } from './permissions';
+import type { PostStatus, PostType, UserRole, Prisma } from '@prisma/client';
+
+// ====== REVIEW WORKFLOW ======
+// Content goes live through review. Users who can't publish may only save
+// drafts and submit them for review; users who can publish review them:
+// approving publishes the post, requesting changes sends it back to draft
+// with a note, and rejecting moves it to the trash. Every status change is
+// kept in the post's audit trail.
+
+type ReviewClient = Prisma.TransactionClient;
+
+export type ReviewDecision = 'submit' | 'approve' | 'request_changes' | 'reject';
+
+// How a status change is recorded in the audit trail
+export type ReviewAction = ReviewDecision | 'status_change';
+
+// Status each review decision moves a post to
+export const REVIEW_DECISION_STATUS: Record<ReviewDecision, PostStatus> = {
+    submit: 'REVIEW',
+    approve: 'PUBLISHED',
+    request_changes: 'DRAFT',
+    reject: 'TRASH'
+};
+
+// Statuses that make a post visible on the site, now or later
+const LIVE_STATUSES: PostStatus[] = ['PUBLISHED', 'SCHEDULED', 'PRIVATE'];
+
+const REVIEW_USER_SELECT = {
+    id: true,
+    name: true,
+    username: true
+} as const;
+
+/**
+ * Permission needed to publish, and so to review, content of a type.
+ */
+export function publishPermission(type: PostType): Permission {
+    return type === 'PAGE' ? Permission.PUBLISH_PAGES : Permission.PUBLISH_POSTS;
+}
+
+/**
+ * Why a user may not move content from one status to another, or null
+ * when they may.
+ */
+export function statusChangeError(role: UserRole, type: PostType, from: PostStatus, to: PostStatus): string | null {
+    if (from === to) return null;
+
+    if (to === 'TRASH') {
+        const deletePermission = type === 'PAGE' ? Permission.DELETE_PAGES : Permission.DELETE_POSTS;
+        return hasPermission(role, deletePermission) ? null : 'You are not allowed to move this to the trash';
+    }
+    if (hasPermission(role, publishPermission(type))) return null;
+    if (from === 'DRAFT' && to === 'REVIEW') return null;
+
+    return 'You can only save drafts and submit them for review';
+}
+
+/**
+ * The audit trail action of a status change.
+ */
+export function reviewActionFor(from: PostStatus, to: PostStatus): ReviewAction {
+    if (to === 'REVIEW') return 'submit';
+    if (from === 'REVIEW') {
+        if (LIVE_STATUSES.includes(to)) return 'approve';
+        if (to === 'DRAFT') return 'request_changes';
+        if (to === 'TRASH') return 'reject';
+    }
+    return 'status_change';
+}
+
+/**
+ * Admin editor of a post or page.
+ */
+export function adminEditPath(post: { id: number; type: PostType }): string {
+    return `/admin/${post.type === 'PAGE' ? 'pages' : 'posts'}/edit/${post.id}`;
+}
+
+/**
+ * Send an admin notification to each of the users.
+ */
+export async function notifyAdminUsers(
+    client: ReviewClient,
+    userIds: number[],
+    message: string,
+    link?: string
+): Promise<void> {
+    if (userIds.length === 0) return;
+    await client.adminNotification.createMany({
+        data: userIds.map(userId => ({ userId, message, link }))
+    });
+}
+
+/**
+ * Add a status change to the post's audit trail and tell whoever is
+ * waiting on it: assigned reviewers when it's submitted, the author when
+ * a reviewer decides.
+ */
+export async function recordStatusChange(
+    client: ReviewClient,
+    change: {
+        post: { id: number; title: string; type: PostType; authorId: number };
+        actorId: number | null;
+        fromStatus: PostStatus;
+        toStatus: PostStatus;
+        note?: string | null;
+    }
+): Promise<void> {
+    const { post, actorId, fromStatus, toStatus } = change;
+    const note = change.note?.trim() || null;
+    const action = reviewActionFor(fromStatus, toStatus);
+
+    await client.postStatusEvent.create({
+        data: { postId: post.id, actorId, action, fromStatus, toStatus, note }
+    });
+
+    const link = adminEditPath(post);
+    if (action === 'submit') {
+        const reviewers = await client.postReviewer.findMany({
+            where: { postId: post.id, userId: actorId ? { not: actorId } : undefined },
+            select: { userId: true }
+        });
+        await notifyAdminUsers(
+            client,
+            reviewers.map(reviewer => reviewer.userId),
+            `"${post.title}" was submitted for review`,
+            link
+        );
+    } else if (action !== 'status_change' && post.authorId !== actorId) {
+        const outcome = action === 'approve' ? 'was approved'
+            : action === 'request_changes' ? 'needs changes'
+            : 'was rejected';
+        await notifyAdminUsers(
+            client,
+            [post.authorId],
+            `"${post.title}" ${outcome}${note ? `: ${note}` : ''}`,
+            link
+        );
+    }
+}
+
+// ====== REVIEW QUERIES ======
+
+/**
+ * Audit trail of a post, newest first.
+ */
+export async function getReviewTrail(postId: number) {
+    "use server";
+    return tryCatch(db.postStatusEvent.findMany({
+        where: { postId },
+        select: {
+            id: true,
+            action: true,
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            createdAt: true,
+            actor: { select: REVIEW_USER_SELECT }
+        },
+        orderBy: { id: 'desc' }
+    }));
+}
+
+/**
+ * Users assigned to review a post.
+ */
+export async function getPostReviewers(postId: number) {
+    "use server";
+    return tryCatch(db.postReviewer.findMany({
+        where: { postId },
+        select: { assignedAt: true, user: { select: REVIEW_USER_SELECT } },
+        orderBy: { assignedAt: 'asc' }
+    }));
+}
+
+/**
+ * Users who can review content of a type.
+ */
+export async function getReviewerCandidates(type: PostType) {
+    "use server";
+    const roles = (Object.keys(ROLE_PERMISSIONS) as UserRole[])
+        .filter(role => hasPermission(role, publishPermission(type)));
+    return tryCatch(db.user.findMany({
+        where: { role: { in: roles } },
+        select: REVIEW_USER_SELECT,
+        orderBy: [{ name: 'asc' }, { username: 'asc' }]
+    }));
+}
+
+/**
+ * A user's latest admin notifications and how many are unread.
+ */
+export async function getAdminNotifications(userId: number, limit: number = 20) {
+    "use server";
+    return tryCatch(async () => {
+        const [notifications, unread] = await Promise.all([
+            db.adminNotification.findMany({
+                where: { userId },
+                select: { id: true, message: true, link: true, readAt: true, createdAt: true },
+                orderBy: { id: 'desc' },
+                take: limit
+            }),
+            db.adminNotification.count({ where: { userId, readAt: null } })
+        ]);
+        return { notifications, unread };
+    });
+}
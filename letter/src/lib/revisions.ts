@@ -0,0 +1,383 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import type { BlockType, Prisma } from '@prisma/client';
+
+// ====== REVISIONS ======
+// Every save of a post or page stores a revision: a snapshot of its title,
+// excerpt, status, legacy content and blocks after the save. Only the newest
+// revisions are kept, per the `revisionLimit` setting. Autosaves of unsaved
+// editor changes are stored as revisions too, but are never part of the history.
+
+type RevisionClient = Prisma.TransactionClient;
+
+// A block as stored in a revision snapshot. Block ids change on every save,
+// so snapshots leave them out.
+export interface RevisionBlock {
+    blockType: BlockType;
+    customType: string | null;
+    order: number;
+    content: Prisma.JsonValue;
+    attributes: Prisma.JsonValue;
+    pluginId: string | null;
+    // Restoring a revision keeps notes attached to its blocks
+    uid?: string;
+}
+
+export interface RevisionSnapshot {
+    title: string | null;
+    excerpt: string | null;
+    status: string | null;
+    content: string | null;
+    blocks: RevisionBlock[];
+}
+
+export interface TextDiffPart {
+    type: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+
+// One block of a block diff. Changed blocks carry a word diff of their text;
+// the text of other blocks is a single part.
+export interface BlockDiff {
+    kind: 'unchanged' | 'added' | 'removed' | 'changed';
+    blockType: BlockType;
+    customType: string | null;
+    text: TextDiffPart[];
+}
+
+// Larger word diffs show the whole text as replaced, to bound the work
+const TEXT_DIFF_MAX_CELLS = 1_000_000;
+
+// Thrown by updatePost when the post was saved by someone else in the meantime
+export const POST_CONFLICT_MESSAGE = 'This post was changed by someone else after you opened it';
+
+/**
+ * Current state of a post as a revision snapshot.
+ */
+export async function snapshotPost(client: RevisionClient, postId: number): Promise<RevisionSnapshot> {
+    const post = await client.post.findUniqueOrThrow({
+        where: { id: postId },
+        select: {
+            title: true,
+            excerpt: true,
+            status: true,
+            content: true,
+            blocks: {
+                select: {
+                    blockType: true,
+                    customType: true,
+                    order: true,
+                    content: true,
+                    attributes: true,
+                    pluginId: true,
+                    uid: true
+                },
+                orderBy: { order: 'asc' }
+            }
+        }
+    });
+    return post;
+}
+
+// JSON with object keys in sorted order. jsonb doesn't keep the order keys
+// were written in, so stored and fresh values are compared in this form.
+function sortedJson(value: unknown): string {
+    return JSON.stringify(value, (_key, nested: unknown) => {
+        if (!nested || typeof nested !== 'object' || Array.isArray(nested)) return nested;
+        return Object.fromEntries(Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    });
+}
+
+function sameSnapshot(a: RevisionSnapshot, b: RevisionSnapshot): boolean {
+    return sortedJson(a) === sortedJson(b);
+}
+
+function snapshotOf(revision: {
+    title: string | null;
+    excerpt: string | null;
+    status: string | null;
+    content: string | null;
+    blocks: Prisma.JsonValue;
+}): RevisionSnapshot {
+    return {
+        title: revision.title,
+        excerpt: revision.excerpt,
+        status: revision.status,
+        content: revision.content,
+        blocks: Array.isArray(revision.blocks) ? revision.blocks as unknown as RevisionBlock[] : []
+    };
+}
+
+/**
+ * Store a revision of the post as it is now, then delete revisions beyond
+ * the limit (0 keeps all). Nothing is stored when the post is unchanged
+ * since its latest revision.
+ */
+export async function recordRevision(
+    client: RevisionClient,
+    postId: number,
+    authorId: number,
+    limit: number
+): Promise<void> {
+    const snapshot = await snapshotPost(client, postId);
+    const latest = await client.revision.findFirst({
+        where: { postId, autosave: false },
+        orderBy: { id: 'desc' }
+    });
+    if (latest && sameSnapshot(snapshotOf(latest), snapshot)) return;
+
+    await client.revision.create({
+        data: {
+            postId,
+            authorId,
+            title: snapshot.title,
+            excerpt: snapshot.excerpt,
+            status: snapshot.status,
+            content: snapshot.content,
+            blocks: snapshot.blocks as unknown as Prisma.InputJsonValue
+        }
+    });
+
+    if (limit > 0) {
+        const expired = await client.revision.findMany({
+            where: { postId, autosave: false },
+            orderBy: { id: 'desc' },
+            skip: limit,
+            select: { id: true }
+        });
+        if (expired.length > 0) {
+            await client.revision.deleteMany({ where: { id: { in: expired.map(revision => revision.id) } } });
+        }
+    }
+}
+
+// ====== REVISION DIFFS ======
+
+// Longest common subsequence of two lists, as index pairs in order
+function commonSubsequence<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Array<[number, number]> {
+    const lengths = Array.from({ length: a.length + 1 }, () => Array.from({ length: b.length + 1 }, () => 0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = equal(a[i], b[j])
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (equal(a[i], b[j])) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+/**
+ * Word-level diff of two texts.
+ */
+export function diffText(before: string, after: string): TextDiffPart[] {
+    if (before === after) return before ? [{ type: 'equal', text: before }] : [];
+
+    const a = before.split(/(\s+)/).filter(Boolean);
+    const b = after.split(/(\s+)/).filter(Boolean);
+    if (a.length * b.length > TEXT_DIFF_MAX_CELLS) {
+        return [
+            ...(before ? [{ type: 'delete' as const, text: before }] : []),
+            ...(after ? [{ type: 'insert' as const, text: after }] : [])
+        ];
+    }
+
+    const parts: TextDiffPart[] = [];
+    const push = (type: TextDiffPart['type'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last?.type === type) last.text += text;
+        else parts.push({ type, text });
+    };
+
+    let i = 0;
+    let j = 0;
+    for (const [matchA, matchB] of [...commonSubsequence(a, b, (x, y) => x === y), [a.length, b.length]]) {
+        while (i < matchA) push('delete', a[i++]);
+        while (j < matchB) push('insert', b[j++]);
+        if (i < a.length && j < b.length) {
+            push('equal', a[i]);
+            i++;
+            j++;
+        }
+    }
+    return parts;
+}
+
+/**
+ * Readable text of a block: every string in its content, in order.
+ */
+export function blockText(block: Pick<RevisionBlock, 'content'>): string {
+    const strings: string[] = [];
+    const collect = (value: Prisma.JsonValue) => {
+        if (typeof value === 'string') strings.push(value);
+        else if (Array.isArray(value)) value.forEach(collect);
+        else if (value && typeof value === 'object') Object.values(value).forEach(item => collect(item ?? null));
+    };
+    collect(block.content);
+    return strings.join('\n');
+}
+
+function blockKey(block: RevisionBlock): string {
+    return sortedJson([block.blockType, block.customType, block.content, block.attributes]);
+}
+
+function wholeBlock(kind: 'unchanged' | 'added' | 'removed', block: RevisionBlock): BlockDiff {
+    const text = blockText(block);
+    const type = kind === 'added' ? 'insert' : kind === 'removed' ? 'delete' : 'equal';
+    return {
+        kind,
+        blockType: block.blockType,
+        customType: block.customType,
+        text: text ? [{ type, text }] : []
+    };
+}
+
+/**
+ * Block-aware diff of two block lists. Blocks present in both are matched
+ * first; between matches, removed and added blocks of the same type pair up
+ * as changed blocks, with a word diff of their text.
+ */
+export function diffBlocks(before: RevisionBlock[], after: RevisionBlock[]): BlockDiff[] {
+    const diff: BlockDiff[] = [];
+    const matches = commonSubsequence(before, after, (x, y) => blockKey(x) === blockKey(y));
+
+    let i = 0;
+    let j = 0;
+    for (const [matchBefore, matchAfter] of [...matches, [before.length, after.length] as [number, number]]) {
+        const removed = before.slice(i, matchBefore);
+        const added = after.slice(j, matchAfter);
+
+        // Pair blocks in place: the nth removed block with the nth added block of its type
+        const paired = new Set<RevisionBlock>();
+        for (const block of added) {
+            const previous = removed.find(candidate => !paired.has(candidate) && candidate.blockType === block.blockType);
+            if (previous) {
+                paired.add(previous);
+                diff.push({
+                    kind: 'changed',
+                    blockType: block.blockType,
+                    customType: block.customType,
+                    text: diffText(blockText(previous), blockText(block))
+                });
+            } else {
+                diff.push(wholeBlock('added', block));
+            }
+        }
+        for (const block of removed) {
+            if (!paired.has(block)) diff.push(wholeBlock('removed', block));
+        }
+
+        if (matchBefore < before.length) diff.push(wholeBlock('unchanged', after[matchAfter]));
+        i = matchBefore + 1;
+        j = matchAfter + 1;
+    }
+    return diff;
+}
+
+// ====== REVISION QUERIES ======
+
+/**
+ * Revisions of a post, newest first, without their snapshots.
+ */
+export async function getRevisions(postId: number) {
+    "use server";
+    return tryCatch(db.revision.findMany({
+        where: { postId, autosave: false },
+        select: {
+            id: true,
+            title: true,
+            status: true,
+            createdAt: true,
+            author: { select: { id: true, name: true, username: true } }
+        },
+        orderBy: { id: 'desc' }
+    }));
+}
+
+/**
+ * What a revision changed: its title, excerpt, status and blocks compared
+ * with the revision before it. The oldest revision is compared with nothing.
+ */
+export async function getRevisionComparison(revisionId: number) {
+    "use server";
+    return tryCatch(async () => {
+        const revision = await db.revision.findUnique({ where: { id: revisionId } });
+        if (!revision || revision.autosave) return null;
+
+        const previous = await db.revision.findFirst({
+            where: { postId: revision.postId, autosave: false, id: { lt: revision.id } },
+            orderBy: { id: 'desc' }
+        });
+
+        const after = snapshotOf(revision);
+        const before: RevisionSnapshot = previous
+            ? snapshotOf(previous)
+            : { title: null, excerpt: null, status: null, content: null, blocks: [] };
+
+        return {
+            revisionId: revision.id,
+            previousId: previous?.id ?? null,
+            title: diffText(before.title ?? '', after.title ?? ''),
+            excerpt: diffText(before.excerpt ?? '', after.excerpt ?? ''),
+            status: { before: before.status, after: after.status },
+            blocks: diffBlocks(before.blocks, after.blocks)
+        };
+    });
+}
+
+// ====== AUTOSAVES ======
+
+/**
+ * Editor blocks in the shape revisions store them, in editor order.
+ */
+export function toRevisionBlocks(blocks: unknown[]): RevisionBlock[] {
+    return blocks.map((block, index) => {
+        const input = block as Partial<RevisionBlock>;
+        return {
+            blockType: input.blockType as BlockType,
+            customType: input.customType ?? null,
+            order: index,
+            content: input.content ?? null,
+            attributes: input.attributes ?? null,
+            pluginId: input.pluginId ?? null,
+            uid: input.uid
+        };
+    });
+}
+
+/**
+ * A user's unsaved changes to a post, if the editor autosaved any since
+ * they last saved it.
+ */
+export async function getAutosave(postId: number, authorId: number) {
+    "use server";
+    return tryCatch(async () => {
+        const autosave = await db.revision.findFirst({
+            where: { postId, authorId, autosave: true }
+        });
+        if (!autosave) return null;
+
+        const snapshot = snapshotOf(autosave);
+        return {
+            title: snapshot.title,
+            excerpt: snapshot.excerpt,
+            content: snapshot.content,
+            blocks: snapshot.blocks,
+            savedAt: autosave.createdAt
+        };
+    });
+}
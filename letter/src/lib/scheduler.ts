@@ -0,0 +1,177 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { emitSystemEvent } from './plugin-manager';
+import { invalidatePostCache } from './cms-utils';
+import type { PostStatus } from '@prisma/client';
+
+// ====== SCHEDULED PUBLISHING ======
+// Posts saved as PUBLISHED with a future publishedAt are stored as SCHEDULED
+// and published by the scheduler once that date passes. Posts with an
+// expiresAt are moved to their expiryStatus once it passes. All state lives
+// in the database, so a restart only delays the next run: initializeServer
+// catches up on anything that came due while the server was down.
+
+// How often the scheduler looks for due posts
+export const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+export interface ScheduledPost {
+    id: number;
+    title: string;
+    slug: string;
+    type: string;
+    customType: string | null;
+    authorId: number;
+    publishedAt: Date | null;
+}
+
+export interface SchedulerRun {
+    published: number[];
+    expired: number[];
+}
+
+const scheduledPostSelect = {
+    id: true,
+    title: true,
+    slug: true,
+    type: true,
+    customType: true,
+    authorId: true,
+    publishedAt: true
+} as const;
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let schedulerRunning = false;
+
+/**
+ * Status to store for a post being saved. Publishing with a future date
+ * schedules the post instead, and a scheduled post whose date has passed
+ * or was removed is published right away.
+ */
+export function resolvePublishStatus(
+    status: PostStatus,
+    publishedAt: Date | null | undefined,
+    now: Date = new Date()
+): PostStatus {
+    if (status === 'PUBLISHED' && publishedAt && publishedAt > now) return 'SCHEDULED';
+    if (status === 'SCHEDULED' && (!publishedAt || publishedAt <= now)) return 'PUBLISHED';
+    return status;
+}
+
+/**
+ * Emit `content:published` for a post that just went live.
+ */
+export async function emitContentPublished(post: ScheduledPost, scheduled: boolean): Promise<void> {
+    await emitSystemEvent('content:published', {
+        postId: post.id,
+        title: post.title,
+        slug: post.slug,
+        type: post.customType || post.type,
+        authorId: post.authorId,
+        publishedAt: post.publishedAt,
+        scheduled
+    });
+}
+
+/**
+ * Publish every scheduled post whose publishedAt has passed. Each post is
+ * claimed with a conditional update, so concurrent runs never publish (or
+ * announce) a post twice.
+ */
+export async function publishDuePosts(now: Date = new Date()): Promise<number[]> {
+    const due = await db.post.findMany({
+        where: { status: 'SCHEDULED', publishedAt: { lte: now } },
+        select: scheduledPostSelect,
+        orderBy: { publishedAt: 'asc' }
+    });
+
+    const published: number[] = [];
+    for (const post of due) {
+        const claimed = await db.post.updateMany({
+            where: { id: post.id, status: 'SCHEDULED' },
+            data: { status: 'PUBLISHED' }
+        });
+        if (claimed.count === 0) continue;
+
+        published.push(post.id);
+        await invalidatePostCache(post.id);
+        await emitContentPublished(post, true);
+    }
+    return published;
+}
+
+/**
+ * Take down every published post whose expiresAt has passed, moving it to
+ * its expiryStatus. The expiry is cleared so republishing the post doesn't
+ * expire it again.
+ */
+export async function expireDuePosts(now: Date = new Date()): Promise<number[]> {
+    const due = await db.post.findMany({
+        where: { status: 'PUBLISHED', expiresAt: { lte: now } },
+        select: { ...scheduledPostSelect, expiryStatus: true, expiresAt: true }
+    });
+
+    const expired: number[] = [];
+    for (const post of due) {
+        const status = post.expiryStatus === 'PRIVATE' ? 'PRIVATE' : 'DRAFT';
+        const claimed = await db.post.updateMany({
+            where: { id: post.id, status: 'PUBLISHED' },
+            data: { status, expiresAt: null }
+        });
+        if (claimed.count === 0) continue;
+
+        expired.push(post.id);
+        await invalidatePostCache(post.id);
+        await emitSystemEvent('content:expired', {
+            postId: post.id,
+            title: post.title,
+            slug: post.slug,
+            type: post.customType || post.type,
+            status,
+            expiredAt: post.expiresAt
+        });
+    }
+    return expired;
+}
+
+/**
+ * Run one scheduler pass. Overlapping calls are skipped.
+ */
+export async function runContentScheduler(now: Date = new Date()) {
+    return tryCatch(async (): Promise<SchedulerRun> => {
+        if (schedulerRunning) return { published: [], expired: [] };
+        schedulerRunning = true;
+        try {
+            const published = await publishDuePosts(now);
+            const expired = await expireDuePosts(now);
+            return { published, expired };
+        } finally {
+            schedulerRunning = false;
+        }
+    });
+}
+
+/**
+ * Start polling for due posts. Safe to call more than once.
+ */
+export function startContentScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS): void {
+    if (schedulerTimer) return;
+
+    schedulerTimer = setInterval(async () => {
+        const result = await runContentScheduler();
+        if (result.error) {
+            console.error('Content scheduler run failed:', result.error);
+        }
+    }, intervalMs);
+
+    // Don't keep the process alive just for the scheduler
+    if (typeof schedulerTimer === 'object' && 'unref' in schedulerTimer) {
+        schedulerTimer.unref();
+    }
+}
+
+export function stopContentScheduler(): void {
+    if (schedulerTimer) {
+        clearInterval(schedulerTimer);
+        schedulerTimer = null;
+    }
+}
@@ -0,0 +1,186 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { getSiteSettings } from './site-settings';
+import type { Prisma } from '@prisma/client';
+
+// ====== SEARCH INDEX ======
+// Each post keeps a weighted `searchVector` (title A, excerpt and taxonomy B,
+// body C) plus the plain `searchText` it was built from, which is what
+// search snippets are highlighted against.
+
+// Postgres text search configurations by site language code.
+// Unknown languages fall back to `simple`, which indexes without stemming.
+export const SEARCH_LANGUAGE_CONFIGS: Record<string, string> = {
+    da: 'danish',
+    de: 'german',
+    en: 'english',
+    es: 'spanish',
+    fi: 'finnish',
+    fr: 'french',
+    hu: 'hungarian',
+    it: 'italian',
+    nl: 'dutch',
+    no: 'norwegian',
+    pt: 'portuguese',
+    ro: 'romanian',
+    ru: 'russian',
+    sv: 'swedish',
+    tr: 'turkish'
+};
+
+// Snippet highlight delimiters. They are stripped from indexed text so
+// snippets can be split on them without trusting any HTML.
+export const SNIPPET_START = '⟦';
+export const SNIPPET_STOP = '⟧';
+
+export type SnippetPart = { text: string; highlight: boolean };
+
+// Block content keys holding readable text; everything else (urls,
+// ids, styling) stays out of the index.
+const INDEXED_BLOCK_KEYS = new Set(['text', 'html', 'content', 'caption', 'alt', 'citation', 'code', 'items', 'title']);
+
+export function getSearchConfig(language: string | undefined): string {
+    const code = (language || '').toLowerCase().split(/[-_]/)[0];
+    return SEARCH_LANGUAGE_CONFIGS[code] || 'simple';
+}
+
+function stripHtml(value: string): string {
+    return value
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'");
+}
+
+function normalizeText(value: string): string {
+    return stripHtml(value)
+        .replace(new RegExp(`[${SNIPPET_START}${SNIPPET_STOP}]`, 'g'), '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function collectBlockText(value: unknown, out: string[]): void {
+    if (typeof value === 'string') {
+        out.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectBlockText(item, out));
+    } else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+            if (INDEXED_BLOCK_KEYS.has(key)) collectBlockText(child, out);
+        }
+    }
+}
+
+/**
+ * Split a `ts_headline` snippet into plain and highlighted parts.
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+    return snippet.split(SNIPPET_START).flatMap((chunk, index) => {
+        if (index === 0) return chunk ? [{ text: chunk, highlight: false }] : [];
+        const [match, ...rest] = chunk.split(SNIPPET_STOP);
+        const tail = rest.join('');
+        return tail
+            ? [{ text: match, highlight: true }, { text: tail, highlight: false }]
+            : [{ text: match, highlight: true }];
+    });
+}
+
+/**
+ * Extract the readable text of block editor content for indexing.
+ */
+export function extractBlockText(blocks: Array<{ content: Prisma.JsonValue }>): string {
+    const parts: string[] = [];
+    for (const block of blocks) {
+        collectBlockText(block.content, parts);
+    }
+    return normalizeText(parts.join(' '));
+}
+
+/**
+ * Rebuild the search vector of one post. Takes a transaction client so
+ * mutations can refresh the index in the same transaction as the write.
+ */
+export async function updatePostSearchIndex(client: Prisma.TransactionClient, postId: number, config?: string) {
+    const post = await client.post.findUnique({
+        where: { id: postId },
+        select: {
+            title: true,
+            excerpt: true,
+            content: true,
+            blocks: {
+                select: { content: true },
+                orderBy: { order: 'asc' }
+            },
+            categories: {
+                select: { category: { select: { name: true } } }
+            },
+            tags: {
+                select: { tag: { select: { name: true } } }
+            }
+        }
+    });
+
+    if (!post) return;
+
+    const searchConfig = config ?? getSearchConfig((await getSiteSettings()).data?.siteLanguage);
+    const title = normalizeText(post.title);
+    const excerpt = normalizeText(post.excerpt || '');
+    const taxonomy = [
+        ...post.categories.map(({ category }) => category.name),
+        ...post.tags.map(({ tag }) => tag.name)
+    ].join(' ');
+    const body = [normalizeText(post.content || ''), extractBlockText(post.blocks)].filter(Boolean).join(' ');
+    const searchText = [title, excerpt, body].filter(Boolean).join(' — ');
+
+    await client.$executeRaw`
+        UPDATE "Post"
+        SET "searchText" = ${searchText},
+            "searchVector" =
+                setweight(to_tsvector(${searchConfig}::regconfig, ${title}), 'A') ||
+                setweight(to_tsvector(${searchConfig}::regconfig, ${excerpt + ' ' + taxonomy}), 'B') ||
+                setweight(to_tsvector(${searchConfig}::regconfig, ${body}), 'C')
+        WHERE id = ${postId}
+    `;
+}
+
+/**
+ * Rebuild the search index of every post, e.g. after the site language changed.
+ */
+export async function rebuildSearchIndex() {
+    "use server";
+    return tryCatch(async () => {
+        const settings = await getSiteSettings();
+        const config = getSearchConfig(settings.data?.siteLanguage);
+        const posts = await db.post.findMany({ select: { id: true } });
+
+        for (const post of posts) {
+            await updatePostSearchIndex(db, post.id, config);
+        }
+
+        return { indexed: posts.length, config };
+    });
+}
+
+/**
+ * Index the posts that have no search vector yet, such as posts saved before
+ * search indexing existed. Run on startup so search finds all content.
+ */
+export async function indexUnindexedPosts() {
+    return tryCatch(async () => {
+        const posts = await db.$queryRaw<Array<{ id: number }>>`
+            SELECT id FROM "Post" WHERE "searchVector" IS NULL
+        `;
+        if (posts.length === 0) return { indexed: 0 };
+
+        const settings = await getSiteSettings();
+        const config = getSearchConfig(settings.data?.siteLanguage);
+        for (const post of posts) {
+            await updatePostSearchIndex(db, post.id, config);
+        }
+
+        return { indexed: posts.length };
+    });
+}
@@ -0,0 +1,177 @@
+import { getRequestEvent } from "solid-js/web";
+import { getSiteSettings, SITE_SETTING_DEFAULTS, type SiteSettings } from './site-settings';
+import { absoluteUrl } from './block-html';
+
+// ====== SEO META ======
+// Resolves the document head for public pages. Posts can override every
+// tag through the PostMeta keys written by `/api/seo`; anything left empty
+// falls back to the post itself and then to the site-wide settings.
+
+export const SEO_META_KEYS = [
+    'meta_title',
+    'meta_description',
+    'canonical_url',
+    'robots',
+    'og_title',
+    'og_description',
+    'og_image',
+    'twitter_title',
+    'twitter_description',
+    'twitter_image'
+] as const;
+
+export type SeoMetaKey = typeof SEO_META_KEYS[number];
+
+export interface SeoMeta {
+    title: string;
+    description: string;
+    canonical?: string;
+    robots?: string;
+    siteName: string;
+    locale?: string;
+    ogType: 'website' | 'article';
+    ogTitle: string;
+    ogDescription: string;
+    ogUrl?: string;
+    ogImage?: string;
+    ogImageAlt?: string;
+    twitterCard: 'summary' | 'summary_large_image';
+    twitterSite?: string;
+    twitterTitle: string;
+    twitterDescription: string;
+    twitterImage?: string;
+    publishedTime?: string;
+    modifiedTime?: string;
+}
+
+export interface SeoInput {
+    // Site-relative path of the page, used for the default canonical URL
+    path: string;
+    title?: string;
+    description?: string | null;
+    image?: { url: string; alt?: string | null } | null;
+    type?: SeoMeta['ogType'];
+    robots?: string;
+    meta?: Array<{ metaKey: string; metaValue: string | null }>;
+    publishedAt?: Date | string | null;
+    updatedAt?: Date | string | null;
+}
+
+type SeoSiteSettings = Pick<SiteSettings,
+    'siteTitle' | 'siteDescription' | 'siteUrl' | 'siteLanguage' | 'defaultSocialImage' | 'twitterSite'>;
+
+function metaValues(meta: SeoInput['meta']): Partial<Record<SeoMetaKey, string>> {
+    const values: Partial<Record<SeoMetaKey, string>> = {};
+    for (const row of meta || []) {
+        const value = row.metaValue?.trim();
+        if (value && (SEO_META_KEYS as readonly string[]).includes(row.metaKey)) {
+            values[row.metaKey as SeoMetaKey] = value;
+        }
+    }
+    return values;
+}
+
+function toIsoString(value?: Date | string | null): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Open Graph locales use an underscore and a region, e.g. `en_US`
+function toOgLocale(language: string): string | undefined {
+    const [lang, region] = language.split(/[-_]/);
+    if (!lang) return undefined;
+    return region ? `${lang.toLowerCase()}_${region.toUpperCase()}` : lang.toLowerCase();
+}
+
+/**
+ * Resolve the full set of head tags for a page from stored SEO meta, the
+ * page's own fields and the site settings. Relative URLs are made absolute
+ * against `baseUrl`.
+ */
+export function resolveSeoMeta(input: SeoInput, site: SeoSiteSettings, baseUrl: string): SeoMeta {
+    const meta = metaValues(input.meta);
+    const siteName = site.siteTitle || SITE_SETTING_DEFAULTS.siteTitle;
+
+    const pageTitle = input.title ? `${input.title} | ${siteName}` : siteName;
+    const title = meta.meta_title || pageTitle;
+    const description = meta.meta_description || input.description?.trim() || site.siteDescription;
+
+    const image = meta.og_image || input.image?.url || site.defaultSocialImage || undefined;
+    const ogImage = image ? absoluteUrl(image, baseUrl) : undefined;
+    const twitterImage = meta.twitter_image ? absoluteUrl(meta.twitter_image, baseUrl) : ogImage;
+    const canonical = absoluteUrl(meta.canonical_url || input.path, baseUrl);
+    const twitterSite = site.twitterSite.trim();
+
+    return {
+        title,
+        description,
+        canonical,
+        robots: meta.robots || input.robots,
+        siteName,
+        locale: toOgLocale(site.siteLanguage),
+        ogType: input.type || 'website',
+        ogTitle: meta.og_title || meta.meta_title || input.title || siteName,
+        ogDescription: meta.og_description || description,
+        ogUrl: canonical,
+        ogImage,
+        // The featured image alt text only describes the featured image
+        ogImageAlt: !meta.og_image && input.image?.url ? input.image.alt || undefined : undefined,
+        twitterCard: twitterImage ? 'summary_large_image' : 'summary',
+        twitterSite: twitterSite ? (twitterSite.startsWith('@') ? twitterSite : `@${twitterSite}`) : undefined,
+        twitterTitle: meta.twitter_title || meta.og_title || meta.meta_title || input.title || siteName,
+        twitterDescription: meta.twitter_description || meta.og_description || description,
+        twitterImage,
+        publishedTime: toIsoString(input.publishedAt),
+        modifiedTime: toIsoString(input.updatedAt)
+    };
+}
+
+/**
+ * Base URL for absolute links: the configured site URL, or the origin of
+ * the current request when none is set.
+ */
+export function resolveBaseUrl(siteUrl: string): string {
+    const origin = getRequestEvent()?.request.url;
+    return (siteUrl || (origin ? new URL(origin).origin : '')).replace(/\/+$/, '');
+}
+
+/**
+ * Resolve head tags for the current request, loading site settings and
+ * falling back to the request origin when no site URL is configured.
+ */
+export async function getSeoMeta(input: SeoInput): Promise<SeoMeta> {
+    "use server";
+    const settings = await getSiteSettings();
+    const site = settings.data || SITE_SETTING_DEFAULTS;
+    return resolveSeoMeta(input, site, resolveBaseUrl(site.siteUrl));
+}
+
+/**
+ * Resolve head tags for a post or page, using its title, excerpt and
+ * featured image as fallbacks for the stored SEO meta.
+ */
+export async function getPostSeoMeta(
+    post: {
+        title: string;
+        excerpt: string | null;
+        publishedAt: Date | null;
+        updatedAt: Date;
+        media?: { filePath: string; altText: string | null } | null;
+        postMeta?: Array<{ metaKey: string; metaValue: string | null }>;
+    },
+    path: string,
+    type: SeoMeta['ogType'] = 'article'
+): Promise<SeoMeta> {
+    "use server";
+    return getSeoMeta({
+        path,
+        title: post.title,
+        description: post.excerpt,
+        image: post.media ? { url: post.media.filePath, alt: post.media.altText } : null,
+        type,
+        meta: post.postMeta,
+        publishedAt: post.publishedAt,
+        updatedAt: post.updatedAt
+    });
+}
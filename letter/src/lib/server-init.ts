@@ -5,6 +5,10 @@ import { pluginManager } from './plugin-manager';
 import { pluginSandbox } from './plugin-sandbox';
 import { pluginWatcher } from './plugin-watcher';
 import { initializeBuiltInThemes } from './theme-init';
+import { runContentScheduler, startContentScheduler } from './scheduler';
+import { syncPluginTaxonomies } from './taxonomies';
+import { runTrashPurge, startTrashPurge } from './trash';
+import { indexUnindexedPosts } from './search-index';
 
 // Server startup initialization
 let initialized = false;
@@ -37,12 +41,49 @@ export async function initializeServer() {
         console.log(`   ⏱️ Total time: ${pluginResults.metrics.totalTime.toFixed(2)}ms`);
         console.log(`   💾 Cache hits: ${pluginResults.metrics.cacheHits}, misses: ${pluginResults.metrics.cacheMisses}`);
         
+        // Store the taxonomies plugins register
+        const taxonomySync = await syncPluginTaxonomies();
+        if (taxonomySync.error) {
+            console.error('❌ Plugin taxonomy registration failed:', taxonomySync.error);
+        } else if (taxonomySync.data.length > 0) {
+            console.log(`🏷️ Registered ${taxonomySync.data.length} plugin taxonomies`);
+        }
+
+        // Index posts saved before search indexing existed
+        const searchBackfill = await indexUnindexedPosts();
+        if (searchBackfill.error) {
+            console.error('❌ Search index backfill failed:', searchBackfill.error);
+        } else if (searchBackfill.data.indexed > 0) {
+            console.log(`🔍 Indexed ${searchBackfill.data.indexed} posts for search`);
+        }
+
         // Start plugin watcher in development
         if (process.env.NODE_ENV === 'development') {
             console.log('👀 Starting plugin file watcher for development...');
             await pluginWatcher.startWatching();
         }
         
+        // Catch up on posts that came due while the server was down, after
+        // plugins are loaded so they receive the content events
+        console.log('⏰ Running content scheduler...');
+        const schedulerRun = await runContentScheduler();
+        if (schedulerRun.error) {
+            console.error('❌ Content scheduler catch-up failed:', schedulerRun.error);
+        } else {
+            console.log(`✅ Scheduler caught up: ${schedulerRun.data.published.length} published, ${schedulerRun.data.expired.length} expired`);
+        }
+        startContentScheduler();
+
+        // Purge trash that passed its retention window while the server was down
+        console.log('🗑️ Purging expired trash...');
+        const trashPurge = await runTrashPurge();
+        if (trashPurge.error) {
+            console.error('❌ Trash purge failed:', trashPurge.error);
+        } else {
+            console.log(`✅ Trash purged: ${trashPurge.data.posts} posts, ${trashPurge.data.comments} comments, ${trashPurge.data.media} media`);
+        }
+        startTrashPurge();
+
         // Generate initial sandbox health report
         const sandboxReport = pluginSandbox.generateHealthReport();
         console.log(`🔒 Plugin sandbox initialized with ${sandboxReport.summary.totalPlugins} plugins`);
@@ -0,0 +1,138 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { DEFAULT_PERMALINK_STRUCTURE, isValidPermalinkStructure } from './permalinks';
+import { invalidateContentCache } from './content-cache';
+import type { SettingType } from '@prisma/client';
+
+// ====== SITE SETTINGS ======
+// Defaults for the site-wide settings. A `Setting` row with the same key
+// overrides the default; values are coerced back to the default's type.
+export const SITE_SETTING_DEFAULTS = {
+    siteTitle: 'Letter-Press CMS',
+    siteDescription: 'A powerful content management system',
+    siteUrl: '',
+    defaultSocialImage: '',
+    twitterSite: '',
+    adminEmail: '',
+    siteLanguage: 'en',
+    timezone: 'UTC',
+    postsPerPage: 10,
+    defaultPostStatus: 'DRAFT',
+    // Revisions kept per post and page; 0 keeps every revision
+    revisionLimit: 25,
+    // Trashed content is purged this many days after it was trashed; 0 keeps it
+    trashRetentionDays: 30,
+    commentsEnabled: true,
+    commentMaxDepth: 3,
+    // 0 keeps comments open indefinitely
+    closeCommentsAfterDays: 0,
+    commentsRequireApproval: true,
+    // Approve comments from an email with a previously approved comment
+    commentsAutoApproveKnown: true,
+    commentsAutoApproveUsers: false,
+    // Comments submitted sooner after the form loaded are spam
+    spamMinSubmitSeconds: 3,
+    // Comments with more links are spam; -1 allows any number
+    spamMaxLinks: 2,
+    // Blocklists hold one entry per line
+    spamBlockedKeywords: '',
+    spamBlockedIps: '',
+    spamBlockedEmails: '',
+    spamClassifierEnabled: true,
+    spamClassifierThreshold: 0.9,
+    userRegistration: false,
+    permalinkStructure: DEFAULT_PERMALINK_STRUCTURE,
+    robotsTxt: [
+        'User-agent: *',
+        'Disallow: /admin',
+        'Disallow: /api',
+        'Disallow: /login'
+    ].join('\n')
+};
+
+export type SiteSettings = typeof SITE_SETTING_DEFAULTS;
+
+export type SiteSettingKey = keyof SiteSettings;
+
+function isSiteSettingKey(key: string): key is SiteSettingKey {
+    return Object.prototype.hasOwnProperty.call(SITE_SETTING_DEFAULTS, key);
+}
+
+function settingTypeOf(key: SiteSettingKey): SettingType {
+    const fallback = SITE_SETTING_DEFAULTS[key];
+    if (typeof fallback === 'number') return 'NUMBER';
+    if (typeof fallback === 'boolean') return 'BOOLEAN';
+    return 'STRING';
+}
+
+function parseSettingValue<K extends SiteSettingKey>(key: K, value: string | null): SiteSettings[K] {
+    const fallback = SITE_SETTING_DEFAULTS[key];
+    if (value === null) return fallback;
+
+    if (typeof fallback === 'number') {
+        const parsed = Number(value);
+        return (Number.isFinite(parsed) ? parsed : fallback) as SiteSettings[K];
+    }
+    if (typeof fallback === 'boolean') {
+        return (value === 'true' || value === 'on' || value === '1') as SiteSettings[K];
+    }
+    return value as SiteSettings[K];
+}
+
+/**
+ * Load all site settings, merging stored values over the defaults.
+ */
+export async function getSiteSettings() {
+    "use server";
+    return tryCatch(db.setting.findMany({
+        where: {
+            key: {
+                in: Object.keys(SITE_SETTING_DEFAULTS)
+            }
+        }
+    }).then(rows => {
+        const settings: SiteSettings = { ...SITE_SETTING_DEFAULTS };
+        for (const row of rows) {
+            if (isSiteSettingKey(row.key)) {
+                (settings as Record<SiteSettingKey, unknown>)[row.key] = parseSettingValue(row.key, row.value);
+            }
+        }
+        return settings;
+    }));
+}
+
+/**
+ * Persist a set of site settings. Unknown keys are ignored; values are
+ * validated against the type of their default.
+ */
+export async function updateSiteSettings(values: Record<string, string>) {
+    "use server";
+    return tryCatch(async () => {
+        const entries = Object.entries(values).filter(([key]) => isSiteSettingKey(key)) as Array<[SiteSettingKey, string]>;
+
+        for (const [key, value] of entries) {
+            const type = settingTypeOf(key);
+            if (type === 'NUMBER' && !Number.isFinite(Number(value))) {
+                throw new Error(`Setting "${key}" must be a number`);
+            }
+            if (key === 'permalinkStructure' && !isValidPermalinkStructure(value)) {
+                throw new Error('Permalink structure must start with "/", use only :year, :month, :day, :id and :slug, and include :slug');
+            }
+        }
+
+        await db.$transaction(entries.map(([key, value]) => {
+            const type = settingTypeOf(key);
+            const stored = type === 'BOOLEAN' ? String(parseSettingValue(key, value)) : value;
+            return db.setting.upsert({
+                where: { key },
+                update: { value: stored, type },
+                create: { key, value: stored, type }
+            });
+        }));
+
+        // Site URL, permalinks and robots rules all feed generated documents
+        invalidateContentCache();
+
+        return entries.map(([key]) => key);
+    });
+}
@@ -0,0 +1,246 @@
+import { db } from './db';
+import { getSiteSettings } from './site-settings';
+import { buildPostPath } from './permalinks';
+import { escapeHtml } from './block-html';
+import { getCachedContent } from './content-cache';
+import { getPagePathMap } from './page-hierarchy';
+import { getPostTypeBaseMap } from './post-types';
+import type { Prisma } from '@prisma/client';
+
+// ====== SITEMAPS & ROBOTS ======
+// `/sitemap.xml` is a sitemap index pointing at one sitemap per content
+// group under `/sitemaps/<name>.xml`. Generated documents are cached and
+// invalidated by invalidatePostCache/invalidateCategoryCache.
+
+export const SITEMAP_NAMES = ['posts', 'pages', 'types', 'categories', 'tags'] as const;
+
+export type SitemapName = typeof SITEMAP_NAMES[number];
+
+// Sitemaps may list at most 50,000 URLs
+const SITEMAP_URL_LIMIT = 50000;
+
+interface SitemapEntry {
+    loc: string;
+    lastmod?: Date | null;
+}
+
+export function isSitemapName(name: string): name is SitemapName {
+    return (SITEMAP_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Posts that may appear in sitemaps: published, live, and not marked
+ * `noindex` through the SEO `robots` meta.
+ */
+function indexablePostWhere(): Prisma.PostWhereInput {
+    return {
+        status: 'PUBLISHED',
+        publishedAt: {
+            lte: new Date()
+        },
+        NOT: {
+            postMeta: {
+                some: {
+                    metaKey: 'robots',
+                    metaValue: {
+                        contains: 'noindex',
+                        mode: 'insensitive'
+                    }
+                }
+            }
+        }
+    };
+}
+
+function postWhereFor(name: 'posts' | 'pages'): Prisma.PostWhereInput {
+    return {
+        ...indexablePostWhere(),
+        type: name === 'posts' ? 'POST' : 'PAGE',
+        customType: null
+    };
+}
+
+async function getBaseUrl(origin: string): Promise<string> {
+    const settings = await getSiteSettings();
+    return (settings.data?.siteUrl || origin).replace(/\/+$/, '');
+}
+
+async function getTaxonomyEntries(name: 'categories' | 'tags', baseUrl: string): Promise<SitemapEntry[]> {
+    const rows = name === 'categories'
+        ? await db.$queryRaw<Array<{ slug: string; lastmod: Date | null }>>`
+            SELECT c.slug, MAX(p."updatedAt") AS lastmod
+            FROM "Category" c
+            INNER JOIN "PostCategory" pc ON pc."categoryId" = c.id
+            INNER JOIN "Post" p ON p.id = pc."postId"
+            WHERE p."status" = 'PUBLISHED' AND p."publishedAt" <= NOW()
+                AND p."type" = 'POST' AND p."customType" IS NULL
+            GROUP BY c.slug
+            ORDER BY c.slug
+            LIMIT ${SITEMAP_URL_LIMIT}
+        `
+        : await db.$queryRaw<Array<{ slug: string; lastmod: Date | null }>>`
+            SELECT t.slug, MAX(p."updatedAt") AS lastmod
+            FROM "Tag" t
+            INNER JOIN "PostTag" pt ON pt."tagId" = t.id
+            INNER JOIN "Post" p ON p.id = pt."postId"
+            WHERE p."status" = 'PUBLISHED' AND p."publishedAt" <= NOW()
+                AND p."type" = 'POST' AND p."customType" IS NULL
+            GROUP BY t.slug
+            ORDER BY t.slug
+            LIMIT ${SITEMAP_URL_LIMIT}
+        `;
+
+    const prefix = name === 'categories' ? 'category' : 'tag';
+    return rows.map(row => ({
+        loc: `${baseUrl}/${prefix}/${row.slug}`,
+        lastmod: row.lastmod
+    }));
+}
+
+/**
+ * Archives and entries of public custom post types. An archive is listed
+ * once its type has an indexable entry.
+ */
+async function getPostTypeEntries(baseUrl: string): Promise<SitemapEntry[]> {
+    const bases = await getPostTypeBaseMap();
+    if (bases.size === 0) return [];
+
+    const posts = await db.post.findMany({
+        where: {
+            ...indexablePostWhere(),
+            customType: { in: [...bases.keys()] }
+        },
+        select: {
+            slug: true,
+            customType: true,
+            updatedAt: true
+        },
+        orderBy: { updatedAt: 'desc' },
+        take: SITEMAP_URL_LIMIT - bases.size
+    });
+
+    // Posts are newest first, so the first entry of a type dates its archive
+    const archives = new Map<string, SitemapEntry>();
+    const entries = posts.map(post => {
+        const base = bases.get(post.customType!)!;
+        if (!archives.has(base)) {
+            archives.set(base, { loc: `${baseUrl}/${base}`, lastmod: post.updatedAt });
+        }
+        return { loc: `${baseUrl}/${base}/${post.slug}`, lastmod: post.updatedAt };
+    });
+
+    return [...archives.values(), ...entries];
+}
+
+async function getSitemapEntries(name: SitemapName, baseUrl: string): Promise<SitemapEntry[]> {
+    if (name === 'categories' || name === 'tags') {
+        return getTaxonomyEntries(name, baseUrl);
+    }
+    if (name === 'types') {
+        return getPostTypeEntries(baseUrl);
+    }
+
+    const settings = await getSiteSettings();
+    const pagePaths = name === 'pages' ? await getPagePathMap() : null;
+    const posts = await db.post.findMany({
+        where: postWhereFor(name),
+        select: {
+            id: true,
+            slug: true,
+            publishedAt: true,
+            createdAt: true,
+            updatedAt: true
+        },
+        orderBy: { updatedAt: 'desc' },
+        take: SITEMAP_URL_LIMIT
+    });
+
+    return posts.map(post => ({
+        loc: name === 'posts'
+            ? `${baseUrl}${buildPostPath(post, settings.data?.permalinkStructure)}`
+            : `${baseUrl}${pagePaths?.get(post.id) ?? `/${post.slug}`}`,
+        lastmod: post.updatedAt
+    }));
+}
+
+async function getSitemapLastModified(name: SitemapName): Promise<Date | null | undefined> {
+    if (name === 'posts' || name === 'pages') {
+        const result = await db.post.aggregate({
+            where: postWhereFor(name),
+            _max: { updatedAt: true },
+            _count: { _all: true }
+        });
+        return result._count._all > 0 ? result._max.updatedAt : undefined;
+    }
+
+    const entries = name === 'types'
+        ? await getPostTypeEntries('')
+        : await getTaxonomyEntries(name, '');
+    if (entries.length === 0) return undefined;
+    return entries.reduce<Date | null>((latest, entry) =>
+        entry.lastmod && (!latest || entry.lastmod > latest) ? entry.lastmod : latest, null);
+}
+
+function renderLastmod(lastmod?: Date | null): string {
+    return lastmod ? `<lastmod>${new Date(lastmod).toISOString()}</lastmod>` : '';
+}
+
+/**
+ * Render the sitemap index. Empty sitemaps are left out.
+ */
+export async function renderSitemapIndex(origin: string): Promise<string> {
+    const baseUrl = await getBaseUrl(origin);
+
+    return getCachedContent(`sitemap:index:${baseUrl}`, async () => {
+        const sitemaps = await Promise.all(SITEMAP_NAMES.map(async name => ({
+            name,
+            lastmod: await getSitemapLastModified(name)
+        })));
+
+        const entries = sitemaps
+            .filter(sitemap => sitemap.lastmod !== undefined)
+            .map(sitemap => `<sitemap><loc>${escapeHtml(`${baseUrl}/sitemaps/${sitemap.name}.xml`)}</loc>${renderLastmod(sitemap.lastmod)}</sitemap>`);
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+            ...entries,
+            '</sitemapindex>'
+        ].join('\n');
+    });
+}
+
+/**
+ * Render one sitemap of the index.
+ */
+export async function renderSitemap(name: SitemapName, origin: string): Promise<string> {
+    const baseUrl = await getBaseUrl(origin);
+
+    return getCachedContent(`sitemap:${name}:${baseUrl}`, async () => {
+        const entries = await getSitemapEntries(name, baseUrl);
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+            ...entries.map(entry => `<url><loc>${escapeHtml(entry.loc)}</loc>${renderLastmod(entry.lastmod)}</url>`),
+            '</urlset>'
+        ].join('\n');
+    });
+}
+
+/**
+ * Render robots.txt from the `robotsTxt` setting, always pointing crawlers
+ * at the sitemap index.
+ */
+export async function renderRobotsTxt(origin: string): Promise<string> {
+    const settings = await getSiteSettings();
+    const baseUrl = (settings.data?.siteUrl || origin).replace(/\/+$/, '');
+
+    return getCachedContent(`robots:${baseUrl}`, async () => {
+        const rules = (settings.data?.robotsTxt || '').trim();
+        const sitemap = `Sitemap: ${baseUrl}/sitemap.xml`;
+        return rules.includes(sitemap)
+            ? `${rules}\n`
+            : `${rules}\n\n${sitemap}\n`;
+    });
+}
@@ -0,0 +1,201 @@
+import { getSiteSettings, SITE_SETTING_DEFAULTS, type SiteSettings } from './site-settings';
+import { resolveBaseUrl, type SeoMeta } from './seo';
+import { absoluteUrl } from './block-html';
+import { executePluginHook } from './plugin-manager';
+
+// ====== STRUCTURED DATA ======
+// schema.org JSON-LD for public pages, emitted as a single `@graph`. Every
+// page carries the site's Organization and WebSite nodes; posts, pages and
+// archives add their own nodes, linked to each other by `@id`. Plugins can
+// rewrite the graph through the `filterStructuredData` hook.
+
+export type JsonLdNode = Record<string, unknown>;
+
+export interface StructuredData {
+    '@context': 'https://schema.org';
+    '@graph': JsonLdNode[];
+}
+
+export type StructuredDataKind = 'post' | 'page' | 'collection' | 'search' | 'home';
+
+export interface StructuredDataPost {
+    title: string;
+    type: string;
+    customType?: string | null;
+    publishedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+    author?: { name: string | null; username: string | null } | null;
+    categories?: Array<{ category: { name: string } }>;
+    tags?: Array<{ tag: { name: string } }>;
+}
+
+export interface StructuredDataInput {
+    kind: StructuredDataKind;
+    // Resolved head meta of the page; supplies url, title, description and image
+    seo: SeoMeta;
+    post?: StructuredDataPost;
+    breadcrumbs?: Array<{ name: string; url: string }>;
+}
+
+// Passed to `filterStructuredData` hooks alongside the graph
+export interface StructuredDataContext {
+    kind: StructuredDataKind;
+    url: string;
+    baseUrl: string;
+}
+
+type StructuredDataSettings = Pick<SiteSettings, 'siteTitle' | 'siteDescription' | 'siteLanguage' | 'twitterSite'>;
+
+function toIsoString(value?: Date | null): string | undefined {
+    return value ? new Date(value).toISOString() : undefined;
+}
+
+function organizationNode(site: StructuredDataSettings, baseUrl: string, seo: SeoMeta): JsonLdNode {
+    const handle = site.twitterSite.trim().replace(/^@/, '');
+    return {
+        '@type': 'Organization',
+        '@id': `${baseUrl}/#organization`,
+        name: site.siteTitle || seo.siteName,
+        url: `${baseUrl}/`,
+        ...(handle ? { sameAs: [`https://twitter.com/${handle}`] } : {})
+    };
+}
+
+function websiteNode(site: StructuredDataSettings, baseUrl: string, seo: SeoMeta): JsonLdNode {
+    return {
+        '@type': 'WebSite',
+        '@id': `${baseUrl}/#website`,
+        name: site.siteTitle || seo.siteName,
+        description: site.siteDescription,
+        url: `${baseUrl}/`,
+        inLanguage: site.siteLanguage,
+        publisher: { '@id': `${baseUrl}/#organization` },
+        potentialAction: {
+            '@type': 'SearchAction',
+            target: {
+                '@type': 'EntryPoint',
+                urlTemplate: `${baseUrl}/search?q={search_term_string}`
+            },
+            'query-input': 'required name=search_term_string'
+        }
+    };
+}
+
+function breadcrumbNode(breadcrumbs: Array<{ name: string; url: string }>, url: string, baseUrl: string): JsonLdNode {
+    return {
+        '@type': 'BreadcrumbList',
+        '@id': `${url}#breadcrumb`,
+        itemListElement: breadcrumbs.map((crumb, index) => ({
+            '@type': 'ListItem',
+            position: index + 1,
+            name: crumb.name,
+            // The last crumb is the current page and may omit its URL
+            ...(index < breadcrumbs.length - 1 ? { item: absoluteUrl(crumb.url, baseUrl) } : {})
+        }))
+    };
+}
+
+function webPageType(kind: StructuredDataKind): string {
+    if (kind === 'collection') return 'CollectionPage';
+    if (kind === 'search') return 'SearchResultsPage';
+    return 'WebPage';
+}
+
+function articleNode(post: StructuredDataPost, seo: SeoMeta, url: string, baseUrl: string): JsonLdNode {
+    const author = post.author;
+    const keywords = post.tags?.map(({ tag }) => tag.name) ?? [];
+    const sections = post.categories?.map(({ category }) => category.name) ?? [];
+
+    return {
+        // Custom post types aren't necessarily blog entries
+        '@type': post.type === 'POST' && !post.customType ? 'BlogPosting' : 'Article',
+        '@id': `${url}#article`,
+        headline: seo.ogTitle,
+        description: seo.description,
+        datePublished: toIsoString(post.publishedAt || post.createdAt),
+        dateModified: toIsoString(post.updatedAt),
+        ...(author ? {
+            author: {
+                '@type': 'Person',
+                name: author.name || author.username,
+                ...(author.username ? { url: `${baseUrl}/author/${author.username}` } : {})
+            }
+        } : {}),
+        ...(seo.ogImage ? { image: [seo.ogImage] } : {}),
+        ...(keywords.length ? { keywords } : {}),
+        ...(sections.length ? { articleSection: sections } : {}),
+        publisher: { '@id': `${baseUrl}/#organization` },
+        mainEntityOfPage: { '@id': `${url}#webpage` },
+        isPartOf: { '@id': `${baseUrl}/#website` }
+    };
+}
+
+/**
+ * Build the JSON-LD graph of a page. Pure apart from the base URL, which
+ * is passed in so the result only depends on its arguments.
+ */
+export function buildStructuredDataGraph(
+    input: StructuredDataInput,
+    site: StructuredDataSettings,
+    baseUrl: string
+): JsonLdNode[] {
+    const url = input.seo.canonical || `${baseUrl}/`;
+    const graph: JsonLdNode[] = [
+        organizationNode(site, baseUrl, input.seo),
+        websiteNode(site, baseUrl, input.seo)
+    ];
+
+    const hasBreadcrumbs = !!input.breadcrumbs && input.breadcrumbs.length > 1;
+
+    graph.push({
+        '@type': webPageType(input.kind),
+        '@id': `${url}#webpage`,
+        url,
+        name: input.seo.ogTitle,
+        description: input.seo.description,
+        inLanguage: site.siteLanguage,
+        isPartOf: { '@id': `${baseUrl}/#website` },
+        ...(input.seo.ogImage ? { primaryImageOfPage: { '@type': 'ImageObject', url: input.seo.ogImage } } : {}),
+        ...(input.post?.publishedAt ? { datePublished: toIsoString(input.post.publishedAt) } : {}),
+        ...(input.post ? { dateModified: toIsoString(input.post.updatedAt) } : {}),
+        ...(hasBreadcrumbs ? { breadcrumb: { '@id': `${url}#breadcrumb` } } : {})
+    });
+
+    if (input.kind === 'post' && input.post) {
+        graph.push(articleNode(input.post, input.seo, url, baseUrl));
+    }
+
+    if (hasBreadcrumbs) {
+        graph.push(breadcrumbNode(input.breadcrumbs!, url, baseUrl));
+    }
+
+    return graph;
+}
+
+/**
+ * Resolve the JSON-LD document of a page for the current request, after
+ * running it through `filterStructuredData` plugin hooks. A hook receives
+ * the graph and a StructuredDataContext and returns the graph to use.
+ */
+export async function getStructuredData(input: StructuredDataInput): Promise<StructuredData> {
+    "use server";
+    const settings = await getSiteSettings();
+    const site = settings.data || SITE_SETTING_DEFAULTS;
+    const baseUrl = resolveBaseUrl(site.siteUrl);
+
+    const graph = buildStructuredDataGraph(input, site, baseUrl);
+    const context: StructuredDataContext = {
+        kind: input.kind,
+        url: input.seo.canonical || `${baseUrl}/`,
+        baseUrl
+    };
+
+    const hookResults = await executePluginHook('filterStructuredData', graph, context);
+    const filtered = hookResults.length > 0 ? hookResults[hookResults.length - 1] : graph;
+
+    return {
+        '@context': 'https://schema.org',
+        '@graph': Array.isArray(filtered) ? filtered as JsonLdNode[] : graph
+    };
+}
@@ -0,0 +1,237 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { executePluginHookWithSources } from './plugin-manager';
+import { postTypeArchivePath, type PostTypeRoute } from './post-types';
+import type { Prisma } from '@prisma/client';
+
+// ====== CUSTOM TAXONOMIES ======
+// Each taxonomy belongs to one post type and groups its entries, like
+// "Brand" for products. Hierarchical taxonomies let terms have parents, like
+// categories; flat ones work like tags. A public post type's term archives
+// are served at `/<type base>/<taxonomy name>/<term slug>`.
+
+type TaxonomyClient = Prisma.TransactionClient;
+
+// A taxonomy as plugins register it through the `registerTaxonomies` hook
+export interface TaxonomyRegistration {
+    // Name of the post type the taxonomy belongs to
+    postType: string;
+    name: string;
+    label: string;
+    description?: string;
+    hierarchical?: boolean;
+}
+
+/**
+ * Public path of a term's archive.
+ */
+export function taxonomyTermPath(type: PostTypeRoute, taxonomyName: string, termSlug: string): string {
+    return `${postTypeArchivePath(type)}/${taxonomyName}/${termSlug}`;
+}
+
+/**
+ * Ids of a term and all the terms below it.
+ */
+export async function getTermTreeIds(termId: number, client: TaxonomyClient = db): Promise<number[]> {
+    const term = await client.term.findUnique({ where: { id: termId }, select: { taxonomyId: true } });
+    if (!term) return [];
+
+    const terms = await client.term.findMany({
+        where: { taxonomyId: term.taxonomyId },
+        select: { id: true, parentId: true }
+    });
+    const ids = [termId];
+    for (let index = 0; index < ids.length; index++) {
+        for (const child of terms) {
+            if (child.parentId === ids[index] && !ids.includes(child.id)) ids.push(child.id);
+        }
+    }
+    return ids;
+}
+
+/**
+ * Throw unless `parentId` is a valid parent for the term: a term of the same
+ * hierarchical taxonomy that isn't the term itself or below it.
+ */
+export async function assertValidTermParent(
+    client: TaxonomyClient,
+    term: { id?: number; taxonomyId: number },
+    parentId: number
+): Promise<void> {
+    const parent = await client.term.findUnique({
+        where: { id: parentId },
+        select: { taxonomyId: true, taxonomy: { select: { hierarchical: true } } }
+    });
+    if (!parent || parent.taxonomyId !== term.taxonomyId) {
+        throw new Error('Parent must be a term of the same taxonomy');
+    }
+    if (!parent.taxonomy.hierarchical) {
+        throw new Error('Terms of a flat taxonomy cannot have parents');
+    }
+    if (term.id && (await getTermTreeIds(term.id, client)).includes(parentId)) {
+        throw new Error('A term cannot be moved under itself or one of its subterms');
+    }
+}
+
+/**
+ * Find a term of a public post type's taxonomy by its archive path segments,
+ * with the ids of the terms whose entries its archive lists.
+ */
+export async function getPublicTaxonomyTerm(base: string, taxonomyName: string, termSlug: string) {
+    "use server";
+    return tryCatch(async () => {
+        const term = await db.term.findFirst({
+            where: {
+                slug: termSlug,
+                taxonomy: {
+                    name: taxonomyName,
+                    postType: {
+                        public: true,
+                        OR: [
+                            { rewriteSlug: base },
+                            { rewriteSlug: null, name: base }
+                        ]
+                    }
+                }
+            },
+            include: {
+                parent: { select: { id: true, name: true, slug: true } },
+                children: {
+                    select: { id: true, name: true, slug: true },
+                    orderBy: { name: 'asc' }
+                },
+                taxonomy: {
+                    include: {
+                        postType: { select: { id: true, name: true, label: true, rewriteSlug: true } }
+                    }
+                }
+            }
+        });
+        if (!term) return null;
+
+        const termIds = term.taxonomy.hierarchical ? await getTermTreeIds(term.id) : [term.id];
+        return { ...term, termIds };
+    });
+}
+
+/**
+ * All taxonomies with their post types and term counts, for the admin screen.
+ */
+export async function getTaxonomies() {
+    "use server";
+    return tryCatch(db.taxonomy.findMany({
+        include: {
+            postType: { select: { id: true, name: true, label: true, rewriteSlug: true, public: true } },
+            _count: { select: { terms: true } }
+        },
+        orderBy: [{ postType: { label: 'asc' } }, { label: 'asc' }]
+    }));
+}
+
+/**
+ * One taxonomy with all its terms and their post counts.
+ */
+export async function getTaxonomyWithTerms(id: number) {
+    "use server";
+    return tryCatch(db.taxonomy.findUnique({
+        where: { id },
+        include: {
+            postType: { select: { id: true, name: true, label: true, rewriteSlug: true, public: true } },
+            terms: {
+                select: {
+                    id: true,
+                    name: true,
+                    slug: true,
+                    description: true,
+                    parentId: true,
+                    _count: { select: { posts: true } }
+                },
+                orderBy: { name: 'asc' }
+            }
+        }
+    }));
+}
+
+/**
+ * The taxonomies of a post's type with their terms, and the terms the post
+ * is filed under. Empty for posts without a custom type.
+ */
+export async function getPostTaxonomies(postId: number) {
+    "use server";
+    return tryCatch(async () => {
+        const post = await db.post.findUnique({
+            where: { id: postId },
+            select: {
+                customType: true,
+                terms: { select: { termId: true } }
+            }
+        });
+        if (!post?.customType) return [];
+
+        const taxonomies = await db.taxonomy.findMany({
+            where: { postType: { name: post.customType } },
+            include: {
+                terms: {
+                    select: { id: true, name: true, parentId: true },
+                    orderBy: { name: 'asc' }
+                }
+            },
+            orderBy: { label: 'asc' }
+        });
+        const selected = new Set(post.terms.map(term => term.termId));
+
+        return taxonomies.map(taxonomy => ({
+            id: taxonomy.id,
+            name: taxonomy.name,
+            label: taxonomy.label,
+            hierarchical: taxonomy.hierarchical,
+            terms: taxonomy.terms,
+            selectedTermIds: taxonomy.terms.filter(term => selected.has(term.id)).map(term => term.id)
+        }));
+    });
+}
+
+/**
+ * Store the taxonomies plugins register through the `registerTaxonomies`
+ * hook. Registered taxonomies are created or updated; ones a plugin no longer
+ * registers are kept, along with their terms. Taxonomies for post types that
+ * don't exist are skipped.
+ */
+export async function syncPluginTaxonomies() {
+    "use server";
+    return tryCatch(async () => {
+        const registrations = await executePluginHookWithSources('registerTaxonomies');
+        const postTypes = new Map(
+            (await db.postTypeDefinition.findMany({ select: { id: true, name: true } }))
+                .map(postType => [postType.name, postType.id])
+        );
+        const synced: string[] = [];
+
+        for (const { pluginId, result } of registrations) {
+            if (!Array.isArray(result)) continue;
+
+            for (const taxonomy of result as TaxonomyRegistration[]) {
+                const postTypeId = postTypes.get(taxonomy.postType);
+                if (!postTypeId || !/^[a-z0-9-]+$/.test(taxonomy.name ?? '')) {
+                    console.warn(`Plugin ${pluginId}: skipping taxonomy "${taxonomy.name}" for post type "${taxonomy.postType}"`);
+                    continue;
+                }
+
+                const data = {
+                    label: taxonomy.label || taxonomy.name,
+                    description: taxonomy.description ?? null,
+                    hierarchical: taxonomy.hierarchical ?? false,
+                    pluginId
+                };
+                await db.taxonomy.upsert({
+                    where: { postTypeId_name: { postTypeId, name: taxonomy.name } },
+                    create: { postTypeId, name: taxonomy.name, ...data },
+                    update: data
+                });
+                synced.push(`${taxonomy.postType}/${taxonomy.name}`);
+            }
+        }
+
+        return synced;
+    });
+}
@@ -10,6 +10,9 @@ import {
   initializeDarkModeForHydration
 } from "./dark-mode";
 import type { ThemeConfig, ThemeColors } from "./types";
+import type { SeoMeta } from "./seo";
+import type { StructuredData } from "./structured-data";
+import type { CustomFieldValues } from "./post-types";
 import { getThemeColors, defaultColors, defaultDarkColors } from "./theme-database";
 import { isServer } from "solid-js/web";
 
@@ -20,6 +23,12 @@ export interface LayoutProps {
   description?: string;
   theme?: string;
   layoutType?: 'default' | 'home' | 'page' | 'post' | 'archive';
+  // Custom post type being shown; selects a layout keyed by the type name
+  postType?: string;
+  // Custom field values of the entry being shown, keyed by field name
+  fields?: CustomFieldValues;
+  seo?: SeoMeta;
+  structuredData?: StructuredData;
 }
 
 // Navigation item interface
@@ -0,0 +1,338 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { invalidatePostCache } from './cms-utils';
+import { invalidateSpamClassifier } from './comment-moderation';
+import { getSiteSettings, SITE_SETTING_DEFAULTS } from './site-settings';
+import { resolvePublishStatus } from './scheduler';
+import type { CommentStatus, PostType, Prisma } from '@prisma/client';
+
+// ====== TRASH ======
+// Trashed posts, pages, comments and media are kept for the retention window
+// (the trashRetentionDays setting) and then purged for good by a background
+// task. Posts and comments remember the status they were trashed from, which
+// restoring brings back; media has no status, so its trashedAt alone marks it.
+
+type TrashClient = Prisma.TransactionClient;
+
+// How often the purge looks for trash past the retention window
+export const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface TrashPurge {
+    posts: number;
+    comments: number;
+    media: number;
+}
+
+let purgeTimer: ReturnType<typeof setInterval> | null = null;
+let purgeRunning = false;
+
+/**
+ * Trash bookkeeping for a single status change: trashing records when and
+ * from which status, anything leaving the trash clears it.
+ */
+export function trashFields<S extends string>(from: S, to: S, now: Date = new Date()) {
+    if (to === 'TRASH' && from !== 'TRASH') return { trashedAt: now, statusBeforeTrash: from };
+    if (to !== 'TRASH' && from === 'TRASH') return { trashedAt: null, statusBeforeTrash: null };
+    return {};
+}
+
+/**
+ * When trash from the given date is purged, or null when trash is kept.
+ */
+export function trashPurgeDate(trashedAt: Date, retentionDays: number): Date | null {
+    if (retentionDays <= 0) return null;
+    return new Date(trashedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+function groupByStatus<S extends string>(rows: { id: number; status: S }[]): Map<S, number[]> {
+    const groups = new Map<S, number[]>();
+    for (const row of rows) {
+        groups.set(row.status, [...(groups.get(row.status) ?? []), row.id]);
+    }
+    return groups;
+}
+
+/**
+ * Move posts to the trash, remembering each one's status. Returns the ids
+ * of the posts that weren't trashed already.
+ */
+export async function trashPostRecords(client: TrashClient, ids: number[], now: Date = new Date()): Promise<number[]> {
+    const posts = await client.post.findMany({
+        where: { id: { in: ids }, status: { not: 'TRASH' } },
+        select: { id: true, status: true }
+    });
+    for (const [status, postIds] of groupByStatus(posts)) {
+        await client.post.updateMany({
+            where: { id: { in: postIds } },
+            data: { status: 'TRASH', trashedAt: now, statusBeforeTrash: status }
+        });
+    }
+    return posts.map(post => post.id);
+}
+
+/**
+ * Bring trashed posts back with the status they had. A scheduled post whose
+ * date passed while it was in the trash comes back published; posts trashed
+ * without a remembered status come back as drafts.
+ */
+export async function restorePostRecords(client: TrashClient, ids: number[], now: Date = new Date()): Promise<number[]> {
+    const posts = await client.post.findMany({
+        where: { id: { in: ids }, status: 'TRASH' },
+        select: { id: true, statusBeforeTrash: true, publishedAt: true }
+    });
+    for (const post of posts) {
+        await client.post.update({
+            where: { id: post.id },
+            data: {
+                status: resolvePublishStatus(post.statusBeforeTrash ?? 'DRAFT', post.publishedAt, now),
+                trashedAt: null,
+                statusBeforeTrash: null
+            }
+        });
+    }
+    return posts.map(post => post.id);
+}
+
+/**
+ * Move comments to the trash, remembering each one's status. Trashing is a
+ * moderation decision, so it's dated like one.
+ */
+export async function trashCommentRecords(client: TrashClient, ids: number[], now: Date = new Date()): Promise<number[]> {
+    const comments = await client.comment.findMany({
+        where: { id: { in: ids }, status: { not: 'TRASH' } },
+        select: { id: true, status: true }
+    });
+    for (const [status, commentIds] of groupByStatus(comments)) {
+        await client.comment.updateMany({
+            where: { id: { in: commentIds } },
+            data: { status: 'TRASH', trashedAt: now, statusBeforeTrash: status, moderatedAt: now }
+        });
+    }
+    return comments.map(comment => comment.id);
+}
+
+/**
+ * Bring trashed comments back with the status they had, or to moderation
+ * when it isn't known.
+ */
+export async function restoreCommentRecords(client: TrashClient, ids: number[], now: Date = new Date()): Promise<number[]> {
+    const comments = await client.comment.findMany({
+        where: { id: { in: ids }, status: 'TRASH' },
+        select: { id: true, statusBeforeTrash: true }
+    });
+    const groups = groupByStatus(comments.map(comment => ({
+        id: comment.id,
+        status: comment.statusBeforeTrash ?? ('PENDING' as CommentStatus)
+    })));
+    for (const [status, commentIds] of groups) {
+        await client.comment.updateMany({
+            where: { id: { in: commentIds } },
+            data: { status, trashedAt: null, statusBeforeTrash: null, moderatedAt: now }
+        });
+    }
+    return comments.map(comment => comment.id);
+}
+
+/**
+ * Delete a media item's file from disk. A missing or undeletable file is
+ * only logged, as the item itself is already gone.
+ */
+export async function removeMediaFile(filePath: string): Promise<void> {
+    try {
+        const fs = await import('fs');
+        const fullPath = `./public${filePath}`;
+        if (fs.existsSync(fullPath)) {
+            fs.unlinkSync(fullPath);
+        }
+    } catch (fileError) {
+        console.warn('Could not delete physical file:', fileError);
+    }
+}
+
+/**
+ * Delete trashed posts of one type for good. Posts that aren't in the trash
+ * or are of another type are left alone. Returns the ids of those deleted.
+ */
+export async function purgePostRecords(ids: number[], type: PostType): Promise<number[]> {
+    const posts = await db.post.findMany({
+        where: { id: { in: ids }, type, status: 'TRASH' },
+        select: { id: true }
+    });
+    const postIds = posts.map(post => post.id);
+    if (postIds.length > 0) {
+        await db.post.deleteMany({ where: { id: { in: postIds }, status: 'TRASH' } });
+        await Promise.all(postIds.map(id => invalidatePostCache(id)));
+    }
+    return postIds;
+}
+
+/**
+ * Delete trashed comments for good. Comments that aren't in the trash are left alone.
+ */
+export async function purgeCommentRecords(ids: number[]): Promise<number> {
+    const result = await db.comment.deleteMany({ where: { id: { in: ids }, status: 'TRASH' } });
+    if (result.count > 0) invalidateSpamClassifier();
+    return result.count;
+}
+
+/**
+ * Delete trashed media items and their files for good. Media that isn't in
+ * the trash is left alone.
+ */
+export async function purgeMediaRecords(ids: number[]): Promise<number> {
+    const media = await db.media.findMany({
+        where: { id: { in: ids }, trashedAt: { not: null } },
+        select: { id: true, filePath: true }
+    });
+    const result = await db.media.deleteMany({
+        where: { id: { in: media.map(item => item.id) }, trashedAt: { not: null } }
+    });
+    for (const item of media) {
+        await removeMediaFile(item.filePath);
+    }
+    return result.count;
+}
+
+/**
+ * Delete everything trashed longer ago than the retention window.
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<TrashPurge> {
+    const { trashRetentionDays } = (await getSiteSettings()).data ?? SITE_SETTING_DEFAULTS;
+    if (trashRetentionDays <= 0) return { posts: 0, comments: 0, media: 0 };
+
+    const cutoff = new Date(now.getTime() - trashRetentionDays * 24 * 60 * 60 * 1000);
+    // Trash from before trash was dated counts from its last change
+    const expired = {
+        OR: [
+            { trashedAt: { lte: cutoff } },
+            { trashedAt: null, updatedAt: { lte: cutoff } }
+        ]
+    };
+
+    const posts = await db.post.findMany({
+        where: { status: 'TRASH', ...expired },
+        select: { id: true }
+    });
+    const postIds = posts.map(post => post.id);
+    if (postIds.length > 0) {
+        await db.post.deleteMany({ where: { id: { in: postIds } } });
+        await Promise.all(postIds.map(id => invalidatePostCache(id)));
+    }
+
+    const comments = await db.comment.deleteMany({ where: { status: 'TRASH', ...expired } });
+    if (comments.count > 0) invalidateSpamClassifier();
+
+    const media = await db.media.findMany({
+        where: { trashedAt: { lte: cutoff } },
+        select: { id: true }
+    });
+    const mediaCount = media.length > 0 ? await purgeMediaRecords(media.map(item => item.id)) : 0;
+
+    return { posts: postIds.length, comments: comments.count, media: mediaCount };
+}
+
+/**
+ * Run one purge pass. Overlapping calls are skipped.
+ */
+export async function runTrashPurge(now: Date = new Date()) {
+    return tryCatch(async (): Promise<TrashPurge> => {
+        if (purgeRunning) return { posts: 0, comments: 0, media: 0 };
+        purgeRunning = true;
+        try {
+            return await purgeExpiredTrash(now);
+        } finally {
+            purgeRunning = false;
+        }
+    });
+}
+
+/**
+ * Start purging expired trash periodically. Safe to call more than once.
+ */
+export function startTrashPurge(intervalMs: number = TRASH_PURGE_INTERVAL_MS): void {
+    if (purgeTimer) return;
+
+    purgeTimer = setInterval(async () => {
+        const result = await runTrashPurge();
+        if (result.error) {
+            console.error('Trash purge failed:', result.error);
+        }
+    }, intervalMs);
+
+    // Don't keep the process alive just for the purge
+    if (typeof purgeTimer === 'object' && 'unref' in purgeTimer) {
+        purgeTimer.unref();
+    }
+}
+
+export function stopTrashPurge(): void {
+    if (purgeTimer) {
+        clearInterval(purgeTimer);
+        purgeTimer = null;
+    }
+}
+
+// ====== TRASH QUERIES ======
+
+/**
+ * Everything in the trash, most recently trashed first, with the retention
+ * window that decides when each item is purged.
+ */
+export async function getTrash() {
+    "use server";
+    return tryCatch(async () => {
+        const { trashRetentionDays } = (await getSiteSettings()).data ?? SITE_SETTING_DEFAULTS;
+        const trashOrder = [{ trashedAt: 'desc' as const }, { updatedAt: 'desc' as const }];
+
+        const [posts, comments, media] = await Promise.all([
+            db.post.findMany({
+                where: { status: 'TRASH' },
+                select: {
+                    id: true,
+                    title: true,
+                    type: true,
+                    customType: true,
+                    statusBeforeTrash: true,
+                    trashedAt: true,
+                    updatedAt: true,
+                    author: { select: { name: true, username: true } }
+                },
+                orderBy: trashOrder
+            }),
+            db.comment.findMany({
+                where: { status: 'TRASH' },
+                select: {
+                    id: true,
+                    authorName: true,
+                    content: true,
+                    statusBeforeTrash: true,
+                    trashedAt: true,
+                    updatedAt: true,
+                    post: { select: { id: true, title: true } }
+                },
+                orderBy: trashOrder
+            }),
+            db.media.findMany({
+                where: { trashedAt: { not: null } },
+                select: {
+                    id: true,
+                    fileName: true,
+                    filePath: true,
+                    fileType: true,
+                    title: true,
+                    trashedAt: true,
+                    updatedAt: true
+                },
+                orderBy: trashOrder
+            })
+        ]);
+
+        return {
+            retentionDays: trashRetentionDays,
+            posts: posts.filter(post => post.type !== 'PAGE'),
+            pages: posts.filter(post => post.type === 'PAGE'),
+            comments,
+            media
+        };
+    });
+}
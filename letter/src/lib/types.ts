@@ -50,7 +50,7 @@ export type PostWithRelations = Post & {
 };
 
 // Subset of PostWithRelations for list views (admin panels)
-export type PostListItem = Pick<Post, 'id' | 'title' | 'slug' | 'excerpt' | 'status' | 'type' | 'customType' | 'publishedAt' | 'createdAt' | 'updatedAt'> & {
+export type PostListItem = Pick<Post, 'id' | 'title' | 'slug' | 'excerpt' | 'status' | 'type' | 'customType' | 'publishedAt' | 'expiresAt' | 'createdAt' | 'updatedAt'> & {
     author: {
         id: number;
         username: string | null;
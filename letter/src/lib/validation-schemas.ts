@@ -136,7 +136,10 @@ export const CustomFieldSchema = type({
 export const UserRoleSchema = type("'ADMIN' | 'EDITOR' | 'AUTHOR' | 'CONTRIBUTOR' | 'SUBSCRIBER'");
 
 // Post status validation  
-export const PostStatusSchema = type("'DRAFT' | 'PUBLISHED' | 'PRIVATE' | 'TRASH' | 'REVIEW'");
+export const PostStatusSchema = type("'DRAFT' | 'PUBLISHED' | 'PRIVATE' | 'TRASH' | 'REVIEW' | 'SCHEDULED'");
+
+// Statuses a post may move to when it expires
+export const ExpiryStatusSchema = type("'DRAFT' | 'PRIVATE'");
 
 // Generic pagination schema
 export const PaginationSchema = type({
@@ -178,6 +181,20 @@ export const URLSchema = type("string").narrow((s, problems) => {
   }
 });
 
+// Whether a URL is an http or https address, the only kind safe to link to when anyone can supply it
+export function isWebURL(url: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Web URL validation schema, for links visitors supply
+export const WebURLSchema = type("string").narrow((s, problems) => {
+  return isWebURL(s) || problems.mustBe("an http or https URL");
+});
+
 // Slug validation schema
 export const SlugSchema = type("string").narrow((s, problems) => {
   if (!/^[a-z0-9-]+$/.test(s)) {
@@ -275,6 +292,23 @@ export const UserQuerySchema = type({
 
 // ===== POST SCHEMAS =====
 
+// A post's expiry must be a valid date after its publish date
+function checkPostSchedule(
+  post: { publishedAt?: string | null; expiresAt?: string | null },
+  problems: { mustBe: (description: string) => false }
+): boolean {
+  if (!post.expiresAt) return true;
+
+  const expiresAt = new Date(post.expiresAt);
+  if (isNaN(expiresAt.getTime())) {
+    return problems.mustBe("expiresAt must be a valid ISO date string");
+  }
+  if (post.publishedAt && expiresAt <= new Date(post.publishedAt)) {
+    return problems.mustBe("expiresAt must be after publishedAt");
+  }
+  return true;
+}
+
 // Post creation schema base for type inference
 export const PostCreateSchema = type({
   title: "string",
@@ -291,6 +325,8 @@ export const PostCreateSchema = type({
   commentStatus: "boolean?",
   pingStatus: "boolean?",
   publishedAt: "string?", // ISO date string
+  expiresAt: "string?", // ISO date string
+  expiryStatus: ExpiryStatusSchema.or("undefined"),
   categoryIds: "number[]?",
   tagIds: "number[]?",
   meta: "unknown[]?", // Will validate array elements separately
@@ -306,8 +342,8 @@ export const PostCreateSchema = type({
       return problems.mustBe("publishedAt must be a valid ISO date string");
     }
   }
-  
-  return true;
+
+  return checkPostSchedule(post, problems);
 });
 
 // Post update schema (all fields optional except id)
@@ -325,11 +361,37 @@ export const PostUpdateSchema = type({
   menuOrder: NonNegativeIntegerSchema.or("undefined"),
   commentStatus: "boolean?",
   pingStatus: "boolean?",
-  publishedAt: "string?",
+  "publishedAt?": "string | null", // null clears the publish date
+  "expiresAt?": "string | null", // null clears the expiry
+  expiryStatus: ExpiryStatusSchema.or("undefined"),
   categoryIds: "number[]?",
   tagIds: "number[]?",
   meta: "unknown[]?",
-  blocks: "unknown[]?"
+  blocks: "unknown[]?",
+  editorId: PositiveIntegerSchema.or("undefined"), // Credited with the revision; defaults to the author
+  expectedUpdatedAt: "string?", // The post's updatedAt when the editor loaded it; a mismatch is a conflict
+  reviewNote: "string?" // Kept in the audit trail with a status change
+}).narrow((post, problems) => checkPostSchedule(post, problems));
+
+// Restoring a revision saves its content as a new revision
+export const RevisionRestoreSchema = type({
+  revisionId: PositiveIntegerSchema,
+  editorId: PositiveIntegerSchema
+});
+
+// Unsaved editor changes, kept per post and user until the post is saved
+export const PostAutosaveSchema = type({
+  postId: PositiveIntegerSchema,
+  authorId: PositiveIntegerSchema,
+  title: "string?",
+  excerpt: "string?",
+  content: "string?",
+  blocks: "unknown[]"
+});
+
+export const AutosaveDiscardSchema = type({
+  postId: PositiveIntegerSchema,
+  authorId: PositiveIntegerSchema
 });
 
 // Bulk operations schema
@@ -343,6 +405,104 @@ export const BulkPostOperationSchema = type({
   return true;
 });
 
+// Page tree schema: the new parent and position of each page
+export const PageTreeUpdateSchema = type({
+  pages: type({
+    id: PositiveIntegerSchema,
+    parentId: PositiveIntegerSchema.or("null"),
+    menuOrder: NonNegativeIntegerSchema
+  }).array()
+}).narrow((tree, problems) => {
+  if (tree.pages.length === 0) {
+    return problems.mustBe("pages cannot be empty");
+  }
+  if (tree.pages.some(page => page.parentId === page.id)) {
+    return problems.mustBe("a page cannot be its own parent");
+  }
+  return true;
+});
+
+// Preview link schema; links last from an hour up to 30 days
+export const PreviewTokenCreateSchema = type({
+  postId: PositiveIntegerSchema,
+  expiresInHours: PositiveIntegerSchema,
+  label: "string?",
+  createdById: PositiveIntegerSchema.or("undefined")
+}).narrow((token, problems) => {
+  if (token.expiresInHours > 24 * 30) {
+    return problems.mustBe("expiresInHours must be at most 720 (30 days)");
+  }
+  return true;
+});
+
+// A review decision; requesting changes needs a note for the author
+export const PostReviewSchema = type({
+  postId: PositiveIntegerSchema,
+  actorId: PositiveIntegerSchema,
+  action: "'submit' | 'approve' | 'request_changes' | 'reject'",
+  note: "string?"
+}).narrow((review, problems) => {
+  if (review.action === 'request_changes' && !review.note?.trim()) {
+    return problems.mustBe("a note is required when requesting changes");
+  }
+  return true;
+});
+
+// Replaces the users asked to review a post
+export const PostReviewersSchema = type({
+  postId: PositiveIntegerSchema,
+  reviewerIds: "number[]",
+  assignedById: PositiveIntegerSchema
+});
+
+// Marks the given notifications of a user as read, or all of them
+export const NotificationReadSchema = type({
+  userId: PositiveIntegerSchema,
+  ids: "number[]?"
+});
+
+// Opens an editorial note on a block, quoting part of its text when given
+export const BlockNoteCreateSchema = type({
+  postId: PositiveIntegerSchema,
+  blockUid: "string",
+  quote: "string?",
+  authorId: PositiveIntegerSchema,
+  body: "string"
+}).narrow((note, problems) => {
+  if (!note.blockUid.trim()) {
+    return problems.mustBe("a note must be anchored to a block");
+  }
+  if (!note.body.trim()) {
+    return problems.mustBe("body cannot be empty");
+  }
+  return true;
+});
+
+export const BlockNoteReplySchema = type({
+  noteId: PositiveIntegerSchema,
+  authorId: PositiveIntegerSchema,
+  body: "string"
+}).narrow((reply, problems) => {
+  if (!reply.body.trim()) {
+    return problems.mustBe("body cannot be empty");
+  }
+  return true;
+});
+
+// Resolves a note's thread, or reopens it
+export const BlockNoteResolveSchema = type({
+  noteId: PositiveIntegerSchema,
+  userId: PositiveIntegerSchema,
+  resolved: "boolean"
+});
+
+// Edit lock of a post; takeover claims it even while someone else holds it
+export const PostLockSchema = type({
+  postId: PositiveIntegerSchema,
+  userId: PositiveIntegerSchema,
+  takeover: "boolean?"
+});
+
 // ===== CATEGORY/TAG SCHEMAS =====
 
 // Category creation schema
@@ -358,13 +518,43 @@ export const CategoryCreateSchema = type({
   return true;
 });
 
-// Category update schema
+// Category update schema; a null parentId moves the category to the top level
 export const CategoryUpdateSchema = type({
   id: PositiveIntegerSchema,
   name: "string?",
   slug: SlugSchema.or("undefined"),
   description: "string?",
-  parentId: PositiveIntegerSchema.or("undefined")
+  parentId: PositiveIntegerSchema.or("null").or("undefined")
+}).narrow((category, problems) => {
+  if (category.parentId === category.id) {
+    return problems.mustBe("a category cannot be its own parent");
+  }
+  return true;
+});
+
+// Deleting categories; posts left without a category move to the fallback
+export const CategoryBulkDeleteSchema = type({
+  categoryIds: "number[]",
+  fallbackId: PositiveIntegerSchema.or("undefined")
+}).narrow((operation, problems) => {
+  if (operation.categoryIds.length === 0) {
+    return problems.mustBe("categoryIds cannot be empty");
+  }
+  if (operation.fallbackId !== undefined && operation.categoryIds.includes(operation.fallbackId)) {
+    return problems.mustBe("the fallback category cannot be one of the deleted categories");
+  }
+  return true;
+});
+
+// Merging one category or tag into another
+export const TermMergeSchema = type({
+  sourceId: PositiveIntegerSchema,
+  targetId: PositiveIntegerSchema
+}).narrow((merge, problems) => {
+  if (merge.sourceId === merge.targetId) {
+    return problems.mustBe("a term cannot be merged into itself");
+  }
+  return true;
 });
 
 // Tag creation schema
@@ -393,10 +583,9 @@ export const TagUpdateSchema = type({
 export const CommentCreateSchema = type({
   postId: PositiveIntegerSchema,
   parentId: PositiveIntegerSchema.or("undefined"),
-  authorId: PositiveIntegerSchema.or("undefined"),
   authorName: "string",
   authorEmail: EmailSchema,
-  authorUrl: URLSchema.or("undefined"),
+  authorUrl: WebURLSchema.or("undefined"),
   content: "string",
   authorIp: "string?",
   agent: "string?"
@@ -417,7 +606,19 @@ export const CommentUpdateSchema = type({
   status: CommentStatusSchema.or("undefined"),
   authorName: "string?",
   authorEmail: EmailSchema.or("undefined"),
-  authorUrl: URLSchema.or("undefined")
+  authorUrl: WebURLSchema.or("undefined")
+});
+
+// Admin reply schema; replies are published under the replying user's account
+export const CommentReplySchema = type({
+  parentId: PositiveIntegerSchema,
+  authorId: PositiveIntegerSchema,
+  content: "string"
+}).narrow((reply, problems) => {
+  if (!reply.content.trim()) {
+    return problems.mustBe("content cannot be empty");
+  }
+  return true;
 });
 
 // Bulk comment operations schema
@@ -538,13 +739,29 @@ export const CustomFieldUpdateSchema = type({
 
 // ===== POST TYPE SCHEMAS =====
 
+// First path segments served by other routes, so unusable as a post type's URL base
+export const RESERVED_REWRITE_SLUGS = [
+  "admin", "api", "login", "archive", "author", "category", "tag",
+  "search", "pages", "preview", "feed", "atom", "sitemap", "sitemaps",
+  "_build", "_server"
+] as const;
+
+// Rewrite slug schema: the URL base of a post type's archive and entries
+export const RewriteSlugSchema = SlugSchema.narrow((s, problems) => {
+  if ((RESERVED_REWRITE_SLUGS as readonly string[]).includes(s)) {
+    return problems.mustBe(`a slug other than "${s}", which is used by another route`);
+  }
+  return true;
+});
+
 // Post type creation schema
 export const PostTypeCreateSchema = type({
   name: "string",
   label: "string",
   description: "string?",
   public: "boolean?",
-  supports: "string[]?"
+  supports: "string[]?",
+  rewriteSlug: RewriteSlugSchema.or("undefined")
 }).narrow((postType, problems) => {
   if (!/^[a-zA-Z0-9_]+$/.test(postType.name)) {
     return problems.mustBe("name must contain only letters, numbers, and underscores");
@@ -555,6 +772,86 @@ export const PostTypeCreateSchema = type({
   return true;
 });
 
+// Post type update schema; a null rewrite slug serves the type under its name
+export const PostTypeUpdateSchema = type({
+  id: PositiveIntegerSchema,
+  label: "string?",
+  description: "string?",
+  public: "boolean?",
+  supports: "string[]?",
+  rewriteSlug: RewriteSlugSchema.or("null").or("undefined")
+}).narrow((postType, problems) => {
+  if (postType.label !== undefined && !postType.label.trim()) {
+    return problems.mustBe("label cannot be empty");
+  }
+  return true;
+});
+
+// ===== TAXONOMY SCHEMAS =====
+
+// Taxonomy creation schema; the name is the taxonomy's URL segment
+export const TaxonomyCreateSchema = type({
+  postTypeId: PositiveIntegerSchema,
+  name: SlugSchema,
+  label: "string",
+  description: "string?",
+  hierarchical: "boolean?",
+  pluginId: "string?"
+}).narrow((taxonomy, problems) => {
+  if (!taxonomy.label.trim()) {
+    return problems.mustBe("label cannot be empty");
+  }
+  return true;
+});
+
+// Taxonomy update schema; the post type and name are fixed once created
+export const TaxonomyUpdateSchema = type({
+  id: PositiveIntegerSchema,
+  label: "string?",
+  description: "string?",
+  hierarchical: "boolean?"
+}).narrow((taxonomy, problems) => {
+  if (taxonomy.label !== undefined && !taxonomy.label.trim()) {
+    return problems.mustBe("label cannot be empty");
+  }
+  return true;
+});
+
+// Term creation schema
+export const TermCreateSchema = type({
+  taxonomyId: PositiveIntegerSchema,
+  name: "string",
+  slug: SlugSchema,
+  description: "string?",
+  parentId: PositiveIntegerSchema.or("undefined")
+}).narrow((term, problems) => {
+  if (!term.name.trim()) {
+    return problems.mustBe("name cannot be empty");
+  }
+  return true;
+});
+
+// Term update schema; a null parentId moves the term to the top level
+export const TermUpdateSchema = type({
+  id: PositiveIntegerSchema,
+  name: "string?",
+  slug: SlugSchema.or("undefined"),
+  description: "string?",
+  parentId: PositiveIntegerSchema.or("null").or("undefined")
+}).narrow((term, problems) => {
+  if (term.parentId === term.id) {
+    return problems.mustBe("a term cannot be its own parent");
+  }
+  return true;
+});
+
+// Replace a post's terms in one taxonomy
+export const PostTermsUpdateSchema = type({
+  postId: PositiveIntegerSchema,
+  taxonomyId: PositiveIntegerSchema,
+  termIds: "number[]"
+});
+
 // ===== PLUGIN SCHEMAS =====
 
 // Plugin toggle schema
@@ -586,13 +883,28 @@ export type UserRoleUpdate = typeof UserRoleUpdateSchema.infer;
 export type UserQuery = typeof UserQuerySchema.infer;
 export type PostCreate = typeof PostCreateSchema.infer;
 export type PostUpdate = typeof PostUpdateSchema.infer;
+export type RevisionRestore = typeof RevisionRestoreSchema.infer;
+export type PostAutosave = typeof PostAutosaveSchema.infer;
+export type AutosaveDiscard = typeof AutosaveDiscardSchema.infer;
 export type BulkPostOperation = typeof BulkPostOperationSchema.infer;
+export type PageTreeUpdate = typeof PageTreeUpdateSchema.infer;
+export type PreviewTokenCreate = typeof PreviewTokenCreateSchema.infer;
+export type PostLockRequest = typeof PostLockSchema.infer;
+export type PostReview = typeof PostReviewSchema.infer;
+export type PostReviewers = typeof PostReviewersSchema.infer;
+export type NotificationRead = typeof NotificationReadSchema.infer;
+export type BlockNoteCreate = typeof BlockNoteCreateSchema.infer;
+export type BlockNoteReply = typeof BlockNoteReplySchema.infer;
+export type BlockNoteResolve = typeof BlockNoteResolveSchema.infer;
 export type CategoryCreate = typeof CategoryCreateSchema.infer;
 export type CategoryUpdate = typeof CategoryUpdateSchema.infer;
+export type CategoryBulkDelete = typeof CategoryBulkDeleteSchema.infer;
+export type TermMerge = typeof TermMergeSchema.infer;
 export type TagCreate = typeof TagCreateSchema.infer;
 export type TagUpdate = typeof TagUpdateSchema.infer;
 export type CommentCreate = typeof CommentCreateSchema.infer;
 export type CommentUpdate = typeof CommentUpdateSchema.infer;
+export type CommentReply = typeof CommentReplySchema.infer;
 export type BulkCommentOperation = typeof BulkCommentOperationSchema.infer;
 export type SettingUpdate = typeof SettingUpdateSchema.infer;
 export type MediaUpload = typeof MediaUploadSchema.infer;
@@ -602,4 +914,10 @@ export type SEOData = typeof SEODataSchema.infer;
 export type CustomFieldCreate = typeof CustomFieldCreateSchema.infer;
 export type CustomFieldUpdate = typeof CustomFieldUpdateSchema.infer;
 export type PostTypeCreate = typeof PostTypeCreateSchema.infer;
+export type PostTypeUpdate = typeof PostTypeUpdateSchema.infer;
+export type TaxonomyCreate = typeof TaxonomyCreateSchema.infer;
+export type TaxonomyUpdate = typeof TaxonomyUpdateSchema.infer;
+export type TermCreate = typeof TermCreateSchema.infer;
+export type TermUpdate = typeof TermUpdateSchema.infer;
+export type PostTermsUpdate = typeof PostTermsUpdateSchema.infer;
 export type PluginToggle = typeof PluginToggleSchema.infer;
\ No newline at end of file
@@ -0,0 +1,169 @@
+/**
+ * WordPress Import CLI
+ *
+ * Imports a WXR export file from the command line, with the same options
+ * as the admin importer:
+ *
+ *   pnpm import:wxr <export.xml> --author <user-id> [--dry-run] [--no-download] [--map <login>=<user-id>]...
+ */
+
+import { readFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import { db } from './db';
+import { importWordPress, type ImportTally, type WordPressImportOptions, type WordPressImportReport } from './wordpress-import';
+
+interface ImportArgs {
+  file: string;
+  options: WordPressImportOptions;
+}
+
+/**
+ * Show usage for the import command
+ */
+function showHelp(): void {
+  console.log('\n📥 WordPress Import CLI Help\n');
+  console.log('Usage: pnpm import:wxr <export.xml> --author <user-id> [options]\n');
+  console.log('Options:\n');
+  console.log(`   ${'--author <id>'.padEnd(24)} - User that owns content whose author isn't in the export`);
+  console.log(`   ${'--map <login>=<id>'.padEnd(24)} - Import a WordPress author's content as an existing user`);
+  console.log(`   ${'--dry-run'.padEnd(24)} - Report what would be imported without writing anything`);
+  console.log(`   ${'--no-download'.padEnd(24)} - Link attachments to their original URLs instead of downloading them`);
+  console.log('\nExamples:');
+  console.log('   pnpm import:wxr export.xml --author 1 --dry-run');
+  console.log('   pnpm import:wxr export.xml --author 1 --map admin=1\n');
+}
+
+/**
+ * Read the file and options from the command line, or null when they're unusable
+ */
+function parseArgs(args: string[]): ImportArgs | null {
+  let file = '';
+  const options: WordPressImportOptions = {
+    fallbackAuthorId: 0,
+    dryRun: false,
+    downloadAttachments: true,
+    authorMap: {}
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--no-download') {
+      options.downloadAttachments = false;
+    } else if (arg === '--author') {
+      options.fallbackAuthorId = Number(args[++i]);
+    } else if (arg === '--map') {
+      const [login, id] = (args[++i] || '').split('=');
+      if (!login || !Number(id)) {
+        console.error(`❌ Invalid author mapping: ${args[i]}`);
+        return null;
+      }
+      options.authorMap![login] = Number(id);
+    } else if (!arg.startsWith('--') && !file) {
+      file = arg;
+    } else {
+      console.error(`❌ Unknown option: ${arg}`);
+      return null;
+    }
+  }
+
+  if (!file) {
+    console.error('❌ Export file required');
+    return null;
+  }
+  if (!Number.isInteger(options.fallbackAuthorId) || options.fallbackAuthorId <= 0) {
+    console.error('❌ --author <user-id> required');
+    return null;
+  }
+
+  return { file, options };
+}
+
+function formatTally(label: string, tally: ImportTally): string {
+  return `   ${label.padEnd(12)} ${tally.created} new, ${tally.existing} existing, ${tally.skipped} skipped`;
+}
+
+/**
+ * Print an import report
+ */
+function printReport(report: WordPressImportReport): void {
+  console.log(`\n${report.dryRun ? '🧪 Dry run of' : '✅ Imported'} ${report.siteTitle || report.source} (${report.source})\n`);
+
+  console.log(formatTally('Users', report.users));
+  console.log(formatTally('Categories', report.categories));
+  console.log(formatTally('Tags', report.tags));
+  console.log(formatTally('Media', report.media));
+  console.log(formatTally('Posts', report.posts));
+  console.log(formatTally('Pages', report.pages));
+  console.log(formatTally('Comments', report.comments));
+  console.log(`   ${'Meta'.padEnd(12)} ${report.meta} entries`);
+  console.log(`   ${'Blocks'.padEnd(12)} ${report.blocks.converted} converted`);
+
+  const unsupported = Object.entries(report.blocks.unsupported);
+  if (unsupported.length > 0) {
+    console.log('\n🧱 Kept as rich text:\n');
+    for (const [name, count] of unsupported) {
+      console.log(`   ${name} (${count})`);
+    }
+  }
+
+  if (report.authors.length > 0) {
+    console.log('\n👥 Authors:\n');
+    for (const author of report.authors) {
+      const user = author.userId ? ` → user #${author.userId}` : '';
+      console.log(`   ${author.login.padEnd(20)} ${author.action}${user}`);
+    }
+  }
+
+  if (report.warnings.length > 0) {
+    console.log('\n⚠️ Warnings:\n');
+    for (const warning of report.warnings) {
+      console.log(`   ${warning}`);
+    }
+  }
+  console.log('');
+}
+
+/**
+ * Import a WXR file with the given command line arguments
+ */
+export async function importWordPressFile(args: string[]): Promise<void> {
+  if (args.length === 0 || args[0] === 'help' || args.includes('--help')) {
+    showHelp();
+    return;
+  }
+
+  const parsed = parseArgs(args);
+  if (!parsed) {
+    showHelp();
+    return;
+  }
+
+  try {
+    const xml = await readFile(parsed.file, 'utf8');
+    console.log(`📥 ${parsed.options.dryRun ? 'Checking' : 'Importing'} ${parsed.file}...`);
+
+    const result = await importWordPress(xml, parsed.options);
+    if (result.error) {
+      console.error('❌ Import failed:', result.error.message);
+      return;
+    }
+
+    printReport(result.data);
+  } catch (error) {
+    console.error('❌ Import failed:', (error as Error).message);
+  }
+}
+
+/**
+ * WordPress import CLI entry point
+ */
+export async function runWordPressImportCLI(): Promise<void> {
+  // Run as `tsx wordpress-import-cli.ts <args>`, so the arguments follow node and the script
+  await importWordPressFile(process.argv.slice(2));
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runWordPressImportCLI().finally(() => db.$disconnect());
+}
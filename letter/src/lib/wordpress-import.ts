@@ -0,0 +1,831 @@
+import { db } from './db';
+import { tryCatch } from "./try-catch";
+import { parseWxr, type WxrItem, type WxrSite, type WxrTerm } from './wxr';
+import { convertGutenbergContent } from './gutenberg';
+import { updatePostSearchIndex } from './search-index';
+import { isWebURL } from './validation-schemas';
+import type { CommentStatus, PostStatus, PostType, Prisma } from '@prisma/client';
+
+// ====== WORDPRESS IMPORT ======
+// Imports a WordPress WXR export: authors, categories, tags, attachments,
+// posts, pages and custom post types with their meta, and threaded comments.
+// Everything created is recorded in ImportedRecord under the source site's
+// URL, so running the same export again only adds what's new. A dry run
+// goes through the same steps without writing and reports what it would do.
+
+export interface WordPressImportOptions {
+    // Report what the import would do without writing anything
+    dryRun?: boolean;
+    // Author logins mapped to existing users. Authors not mapped are matched
+    // to a user by username or email, or created.
+    authorMap?: Record<string, number>;
+    // Download attachment files into uploads; otherwise media keeps the
+    // original URL
+    downloadAttachments?: boolean;
+    // Owns content whose author isn't in the export
+    fallbackAuthorId: number;
+}
+
+export interface ImportTally {
+    created: number;
+    // Imported by an earlier run, or matched to content that was already here
+    existing: number;
+    skipped: number;
+}
+
+export interface ImportedAuthor {
+    login: string;
+    displayName: string;
+    email: string;
+    action: 'mapped' | 'matched' | 'created' | 'existing';
+    // Null when a dry run would create the user
+    userId: number | null;
+}
+
+export interface WordPressImportReport {
+    dryRun: boolean;
+    source: string;
+    siteTitle: string;
+    authors: ImportedAuthor[];
+    users: ImportTally;
+    categories: ImportTally;
+    tags: ImportTally;
+    media: ImportTally;
+    posts: ImportTally;
+    pages: ImportTally;
+    comments: ImportTally;
+    // Meta entries stored on imported content
+    meta: number;
+    blocks: {
+        converted: number;
+        // Blocks with no counterpart kept as rich text, by block name
+        unsupported: Record<string, number>;
+    };
+    warnings: string[];
+}
+
+type ImportKind = 'user' | 'category' | 'tag' | 'media' | 'post' | 'comment';
+
+interface ImportRun {
+    options: WordPressImportOptions;
+    dryRun: boolean;
+    source: string;
+    report: WordPressImportReport;
+    // `${kind}:${sourceId}` to our id; a dry run hands out negative ids for
+    // what it would create
+    ids: Map<string, number>;
+    nextPlaceholder: number;
+    // Post slugs this run took, which a dry run can't look up
+    slugs: Set<string>;
+    // Attachment URLs on the source site to where the files are now
+    urls: Map<string, string>;
+}
+
+// WordPress bookkeeping that means nothing here
+const SKIPPED_META_KEYS = new Set([
+    '_edit_lock',
+    '_edit_last',
+    '_encloseme',
+    '_pingme',
+    '_thumbnail_id',
+    '_wp_old_slug',
+    '_wp_old_date',
+    '_wp_attached_file',
+    '_wp_attachment_metadata',
+    '_wp_attachment_image_alt',
+    '_wp_trash_meta_status',
+    '_wp_trash_meta_time',
+    '_wp_desired_post_slug'
+]);
+
+// Item types that aren't content, such as menu entries and revisions
+const SKIPPED_ITEM_TYPES = new Set([
+    'revision',
+    'nav_menu_item',
+    'customize_changeset',
+    'custom_css',
+    'oembed_cache',
+    'user_request',
+    'wp_block',
+    'wp_template',
+    'wp_template_part',
+    'wp_global_styles',
+    'wp_navigation'
+]);
+
+const POST_STATUSES: Record<string, PostStatus> = {
+    publish: 'PUBLISHED',
+    future: 'SCHEDULED',
+    draft: 'DRAFT',
+    pending: 'REVIEW',
+    private: 'PRIVATE',
+    trash: 'TRASH'
+};
+
+const MIME_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    mp3: 'audio/mp3',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    pdf: 'application/pdf',
+    doc: 'application/msword',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+function emptyTally(): ImportTally {
+    return { created: 0, existing: 0, skipped: 0 };
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function slugify(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^\w\s-]/g, '')
+        .replace(/\s+/g, '-')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+function commentStatus(approved: string): CommentStatus {
+    if (approved === '1') return 'APPROVED';
+    if (approved === 'spam') return 'SPAM';
+    if (approved === 'trash') return 'TRASH';
+    return 'PENDING';
+}
+
+function metaValue(item: WxrItem, key: string): string | undefined {
+    return item.meta.find(meta => meta.key === key)?.value;
+}
+
+// ====== MAPPINGS ======
+
+function mapped(run: ImportRun, kind: ImportKind, sourceId: string): number | undefined {
+    return run.ids.get(`${kind}:${sourceId}`);
+}
+
+/**
+ * Remember what a source record became. Records created this run are
+ * stored with them, in the same transaction when there is one.
+ */
+async function remember(
+    run: ImportRun,
+    kind: ImportKind,
+    sourceId: string,
+    targetId: number,
+    client: Prisma.TransactionClient = db
+): Promise<void> {
+    run.ids.set(`${kind}:${sourceId}`, targetId);
+    if (run.dryRun) return;
+    await client.importedRecord.upsert({
+        where: { source_kind_sourceId: { source: run.source, kind, sourceId } },
+        create: { source: run.source, kind, sourceId, targetId },
+        update: { targetId }
+    });
+}
+
+function placeholder(run: ImportRun): number {
+    run.nextPlaceholder -= 1;
+    return run.nextPlaceholder;
+}
+
+// A real id, leaving out what a dry run only pretended to create
+function realId(id: number | undefined): number | undefined {
+    return id !== undefined && id > 0 ? id : undefined;
+}
+
+async function loadMappings(run: ImportRun): Promise<void> {
+    const records = await db.importedRecord.findMany({ where: { source: run.source } });
+
+    // Forget records whose content has since been deleted
+    const live: Record<string, Set<number>> = {};
+    const targets = (kind: ImportKind) => records.filter(record => record.kind === kind).map(record => record.targetId);
+    const [users, categories, tags, media, posts, comments] = await Promise.all([
+        db.user.findMany({ where: { id: { in: targets('user') } }, select: { id: true } }),
+        db.category.findMany({ where: { id: { in: targets('category') } }, select: { id: true } }),
+        db.tag.findMany({ where: { id: { in: targets('tag') } }, select: { id: true } }),
+        db.media.findMany({ where: { id: { in: targets('media') } }, select: { id: true } }),
+        db.post.findMany({ where: { id: { in: targets('post') } }, select: { id: true } }),
+        db.comment.findMany({ where: { id: { in: targets('comment') } }, select: { id: true } })
+    ]);
+    live.user = new Set(users.map(row => row.id));
+    live.category = new Set(categories.map(row => row.id));
+    live.tag = new Set(tags.map(row => row.id));
+    live.media = new Set(media.map(row => row.id));
+    live.post = new Set(posts.map(row => row.id));
+    live.comment = new Set(comments.map(row => row.id));
+
+    for (const record of records) {
+        if (live[record.kind]?.has(record.targetId)) {
+            run.ids.set(`${record.kind}:${record.sourceId}`, record.targetId);
+        }
+    }
+}
+
+/**
+ * A post slug no other post has, based on `base`.
+ */
+async function uniquePostSlug(run: ImportRun, base: string): Promise<string> {
+    const root = base || 'untitled';
+    let slug = root;
+    let counter = 1;
+    while (run.slugs.has(slug) || await db.post.findFirst({ where: { slug }, select: { id: true } })) {
+        slug = `${root}-${counter}`;
+        counter++;
+    }
+    run.slugs.add(slug);
+    return slug;
+}
+
+// ====== AUTHORS ======
+
+async function importAuthors(run: ImportRun, site: WxrSite): Promise<void> {
+    for (const author of site.authors) {
+        const entry: ImportedAuthor = {
+            login: author.login,
+            displayName: author.displayName || author.login,
+            email: author.email,
+            action: 'existing',
+            userId: null
+        };
+        run.report.authors.push(entry);
+
+        try {
+            const existing = mapped(run, 'user', author.login);
+            const chosen = run.options.authorMap?.[author.login];
+
+            if (chosen) {
+                const user = await db.user.findUnique({ where: { id: chosen }, select: { id: true } });
+                if (!user) throw new Error(`user #${chosen} doesn't exist`);
+                entry.action = existing === chosen ? 'existing' : 'mapped';
+                entry.userId = chosen;
+                await remember(run, 'user', author.login, chosen);
+                run.report.users.existing++;
+                continue;
+            }
+
+            if (existing) {
+                entry.userId = realId(existing) ?? null;
+                run.report.users.existing++;
+                continue;
+            }
+
+            const match = await db.user.findFirst({
+                where: {
+                    OR: [
+                        { username: author.login },
+                        ...(author.email ? [{ email: author.email }] : [])
+                    ]
+                },
+                select: { id: true }
+            });
+            if (match) {
+                entry.action = 'matched';
+                entry.userId = match.id;
+                await remember(run, 'user', author.login, match.id);
+                run.report.users.existing++;
+                continue;
+            }
+
+            entry.action = 'created';
+            if (run.dryRun) {
+                run.ids.set(`user:${author.login}`, placeholder(run));
+                run.report.users.created++;
+                continue;
+            }
+
+            const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+            const user = await db.$transaction(async (tx) => {
+                const created = await tx.user.create({
+                    data: {
+                        name: author.displayName || name || author.login,
+                        username: author.login,
+                        email: author.email || null,
+                        role: 'AUTHOR'
+                    }
+                });
+                await remember(run, 'user', author.login, created.id, tx);
+                return created;
+            });
+            entry.userId = user.id;
+            run.report.users.created++;
+        } catch (error) {
+            run.report.users.skipped++;
+            run.report.warnings.push(`Author "${author.login}": ${errorMessage(error)}; their content goes to the importing user`);
+        }
+    }
+}
+
+// Our user for a WordPress author login, or the fallback author
+function authorFor(run: ImportRun, login: string): number {
+    return realId(mapped(run, 'user', login)) ?? run.options.fallbackAuthorId;
+}
+
+// ====== TERMS ======
+
+/**
+ * Categories and tags from the export's header and from the items' own
+ * terms, which some exports only list there. Parents come before children.
+ */
+function collectTerms(site: WxrSite, domain: 'category' | 'post_tag'): WxrTerm[] {
+    const terms = new Map<string, WxrTerm>();
+    for (const term of domain === 'category' ? site.categories : site.tags) {
+        if (term.slug) terms.set(term.slug, term);
+    }
+    for (const item of site.items) {
+        for (const term of item.terms) {
+            if (term.domain === domain && term.slug && !terms.has(term.slug)) {
+                terms.set(term.slug, { slug: term.slug, name: term.name || term.slug, parent: '', description: '' });
+            }
+        }
+    }
+
+    const ordered: WxrTerm[] = [];
+    const placed = new Set<string>();
+    const place = (term: WxrTerm, depth: number) => {
+        if (placed.has(term.slug)) return;
+        const parent = terms.get(term.parent);
+        if (parent && parent.slug !== term.slug && depth < 20) place(parent, depth + 1);
+        placed.add(term.slug);
+        ordered.push(term);
+    };
+    terms.forEach(term => place(term, 0));
+    return ordered;
+}
+
+async function importCategories(run: ImportRun, site: WxrSite): Promise<void> {
+    for (const term of collectTerms(site, 'category')) {
+        try {
+            if (mapped(run, 'category', term.slug)) {
+                run.report.categories.existing++;
+                continue;
+            }
+
+            const existing = await db.category.findUnique({ where: { slug: term.slug }, select: { id: true } });
+            if (existing) {
+                await remember(run, 'category', term.slug, existing.id);
+                run.report.categories.existing++;
+                continue;
+            }
+
+            if (run.dryRun) {
+                run.ids.set(`category:${term.slug}`, placeholder(run));
+                run.report.categories.created++;
+                continue;
+            }
+
+            const parentId = term.parent ? realId(mapped(run, 'category', term.parent)) : undefined;
+            await db.$transaction(async (tx) => {
+                const category = await tx.category.create({
+                    data: {
+                        name: term.name || term.slug,
+                        slug: term.slug,
+                        description: term.description || null,
+                        parentId: parentId ?? null
+                    }
+                });
+                await remember(run, 'category', term.slug, category.id, tx);
+            });
+            run.report.categories.created++;
+        } catch (error) {
+            run.report.categories.skipped++;
+            run.report.warnings.push(`Category "${term.slug}": ${errorMessage(error)}`);
+        }
+    }
+}
+
+async function importTags(run: ImportRun, site: WxrSite): Promise<void> {
+    for (const term of collectTerms(site, 'post_tag')) {
+        try {
+            if (mapped(run, 'tag', term.slug)) {
+                run.report.tags.existing++;
+                continue;
+            }
+
+            const existing = await db.tag.findUnique({ where: { slug: term.slug }, select: { id: true } });
+            if (existing) {
+                await remember(run, 'tag', term.slug, existing.id);
+                run.report.tags.existing++;
+                continue;
+            }
+
+            if (run.dryRun) {
+                run.ids.set(`tag:${term.slug}`, placeholder(run));
+                run.report.tags.created++;
+                continue;
+            }
+
+            await db.$transaction(async (tx) => {
+                const tag = await tx.tag.create({
+                    data: { name: term.name || term.slug, slug: term.slug, description: term.description || null }
+                });
+                await remember(run, 'tag', term.slug, tag.id, tx);
+            });
+            run.report.tags.created++;
+        } catch (error) {
+            run.report.tags.skipped++;
+            run.report.warnings.push(`Tag "${term.slug}": ${errorMessage(error)}`);
+        }
+    }
+}
+
+// ====== ATTACHMENTS ======
+
+/**
+ * Download an attachment into uploads, named like uploaded media.
+ */
+async function downloadAttachment(url: string): Promise<{ filePath: string; fileSize: number }> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(60_000) });
+    if (!response.ok) throw new Error(`download failed with HTTP ${response.status}`);
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() || 'bin';
+    const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${extension}`;
+    const uploadDir = './public/uploads';
+
+    const fs = await import('fs');
+    if (!fs.existsSync(uploadDir)) {
+        fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    fs.writeFileSync(`${uploadDir}/${fileName}`, buffer);
+
+    return { filePath: `/uploads/${fileName}`, fileSize: buffer.length };
+}
+
+async function importAttachments(run: ImportRun, attachments: WxrItem[]): Promise<void> {
+    // Media imported earlier keeps serving its source URLs
+    const existingIds = attachments
+        .map(item => realId(mapped(run, 'media', item.id)))
+        .filter((id): id is number => id !== undefined);
+    const existingMedia = await db.media.findMany({
+        where: { id: { in: existingIds } },
+        select: { id: true, filePath: true }
+    });
+    const pathOf = new Map(existingMedia.map(media => [media.id, media.filePath]));
+
+    for (const item of attachments) {
+        const url = item.attachmentUrl;
+        try {
+            const existing = mapped(run, 'media', item.id);
+            if (existing) {
+                const filePath = pathOf.get(existing);
+                if (filePath) run.urls.set(url, filePath);
+                run.report.media.existing++;
+                continue;
+            }
+            if (!url) throw new Error('no attachment URL');
+
+            if (run.dryRun) {
+                run.ids.set(`media:${item.id}`, placeholder(run));
+                run.report.media.created++;
+                continue;
+            }
+
+            let file = { filePath: url, fileSize: 0 };
+            if (run.options.downloadAttachments) {
+                try {
+                    file = await downloadAttachment(url);
+                } catch (error) {
+                    run.report.warnings.push(`Attachment ${url}: ${errorMessage(error)}; linked to the original instead`);
+                }
+            }
+
+            const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || item.slug || 'attachment');
+            const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+            await db.$transaction(async (tx) => {
+                const media = await tx.media.create({
+                    data: {
+                        fileName,
+                        filePath: file.filePath,
+                        fileType: MIME_TYPES[extension] ?? 'application/octet-stream',
+                        fileSize: file.fileSize,
+                        title: item.title || null,
+                        caption: item.excerpt || null,
+                        altText: metaValue(item, '_wp_attachment_image_alt') || null,
+                        authorId: authorFor(run, item.creator),
+                        createdAt: item.date ?? undefined
+                    }
+                });
+                await remember(run, 'media', item.id, media.id, tx);
+            });
+            run.urls.set(url, file.filePath);
+            run.report.media.created++;
+        } catch (error) {
+            run.report.media.skipped++;
+            run.report.warnings.push(`Attachment #${item.id}: ${errorMessage(error)}`);
+        }
+    }
+}
+
+// Point attachment URLs in content at the imported media, including the
+// resized copies WordPress names like photo-300x200.jpg
+function rewriteAttachmentUrls(run: ImportRun, value: string): string {
+    let result = value;
+    for (const [from, to] of run.urls) {
+        if (from === to) continue;
+        const dot = from.lastIndexOf('.');
+        const sized = dot === -1 ? null : new RegExp(
+            `${escapeRegExp(from.slice(0, dot))}-\\d+x\\d+${escapeRegExp(from.slice(dot))}`,
+            'g'
+        );
+        result = result.split(from).join(to);
+        if (sized) result = result.replace(sized, to);
+    }
+    return result;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ====== POSTS ======
+
+/**
+ * What an item becomes: a post, a page or one of our custom post types.
+ * Null for items we don't import.
+ */
+function itemType(item: WxrItem, customTypes: Set<string>): { type: PostType; customType: string | null } | null {
+    if (item.type === 'post') return { type: 'POST', customType: null };
+    if (item.type === 'page') return { type: 'PAGE', customType: null };
+    if (customTypes.has(item.type)) return { type: 'POST', customType: item.type };
+    return null;
+}
+
+async function importPost(
+    run: ImportRun,
+    item: WxrItem,
+    kind: { type: PostType; customType: string | null }
+): Promise<void> {
+    const tally = kind.type === 'PAGE' ? run.report.pages : run.report.posts;
+
+    if (mapped(run, 'post', item.id)) {
+        tally.existing++;
+        return;
+    }
+
+    const status = POST_STATUSES[item.status];
+    if (!status) {
+        tally.skipped++;
+        return;
+    }
+
+    const conversion = convertGutenbergContent(item.content, value => rewriteAttachmentUrls(run, value));
+    const slug = await uniquePostSlug(run, item.slug || slugify(item.title) || `wordpress-${item.id}`);
+    const meta = new Map<string, string>();
+    for (const entry of item.meta) {
+        if (entry.key && !SKIPPED_META_KEYS.has(entry.key) && !meta.has(entry.key)) meta.set(entry.key, entry.value);
+    }
+
+    const counted = () => {
+        tally.created++;
+        run.report.meta += meta.size;
+        run.report.blocks.converted += conversion.blocks.length;
+        for (const name of conversion.unsupported) {
+            run.report.blocks.unsupported[name] = (run.report.blocks.unsupported[name] ?? 0) + 1;
+        }
+    };
+
+    if (run.dryRun) {
+        run.ids.set(`post:${item.id}`, placeholder(run));
+        counted();
+        return;
+    }
+
+    const categoryIds = item.terms
+        .filter(term => term.domain === 'category')
+        .map(term => realId(mapped(run, 'category', term.slug)))
+        .filter((id): id is number => id !== undefined);
+    const tagIds = item.terms
+        .filter(term => term.domain === 'post_tag')
+        .map(term => realId(mapped(run, 'tag', term.slug)))
+        .filter((id): id is number => id !== undefined);
+    const thumbnail = metaValue(item, '_thumbnail_id');
+    const trashedFrom = POST_STATUSES[metaValue(item, '_wp_trash_meta_status') ?? ''];
+
+    await db.$transaction(async (tx) => {
+        const post = await tx.post.create({
+            data: {
+                title: item.title || '(no title)',
+                slug,
+                excerpt: item.excerpt || null,
+                status,
+                type: kind.type,
+                customType: kind.customType,
+                authorId: authorFor(run, item.creator),
+                menuOrder: item.menuOrder,
+                commentStatus: item.commentStatus !== 'closed',
+                pingStatus: item.pingStatus !== 'closed',
+                publishedAt: status === 'DRAFT' || status === 'REVIEW' ? null : item.date,
+                featuredImage: thumbnail ? realId(mapped(run, 'media', thumbnail)) ?? null : null,
+                trashedAt: status === 'TRASH' ? new Date() : null,
+                statusBeforeTrash: status === 'TRASH' ? trashedFrom ?? 'DRAFT' : null,
+                createdAt: item.date ?? undefined
+            }
+        });
+
+        if (conversion.blocks.length > 0) {
+            await tx.contentBlock.createMany({
+                data: conversion.blocks.map((block, index) => ({
+                    postId: post.id,
+                    blockType: block.blockType,
+                    order: index,
+                    content: block.content as Prisma.InputJsonValue,
+                    attributes: block.attributes as Prisma.InputJsonValue
+                }))
+            });
+        }
+        if (meta.size > 0) {
+            await tx.postMeta.createMany({
+                data: [...meta].map(([metaKey, value]) => ({ postId: post.id, metaKey, metaValue: value }))
+            });
+        }
+        if (categoryIds.length > 0) {
+            await tx.postCategory.createMany({
+                data: categoryIds.map(categoryId => ({ postId: post.id, categoryId })),
+                skipDuplicates: true
+            });
+        }
+        if (tagIds.length > 0) {
+            await tx.postTag.createMany({
+                data: tagIds.map(tagId => ({ postId: post.id, tagId })),
+                skipDuplicates: true
+            });
+        }
+
+        await updatePostSearchIndex(tx, post.id);
+        await remember(run, 'post', item.id, post.id, tx);
+    });
+    counted();
+}
+
+/**
+ * Link imported posts and pages to their parents, once every parent has
+ * been imported.
+ */
+async function linkPostParents(run: ImportRun, items: WxrItem[], createdIds: Set<number>): Promise<void> {
+    if (run.dryRun) return;
+    for (const item of items) {
+        const id = realId(mapped(run, 'post', item.id));
+        const parentId = item.parent && item.parent !== '0' ? realId(mapped(run, 'post', item.parent)) : undefined;
+        if (id && parentId && createdIds.has(id)) {
+            await db.post.update({ where: { id }, data: { parentId } });
+        }
+    }
+}
+
+// ====== COMMENTS ======
+
+async function importComments(run: ImportRun, site: WxrSite, items: WxrItem[]): Promise<void> {
+    const loginOf = new Map(site.authors.map(author => [author.id, author.login]));
+    const created: { sourceId: string; parent: string }[] = [];
+
+    for (const item of items) {
+        const postId = mapped(run, 'post', item.id);
+        for (const comment of item.comments) {
+            try {
+                if (mapped(run, 'comment', comment.id)) {
+                    run.report.comments.existing++;
+                    continue;
+                }
+                // Our comments have no pingbacks or trackbacks
+                if (comment.type || postId === undefined) {
+                    run.report.comments.skipped++;
+                    continue;
+                }
+
+                if (run.dryRun) {
+                    run.ids.set(`comment:${comment.id}`, placeholder(run));
+                    run.report.comments.created++;
+                    continue;
+                }
+
+                const login = loginOf.get(comment.userId);
+                await db.$transaction(async (tx) => {
+                    const record = await tx.comment.create({
+                        data: {
+                            postId,
+                            authorId: login ? realId(mapped(run, 'user', login)) ?? null : null,
+                            authorName: comment.author || 'Anonymous',
+                            authorEmail: comment.authorEmail,
+                            // Linked from the comment, so only web addresses are kept
+                            authorUrl: isWebURL(comment.authorUrl) ? comment.authorUrl : null,
+                            authorIp: comment.authorIp || null,
+                            content: comment.content,
+                            status: commentStatus(comment.approved),
+                            trashedAt: comment.approved === 'trash' ? new Date() : null,
+                            createdAt: comment.date ?? undefined
+                        }
+                    });
+                    await remember(run, 'comment', comment.id, record.id, tx);
+                });
+                created.push({ sourceId: comment.id, parent: comment.parent });
+                run.report.comments.created++;
+            } catch (error) {
+                run.report.comments.skipped++;
+                run.report.warnings.push(`Comment #${comment.id} on "${item.title}": ${errorMessage(error)}`);
+            }
+        }
+    }
+
+    // Thread replies once every comment they answer exists
+    for (const comment of created) {
+        const id = realId(mapped(run, 'comment', comment.sourceId));
+        const parentId = comment.parent && comment.parent !== '0' ? realId(mapped(run, 'comment', comment.parent)) : undefined;
+        if (id && parentId) {
+            await db.comment.update({ where: { id }, data: { parentId } });
+        }
+    }
+}
+
+// ====== IMPORT ======
+
+/**
+ * Import a WXR export, or with `dryRun` report what importing it would do.
+ */
+export async function importWordPress(xml: string, options: WordPressImportOptions) {
+    "use server";
+    return tryCatch(async (): Promise<WordPressImportReport> => {
+        const site = parseWxr(xml);
+        const source = site.baseUrl;
+        if (!source) throw new Error('The export doesn\'t name the site it came from');
+
+        const run: ImportRun = {
+            options,
+            dryRun: options.dryRun ?? false,
+            source,
+            report: {
+                dryRun: options.dryRun ?? false,
+                source,
+                siteTitle: site.title,
+                authors: [],
+                users: emptyTally(),
+                categories: emptyTally(),
+                tags: emptyTally(),
+                media: emptyTally(),
+                posts: emptyTally(),
+                pages: emptyTally(),
+                comments: emptyTally(),
+                meta: 0,
+                blocks: { converted: 0, unsupported: {} },
+                warnings: []
+            },
+            ids: new Map(),
+            nextPlaceholder: 0,
+            slugs: new Set(),
+            urls: new Map()
+        };
+
+        await loadMappings(run);
+        await importAuthors(run, site);
+        await importCategories(run, site);
+        await importTags(run, site);
+        await importAttachments(run, site.items.filter(item => item.type === 'attachment'));
+
+        const customTypes = new Set(
+            (await db.postTypeDefinition.findMany({ select: { name: true } })).map(postType => postType.name)
+        );
+        const contentItems: WxrItem[] = [];
+        const skippedTypes = new Map<string, number>();
+        for (const item of site.items) {
+            if (item.type === 'attachment') continue;
+            if (!SKIPPED_ITEM_TYPES.has(item.type) && !itemType(item, customTypes)) {
+                skippedTypes.set(item.type, (skippedTypes.get(item.type) ?? 0) + 1);
+            }
+            if (item.id && itemType(item, customTypes)) contentItems.push(item);
+        }
+        for (const [type, count] of skippedTypes) {
+            run.report.warnings.push(`Skipped ${count} "${type}" items; create a post type named ${type} to import them`);
+        }
+
+        const before = new Set(contentItems.map(item => mapped(run, 'post', item.id)));
+        for (const item of contentItems) {
+            const kind = itemType(item, customTypes)!;
+            try {
+                await importPost(run, item, kind);
+            } catch (error) {
+                const tally = kind.type === 'PAGE' ? run.report.pages : run.report.posts;
+                tally.skipped++;
+                run.report.warnings.push(`"${item.title}" (#${item.id}): ${errorMessage(error)}`);
+            }
+        }
+        const createdIds = new Set(
+            contentItems
+                .map(item => mapped(run, 'post', item.id))
+                .filter((id): id is number => id !== undefined && !before.has(id))
+        );
+        await linkPostParents(run, contentItems, createdIds);
+
+        await importComments(run, site, contentItems);
+
+        return run.report;
+    });
+}
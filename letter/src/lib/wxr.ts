@@ -0,0 +1,312 @@
+// ====== WXR ======
+// Reads WordPress eXtended RSS export files. WXR is plain RSS with WordPress
+// elements in the wp: namespace, so a small reader that keeps qualified names
+// and joins text and CDATA sections covers it without an XML dependency.
+
+interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+export interface WxrAuthor {
+    id: string;
+    login: string;
+    email: string;
+    displayName: string;
+    firstName: string;
+    lastName: string;
+}
+
+export interface WxrTerm {
+    slug: string;
+    name: string;
+    // Slug of the parent category, empty at the top level
+    parent: string;
+    description: string;
+}
+
+export interface WxrComment {
+    id: string;
+    author: string;
+    authorEmail: string;
+    authorUrl: string;
+    authorIp: string;
+    date: Date | null;
+    content: string;
+    // 1, 0, spam or trash
+    approved: string;
+    // Empty for comments, pingback or trackback otherwise
+    type: string;
+    parent: string;
+    // WordPress author id of a logged-in commenter, 0 otherwise
+    userId: string;
+}
+
+export interface WxrItem {
+    id: string;
+    title: string;
+    link: string;
+    // Login of the author
+    creator: string;
+    content: string;
+    excerpt: string;
+    date: Date | null;
+    slug: string;
+    status: string;
+    parent: string;
+    menuOrder: number;
+    type: string;
+    commentStatus: string;
+    pingStatus: string;
+    attachmentUrl: string;
+    // domain is category, post_tag or a custom taxonomy
+    terms: { domain: string; slug: string; name: string }[];
+    meta: { key: string; value: string }[];
+    comments: WxrComment[];
+}
+
+export interface WxrSite {
+    title: string;
+    link: string;
+    // Identifies the site across imports of its exports
+    baseUrl: string;
+    authors: WxrAuthor[];
+    categories: WxrTerm[];
+    tags: WxrTerm[];
+    items: WxrItem[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' '
+};
+
+/**
+ * Decode XML character references and the named entities WordPress emits.
+ */
+export function decodeXmlEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, ref: string) => {
+        if (ref[0] === '#') {
+            const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+            return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return NAMED_ENTITIES[ref.toLowerCase()] ?? entity;
+    });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+/**
+ * Parse an XML document into its root element. Throws on markup that
+ * isn't well formed enough to follow.
+ */
+function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    let index = 0;
+
+    const fail = (message: string): never => {
+        const line = xml.slice(0, index).split('\n').length;
+        throw new Error(`${message} on line ${line}`);
+    };
+
+    while (index < xml.length) {
+        const open = xml.indexOf('<', index);
+        const current = stack[stack.length - 1];
+
+        if (open === -1) {
+            current.text += decodeXmlEntities(xml.slice(index));
+            break;
+        }
+        if (open > index) {
+            current.text += decodeXmlEntities(xml.slice(index, open));
+        }
+        index = open;
+
+        if (xml.startsWith('<![CDATA[', index)) {
+            const end = xml.indexOf(']]>', index);
+            if (end === -1) fail('Unclosed CDATA section');
+            current.text += xml.slice(index + 9, end);
+            index = end + 3;
+        } else if (xml.startsWith('<!--', index)) {
+            const end = xml.indexOf('-->', index);
+            if (end === -1) fail('Unclosed comment');
+            index = end + 3;
+        } else if (xml.startsWith('<?', index)) {
+            const end = xml.indexOf('?>', index);
+            if (end === -1) fail('Unclosed processing instruction');
+            index = end + 2;
+        } else if (xml.startsWith('<!', index)) {
+            const end = xml.indexOf('>', index);
+            if (end === -1) fail('Unclosed declaration');
+            index = end + 1;
+        } else if (xml.startsWith('</', index)) {
+            const end = xml.indexOf('>', index);
+            if (end === -1) fail('Unclosed end tag');
+            const name = xml.slice(index + 2, end).trim();
+            if (current.name !== name) fail(`Unexpected </${name}>, expected </${current.name}>`);
+            stack.pop();
+            index = end + 1;
+        } else {
+            const end = xml.indexOf('>', index);
+            if (end === -1) fail('Unclosed start tag');
+            const selfClosing = xml[end - 1] === '/';
+            const tag = xml.slice(index + 1, selfClosing ? end - 1 : end);
+            const nameEnd = tag.search(/\s|$/);
+            const element: XmlElement = {
+                name: tag.slice(0, nameEnd),
+                attributes: parseAttributes(tag.slice(nameEnd)),
+                children: [],
+                text: ''
+            };
+            current.children.push(element);
+            if (!selfClosing) stack.push(element);
+            index = end + 1;
+        }
+    }
+
+    if (stack.length > 1) fail(`Unclosed <${stack[stack.length - 1].name}>`);
+    return root;
+}
+
+function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+    return element?.children.find(candidate => candidate.name === name);
+}
+
+function childrenNamed(element: XmlElement | undefined, name: string): XmlElement[] {
+    return element?.children.filter(candidate => candidate.name === name) ?? [];
+}
+
+function text(element: XmlElement | undefined, name: string): string {
+    return child(element, name)?.text.trim() ?? '';
+}
+
+// Raw text, for post and comment bodies whose whitespace matters
+function body(element: XmlElement | undefined, name: string): string {
+    return child(element, name)?.text ?? '';
+}
+
+/**
+ * A WordPress date, preferring the GMT column. WordPress writes
+ * 0000-00-00 00:00:00 for dates that were never set.
+ */
+function wxrDate(gmt: string, local: string): Date | null {
+    for (const value of [gmt, local]) {
+        const match = value.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+        if (!match || match[1] === '0000') continue;
+        const [, year, month, day, hour, minute, second] = match.map(Number);
+        return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    }
+    return null;
+}
+
+function readTerm(element: XmlElement, prefix: 'category' | 'tag'): WxrTerm {
+    return prefix === 'category'
+        ? {
+            slug: text(element, 'wp:category_nicename'),
+            name: text(element, 'wp:cat_name'),
+            parent: text(element, 'wp:category_parent'),
+            description: text(element, 'wp:category_description')
+        }
+        : {
+            slug: text(element, 'wp:tag_slug'),
+            name: text(element, 'wp:tag_name'),
+            parent: '',
+            description: text(element, 'wp:tag_description')
+        };
+}
+
+function readComment(element: XmlElement): WxrComment {
+    return {
+        id: text(element, 'wp:comment_id'),
+        author: text(element, 'wp:comment_author'),
+        authorEmail: text(element, 'wp:comment_author_email'),
+        authorUrl: text(element, 'wp:comment_author_url'),
+        authorIp: text(element, 'wp:comment_author_IP'),
+        date: wxrDate(text(element, 'wp:comment_date_gmt'), text(element, 'wp:comment_date')),
+        content: body(element, 'wp:comment_content'),
+        approved: text(element, 'wp:comment_approved'),
+        type: text(element, 'wp:comment_type').replace(/^comment$/, ''),
+        parent: text(element, 'wp:comment_parent'),
+        userId: text(element, 'wp:comment_user_id')
+    };
+}
+
+function readItem(element: XmlElement): WxrItem {
+    return {
+        id: text(element, 'wp:post_id'),
+        title: text(element, 'title'),
+        link: text(element, 'link'),
+        creator: text(element, 'dc:creator'),
+        content: body(element, 'content:encoded'),
+        excerpt: body(element, 'excerpt:encoded').trim(),
+        date: wxrDate(text(element, 'wp:post_date_gmt'), text(element, 'wp:post_date')),
+        slug: decodeURIComponentSafe(text(element, 'wp:post_name')),
+        status: text(element, 'wp:status'),
+        parent: text(element, 'wp:post_parent'),
+        menuOrder: Number(text(element, 'wp:menu_order')) || 0,
+        type: text(element, 'wp:post_type'),
+        commentStatus: text(element, 'wp:comment_status'),
+        pingStatus: text(element, 'wp:ping_status'),
+        attachmentUrl: text(element, 'wp:attachment_url'),
+        terms: childrenNamed(element, 'category').map(term => ({
+            domain: term.attributes.domain ?? 'category',
+            slug: decodeURIComponentSafe(term.attributes.nicename ?? ''),
+            name: term.text.trim()
+        })),
+        meta: childrenNamed(element, 'wp:postmeta').map(meta => ({
+            key: text(meta, 'wp:meta_key'),
+            value: body(meta, 'wp:meta_value')
+        })),
+        comments: childrenNamed(element, 'wp:comment').map(readComment)
+    };
+}
+
+// WordPress stores non-ASCII slugs percent-encoded
+function decodeURIComponentSafe(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Read a WXR export into its site, authors, terms and items.
+ */
+export function parseWxr(xml: string): WxrSite {
+    const channel = child(child(parseXml(xml), 'rss'), 'channel');
+    if (!channel || !child(channel, 'wp:wxr_version')) {
+        throw new Error('Not a WordPress export file (no WXR channel found)');
+    }
+
+    const link = text(channel, 'link');
+    return {
+        title: text(channel, 'title'),
+        link,
+        baseUrl: (text(channel, 'wp:base_blog_url') || text(channel, 'wp:base_site_url') || link).replace(/\/+$/, ''),
+        authors: childrenNamed(channel, 'wp:author').map(author => ({
+            id: text(author, 'wp:author_id'),
+            login: text(author, 'wp:author_login'),
+            email: text(author, 'wp:author_email'),
+            displayName: text(author, 'wp:author_display_name'),
+            firstName: text(author, 'wp:author_first_name'),
+            lastName: text(author, 'wp:author_last_name')
+        })),
+        categories: childrenNamed(channel, 'wp:category').map(term => readTerm(term, 'category')),
+        tags: childrenNamed(channel, 'wp:tag').map(term => readTerm(term, 'tag')),
+        items: childrenNamed(channel, 'item').map(readItem)
+    };
+}
@@ -1,4 +1,8 @@
 import type { MiddlewareFn } from "@solidjs/start/middleware";
+import { findRedirect } from "~/lib/page-hierarchy";
+
+// Paths never served by public content, so never redirected
+const NON_CONTENT_PREFIXES = ["/_build/", "/_server", "/api/", "/admin", "/login"];
 
 export default (async (event: any) => {
   // Add security headers for all requests
@@ -28,5 +32,32 @@ export default (async (event: any) => {
       ...event.nativeEvent.responseHeaders,
       "Cache-Control": "public, max-age=31536000, immutable",
     };
+    return;
+  }
+
+  // Preview links show unpublished content: keep them out of indexes and caches
+  if (url.pathname.startsWith("/preview/")) {
+    event.nativeEvent.responseHeaders = {
+      ...event.nativeEvent.responseHeaders,
+      "X-Robots-Tag": "noindex, nofollow",
+      "Cache-Control": "private, no-store",
+      "Referrer-Policy": "no-referrer",
+    };
+    return;
+  }
+
+  // Send moved pages to their new path
+  const method = event.request.method;
+  if (
+    (method === "GET" || method === "HEAD") &&
+    !NON_CONTENT_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))
+  ) {
+    const target = await findRedirect(url.pathname);
+    if (target) {
+      return new Response(null, {
+        status: target.statusCode,
+        headers: { Location: `${target.toPath}${url.search}` },
+      });
+    }
   }
 }) satisfies MiddlewareFn;
\ No newline at end of file
@@ -1,23 +1,94 @@
 // we use a hacky way to handle 404s
-// We check our pages and slugs to see if we have a match
+// We check post permalinks and hierarchical page paths to see if we have a match
 // If not, we render a 404 page
 
 import { useLocation, createAsync } from "@solidjs/router";
 import { Show } from "solid-js";
-import { getPublishedPageBySlug } from "../lib";
+import {
+  getPublicPost,
+  getPageIdByPath,
+  getPostByPermalink,
+  getCommentThread,
+  getRelatedPosts,
+  getSiteSettings,
+  getPostSeoMeta,
+  getStructuredData,
+  getBreadcrumbs,
+  buildPostPath,
+  DEFAULT_PERMALINK_STRUCTURE,
+} from "../lib";
+import { getSessionOptional } from "~/lib/auth-utils";
+import { canViewPost } from "~/lib/permissions";
+import { ThemedLayout } from "~/components/theme";
+import { PostView } from "~/components/theme/post-view";
+import { PageView } from "~/components/theme/page-view";
 
-// Server function to get page by slug
-async function getPageBySlug(slug: string) {
+// Server function to resolve a page by its path through the page hierarchy
+async function getPageView(path: string) {
   "use server";
 
-  const result = await getPublishedPageBySlug(slug);
+  const pageId = await getPageIdByPath(path);
+  if (!pageId) return null;
 
-  // Only return published pages
-  if (result.data) {
-    return result.data;
-  }
+  const result = await getPublicPost(pageId);
+  const page = result.data;
 
-  return null;
+  if (!page) return null;
+
+  const session = await getSessionOptional();
+  if (!canViewPost(page, session)) return null;
+
+  const breadcrumbs = (await getBreadcrumbs("page", page.id)).data || [];
+  const seo = await getPostSeoMeta(page, breadcrumbs[breadcrumbs.length - 1]?.url ?? path, "website");
+
+  return {
+    page,
+    breadcrumbs,
+    seo,
+    structuredData: await getStructuredData({
+      kind: "page",
+      seo,
+      post: page,
+      breadcrumbs,
+    }),
+  };
+}
+
+// Server function to resolve a post permalink with everything the post view needs
+async function getPostView(path: string) {
+  "use server";
+
+  const result = await getPostByPermalink(path);
+  const post = result.data;
+
+  if (!post) return null;
+
+  const session = await getSessionOptional();
+  if (!canViewPost(post, session)) return null;
+
+  const [comments, relatedPosts, settings, breadcrumbs] = await Promise.all([
+    getCommentThread(post.id),
+    getRelatedPosts(post.id, 3),
+    getSiteSettings(),
+    getBreadcrumbs("post", post.id),
+  ]);
+  const permalinkStructure = settings.data?.permalinkStructure ?? DEFAULT_PERMALINK_STRUCTURE;
+  const seo = await getPostSeoMeta(post, buildPostPath(post, permalinkStructure));
+
+  return {
+    post,
+    comments: comments.data,
+    commenter: session?.user ? session.user.name || session.user.username : null,
+    relatedPosts: relatedPosts.data || [],
+    permalinkStructure,
+    seo,
+    structuredData: await getStructuredData({
+      kind: "post",
+      seo,
+      post,
+      breadcrumbs: breadcrumbs.data || [],
+    }),
+  };
 }
 
 export default function NotFound() {
@@ -27,74 +98,70 @@ export default function NotFound() {
   // Extract slug from path (remove leading slash)
   const slug = path.startsWith("/") ? path.slice(1) : path;
 
-  // Only check for pages if it's a top-level slug (no slashes)
-  // and not already handled by other routes
-  const shouldCheckForPage =
-    slug &&
-    !slug.includes("/") &&
-    !slug.startsWith("admin") &&
-    !slug.startsWith("api") &&
-    !slug.startsWith("login");
-
-  // Try to find a page with this slug
-  const page = createAsync(
-    () => (shouldCheckForPage ? getPageBySlug(slug) : Promise.resolve(null)),
+  // Skip lookups for paths already handled by other routes
+  const isReserved =
+    slug.startsWith("admin") ||
+    slug.startsWith("api") ||
+    slug.startsWith("login");
+
+  // Try to find a post whose permalink matches this path
+  const postView = createAsync(
+    () => (slug && !isReserved ? getPostView(path) : Promise.resolve(null)),
+    {
+      deferStream: true,
+    }
+  );
+
+  // Try to find a page at this path, e.g. /about/team/leadership
+  const pageView = createAsync(
+    () => (slug && !isReserved ? getPageView(path) : Promise.resolve(null)),
     {
       deferStream: true,
     }
   );
 
   return (
-    <Show when={page()} fallback={<NotFoundPage />}>
-      <PageView page={page()!} />
+    <Show
+      when={postView()}
+      fallback={
+        <Show when={pageView()} fallback={<NotFoundPage />}>
+          {(view) => <PageRoute view={view()} />}
+        </Show>
+      }
+    >
+      {(view) => (
+        <ThemedLayout
+          title={view().post.title}
+          description={view().post.excerpt || undefined}
+          layoutType="post"
+          seo={view().seo}
+          structuredData={view().structuredData}
+        >
+          <PostView
+            post={view().post}
+            comments={view().comments}
+            commenter={view().commenter}
+            relatedPosts={view().relatedPosts}
+            permalinkStructure={view().permalinkStructure}
+          />
+        </ThemedLayout>
+      )}
     </Show>
   );
 }
 
 // Component to render a page
-function PageView(props: { page: any }) {
+function PageRoute(props: { view: NonNullable<Awaited<ReturnType<typeof getPageView>>> }) {
   return (
-    <div class="min-h-screen bg-gray-50">
-      <div class="max-w-4xl mx-auto px-4 py-8">
-        <article class="bg-white rounded-lg shadow-sm p-8">
-          <header class="mb-8">
-            <h1 class="text-4xl font-bold text-gray-900 mb-4">
-              {props.page.title}
-            </h1>
-            <Show when={props.page.excerpt}>
-              <p class="text-xl text-gray-600 leading-relaxed">
-                {props.page.excerpt}
-              </p>
-            </Show>
-            <div class="flex items-center text-sm text-gray-500 mt-6">
-              <Show when={props.page.publishedAt}>
-                <time dateTime={props.page.publishedAt}>
-                  Published on{" "}
-                  {new Date(props.page.publishedAt).toLocaleDateString()}
-                </time>
-              </Show>
-              <Show when={props.page.author}>
-                <span class="mx-2">•</span>
-                <span>
-                  By {props.page.author.name || props.page.author.username}
-                </span>
-              </Show>
-            </div>
-          </header>
-
-          <div class="prose prose-lg max-w-none">
-            <Show
-              when={props.page.content && typeof props.page.content === 'string'}
-              fallback={
-                <p class="text-gray-500 italic">No content available.</p>
-              }
-            >
-              <div innerHTML={props.page.content} />
-            </Show>
-          </div>
-        </article>
-      </div>
-    </div>
+    <ThemedLayout
+      title={props.view.page.title}
+      description={props.view.page.excerpt || undefined}
+      layoutType="page"
+      seo={props.view.seo}
+      structuredData={props.view.structuredData}
+    >
+      <PageView page={props.view.page} breadcrumbs={props.view.breadcrumbs} />
+    </ThemedLayout>
   );
 }
 
@@ -0,0 +1,116 @@
+// Entries of public custom post types, e.g. /products/blue-widget
+// Other two-segment paths, like nested pages or post permalinks, are handed
+// on to the catch-all route
+
+import { useParams, createAsync } from "@solidjs/router";
+import { Show } from "solid-js";
+import {
+  getPublicPostType,
+  getPostBySlug,
+  getCommentThread,
+  getPostSeoMeta,
+  getStructuredData,
+  buildCustomFieldValues,
+  postTypeArchivePath,
+  customPostPath,
+  DEFAULT_PERMALINK_STRUCTURE,
+} from "../../lib";
+import { getSessionOptional } from "~/lib/auth-utils";
+import { canViewPost } from "~/lib/permissions";
+import { ThemedLayout } from "~/components/theme";
+import { PostView } from "~/components/theme/post-view";
+import { Breadcrumbs } from "~/components/theme/archive-view";
+import { CustomFieldsView } from "~/components/theme/custom-fields-view";
+import ContentRoute from "../[...404]";
+
+// Server function to get a custom post type entry with its field values
+async function getPostTypeEntry(base: string, slug: string) {
+  "use server";
+
+  const typeResult = await getPublicPostType(base);
+  const postType = typeResult.data;
+
+  if (!postType) return null;
+
+  const result = await getPostBySlug(slug);
+  const post = result.data;
+
+  if (!post || post.customType !== postType.name) return null;
+
+  const session = await getSessionOptional();
+  if (!canViewPost(post, session)) return null;
+
+  const path = customPostPath(postType, post.slug);
+  const breadcrumbs = [
+    { name: "Home", url: "/" },
+    { name: postType.label, url: postTypeArchivePath(postType) },
+    { name: post.title, url: path },
+  ];
+
+  const supportsComments = postType.supports.includes("comments");
+  const comments = supportsComments ? (await getCommentThread(post.id)).data : null;
+  const seo = await getPostSeoMeta(post, path);
+
+  return {
+    postType: {
+      name: postType.name,
+      label: postType.label,
+      supportsComments,
+    },
+    post,
+    comments,
+    commenter: session?.user ? session.user.name || session.user.username : null,
+    fields: postType.customFields.map(({ name, label, type }) => ({ name, label, type })),
+    values: buildCustomFieldValues(postType.customFields, post.postMeta),
+    breadcrumbs,
+    seo,
+    structuredData: await getStructuredData({
+      kind: "post",
+      seo,
+      post,
+      breadcrumbs,
+    }),
+  };
+}
+
+export default function PostTypeEntry() {
+  const params = useParams();
+
+  const data = createAsync(
+    () => getPostTypeEntry(params.type, params.slug),
+    { deferStream: true }
+  );
+
+  // null once loaded means this isn't an entry of a public post type
+  return (
+    <Show when={data() !== undefined}>
+      <Show when={data()} fallback={<ContentRoute />}>
+        {(view) => (
+          <ThemedLayout
+            title={view().post.title}
+            description={view().post.excerpt || undefined}
+            layoutType="post"
+            postType={view().postType.name}
+            fields={view().values}
+            seo={view().seo}
+            structuredData={view().structuredData}
+          >
+            <div class="px-8 pt-8">
+              <Breadcrumbs items={view().breadcrumbs} />
+            </div>
+            <PostView
+              post={view().post}
+              comments={view().comments}
+              commenter={view().commenter}
+              relatedPosts={[]}
+              permalinkStructure={DEFAULT_PERMALINK_STRUCTURE}
+              hideComments={!view().postType.supportsComments}
+            >
+              <CustomFieldsView fields={view().fields} values={view().values} />
+            </PostView>
+          </ThemedLayout>
+        )}
+      </Show>
+    </Show>
+  );
+}
@@ -0,0 +1,126 @@
+// Term archives of custom taxonomies, e.g. /products/brand/acme
+// Any other three-segment path, like a nested page, is handed on to the
+// catch-all route, which resolves pages and posts
+
+import { useParams, useSearchParams, createAsync, A } from "@solidjs/router";
+import { For, Show } from "solid-js";
+import {
+  getPublicTaxonomyTerm,
+  getArchivePosts,
+  getSeoMeta,
+  getStructuredData,
+  postTypeArchivePath,
+  taxonomyTermPath,
+} from "../../../lib";
+import { ThemedLayout } from "~/components/theme";
+import { ArchiveView, parsePageParam, archivePageUrl } from "~/components/theme/archive-view";
+import ContentRoute from "../../[...404]";
+
+// Server function to get a term archive page, including entries of child terms
+async function getTermArchive(base: string, taxonomyName: string, termSlug: string, page: number) {
+  "use server";
+
+  const result = await getPublicTaxonomyTerm(base, taxonomyName, termSlug);
+  const term = result.data;
+
+  if (!term) return null;
+
+  const postType = term.taxonomy.postType;
+  const archive = await getArchivePosts({ customType: postType.name, termIds: term.termIds }, page);
+
+  if (!archive.data) return null;
+
+  const path = taxonomyTermPath(postType, term.taxonomy.name, term.slug);
+  const breadcrumbs = [
+    { name: "Home", url: "/" },
+    { name: postType.label, url: postTypeArchivePath(postType) },
+    ...(term.parent
+      ? [{ name: term.parent.name, url: taxonomyTermPath(postType, term.taxonomy.name, term.parent.slug) }]
+      : []),
+    { name: term.name, url: path },
+  ];
+
+  const seo = await getSeoMeta({
+    path: archivePageUrl(path, page),
+    title: `${term.name} – ${postType.label}`,
+    description: term.description,
+  });
+
+  return {
+    term: {
+      name: term.name,
+      description: term.description,
+      path,
+      children: term.children.map((child) => ({
+        name: child.name,
+        path: taxonomyTermPath(postType, term.taxonomy.name, child.slug),
+      })),
+    },
+    taxonomyLabel: term.taxonomy.label,
+    postType: {
+      name: postType.name,
+      path: postTypeArchivePath(postType),
+    },
+    archive: archive.data,
+    breadcrumbs,
+    seo,
+    structuredData: await getStructuredData({
+      kind: "collection",
+      seo,
+      breadcrumbs,
+    }),
+  };
+}
+
+export default function TaxonomyTermArchive() {
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+
+  const data = createAsync(
+    () => getTermArchive(params.type, params.taxonomy, params.term, parsePageParam(searchParams.page)),
+    { deferStream: true }
+  );
+
+  // null once loaded means no taxonomy term lives here
+  return (
+    <Show when={data() !== undefined}>
+      <Show when={data()} fallback={<ContentRoute />}>
+        {(view) => (
+          <ThemedLayout
+            title={view().term.name}
+            description={view().term.description || undefined}
+            layoutType="archive"
+            postType={view().postType.name}
+            seo={view().seo}
+            structuredData={view().structuredData}
+          >
+            <ArchiveView
+              label={view().taxonomyLabel}
+              title={view().term.name}
+              description={view().term.description}
+              breadcrumbs={view().breadcrumbs}
+              archive={view().archive}
+              basePath={view().term.path}
+              postBasePath={view().postType.path}
+            >
+              <Show when={view().term.children.length > 0}>
+                <div class="flex flex-wrap items-center gap-2 mt-4">
+                  <For each={view().term.children}>
+                    {(child) => (
+                      <A
+                        href={child.path}
+                        class="px-3 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+                      >
+                        {child.name}
+                      </A>
+                    )}
+                  </For>
+                </div>
+              </Show>
+            </ArchiveView>
+          </ThemedLayout>
+        )}
+      </Show>
+    </Show>
+  );
+}
@@ -0,0 +1,97 @@
+// Archives of public custom post types, e.g. /products
+// Any other single-segment path, like a top-level page, is handed on to the
+// catch-all route, which resolves pages and posts
+
+import { useParams, useSearchParams, createAsync } from "@solidjs/router";
+import { Show } from "solid-js";
+import {
+  getPublicPostType,
+  getArchivePosts,
+  getSeoMeta,
+  getStructuredData,
+  postTypeArchivePath,
+} from "../../lib";
+import { ThemedLayout } from "~/components/theme";
+import { ArchiveView, parsePageParam, archivePageUrl } from "~/components/theme/archive-view";
+import ContentRoute from "../[...404]";
+
+// Server function to get a post type archive page
+async function getPostTypeArchive(base: string, page: number) {
+  "use server";
+
+  const result = await getPublicPostType(base);
+  const postType = result.data;
+
+  if (!postType) return null;
+
+  const archive = await getArchivePosts({ customType: postType.name }, page);
+
+  if (!archive.data) return null;
+
+  const path = postTypeArchivePath(postType);
+  const breadcrumbs = [
+    { name: "Home", url: "/" },
+    { name: postType.label, url: path },
+  ];
+
+  const seo = await getSeoMeta({
+    path: archivePageUrl(path, page),
+    title: postType.label,
+    description: postType.description,
+  });
+
+  return {
+    postType: {
+      name: postType.name,
+      label: postType.label,
+      description: postType.description,
+      path,
+    },
+    archive: archive.data,
+    breadcrumbs,
+    seo,
+    structuredData: await getStructuredData({
+      kind: "collection",
+      seo,
+      breadcrumbs,
+    }),
+  };
+}
+
+export default function PostTypeArchive() {
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+
+  const data = createAsync(
+    () => getPostTypeArchive(params.type, parsePageParam(searchParams.page)),
+    { deferStream: true }
+  );
+
+  // null once loaded means no public post type lives here
+  return (
+    <Show when={data() !== undefined}>
+      <Show when={data()} fallback={<ContentRoute />}>
+        {(view) => (
+          <ThemedLayout
+            title={view().postType.label}
+            description={view().postType.description || undefined}
+            layoutType="archive"
+            postType={view().postType.name}
+            seo={view().seo}
+            structuredData={view().structuredData}
+          >
+            <ArchiveView
+              label="Archive"
+              title={view().postType.label}
+              description={view().postType.description}
+              breadcrumbs={view().breadcrumbs}
+              archive={view().archive}
+              basePath={view().postType.path}
+              postBasePath={view().postType.path}
+            />
+          </ThemedLayout>
+        )}
+      </Show>
+    </Show>
+  );
+}
@@ -0,0 +1,249 @@
+import { Show, For, createSignal, type JSX } from "solid-js";
+import { createAsync, query, action, useAction, useSubmission, useSearchParams } from "@solidjs/router";
+import type { PostStatus } from "@prisma/client";
+import AdminLayout from "./layout";
+import { requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import { getCalendarPosts, getUsers, getCategoriesForAdmin, getPostTypes, updatePost } from "~/lib";
+import {
+  ContentCalendar,
+  calendarRange,
+  calendarTitle,
+  shiftCalendar,
+  type CalendarView,
+} from "~/components/admin/content-calendar";
+
+const STATUSES: PostStatus[] = ["DRAFT", "REVIEW", "SCHEDULED", "PUBLISHED", "PRIVATE"];
+
+// Query the content dated within the range, and the undated drafts, narrowed by the filters
+const getCalendar = query(
+  async (from: string, to: string, authorId: number, categoryId: number, status: string, postType: string) => {
+    "use server";
+
+    const session = await requirePermission(Permission.EDIT_POSTS);
+    const result = await getCalendarPosts({
+      from: new Date(from),
+      to: new Date(to),
+      authorId: authorId || undefined,
+      categoryId: categoryId || undefined,
+      status: STATUSES.includes(status as PostStatus) ? (status as PostStatus) : undefined,
+      postType: postType || undefined,
+    });
+
+    return {
+      session,
+      scheduled: result.data?.scheduled || [],
+      unscheduled: result.data?.unscheduled || [],
+    };
+  },
+  "calendar"
+);
+
+// Query the authors, categories and post types to filter by
+const getCalendarFilters = query(async () => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+  const [users, categories, postTypes] = await Promise.all([
+    getUsers({ limit: 200 }),
+    getCategoriesForAdmin(),
+    getPostTypes(),
+  ]);
+
+  return {
+    authors: (users.data || [])
+      .filter((user) => user._count.posts > 0)
+      .map((user) => ({ id: user.id, name: user.name || user.username || user.email })),
+    categories: (categories.data || []).map((category) => ({ id: category.id, name: category.name })),
+    postTypes: (postTypes.data || []).map((postType) => ({ name: postType.name, label: postType.label })),
+  };
+}, "calendarFilters");
+
+// Server action to move a post to another day, saved as an edit by the current user
+const reschedulePost = action(async (postId: number, publishedAt: string) => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_POSTS);
+
+  const result = await updatePost({ id: postId, publishedAt, editorId: Number(session.user?.id) });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to reschedule post");
+  }
+
+  return result.data;
+});
+
+// Dates in the URL are local days, like 2024-05-17
+function parseDay(value: string | undefined): Date {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return new Date();
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function formatDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export default function AdminCalendar(): JSX.Element {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [error, setError] = createSignal<string | null>(null);
+
+  const view = (): CalendarView => (searchParams.view === "week" ? "week" : "month");
+  const date = () => parseDay(searchParams.date as string | undefined);
+  const param = (name: string) => String(searchParams[name] || "");
+
+  const data = createAsync(
+    () => {
+      const { from, to } = calendarRange(view(), date());
+      return getCalendar(
+        from.toISOString(),
+        to.toISOString(),
+        Number(param("author")) || 0,
+        Number(param("category")) || 0,
+        param("status"),
+        param("type")
+      );
+    },
+    { deferStream: true }
+  );
+  const filters = createAsync(() => getCalendarFilters());
+  const runReschedule = useAction(reschedulePost);
+  const rescheduling = useSubmission(reschedulePost);
+
+  const session = () => data()?.session;
+
+  const selectClass =
+    "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-7xl mx-auto space-y-6">
+            <div>
+              <h1 class="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                <span class="mr-3">🗓️</span>
+                Calendar
+              </h1>
+              <p class="text-gray-600">
+                Published, scheduled and planned content by publish date. Drag an entry to another day to
+                reschedule it.
+              </p>
+            </div>
+
+            <div class="flex flex-wrap items-center gap-3">
+              <div class="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => setSearchParams({ date: formatDay(shiftCalendar(view(), date(), -1)) })}
+                  class="px-3 py-2 rounded-lg border border-gray-300 text-sm hover:bg-gray-50"
+                  aria-label="Previous"
+                >
+                  ‹
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSearchParams({ date: undefined })}
+                  class="px-3 py-2 rounded-lg border border-gray-300 text-sm hover:bg-gray-50"
+                >
+                  Today
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSearchParams({ date: formatDay(shiftCalendar(view(), date(), 1)) })}
+                  class="px-3 py-2 rounded-lg border border-gray-300 text-sm hover:bg-gray-50"
+                  aria-label="Next"
+                >
+                  ›
+                </button>
+              </div>
+              <h2 class="text-lg font-semibold text-gray-900">{calendarTitle(view(), date())}</h2>
+
+              <div class="ml-auto flex flex-wrap items-center gap-2">
+                <select
+                  value={view()}
+                  onChange={(e) => setSearchParams({ view: e.currentTarget.value === "week" ? "week" : undefined })}
+                  class={selectClass}
+                >
+                  <option value="month">Month</option>
+                  <option value="week">Week</option>
+                </select>
+                <select
+                  value={param("author")}
+                  onChange={(e) => setSearchParams({ author: e.currentTarget.value || undefined })}
+                  class={selectClass}
+                >
+                  <option value="">All authors</option>
+                  <For each={filters()?.authors || []}>
+                    {(author) => <option value={author.id}>{author.name}</option>}
+                  </For>
+                </select>
+                <select
+                  value={param("category")}
+                  onChange={(e) => setSearchParams({ category: e.currentTarget.value || undefined })}
+                  class={selectClass}
+                >
+                  <option value="">All categories</option>
+                  <For each={filters()?.categories || []}>
+                    {(category) => <option value={category.id}>{category.name}</option>}
+                  </For>
+                </select>
+                <select
+                  value={param("status")}
+                  onChange={(e) => setSearchParams({ status: e.currentTarget.value || undefined })}
+                  class={selectClass}
+                >
+                  <option value="">All statuses</option>
+                  <For each={STATUSES}>
+                    {(status) => <option value={status}>{status.charAt(0) + status.slice(1).toLowerCase()}</option>}
+                  </For>
+                </select>
+                <select
+                  value={param("type")}
+                  onChange={(e) => setSearchParams({ type: e.currentTarget.value || undefined })}
+                  class={selectClass}
+                >
+                  <option value="">All content</option>
+                  <option value="POST">Posts</option>
+                  <option value="PAGE">Pages</option>
+                  <For each={filters()?.postTypes || []}>
+                    {(postType) => <option value={postType.name}>{postType.label}</option>}
+                  </For>
+                </select>
+              </div>
+            </div>
+
+            <Show when={error()}>
+              <div class="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error()}</div>
+            </Show>
+
+            <ContentCalendar
+              view={view()}
+              date={date()}
+              items={data()?.scheduled || []}
+              tray={data()?.unscheduled || []}
+              moving={rescheduling.pending ?? false}
+              onMove={async (item, publishedAt) => {
+                setError(null);
+                try {
+                  await runReschedule(item.id, publishedAt.toISOString());
+                } catch (err) {
+                  setError(err instanceof Error ? err.message : "Failed to reschedule");
+                }
+              }}
+            />
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
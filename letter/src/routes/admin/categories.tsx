@@ -0,0 +1,391 @@
+import { Show, For, createSignal, createEffect, on, type JSX } from "solid-js";
+import { createAsync, query, action, useAction, useSubmission } from "@solidjs/router";
+import AdminLayout from "./layout";
+import { requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import {
+  getCategoriesForAdmin,
+  createCategory,
+  updateCategory,
+  mergeCategories,
+  bulkDeleteCategories,
+  generateUniqueCategorySlug,
+} from "~/lib";
+import { CategoryTree, type CategoryTreeItem } from "~/components/admin/category-tree";
+
+// Query the categories with their post counts
+const getCategoryManager = query(async () => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_POSTS);
+  const result = await getCategoriesForAdmin();
+
+  return {
+    session,
+    categories: (result.data || []).map(({ _count, ...category }) => ({
+      ...category,
+      postCount: _count.posts,
+    })),
+  };
+}, "categoryManager");
+
+// Read the fields shared by the create and edit forms; a blank slug is generated from the name
+async function categoryFields(formData: FormData, categoryId?: number) {
+  const name = String(formData.get("name") || "").trim();
+  const slug = String(formData.get("slug") || "").trim();
+  return {
+    name,
+    slug: slug || (await generateUniqueCategorySlug({ name, categoryId })),
+    description: String(formData.get("description") || "").trim(),
+    parentId: Number(formData.get("parentId")) || null,
+  };
+}
+
+// Server action to create a category
+const addCategory = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const { parentId, description, ...fields } = await categoryFields(formData);
+  const result = await createCategory({
+    ...fields,
+    description: description || undefined,
+    parentId: parentId ?? undefined,
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to create category");
+  }
+
+  return result.data;
+});
+
+// Server action to save a category's name, slug, description and parent
+const saveCategory = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const id = Number(formData.get("id"));
+  const result = await updateCategory({ id, ...(await categoryFields(formData, id)) });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save category");
+  }
+
+  return result.data;
+});
+
+// Server action to move a category in the hierarchy
+const moveCategory = action(async (id: number, parentId: number | null) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const result = await updateCategory({ id, parentId });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to move category");
+  }
+
+  return result.data;
+});
+
+// Server action to merge one category into another
+const mergeCategory = action(async (sourceId: number, targetId: number) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const result = await mergeCategories({ sourceId, targetId });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to merge categories");
+  }
+
+  return result.data;
+});
+
+// Server action to delete categories, filing their orphaned posts under the fallback
+const deleteCategories = action(async (categoryIds: number[], fallbackId?: number) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const result = await bulkDeleteCategories({ categoryIds, fallbackId });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to delete categories");
+  }
+
+  return result.data;
+});
+
+export default function AdminCategories(): JSX.Element {
+  const data = createAsync(() => getCategoryManager(), { deferStream: true });
+  const createSubmission = useSubmission(addCategory);
+  const saveSubmission = useSubmission(saveCategory);
+  const moveSubmission = useSubmission(moveCategory);
+  const runMove = useAction(moveCategory);
+  const runMerge = useAction(mergeCategory);
+  const runDelete = useAction(deleteCategories);
+  const [selected, setSelected] = createSignal<number[]>([]);
+  const [editingId, setEditingId] = createSignal<number | null>(null);
+  const [fallbackId, setFallbackId] = createSignal<number | null>(null);
+  const [mergeSource, setMergeSource] = createSignal<number | null>(null);
+  const [mergeTarget, setMergeTarget] = createSignal<number | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const session = () => data()?.session;
+  const categories = (): CategoryTreeItem[] => data()?.categories || [];
+  const editing = () => categories().find((category) => category.id === editingId());
+
+  // Drop selections of categories that no longer exist
+  createEffect(
+    on(categories, (list) => {
+      const ids = new Set(list.map((category) => category.id));
+      setSelected((current) => current.filter((id) => ids.has(id)));
+      if (editingId() !== null && !ids.has(editingId()!)) setEditingId(null);
+    })
+  );
+
+  const toggleSelected = (id: number) =>
+    setSelected((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]));
+
+  const run = async (task: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const merge = () => {
+    const source = categories().find((category) => category.id === mergeSource());
+    const target = categories().find((category) => category.id === mergeTarget());
+    if (!source || !target) return;
+    if (!confirm(`Merge "${source.name}" into "${target.name}"? "${source.name}" will be deleted.`)) return;
+    return run(async () => {
+      await runMerge(source.id, target.id);
+      setMergeSource(null);
+      setMergeTarget(null);
+    });
+  };
+
+  const remove = () => {
+    const ids = selected();
+    if (!confirm(`Delete ${ids.length === 1 ? "this category" : `${ids.length} categories`}?`)) return;
+    return run(async () => {
+      await runDelete(ids, fallbackId() ?? undefined);
+      setSelected([]);
+      setFallbackId(null);
+    });
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-7xl mx-auto space-y-8">
+            <div>
+              <h1 class="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                <span class="mr-3">📁</span>
+                Categories
+              </h1>
+              <p class="text-gray-600">
+                Drag a category onto another to make it a subcategory. Post counts include drafts.
+              </p>
+            </div>
+
+            <Show when={error() || createSubmission.error || saveSubmission.error}>
+              <div class="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                {error() || (createSubmission.error || saveSubmission.error)?.message}
+              </div>
+            </Show>
+
+            <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              {/* Bulk delete */}
+              <div class="px-6 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-3">
+                <span class="text-sm text-gray-700">
+                  {selected().length > 0 ? `${selected().length} selected` : "Select categories to delete them"}
+                </span>
+                <Show when={selected().length > 0}>
+                  <select
+                    class="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                    value={fallbackId() ?? ""}
+                    onChange={(e) => setFallbackId(Number(e.currentTarget.value) || null)}
+                  >
+                    <option value="">Leave their posts uncategorized</option>
+                    <For each={categories().filter((category) => !selected().includes(category.id))}>
+                      {(category) => <option value={category.id}>Move their posts to {category.name}</option>}
+                    </For>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={remove}
+                    class="px-3 py-1 text-sm rounded-lg bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    Delete
+                  </button>
+                </Show>
+              </div>
+
+              <CategoryTree
+                categories={categories()}
+                selected={selected()}
+                editingId={editingId()}
+                moving={moveSubmission.pending ?? false}
+                onToggle={toggleSelected}
+                onEdit={setEditingId}
+                onMove={(id, parentId) => run(() => runMove(id, parentId))}
+              />
+            </div>
+
+            <Show when={editing()} keyed>
+              {(category) => (
+                <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                  <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                    <h2 class="text-lg font-semibold text-gray-900">Edit {category.name}</h2>
+                  </div>
+                  <form action={saveCategory} method="post" class="p-6">
+                    <input type="hidden" name="id" value={category.id} />
+                    <CategoryFields
+                      category={category}
+                      categories={categories().filter((other) => other.id !== category.id)}
+                      inputClass={inputClass}
+                    />
+                    <button
+                      type="submit"
+                      disabled={saveSubmission.pending}
+                      class="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                    >
+                      {saveSubmission.pending ? "Saving..." : "Save Category"}
+                    </button>
+                  </form>
+                </div>
+              )}
+            </Show>
+
+            <div class="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                  <h2 class="text-lg font-semibold text-gray-900">Add Category</h2>
+                </div>
+                <form action={addCategory} method="post" class="p-6">
+                  <CategoryFields categories={categories()} inputClass={inputClass} />
+                  <button
+                    type="submit"
+                    disabled={createSubmission.pending}
+                    class="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                  >
+                    {createSubmission.pending ? "Adding..." : "Add Category"}
+                  </button>
+                </form>
+              </div>
+
+              <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                  <h2 class="text-lg font-semibold text-gray-900">Merge Categories</h2>
+                  <p class="text-sm text-gray-500">
+                    Posts and subcategories move to the category that is kept.
+                  </p>
+                </div>
+                <div class="p-6 space-y-4">
+                  <label class="block text-sm text-gray-700">
+                    Merge
+                    <select
+                      class={inputClass}
+                      value={mergeSource() ?? ""}
+                      onChange={(e) => setMergeSource(Number(e.currentTarget.value) || null)}
+                    >
+                      <option value="">Choose a category</option>
+                      <For each={categories()}>
+                        {(category) => <option value={category.id}>{category.name}</option>}
+                      </For>
+                    </select>
+                  </label>
+                  <label class="block text-sm text-gray-700">
+                    Into
+                    <select
+                      class={inputClass}
+                      value={mergeTarget() ?? ""}
+                      onChange={(e) => setMergeTarget(Number(e.currentTarget.value) || null)}
+                    >
+                      <option value="">Choose a category</option>
+                      <For each={categories().filter((category) => category.id !== mergeSource())}>
+                        {(category) => <option value={category.id}>{category.name}</option>}
+                      </For>
+                    </select>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={merge}
+                    disabled={!mergeSource() || !mergeTarget()}
+                    class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                  >
+                    Merge
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
+
+function CategoryFields(props: {
+  category?: CategoryTreeItem;
+  categories: CategoryTreeItem[];
+  inputClass: string;
+}): JSX.Element {
+  return (
+    <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <label class="block text-sm text-gray-700">
+        Name
+        <input name="name" value={props.category?.name ?? ""} required class={props.inputClass} />
+      </label>
+      <label class="block text-sm text-gray-700">
+        Slug
+        <input
+          name="slug"
+          value={props.category?.slug ?? ""}
+          pattern="[a-z0-9-]+"
+          placeholder="Generated from the name"
+          class={props.inputClass}
+        />
+      </label>
+      <label class="block text-sm text-gray-700 md:col-span-2">
+        Parent
+        <select name="parentId" value={props.category?.parentId ?? ""} class={props.inputClass}>
+          <option value="">None (top level)</option>
+          <For each={props.categories}>
+            {(category) => <option value={category.id}>{category.name}</option>}
+          </For>
+        </select>
+      </label>
+      <label class="block text-sm text-gray-700 md:col-span-2">
+        Description
+        <textarea
+          name="description"
+          rows={3}
+          value={props.category?.description ?? ""}
+          class={props.inputClass}
+        />
+      </label>
+    </div>
+  );
+}
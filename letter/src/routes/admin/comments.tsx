@@ -0,0 +1,493 @@
+import { Show, For, createSignal, createEffect, on, type JSX } from "solid-js";
+import { A, createAsync, query, action, useAction, useSearchParams } from "@solidjs/router";
+import type { CommentStatus } from "@prisma/client";
+import AdminLayout from "./layout";
+import { requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import {
+  getComments,
+  getCommentStatusCounts,
+  getCommentedPosts,
+  updateComment,
+  replyToComment,
+  bulkUpdateCommentStatus,
+  bulkDeleteComments,
+} from "~/lib";
+
+const STATUS_TABS: Array<{ status: CommentStatus; label: string }> = [
+  { status: "PENDING", label: "Pending" },
+  { status: "APPROVED", label: "Approved" },
+  { status: "SPAM", label: "Spam" },
+  { status: "TRASH", label: "Trash" },
+];
+
+// Comments shown per page of the queue
+const PAGE_SIZE = 50;
+
+interface CommentQueueFilters {
+  status: CommentStatus;
+  postId?: number;
+  authorEmail?: string;
+  authorIp?: string;
+  page: number;
+}
+
+// Query the moderation queue for the current tab and filters
+const getModerationQueue = query(async (filters: CommentQueueFilters) => {
+  "use server";
+
+  const session = await requirePermission(Permission.MODERATE_COMMENTS);
+
+  const options = { authorEmail: filters.authorEmail, authorIp: filters.authorIp };
+  const [comments, counts, posts] = await Promise.all([
+    getComments(filters.postId, {
+      ...options,
+      status: filters.status,
+      limit: PAGE_SIZE,
+      offset: (filters.page - 1) * PAGE_SIZE,
+    }),
+    getCommentStatusCounts(filters.postId, options),
+    getCommentedPosts(),
+  ]);
+
+  return {
+    session,
+    comments: comments.data || [],
+    counts: counts.data || { PENDING: 0, APPROVED: 0, SPAM: 0, TRASH: 0 },
+    posts: posts.data || [],
+  };
+}, "commentModerationQueue");
+
+type QueueComment = Awaited<ReturnType<typeof getModerationQueue>>["comments"][number];
+
+// Server action to move comments to another status
+const moderateComments = action(async (commentIds: number[], status: CommentStatus) => {
+  "use server";
+
+  await requirePermission(Permission.MODERATE_COMMENTS);
+
+  const result = await bulkUpdateCommentStatus({ commentIds, status });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to update comments");
+  }
+
+  return result.data;
+});
+
+// Server action to permanently delete comments
+const deleteComments = action(async (commentIds: number[]) => {
+  "use server";
+
+  await requirePermission(Permission.MODERATE_COMMENTS);
+
+  const result = await bulkDeleteComments(commentIds);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to delete comments");
+  }
+
+  return result.data;
+});
+
+// Server action to save an edited comment
+const saveComment = action(async (data: {
+  id: number;
+  content: string;
+  authorName: string;
+  authorEmail: string;
+  authorUrl?: string;
+}) => {
+  "use server";
+
+  await requirePermission(Permission.MODERATE_COMMENTS);
+
+  const result = await updateComment(data);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save comment");
+  }
+
+  return result.data;
+});
+
+// Server action to reply to a comment as the signed-in user
+const replyAsAdmin = action(async (parentId: number, content: string) => {
+  "use server";
+
+  const session = await requirePermission(Permission.MODERATE_COMMENTS);
+
+  const result = await replyToComment({
+    parentId,
+    authorId: Number(session.user?.id),
+    content,
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to post reply");
+  }
+
+  return result.data;
+});
+
+export default function AdminComments(): JSX.Element {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selected, setSelected] = createSignal<number[]>([]);
+  const [error, setError] = createSignal<string | null>(null);
+  const runModerate = useAction(moderateComments);
+  const runDelete = useAction(deleteComments);
+
+  const filters = (): CommentQueueFilters => {
+    const status = String(searchParams.status || "PENDING").toUpperCase() as CommentStatus;
+    return {
+      status: STATUS_TABS.some((tab) => tab.status === status) ? status : "PENDING",
+      postId: Number(searchParams.post) || undefined,
+      authorEmail: String(searchParams.email || "") || undefined,
+      authorIp: String(searchParams.ip || "") || undefined,
+      page: Math.max(1, Number(searchParams.page) || 1),
+    };
+  };
+
+  const data = createAsync(() => getModerationQueue(filters()), { deferStream: true });
+
+  const session = () => data()?.session;
+  const comments = () => data()?.comments || [];
+
+  // Selection doesn't carry over between tabs or filters
+  createEffect(on(filters, () => setSelected([]), { defer: true }));
+
+  const allSelected = () =>
+    comments().length > 0 && comments().every((comment) => selected().includes(comment.id));
+
+  const toggleSelected = (id: number) =>
+    setSelected((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]));
+
+  const run = async (task: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await task();
+      setSelected([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const moderate = (ids: number[], status: CommentStatus) => run(() => runModerate(ids, status));
+
+  const remove = (ids: number[]) => {
+    if (!confirm(`Permanently delete ${ids.length === 1 ? "this comment" : `${ids.length} comments`}?`)) return;
+    return run(() => runDelete(ids));
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-7xl mx-auto">
+            <div class="mb-8">
+              <h1 class="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                <span class="mr-3">💬</span>
+                Comments
+              </h1>
+              <p class="text-gray-600">Review, reply to and moderate comments from your visitors.</p>
+            </div>
+
+            {/* Status tabs */}
+            <div class="flex flex-wrap gap-2 mb-4">
+              <For each={STATUS_TABS}>
+                {(tab) => (
+                  <button
+                    type="button"
+                    onClick={() => setSearchParams({ status: tab.status.toLowerCase(), page: undefined })}
+                    class={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filters().status === tab.status
+                        ? "bg-blue-600 text-white"
+                        : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {tab.label}
+                    <span class="ml-2 opacity-75">{data()?.counts[tab.status] ?? 0}</span>
+                  </button>
+                )}
+              </For>
+            </div>
+
+            {/* Filters */}
+            <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <select
+                class={inputClass}
+                value={filters().postId ?? ""}
+                onChange={(e) => setSearchParams({ post: e.currentTarget.value || undefined, page: undefined })}
+              >
+                <option value="">All posts</option>
+                <For each={data()?.posts || []}>
+                  {(post) => <option value={post.id}>{post.title}</option>}
+                </For>
+              </select>
+              <input
+                type="search"
+                class={inputClass}
+                placeholder="Filter by author email"
+                value={filters().authorEmail ?? ""}
+                onChange={(e) => setSearchParams({ email: e.currentTarget.value.trim() || undefined, page: undefined })}
+              />
+              <input
+                type="search"
+                class={inputClass}
+                placeholder="Filter by IP address"
+                value={filters().authorIp ?? ""}
+                onChange={(e) => setSearchParams({ ip: e.currentTarget.value.trim() || undefined, page: undefined })}
+              />
+            </div>
+
+            <Show when={error()}>
+              <div class="mb-4 p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error()}</div>
+            </Show>
+
+            <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              {/* Bulk actions */}
+              <div class="px-6 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-3">
+                <label class="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    class="mr-2"
+                    checked={allSelected()}
+                    onChange={(e) => setSelected(e.currentTarget.checked ? comments().map((c) => c.id) : [])}
+                  />
+                  {selected().length > 0 ? `${selected().length} selected` : "Select all"}
+                </label>
+                <Show when={selected().length > 0}>
+                  <StatusButtons
+                    status={filters().status}
+                    onModerate={(status) => moderate(selected(), status)}
+                    onDelete={() => remove(selected())}
+                  />
+                </Show>
+              </div>
+
+              <Show
+                when={comments().length > 0}
+                fallback={<p class="p-12 text-center text-gray-500">No comments here.</p>}
+              >
+                <ul class="divide-y divide-gray-200">
+                  <For each={comments()}>
+                    {(comment) => (
+                      <CommentRow
+                        comment={comment}
+                        selected={selected().includes(comment.id)}
+                        onToggle={() => toggleSelected(comment.id)}
+                        onModerate={(status) => moderate([comment.id], status)}
+                        onDelete={() => remove([comment.id])}
+                        onError={setError}
+                      />
+                    )}
+                  </For>
+                </ul>
+              </Show>
+            </div>
+
+            {/* Pagination */}
+            <div class="flex items-center justify-between mt-4 text-sm text-gray-600">
+              <button
+                type="button"
+                disabled={filters().page <= 1}
+                onClick={() => setSearchParams({ page: filters().page - 1 })}
+                class="px-3 py-1 rounded-lg border border-gray-300 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span>Page {filters().page}</span>
+              <button
+                type="button"
+                disabled={filters().page * PAGE_SIZE >= (data()?.counts[filters().status] ?? 0)}
+                onClick={() => setSearchParams({ page: filters().page + 1 })}
+                class="px-3 py-1 rounded-lg border border-gray-300 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
+
+// Moderation buttons for comments in the given status
+function StatusButtons(props: {
+  status: CommentStatus;
+  onModerate: (status: CommentStatus) => void;
+  onDelete: () => void;
+}): JSX.Element {
+  const buttonClass = "px-3 py-1 text-sm rounded-lg border transition-colors";
+
+  return (
+    <div class="flex flex-wrap gap-2">
+      <Show when={props.status !== "APPROVED"}>
+        <button type="button" onClick={() => props.onModerate("APPROVED")} class={`${buttonClass} border-green-300 text-green-700 hover:bg-green-50`}>
+          Approve
+        </button>
+      </Show>
+      <Show when={props.status === "APPROVED"}>
+        <button type="button" onClick={() => props.onModerate("PENDING")} class={`${buttonClass} border-yellow-300 text-yellow-700 hover:bg-yellow-50`}>
+          Unapprove
+        </button>
+      </Show>
+      <Show when={props.status !== "SPAM"}>
+        <button type="button" onClick={() => props.onModerate("SPAM")} class={`${buttonClass} border-orange-300 text-orange-700 hover:bg-orange-50`}>
+          Spam
+        </button>
+      </Show>
+      <Show
+        when={props.status === "TRASH"}
+        fallback={
+          <button type="button" onClick={() => props.onModerate("TRASH")} class={`${buttonClass} border-red-300 text-red-700 hover:bg-red-50`}>
+            Trash
+          </button>
+        }
+      >
+        <button type="button" onClick={props.onDelete} class={`${buttonClass} border-red-300 text-red-700 hover:bg-red-50`}>
+          Delete Permanently
+        </button>
+      </Show>
+    </div>
+  );
+}
+
+function CommentRow(props: {
+  comment: QueueComment;
+  selected: boolean;
+  onToggle: () => void;
+  onModerate: (status: CommentStatus) => void;
+  onDelete: () => void;
+  onError: (message: string) => void;
+}): JSX.Element {
+  const [mode, setMode] = createSignal<"view" | "edit" | "reply">("view");
+  const [saving, setSaving] = createSignal(false);
+  const runSave = useAction(saveComment);
+  const runReply = useAction(replyAsAdmin);
+
+  const submit = async (task: () => Promise<unknown>) => {
+    setSaving(true);
+    try {
+      await task();
+      setMode("view");
+    } catch (err) {
+      props.onError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (e: SubmitEvent) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget as HTMLFormElement);
+    return submit(() =>
+      runSave({
+        id: props.comment.id,
+        content: String(form.get("content") || ""),
+        authorName: String(form.get("authorName") || ""),
+        authorEmail: String(form.get("authorEmail") || ""),
+        authorUrl: String(form.get("authorUrl") || "") || undefined,
+      })
+    );
+  };
+
+  const handleReply = (e: SubmitEvent) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget as HTMLFormElement);
+    return submit(() => runReply(props.comment.id, String(form.get("content") || "")));
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <li class={`px-6 py-4 ${props.selected ? "bg-blue-50" : ""}`}>
+      <div class="flex gap-4">
+        <input type="checkbox" class="mt-1" checked={props.selected} onChange={props.onToggle} />
+        <div class="flex-1 min-w-0">
+          <div class="flex flex-wrap items-center gap-x-3 text-sm">
+            <span class="font-semibold text-gray-900">{props.comment.authorName}</span>
+            <A href={`?email=${encodeURIComponent(props.comment.authorEmail)}`} class="text-gray-500 hover:text-blue-600">
+              {props.comment.authorEmail}
+            </A>
+            <Show when={props.comment.authorIp}>
+              <A href={`?ip=${encodeURIComponent(props.comment.authorIp!)}`} class="text-gray-400 hover:text-blue-600">
+                {props.comment.authorIp}
+              </A>
+            </Show>
+            <span class="text-gray-400">{new Date(props.comment.createdAt).toLocaleString()}</span>
+          </div>
+          <div class="text-xs text-gray-500 mt-1">
+            On <A href={`/admin/posts/edit/${props.comment.post.id}`} class="text-blue-600 hover:underline">{props.comment.post.title}</A>
+            <Show when={props.comment.parent}>
+              {(parent) => <> in reply to {parent().authorName}</>}
+            </Show>
+          </div>
+
+          <Show
+            when={mode() === "edit"}
+            fallback={<p class="mt-2 text-gray-700 whitespace-pre-line">{props.comment.content}</p>}
+          >
+            <form onSubmit={handleEdit} class="mt-3 space-y-3">
+              <div class="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <input name="authorName" value={props.comment.authorName} required class={inputClass} />
+                <input name="authorEmail" type="email" value={props.comment.authorEmail} required class={inputClass} />
+                <input name="authorUrl" type="url" value={props.comment.authorUrl || ""} placeholder="Website" class={inputClass} />
+              </div>
+              <textarea name="content" rows={4} required class={inputClass}>{props.comment.content}</textarea>
+              <FormButtons saving={saving()} label="Save" onCancel={() => setMode("view")} />
+            </form>
+          </Show>
+
+          <Show when={mode() === "reply"}>
+            <form onSubmit={handleReply} class="mt-3 space-y-3">
+              <textarea name="content" rows={3} required placeholder="Write a reply..." class={inputClass} />
+              <FormButtons saving={saving()} label="Post Reply" onCancel={() => setMode("view")} />
+            </form>
+          </Show>
+
+          <Show when={mode() === "view"}>
+            <div class="mt-3 flex flex-wrap items-center gap-2">
+              <StatusButtons status={props.comment.status} onModerate={props.onModerate} onDelete={props.onDelete} />
+              <button type="button" onClick={() => setMode("reply")} class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50">
+                Reply
+              </button>
+              <button type="button" onClick={() => setMode("edit")} class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50">
+                Edit
+              </button>
+            </div>
+          </Show>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+function FormButtons(props: { saving: boolean; label: string; onCancel: () => void }): JSX.Element {
+  return (
+    <div class="flex items-center gap-3">
+      <button
+        type="submit"
+        disabled={props.saving}
+        class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+      >
+        {props.saving ? "Saving..." : props.label}
+      </button>
+      <button type="button" onClick={props.onCancel} class="text-sm text-gray-600 hover:text-gray-800">
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { Show, For, createSignal, type JSX } from "solid-js";
+import { createAsync, query, action, useAction, useSubmission } from "@solidjs/router";
+import AdminLayout from "./layout";
+import { requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import { getUsers, importWordPress, type WordPressImportReport } from "~/lib";
+import { ImportReport } from "~/components/admin/import-report";
+
+// Query the users WordPress authors can be assigned to
+const getImportData = query(async () => {
+  "use server";
+
+  const session = await requirePermission(Permission.MANAGE_SETTINGS);
+  const users = await getUsers({ limit: 200 });
+
+  return {
+    session,
+    users: (users.data || []).map((user) => ({ id: user.id, name: user.name || user.username || user.email })),
+  };
+}, "importData");
+
+// Server action to import a WXR export, or with dryRun report what importing it would do
+const runWordPressImport = action(
+  async (xml: string, settings: { dryRun: boolean; authorMap: Record<string, number>; downloadAttachments: boolean }) => {
+    "use server";
+
+    const session = await requirePermission(Permission.MANAGE_SETTINGS);
+
+    const result = await importWordPress(xml, {
+      ...settings,
+      fallbackAuthorId: Number(session.user?.id),
+    });
+
+    if (result.error) {
+      throw new Error(result.error.message || "Failed to import WordPress export");
+    }
+
+    return result.data;
+  }
+);
+
+export default function AdminImport(): JSX.Element {
+  const data = createAsync(() => getImportData(), { deferStream: true });
+  const runImport = useAction(runWordPressImport);
+  const importing = useSubmission(runWordPressImport);
+
+  const [fileName, setFileName] = createSignal<string | null>(null);
+  const [xml, setXml] = createSignal<string | null>(null);
+  const [authorMap, setAuthorMap] = createSignal<Record<string, number>>({});
+  const [downloadAttachments, setDownloadAttachments] = createSignal(true);
+  const [report, setReport] = createSignal<WordPressImportReport | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const session = () => data()?.session;
+  // Authors come from the dry run, which has to happen before importing
+  const dryRunReport = () => (report()?.dryRun ? report() : null);
+
+  const chooseFile = async (file: File | undefined) => {
+    setReport(null);
+    setError(null);
+    setAuthorMap({});
+    setFileName(file?.name ?? null);
+    setXml(file ? await file.text() : null);
+  };
+
+  const start = async (dryRun: boolean) => {
+    const content = xml();
+    if (!content) return;
+    if (!dryRun && !confirm("Import this export now?")) return;
+
+    setError(null);
+    try {
+      setReport(
+        await runImport(content, { dryRun, authorMap: authorMap(), downloadAttachments: downloadAttachments() })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+  };
+
+  const mapAuthor = (login: string, userId: number) => {
+    setAuthorMap((current) => {
+      const { [login]: _, ...rest } = current;
+      return userId ? { ...rest, [login]: userId } : rest;
+    });
+  };
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-4xl mx-auto space-y-6">
+            <div>
+              <h1 class="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                <span class="mr-3">📥</span>
+                Import from WordPress
+              </h1>
+              <p class="text-gray-600">
+                Bring in posts, pages, comments, media, categories, tags and authors from a WordPress export file
+                (Tools → Export in WordPress). Check the dry run first; importing the same file again only adds
+                what's new.
+              </p>
+            </div>
+
+            <div class="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+              <div>
+                <label class="block text-sm font-medium text-gray-700 mb-2">Export file</label>
+                <input
+                  type="file"
+                  accept=".xml,application/xml,text/xml"
+                  onChange={(e) => chooseFile(e.currentTarget.files?.[0])}
+                  class="block text-sm text-gray-700"
+                />
+              </div>
+
+              <label class="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  class="mr-2"
+                  checked={downloadAttachments()}
+                  onChange={(e) => setDownloadAttachments(e.currentTarget.checked)}
+                />
+                Download attachment files into the media library
+              </label>
+
+              <Show when={dryRunReport()?.authors.length}>
+                <div>
+                  <h3 class="text-sm font-medium text-gray-700 mb-2">Authors</h3>
+                  <p class="text-xs text-gray-500 mb-3">
+                    Assign a WordPress author's content to an existing user, or leave it to be matched by username
+                    or email, or created.
+                  </p>
+                  <div class="space-y-2">
+                    <For each={dryRunReport()!.authors}>
+                      {(author) => (
+                        <div class="flex items-center gap-3 text-sm">
+                          <span class="w-48 truncate text-gray-700" title={author.email}>
+                            {author.displayName} ({author.login})
+                          </span>
+                          <select
+                            value={authorMap()[author.login] ?? ""}
+                            onChange={(e) => mapAuthor(author.login, Number(e.currentTarget.value))}
+                            class="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">Match or create automatically</option>
+                            <For each={data()?.users || []}>
+                              {(user) => <option value={user.id}>{user.name}</option>}
+                            </For>
+                          </select>
+                        </div>
+                      )}
+                    </For>
+                  </div>
+                </div>
+              </Show>
+
+              <div class="flex items-center gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => start(true)}
+                  disabled={!xml() || importing.pending}
+                  class="px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {importing.pending ? "Working…" : "Dry run"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => start(false)}
+                  disabled={!dryRunReport() || importing.pending}
+                  class="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white text-sm font-medium disabled:cursor-not-allowed"
+                  title={dryRunReport() ? undefined : "Run a dry run first"}
+                >
+                  Import
+                </button>
+                <Show when={fileName()}>
+                  <span class="text-sm text-gray-500">{fileName()}</span>
+                </Show>
+              </div>
+            </div>
+
+            <Show when={error()}>
+              <div class="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{error()}</div>
+            </Show>
+
+            <Show when={report()}>{(current) => <ImportReport report={current()} />}</Show>
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
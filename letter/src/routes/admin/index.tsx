@@ -183,15 +183,17 @@ export default function AdminDashboard(): JSX.Element {
                       color="green"
                       subtitle="Active community members"
                     />
-                    <StatsCard
-                      title="Comments"
-                      value={siteStats().counts.approvedComments}
-                      icon="💬"
-                      color="purple"
-                      subtitle={`${
-                        siteStats().counts.pendingComments
-                      } pending approval`}
-                    />
+                    <A href="/admin/comments">
+                      <StatsCard
+                        title="Comments"
+                        value={siteStats().counts.approvedComments}
+                        icon="💬"
+                        color="purple"
+                        subtitle={`${
+                          siteStats().counts.pendingComments
+                        } pending approval`}
+                      />
+                    </A>
                   </>
                 );
               }}
@@ -1,7 +1,32 @@
 import { JSX, Show, createSignal, For } from "solid-js";
-import { A, useLocation } from "@solidjs/router";
+import { A, useLocation, query, createAsync } from "@solidjs/router";
 import { Session } from "@auth/solid-start";
 import { NotificationProvider } from "~/components/ui/notification";
+import { NotificationBell } from "~/components/admin/notification-bell";
+import { requireAdmin } from "~/lib/auth-utils";
+import { getAdminNotifications, markNotificationsRead } from "~/lib";
+
+// Query the current user's admin notifications
+const getNotifications = query(async () => {
+  "use server";
+  const session = await requireAdmin();
+  return await getAdminNotifications(Number(session.user?.id));
+}, "adminNotifications");
+
+// Mark all of the current user's notifications as read; not an action, so nothing is refetched
+async function readNotifications() {
+  "use server";
+
+  const session = await requireAdmin();
+
+  const result = await markNotificationsRead({ userId: Number(session.user?.id) });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to mark notifications as read");
+  }
+
+  return result.data;
+}
 
 /**
  * Props for the AdminLayout component.
@@ -109,18 +134,26 @@ function SidebarContent(props: { navigation: NavigationItem[]; user: Session["us
  */
 export default function AdminLayout(props: AdminLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = createSignal(false);
+  const notifications = createAsync(() => getNotifications());
 
   const navigation: NavigationItem[] = [
     { name: "Dashboard", href: "/admin", icon: "📊" },
     { name: "Posts", href: "/admin/posts", icon: "📝" },
     { name: "Pages", href: "/admin/pages", icon: "📄" },
+    { name: "Calendar", href: "/admin/calendar", icon: "🗓️" },
+    { name: "Categories", href: "/admin/categories", icon: "📁" },
+    { name: "Tags", href: "/admin/tags", icon: "🔖" },
     { name: "Comments", href: "/admin/comments", icon: "💬" },
     { name: "Media", href: "/admin/media", icon: "🖼️" },
+    { name: "Trash", href: "/admin/trash", icon: "🗑️" },
+    { name: "Post Types", href: "/admin/post-types", icon: "🗂️" },
+    { name: "Taxonomies", href: "/admin/taxonomies", icon: "🧭" },
     { name: "Custom Fields", href: "/admin/custom-fields", icon: "🏷️" },
     { name: "Users", href: "/admin/users", icon: "👥" },
     { name: "Themes", href: "/admin/themes", icon: "🎨" },
     { name: "Theme Builder", href: "/admin/theme-builder", icon: "🎨✨" },
     { name: "Plugins", href: "/admin/plugins", icon: "🔌" },
+    { name: "Import", href: "/admin/import", icon: "📥" },
     { name: "Settings", href: "/admin/settings", icon: "⚙️" },
   ];
 
@@ -192,13 +225,11 @@ export default function AdminLayout(props: AdminLayoutProps) {
               {/* Desktop user menu */}
               <div class="ml-4 flex items-center space-x-4">
                 <div class="flex items-center space-x-3">
-                  <button
-                    type="button"
-                    class="text-blue-600 hover:text-blue-800 p-2 rounded-lg border-2 border-transparent hover:border-blue-200 transition-all duration-200"
-                    title="Notifications"
-                  >
-                    <span class="text-lg">🔔</span>
-                  </button>
+                  <NotificationBell
+                    notifications={notifications()?.data?.notifications || []}
+                    unread={notifications()?.data?.unread ?? 0}
+                    onRead={readNotifications}
+                  />
                   <button
                     type="button"
                     class="text-blue-600 hover:text-blue-800 p-2 rounded-lg border-2 border-transparent hover:border-blue-200 transition-all duration-200"
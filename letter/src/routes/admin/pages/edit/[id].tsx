@@ -1,11 +1,43 @@
 import { createSignal } from "solid-js";
-import { useNavigate, useParams, query, createAsync } from "@solidjs/router";
+import { useNavigate, useParams, query, createAsync, action, useAction, useSubmission, revalidate } from "@solidjs/router";
 import AdminLayout from "../../layout";
 import { getCustomFieldsForPostType } from "../../../../lib/admin-server-functions";
-import { requireAdmin } from "~/lib/auth-utils";
-import { getPost, updatePost } from "~/lib";
+import { requireAdmin, requirePermission } from "~/lib/auth-utils";
+import { Permission, sessionHasPermission } from "~/lib/permissions";
+import {
+  getPost,
+  updatePost,
+  getPreviewTokens,
+  createPreviewToken,
+  revokePreviewToken,
+  getRevisions,
+  getRevisionComparison,
+  restoreRevision,
+  getAutosave,
+  autosavePost,
+  discardAutosave,
+  POST_CONFLICT_MESSAGE,
+  acquirePostLock,
+  releasePostLock,
+  getReviewTrail,
+  getPostReviewers,
+  getReviewerCandidates,
+  reviewPost,
+  assignReviewers,
+  getBlockNotes,
+  getNoteMentionCandidates,
+  createBlockNote,
+  replyToBlockNote,
+  setBlockNoteResolved,
+} from "~/lib";
 import { PageForm, type PageFormData } from "~/components/forms/page-form";
 import { PageHeader } from "~/components/ui/page-header";
+import { PreviewLinks } from "~/components/admin/preview-links";
+import { RevisionsPanel } from "~/components/admin/revisions-panel";
+import { EditLock } from "~/components/admin/edit-lock";
+import { ReviewPanel, type ReviewDecisionAction } from "~/components/admin/review-panel";
+import { BlockNotesPanel, type NoteDraft } from "~/components/admin/block-notes-panel";
+import type { AutosaveContent } from "~/components/forms/autosave";
 import { tryCatch } from "~/lib/try-catch";
 
 // Query the session check
@@ -31,6 +63,273 @@ const getCustomFields = query(async () => {
   return await getCustomFieldsForPostType("page");
 }, "customFields");
 
+// Query the page's preview links
+const getPreviewLinks = query(async (id: string) => {
+  "use server";
+  await requirePermission(Permission.EDIT_PAGES);
+  return await getPreviewTokens(parseInt(id));
+}, "previewLinks");
+
+// Server action to save the page as the current user; without expectedUpdatedAt it overwrites whatever is stored
+const savePageChanges = action(async (postId: number, formData: PageFormData, expectedUpdatedAt?: string) => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await updatePost({
+    id: postId,
+    title: formData.title,
+    content: formData.content || undefined,
+    excerpt: formData.excerpt || undefined,
+    slug: formData.slug,
+    status: formData.status,
+    publishedAt: formData.status === "PUBLISHED" ? new Date() : undefined,
+    blocks: formData.blocks,
+    editorId: Number(session.user?.id),
+    expectedUpdatedAt,
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to update page");
+  }
+
+  return result.data;
+});
+
+// Server action to create a preview link
+const addPreviewLink = action(async (postId: number, expiresInHours: number, label: string) => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await createPreviewToken({
+    postId,
+    expiresInHours,
+    label: label || undefined,
+    createdById: session.user?.id ? Number(session.user.id) : undefined,
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to create preview link");
+  }
+
+  return result.data;
+});
+
+// Server action to revoke a preview link
+const removePreviewLink = action(async (id: number) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await revokePreviewToken(id);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to revoke preview link");
+  }
+
+  return result.data;
+});
+
+// Query the page's revisions
+const getRevisionList = query(async (id: string) => {
+  "use server";
+  await requirePermission(Permission.EDIT_PAGES);
+  return await getRevisions(parseInt(id));
+}, "pageRevisions");
+
+// Query what one revision changed
+const getRevisionDiff = query(async (revisionId: number) => {
+  "use server";
+  await requirePermission(Permission.EDIT_PAGES);
+  return await getRevisionComparison(revisionId);
+}, "pageRevisionDiff");
+
+// Server action to restore a revision, saved as a new one by the current user
+const restorePageRevision = action(async (revisionId: number) => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await restoreRevision({ revisionId, editorId: Number(session.user?.id) });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to restore revision");
+  }
+
+  return result.data;
+});
+
+// Query the current user's autosaved changes to the page
+const getAutosaveDraft = query(async (id: string) => {
+  "use server";
+  const session = await requirePermission(Permission.EDIT_PAGES);
+  return await getAutosave(parseInt(id), Number(session.user?.id));
+}, "pageAutosave");
+
+// Autosave the current user's changes; not an action, so nothing is refetched
+async function saveAutosave(id: number, content: AutosaveContent) {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await autosavePost({ ...content, postId: id, authorId: Number(session.user?.id) });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to autosave");
+  }
+
+  return result.data;
+}
+
+// Throw away the current user's autosaved changes
+async function dropAutosave(id: number) {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  await discardAutosave({ postId: id, authorId: Number(session.user?.id) });
+}
+
+// Claim or renew the page's edit lock for the current user
+async function lockPage(id: number, takeover: boolean) {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await acquirePostLock({ postId: id, userId: Number(session.user?.id), takeover });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to lock page");
+  }
+
+  return result.data;
+}
+
+// Let go of the page's edit lock when the editor closes
+async function unlockPage(id: number) {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  await releasePostLock({ postId: id, userId: Number(session.user?.id) });
+}
+
+// Query the page's status history, its reviewers and who could review it
+const getReviewData = query(async (id: string) => {
+  "use server";
+  await requirePermission(Permission.EDIT_PAGES);
+  const [trail, reviewers, candidates] = await Promise.all([
+    getReviewTrail(parseInt(id)),
+    getPostReviewers(parseInt(id)),
+    getReviewerCandidates("PAGE"),
+  ]);
+  return {
+    trail: trail.data || [],
+    reviewerIds: (reviewers.data || []).map((reviewer) => reviewer.user.id),
+    candidates: candidates.data || [],
+  };
+}, "pageReviewData");
+
+// Server action to submit the page for review, or decide on it as the current user
+const decidePageReview = action(async (postId: number, decision: ReviewDecisionAction, note: string) => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await reviewPost({
+    postId,
+    actorId: Number(session.user?.id),
+    action: decision,
+    note: note || undefined,
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to update review");
+  }
+
+  return result.data;
+});
+
+// Server action to choose who is notified when the page is submitted for review
+const savePageReviewers = action(async (postId: number, reviewerIds: number[]) => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await assignReviewers({ postId, reviewerIds, assignedById: Number(session.user?.id) });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save reviewers");
+  }
+
+  return result.data;
+});
+
+// Query the notes on the page's blocks and who can be mentioned in them
+const getNotesData = query(async (id: string) => {
+  "use server";
+  await requirePermission(Permission.EDIT_PAGES);
+  const [notes, candidates] = await Promise.all([
+    getBlockNotes(parseInt(id)),
+    getNoteMentionCandidates(),
+  ]);
+  return {
+    notes: notes.data?.notes || [],
+    blocks: notes.data?.blocks || [],
+    candidates: candidates.data || [],
+  };
+}, "pageBlockNotes");
+
+// Notes change nothing else on the page, so only they are refetched afterwards
+async function addNote(postId: number, note: NoteDraft, body: string) {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await createBlockNote({
+    postId,
+    blockUid: note.blockUid,
+    quote: note.quote ?? undefined,
+    authorId: Number(session.user?.id),
+    body,
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to add note");
+  }
+
+  return result.data;
+}
+
+async function replyToNote(noteId: number, body: string) {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await replyToBlockNote({ noteId, authorId: Number(session.user?.id), body });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to reply to note");
+  }
+
+  return result.data;
+}
+
+async function resolveNote(noteId: number, resolved: boolean) {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await setBlockNoteResolved({ noteId, userId: Number(session.user?.id), resolved });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to update note");
+  }
+
+  return result.data;
+}
+
 export default function EditPage() {
   const navigate = useNavigate();
   const params = useParams();
@@ -40,27 +339,62 @@ export default function EditPage() {
   const session = createAsync(() => getSession());
   const pageData = createAsync(() => getPageData(params.id));
   const customFieldDefs = createAsync(() => getCustomFields());
+  const previewLinks = createAsync(() => getPreviewLinks(params.id));
+  const createPreviewLink = useAction(addPreviewLink);
+  const revokePreviewLink = useAction(removePreviewLink);
+  const creatingPreviewLink = useSubmission(addPreviewLink);
+  const revisions = createAsync(() => getRevisionList(params.id));
+  const [selectedRevision, setSelectedRevision] = createSignal<number | null>(null);
+  const revisionDiff = createAsync(async () => {
+    const id = selectedRevision();
+    return id ? getRevisionDiff(id) : undefined;
+  });
+  const runRestoreRevision = useAction(restorePageRevision);
+  const restoringRevision = useSubmission(restorePageRevision);
+  const autosaveDraft = createAsync(() => getAutosaveDraft(params.id));
+  const reviewData = createAsync(() => getReviewData(params.id));
+  const notesData = createAsync(() => getNotesData(params.id));
+  const [noteDraft, setNoteDraft] = createSignal<NoteDraft | null>(null);
+  const [savingNote, setSavingNote] = createSignal(false);
+
+  // Run a note change, then refetch the notes
+  const changeNotes = async (change: () => Promise<unknown>) => {
+    setSavingNote(true);
+    try {
+      await change();
+      await revalidate(getNotesData.keyFor(params.id));
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const openNoteCounts = () => {
+    const counts: Record<string, number> = {};
+    for (const note of notesData()?.notes || []) {
+      if (!note.resolvedAt) counts[note.blockUid] = (counts[note.blockUid] || 0) + 1;
+    }
+    return counts;
+  };
+  const runReviewDecision = useAction(decidePageReview);
+  const decidingReview = useSubmission(decidePageReview);
+  const updatePageReviewers = useAction(savePageReviewers);
+  const savingPageReviewers = useSubmission(savePageReviewers);
+  const runSavePage = useAction(savePageChanges);
 
   const handleSubmit = async (formData: PageFormData) => {
     setIsSubmitting(true);
 
-    const result = await tryCatch(async () => {
-      const currentUser = session();
-      if (!currentUser?.user?.id) {
-        throw new Error("You must be logged in to update a page");
-      }
-
-        return await updatePost({
-          id: parseInt(params.id),
-          title: formData.title,
-          content: formData.content || undefined,
-          excerpt: formData.excerpt || undefined,
-          slug: formData.slug,
-          status: formData.status,
-          publishedAt: formData.status === "PUBLISHED" ? new Date() : undefined,
-          blocks: formData.blocks,
-        });
-    });
+    const save = (expectedUpdatedAt?: string) =>
+      tryCatch(() => runSavePage(parseInt(params.id), formData, expectedUpdatedAt));
+
+    const loaded = getPageDataSafe()?.updatedAt;
+    let result = await save(loaded ? new Date(loaded).toISOString() : undefined);
+    if (
+      result.error?.message === POST_CONFLICT_MESSAGE &&
+      confirm(`${POST_CONFLICT_MESSAGE}. Save anyway and overwrite their changes?`)
+    ) {
+      result = await save();
+    }
 
     if (result.error) {
       alert(`Error updating page: ${result.error.message}`);
@@ -99,13 +433,77 @@ export default function EditPage() {
             backLink={{ href: "/admin/pages", label: "Back to Pages" }}
           />
 
-          <PageForm
-            initialData={getPageDataSafe()}
-            customFields={getCustomFieldsSafe()}
-            isSubmitting={isSubmitting()}
-            onSubmit={handleSubmit}
-            onCancel={handleCancel}
-          />
+          <EditLock
+            acquire={(takeover) => lockPage(parseInt(params.id), takeover)}
+            release={() => unlockPage(parseInt(params.id))}
+            backHref="/admin/pages"
+          >
+            <PageForm
+              initialData={getPageDataSafe()}
+              customFields={getCustomFieldsSafe()}
+              isSubmitting={isSubmitting()}
+              onSubmit={handleSubmit}
+              onCancel={handleCancel}
+              autosave={autosaveDraft()?.data}
+              onAutosave={(content) => saveAutosave(parseInt(params.id), content)}
+              onDiscardAutosave={() => dropAutosave(parseInt(params.id))}
+              noteCounts={openNoteCounts()}
+              onAddNote={(blockUid, quote) => setNoteDraft({ blockUid, quote })}
+            />
+
+            <PreviewLinks
+              links={previewLinks()?.data || []}
+              creating={creatingPreviewLink.pending ?? false}
+              onCreate={async ({ expiresInHours, label }) => {
+                const link = await createPreviewLink(parseInt(params.id), expiresInHours, label);
+                return link?.path;
+              }}
+              onRevoke={revokePreviewLink}
+            />
+
+            <BlockNotesPanel
+              notes={notesData()?.notes || []}
+              blocks={notesData()?.blocks || []}
+              mentionCandidates={notesData()?.candidates || []}
+              draft={noteDraft()}
+              busy={savingNote()}
+              onCreate={(body) => changeNotes(async () => {
+                await addNote(parseInt(params.id), noteDraft()!, body);
+                setNoteDraft(null);
+              })}
+              onCancelDraft={() => setNoteDraft(null)}
+              onReply={(noteId, body) => changeNotes(() => replyToNote(noteId, body))}
+              onResolve={(noteId, resolved) => changeNotes(() => resolveNote(noteId, resolved))}
+            />
+
+            <ReviewPanel
+              status={getPageDataSafe()?.status ?? "DRAFT"}
+              canReview={sessionHasPermission(session() ?? null, Permission.PUBLISH_PAGES)}
+              trail={reviewData()?.trail || []}
+              reviewerIds={reviewData()?.reviewerIds || []}
+              candidates={reviewData()?.candidates || []}
+              busy={(decidingReview.pending || savingPageReviewers.pending) ?? false}
+              onDecide={async (decision, note) => {
+                await runReviewDecision(parseInt(params.id), decision, note);
+                // The editor only loads the page once, so reload it with its new status
+                window.location.reload();
+              }}
+              onAssign={(reviewerIds) => updatePageReviewers(parseInt(params.id), reviewerIds)}
+            />
+
+            <RevisionsPanel
+              revisions={revisions()?.data || []}
+              selectedId={selectedRevision()}
+              comparison={revisionDiff()?.data}
+              restoring={restoringRevision.pending ?? false}
+              onSelect={setSelectedRevision}
+              onRestore={async (revisionId) => {
+                await runRestoreRevision(revisionId);
+                // The editor only loads the page once, so reload it with the restored content
+                window.location.reload();
+              }}
+            />
+          </EditLock>
         </div>
       </div>
     </AdminLayout>
@@ -6,11 +6,15 @@ import {
   useNavigate,
   action,
   useAction,
+  useSubmission,
   type Action,
 } from "@solidjs/router";
 import AdminLayout from "../layout";
-import { getPosts, createPage } from "../../../lib";
-import { getAdminSession } from "~/lib/auth-utils";
+import { getPosts, createPage, getPageTree, reorderPages, getActivePostLocks, trashPosts } from "../../../lib";
+import { getAdminSession, requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import { PageTree, type PageTreePosition } from "~/components/admin/page-tree";
+import { holderName } from "~/components/admin/edit-lock";
 import type { PostListItem, ApiResponse, PostFilters } from "~/lib/types";
 import type { Session } from "@auth/solid-start";
 
@@ -46,6 +50,36 @@ const createNewPage: Action<[], never> = action(async (): Promise<never> => {
   throw redirect(`/admin/pages/edit/${result.data.id}`);
 });
 
+// Server action to save the page tree's parents and order
+const savePageTree = action(async (pages: PageTreePosition[]) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_PAGES);
+
+  const result = await reorderPages({ pages });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save page order");
+  }
+
+  return result.data;
+});
+
+// Server action to move a page to the trash
+const trashPage = action(async (pageId: number) => {
+  "use server";
+
+  await requirePermission(Permission.DELETE_PAGES);
+
+  const result = await trashPosts([pageId]);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to move page to trash");
+  }
+
+  return result.data;
+});
+
 // Server function to get auth and pages data
 async function getAdminPagesData() {
   "use server";
@@ -60,11 +94,15 @@ async function getAdminPagesData() {
     orderDirection: "desc",
   };
 
-  const result = await getPosts(filters);
+  const [result, tree] = await Promise.all([getPosts(filters), getPageTree()]);
+  const pages = result.data || [];
+  const locks = await getActivePostLocks(pages.map((page) => page.id));
 
   return {
     session,
-    pages: result.data || [],
+    pages,
+    tree: tree.data || [],
+    locks: locks.data || [],
   };
 }
 
@@ -74,6 +112,10 @@ export default function AdminPages(): JSX.Element {
     "all" | "published" | "draft" | "private"
   >("all");
   const createPageAction = useAction(createNewPage) as any;
+  const saveTree = useAction(savePageTree);
+  const treeSubmission = useSubmission(savePageTree);
+  const runTrash = useAction(trashPage);
+  const [trashedIds, setTrashedIds] = createSignal<number[]>([]);
 
   // Get both auth and data from server in one call
   const data = createAsync(() => getAdminPagesData(), {
@@ -81,7 +123,23 @@ export default function AdminPages(): JSX.Element {
   });
 
   const session = () => data()?.session;
-  const pages = () => data()?.pages || [];
+  const pages = () => (data()?.pages || []).filter((page) => !trashedIds().includes(page.id));
+  const tree = () => data()?.tree || [];
+  // Children of a trashed page show at the top level until it's restored
+  const liveTree = () =>
+    tree().filter((page) => page.status !== "TRASH" && !trashedIds().includes(page.id));
+  const pagePath = (id: number) => tree().find((page) => page.id === id)?.path;
+  const lockOf = (id: number) => data()?.locks.find((lock) => lock.postId === id);
+
+  const moveToTrash = async (page: { id: number; title: string }) => {
+    if (!confirm(`Move "${page.title}" to the trash?`)) return;
+    try {
+      await runTrash(page.id);
+      setTrashedIds((ids) => [...ids, page.id]);
+    } catch (error) {
+      alert(`Error deleting page: ${error instanceof Error ? error.message : error}`);
+    }
+  };
 
   // Filter pages based on search and status
   const filteredPages = () => {
@@ -227,6 +285,20 @@ export default function AdminPages(): JSX.Element {
               }}
             </Show>
 
+            {/* Page Hierarchy */}
+            <div class="mb-8">
+              <Show when={treeSubmission.error}>
+                <div class="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  {treeSubmission.error?.message || "Failed to save page order"}
+                </div>
+              </Show>
+              <PageTree
+                pages={liveTree()}
+                saving={treeSubmission.pending ?? false}
+                onSave={(positions) => saveTree(positions)}
+              />
+            </div>
+
             {/* Enhanced Pages List */}
             <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
               <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
@@ -314,9 +386,16 @@ export default function AdminPages(): JSX.Element {
                                       {page.title}
                                     </A>
                                   </div>
+                                  <Show when={lockOf(page.id)}>
+                                    {(lock) => (
+                                      <div class="text-xs text-orange-700">
+                                        🔒 {holderName(lock().user)} is editing
+                                      </div>
+                                    )}
+                                  </Show>
                                   <Show when={page.slug}>
                                     <div class="text-sm text-gray-500">
-                                      /{page.slug}
+                                      {pagePath(page.id) || `/${page.slug}`}
                                     </div>
                                   </Show>
                                 </div>
@@ -380,7 +459,7 @@ export default function AdminPages(): JSX.Element {
                               <div class="flex items-center justify-end space-x-2">
                                 <Show when={page.publishedAt}>
                                   <A
-                                    href={`/pages/${page.slug}`}
+                                    href={pagePath(page.id) || `/${page.slug}`}
                                     target="_blank"
                                     class="text-green-600 hover:text-green-800 px-3 py-1 rounded hover:bg-green-50 transition-colors"
                                   >
@@ -393,7 +472,10 @@ export default function AdminPages(): JSX.Element {
                                 >
                                   Edit
                                 </A>
-                                <button class="text-red-600 hover:text-red-800 px-3 py-1 rounded hover:bg-red-50 transition-colors">
+                                <button
+                                  onClick={() => moveToTrash(page)}
+                                  class="text-red-600 hover:text-red-800 px-3 py-1 rounded hover:bg-red-50 transition-colors"
+                                >
                                   Delete
                                 </button>
                               </div>
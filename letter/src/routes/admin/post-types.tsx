@@ -0,0 +1,259 @@
+import { Show, For, createSignal } from "solid-js";
+import { createAsync, action, useSubmission } from "@solidjs/router";
+import AdminLayout from "./layout";
+import { getAdminSession, requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import { getPostTypes, createPostType, updatePostType, postTypeArchivePath } from "~/lib";
+
+// Features a post type can opt into, stored in PostTypeDefinition.supports
+const SUPPORT_OPTIONS = [
+  { value: "title", label: "Title" },
+  { value: "editor", label: "Editor" },
+  { value: "excerpt", label: "Excerpt" },
+  { value: "thumbnail", label: "Featured image" },
+  { value: "comments", label: "Comments" },
+];
+
+// Server function to get auth and post type data
+async function getAdminPostTypesData() {
+  "use server";
+
+  const session = await getAdminSession();
+  const result = await getPostTypes();
+
+  return {
+    session,
+    postTypes: result.data || [],
+  };
+}
+
+// Read the fields shared by the create and edit forms
+function postTypeFields(formData: FormData) {
+  const rewriteSlug = String(formData.get("rewriteSlug") || "").trim();
+  return {
+    label: String(formData.get("label") || ""),
+    description: String(formData.get("description") || "") || undefined,
+    public: formData.get("public") === "on",
+    supports: formData.getAll("supports").map(String),
+    rewriteSlug: rewriteSlug || null,
+  };
+}
+
+// Server action to create a post type
+const addPostType = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.MANAGE_CUSTOM_FIELDS);
+
+  const { rewriteSlug, ...fields } = postTypeFields(formData);
+  const result = await createPostType({
+    ...fields,
+    name: String(formData.get("name") || "").trim(),
+    rewriteSlug: rewriteSlug ?? undefined,
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to create post type");
+  }
+
+  return result.data;
+});
+
+// Server action to save a post type's settings
+const savePostType = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.MANAGE_CUSTOM_FIELDS);
+
+  const result = await updatePostType({
+    id: Number(formData.get("id")),
+    ...postTypeFields(formData),
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save post type");
+  }
+
+  return result.data;
+});
+
+export default function AdminPostTypes() {
+  const data = createAsync(() => getAdminPostTypesData(), { deferStream: true });
+  const createSubmission = useSubmission(addPostType);
+  const saveSubmission = useSubmission(savePostType);
+  const [editingId, setEditingId] = createSignal<number | null>(null);
+
+  const session = () => data()?.session;
+  const postTypes = () => data()?.postTypes || [];
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-7xl mx-auto space-y-8">
+            <div>
+              <h1 class="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                <span class="mr-3">🗂️</span>
+                Post Types
+              </h1>
+              <p class="text-gray-600">
+                Public post types are listed at <code>/&lt;rewrite slug&gt;</code> and their entries
+                served at <code>/&lt;rewrite slug&gt;/&lt;entry slug&gt;</code>. Themes can give a type
+                its own layouts under the keys <code>&lt;name&gt;</code> and{" "}
+                <code>&lt;name&gt;:archive</code>.
+              </p>
+            </div>
+
+            <Show when={createSubmission.error || saveSubmission.error}>
+              <div class="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                {(createSubmission.error || saveSubmission.error)?.message}
+              </div>
+            </Show>
+
+            <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h2 class="text-lg font-semibold text-gray-900">Registered Types</h2>
+              </div>
+              <Show
+                when={postTypes().length > 0}
+                fallback={<p class="p-6 text-sm text-gray-500">No post types yet.</p>}
+              >
+                <ul class="divide-y divide-gray-100">
+                  <For each={postTypes()}>
+                    {(postType) => (
+                      <li class="px-6 py-4">
+                        <div class="flex items-center justify-between">
+                          <div>
+                            <div class="text-sm font-medium text-gray-900">
+                              {postType.label}
+                              <span class="ml-2 text-xs text-gray-500">{postType.name}</span>
+                            </div>
+                            <div class="text-xs text-gray-500">
+                              <Show when={postType.public} fallback={<span>Private, no public routes</span>}>
+                                <a href={postTypeArchivePath(postType)} class="hover:text-blue-600">
+                                  {postTypeArchivePath(postType)}
+                                </a>
+                              </Show>
+                              <span class="mx-2">•</span>
+                              {postType._count.customFields} custom fields
+                            </div>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setEditingId(editingId() === postType.id ? null : postType.id)}
+                            class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+                          >
+                            {editingId() === postType.id ? "Close" : "Edit"}
+                          </button>
+                        </div>
+
+                        <Show when={editingId() === postType.id}>
+                          <form action={savePostType} method="post" class="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <input type="hidden" name="id" value={postType.id} />
+                            <label class="block text-sm text-gray-700">
+                              Label
+                              <input name="label" value={postType.label} required class={inputClass} />
+                            </label>
+                            <label class="block text-sm text-gray-700">
+                              Rewrite slug
+                              <input
+                                name="rewriteSlug"
+                                value={postType.rewriteSlug || ""}
+                                placeholder={postType.name}
+                                pattern="[a-z0-9-]+"
+                                class={inputClass}
+                              />
+                            </label>
+                            <label class="block text-sm text-gray-700 md:col-span-2">
+                              Description
+                              <input name="description" value={postType.description || ""} class={inputClass} />
+                            </label>
+                            <SupportsFieldset selected={postType.supports} isPublic={postType.public} />
+                            <div class="md:col-span-2">
+                              <button
+                                type="submit"
+                                disabled={saveSubmission.pending}
+                                class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                              >
+                                {saveSubmission.pending ? "Saving..." : "Save Post Type"}
+                              </button>
+                            </div>
+                          </form>
+                        </Show>
+                      </li>
+                    )}
+                  </For>
+                </ul>
+              </Show>
+            </div>
+
+            <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h2 class="text-lg font-semibold text-gray-900">Add Post Type</h2>
+              </div>
+              <form action={addPostType} method="post" class="p-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+                <label class="block text-sm text-gray-700">
+                  Name
+                  <input name="name" required pattern="[a-zA-Z0-9_]+" placeholder="product" class={inputClass} />
+                </label>
+                <label class="block text-sm text-gray-700">
+                  Label
+                  <input name="label" required placeholder="Products" class={inputClass} />
+                </label>
+                <label class="block text-sm text-gray-700">
+                  Rewrite slug
+                  <input name="rewriteSlug" pattern="[a-z0-9-]+" placeholder="products" class={inputClass} />
+                </label>
+                <SupportsFieldset selected={["title", "editor"]} isPublic={true} />
+                <div class="md:col-span-3">
+                  <button
+                    type="submit"
+                    disabled={createSubmission.pending}
+                    class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                  >
+                    {createSubmission.pending ? "Adding..." : "Add Post Type"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
+
+function SupportsFieldset(props: { selected: string[]; isPublic: boolean }) {
+  return (
+    <fieldset class="md:col-span-full flex flex-wrap items-center gap-4 text-sm text-gray-700">
+      <label class="inline-flex items-center">
+        <input type="checkbox" name="public" checked={props.isPublic} class="mr-2" />
+        Public
+      </label>
+      <For each={SUPPORT_OPTIONS}>
+        {(option) => (
+          <label class="inline-flex items-center">
+            <input
+              type="checkbox"
+              name="supports"
+              value={option.value}
+              checked={props.selected.includes(option.value)}
+              class="mr-2"
+            />
+            {option.label}
+          </label>
+        )}
+      </For>
+    </fieldset>
+  );
+}
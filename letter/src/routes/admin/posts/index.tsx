@@ -8,10 +8,12 @@ import {
   useAction,
 } from "@solidjs/router";
 import AdminLayout from "../layout";
-import { getPosts, createPost } from "../../../lib";
-import { getAdminSession } from "~/lib/auth-utils";
+import { getPosts, createPost, getSiteSettings, buildPostPath, getActivePostLocks, trashPosts } from "../../../lib";
+import { getAdminSession, requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
 import type { PostListItem, ApiResponse, PostFilters } from "~/lib/types";
 import type { Session } from "@auth/solid-start";
+import { holderName } from "~/components/admin/edit-lock";
 
 // Server action to create a new post
 const createNewPost = action(async (): Promise<never> => {
@@ -46,6 +48,21 @@ const createNewPost = action(async (): Promise<never> => {
   throw redirect(`/admin/posts/edit/${result.data.id}`);
 });
 
+// Server action to move a post to the trash
+const trashPost = action(async (postId: number) => {
+  "use server";
+
+  await requirePermission(Permission.DELETE_POSTS);
+
+  const result = await trashPosts([postId]);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to move post to trash");
+  }
+
+  return result.data;
+});
+
 // Server function to get auth and posts data
 async function getAdminPostsData() {
   "use server";
@@ -60,20 +77,30 @@ async function getAdminPostsData() {
     orderDirection: "desc",
   };
 
-  const result = await getPosts(filters);
+  const [result, settings] = await Promise.all([
+    getPosts(filters),
+    getSiteSettings(),
+  ]);
+
+  const posts = result.data || [];
+  const locks = await getActivePostLocks(posts.map((post) => post.id));
 
   return {
     session,
-    posts: result.data || [],
+    posts,
+    locks: locks.data || [],
+    permalinkStructure: settings.data?.permalinkStructure,
   };
 }
 
 export default function AdminPosts(): JSX.Element {
   const [searchTerm, setSearchTerm] = createSignal<string>("");
   const [statusFilter, setStatusFilter] = createSignal<
-    "all" | "published" | "draft" | "private" | "review"
+    "all" | "published" | "scheduled" | "draft" | "private" | "review"
   >("all");
   const createPostAction = useAction(createNewPost) as any;
+  const runTrash = useAction(trashPost);
+  const [trashedIds, setTrashedIds] = createSignal<number[]>([]);
 
   // Get both auth and data from server in one call
   const data = createAsync(() => getAdminPostsData(), {
@@ -81,7 +108,18 @@ export default function AdminPosts(): JSX.Element {
   });
 
   const session = () => data()?.session;
-  const posts = () => data()?.posts || [];
+  const posts = () => (data()?.posts || []).filter((post) => !trashedIds().includes(post.id));
+  const lockOf = (id: number) => data()?.locks.find((lock) => lock.postId === id);
+
+  const moveToTrash = async (post: { id: number; title: string }) => {
+    if (!confirm(`Move "${post.title}" to the trash?`)) return;
+    try {
+      await runTrash(post.id);
+      setTrashedIds((ids) => [...ids, post.id]);
+    } catch (error) {
+      alert(`Error deleting post: ${error instanceof Error ? error.message : error}`);
+    }
+  };
 
   // Filter posts based on search and status
   const filteredPosts = () => {
@@ -95,7 +133,8 @@ export default function AdminPosts(): JSX.Element {
 
       const matchesStatus =
         statusFilter() === "all" ||
-        (statusFilter() === "published" && post.publishedAt) ||
+        (statusFilter() === "published" && post.status === "PUBLISHED") ||
+        (statusFilter() === "scheduled" && post.status === "SCHEDULED") ||
         (statusFilter() === "draft" && !post.publishedAt && post.status === "DRAFT") ||
         (statusFilter() === "private" && post.status === "PRIVATE") ||
         (statusFilter() === "review" && post.status === "REVIEW");
@@ -169,10 +208,11 @@ export default function AdminPosts(): JSX.Element {
                   <select
                     class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                     value={statusFilter()}
-                    onChange={(e) => setStatusFilter(e.currentTarget.value as "all" | "published" | "draft" | "private" | "review")}
+                    onChange={(e) => setStatusFilter(e.currentTarget.value as "all" | "published" | "scheduled" | "draft" | "private" | "review")}
                   >
                     <option value="all">All Posts</option>
                     <option value="published">Published</option>
+                    <option value="scheduled">Scheduled</option>
                     <option value="draft">Drafts</option>
                     <option value="review">Under Review</option>
                     <option value="private">Private</option>
@@ -186,7 +226,10 @@ export default function AdminPosts(): JSX.Element {
               {(postList) => {
                 const totalPosts = postList().length;
                 const publishedPosts = postList().filter(
-                  (p: any) => p.publishedAt
+                  (p: any) => p.status === "PUBLISHED"
+                ).length;
+                const scheduledPosts = postList().filter(
+                  (p: any) => p.status === "SCHEDULED"
                 ).length;
                 const draftPosts = postList().filter(
                   (p: any) => !p.publishedAt && p.status === "DRAFT"
@@ -209,7 +252,11 @@ export default function AdminPosts(): JSX.Element {
                       value={publishedPosts}
                       icon="🌐"
                       color="green"
-                      subtitle="Live on website"
+                      subtitle={
+                        scheduledPosts > 0
+                          ? `${scheduledPosts} more scheduled`
+                          : "Live on website"
+                      }
                     />
                     <PostStatsCard
                       title="Drafts"
@@ -320,6 +367,13 @@ export default function AdminPosts(): JSX.Element {
                                       {post.title}
                                     </A>
                                   </div>
+                                  <Show when={lockOf(post.id)}>
+                                    {(lock) => (
+                                      <div class="text-xs text-orange-700">
+                                        🔒 {holderName(lock().user)} is editing
+                                      </div>
+                                    )}
+                                  </Show>
                                   <Show when={post.slug}>
                                     <div class="text-sm text-gray-500">
                                       /{post.slug}
@@ -331,7 +385,9 @@ export default function AdminPosts(): JSX.Element {
                             <td class="px-6 py-4 whitespace-nowrap">
                               <span
                                 class={`inline-flex items-center px-3 py-1 text-xs font-semibold rounded-full ${
-                                  post.publishedAt
+                                  post.status === "SCHEDULED"
+                                    ? "bg-blue-100 text-blue-800 border border-blue-200"
+                                    : post.publishedAt
                                     ? "bg-green-100 text-green-800 border border-green-200"
                                     : post.status === "PRIVATE"
                                     ? "bg-purple-100 text-purple-800 border border-purple-200"
@@ -340,7 +396,9 @@ export default function AdminPosts(): JSX.Element {
                                     : "bg-yellow-100 text-yellow-800 border border-yellow-200"
                                 }`}
                               >
-                                {post.publishedAt
+                                {post.status === "SCHEDULED"
+                                  ? "Scheduled"
+                                  : post.publishedAt
                                   ? "Published"
                                   : post.status === "PRIVATE"
                                   ? "Private"
@@ -387,6 +445,11 @@ export default function AdminPosts(): JSX.Element {
                                   {new Date(post.publishedAt!).toLocaleTimeString()}
                                 </div>
                               </Show>
+                              <Show when={post.expiresAt}>
+                                <div class="text-xs text-orange-600">
+                                  Expires {new Date(post.expiresAt!).toLocaleDateString()}
+                                </div>
+                              </Show>
                             </td>
                             <td class="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                               <div>
@@ -398,9 +461,9 @@ export default function AdminPosts(): JSX.Element {
                             </td>
                             <td class="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                               <div class="flex items-center justify-end space-x-2">
-                                <Show when={post.publishedAt}>
+                                <Show when={post.publishedAt && post.status !== "SCHEDULED"}>
                                   <A
-                                    href={`/posts/${post.slug}`}
+                                    href={buildPostPath(post, data()?.permalinkStructure)}
                                     target="_blank"
                                     class="text-green-600 hover:text-green-800 px-3 py-1 rounded hover:bg-green-50 transition-colors"
                                   >
@@ -413,7 +476,10 @@ export default function AdminPosts(): JSX.Element {
                                 >
                                   Edit
                                 </A>
-                                <button class="text-red-600 hover:text-red-800 px-3 py-1 rounded hover:bg-red-50 transition-colors">
+                                <button
+                                  onClick={() => moveToTrash(post)}
+                                  class="text-red-600 hover:text-red-800 px-3 py-1 rounded hover:bg-red-50 transition-colors"
+                                >
                                   Delete
                                 </button>
                               </div>
@@ -1,7 +1,14 @@
 import { createSignal, Show, createResource, For } from "solid-js";
-import { A, createAsync, redirect } from "@solidjs/router";
+import { A, createAsync, redirect, action, useSubmission } from "@solidjs/router";
 import AdminLayout from "./layout";
-import { getAdminSession } from "~/lib/auth-utils";
+import { getAdminSession, requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import {
+  getSiteSettings,
+  updateSiteSettings,
+  SITE_SETTING_DEFAULTS,
+} from "~/lib/site-settings";
+import { rebuildSearchIndex } from "~/lib/search-index";
 
 // Server function to get auth and settings data
 async function getAdminSettingsData() {
@@ -10,29 +17,46 @@ async function getAdminSettingsData() {
   // Use the cached admin session check
   const session = await getAdminSession();
 
-  // TODO: Implement actual settings loading
-  const settings = {
-    siteTitle: "Letter-Press CMS",
-    siteDescription: "A powerful content management system",
-    siteUrl: "https://example.com",
-    adminEmail: "admin@example.com",
-    timezone: "UTC",
-    postsPerPage: 10,
-    defaultPostStatus: "DRAFT",
-    commentsEnabled: true,
-    userRegistration: false,
-    theme: "default",
-  };
+  const result = await getSiteSettings();
 
   return {
     session,
-    settings,
+    settings: result.data || SITE_SETTING_DEFAULTS,
   };
 }
 
+// Server action to persist the settings of a tab form
+const saveSettings = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.MANAGE_SETTINGS);
+
+  // Checkboxes are preceded by a hidden "false" input, so the last value wins
+  const values: Record<string, string> = {};
+  for (const key of new Set(formData.keys())) {
+    const entries = formData.getAll(key);
+    values[key] = String(entries[entries.length - 1]);
+  }
+
+  const previous = await getSiteSettings();
+  const result = await updateSiteSettings(values);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save settings");
+  }
+
+  // Stemming depends on the site language, so the search index must follow it
+  if (values.siteLanguage && values.siteLanguage !== previous.data?.siteLanguage) {
+    await rebuildSearchIndex();
+  }
+
+  return result.data;
+});
+
 export default function AdminSettings() {
   const [activeTab, setActiveTab] = createSignal("general");
   const [saved, setSaved] = createSignal(false);
+  const submission = useSubmission(saveSettings);
 
   // Get both auth and data from server in one call
   const data = createAsync(() => getAdminSettingsData(), {
@@ -172,7 +196,17 @@ export default function AdminSettings() {
                 </div>
 
                 {/* Enhanced Save Notification */}
-                <Show when={saved()}>
+                <Show when={submission.error}>
+                  <div class="mt-6 bg-red-50 border border-red-200 rounded-xl p-4 shadow-sm">
+                    <div class="flex items-center">
+                      <span class="text-red-600 mr-3 text-xl">⚠️</span>
+                      <span class="text-red-800 font-semibold">
+                        {submission.error?.message || "Failed to save settings"}
+                      </span>
+                    </div>
+                  </div>
+                </Show>
+                <Show when={saved() || (submission.result && !submission.pending)}>
                   <div class="mt-6 bg-green-50 border border-green-200 rounded-xl p-4 shadow-sm">
                     <div class="flex items-center">
                       <span class="text-green-600 mr-3 text-xl">✅</span>
@@ -209,7 +243,7 @@ function GeneralSettings(props: { onSave: () => void; settings: any }) {
           Configure basic site information and preferences
         </p>
       </div>
-      <div class="p-6 space-y-6">
+      <form action={saveSettings} method="post" class="p-6 space-y-6">
         <div class="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
             <label class="block text-sm font-medium text-gray-700 mb-2">
@@ -218,6 +252,7 @@ function GeneralSettings(props: { onSave: () => void; settings: any }) {
             <input
               type="text"
               class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              name="siteTitle"
               placeholder="Letter-Press CMS"
               value={props.settings()?.siteTitle || ""}
             />
@@ -231,6 +266,7 @@ function GeneralSettings(props: { onSave: () => void; settings: any }) {
             <input
               type="url"
               class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              name="siteUrl"
               placeholder="https://example.com"
               value={props.settings()?.siteUrl || ""}
             />
@@ -244,6 +280,7 @@ function GeneralSettings(props: { onSave: () => void; settings: any }) {
           </label>
           <textarea
             rows={3}
+            name="siteDescription"
             class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             placeholder="A powerful content management system"
             value={props.settings()?.siteDescription || ""}
@@ -254,6 +291,40 @@ function GeneralSettings(props: { onSave: () => void; settings: any }) {
         </div>
 
         <div class="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-2">
+              Default Social Image
+            </label>
+            <input
+              type="text"
+              class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              name="defaultSocialImage"
+              placeholder="/uploads/social.png"
+              value={props.settings()?.defaultSocialImage || ""}
+            />
+            <p class="text-xs text-gray-500 mt-1">
+              Shared image for pages without a featured or Open Graph image
+            </p>
+          </div>
+
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-2">
+              Twitter Handle
+            </label>
+            <input
+              type="text"
+              class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              name="twitterSite"
+              placeholder="@example"
+              value={props.settings()?.twitterSite || ""}
+            />
+            <p class="text-xs text-gray-500 mt-1">
+              Sent as twitter:site on every page
+            </p>
+          </div>
+        </div>
+
+        <div class="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div>
             <label class="block text-sm font-medium text-gray-700 mb-2">
               Admin Email
@@ -261,6 +332,7 @@ function GeneralSettings(props: { onSave: () => void; settings: any }) {
             <input
               type="email"
               class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              name="adminEmail"
               placeholder="admin@example.com"
               value={props.settings()?.adminEmail || ""}
             />
@@ -273,7 +345,11 @@ function GeneralSettings(props: { onSave: () => void; settings: any }) {
             <label class="block text-sm font-medium text-gray-700 mb-2">
               Timezone
             </label>
-            <select class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+            <select
+              name="timezone"
+              value={props.settings()?.timezone || "UTC"}
+              class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
               <option value="UTC">UTC (Coordinated Universal Time)</option>
               <option value="America/New_York">Eastern Time (ET)</option>
               <option value="America/Chicago">Central Time (CT)</option>
@@ -289,17 +365,47 @@ function GeneralSettings(props: { onSave: () => void; settings: any }) {
               Default timezone for dates and times
             </p>
           </div>
+
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-2">
+              Site Language
+            </label>
+            <select
+              name="siteLanguage"
+              value={props.settings()?.siteLanguage || "en"}
+              class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="en">English</option>
+              <option value="de">German</option>
+              <option value="fr">French</option>
+              <option value="es">Spanish</option>
+              <option value="it">Italian</option>
+              <option value="pt">Portuguese</option>
+              <option value="nl">Dutch</option>
+              <option value="sv">Swedish</option>
+              <option value="da">Danish</option>
+              <option value="no">Norwegian</option>
+              <option value="fi">Finnish</option>
+              <option value="ru">Russian</option>
+              <option value="tr">Turkish</option>
+              <option value="hu">Hungarian</option>
+              <option value="ro">Romanian</option>
+            </select>
+            <p class="text-xs text-gray-500 mt-1">
+              Used for search stemming; changing it rebuilds the search index
+            </p>
+          </div>
         </div>
 
         <div class="pt-4 border-t border-gray-200">
           <button
-            onClick={props.onSave}
+            type="submit"
             class="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
           >
             Save General Settings
           </button>
         </div>
-      </div>
+      </form>
     </div>
   );
 }
@@ -317,7 +423,7 @@ function ContentSettings(props: { onSave: () => void; settings: any }) {
           Configure how posts and pages are displayed and managed
         </p>
       </div>
-      <div class="p-6 space-y-6">
+      <form action={saveSettings} method="post" class="p-6 space-y-6">
         <div class="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
             <label class="block text-sm font-medium text-gray-700 mb-2">
@@ -325,6 +431,7 @@ function ContentSettings(props: { onSave: () => void; settings: any }) {
             </label>
             <input
               type="number"
+              name="postsPerPage"
               class="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               value={props.settings()?.postsPerPage || 10}
               min="1"
@@ -339,7 +446,11 @@ function ContentSettings(props: { onSave: () => void; settings: any }) {
             <label class="block text-sm font-medium text-gray-700 mb-2">
               Default post status
             </label>
-            <select class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent">
+            <select
+              name="defaultPostStatus"
+              value={props.settings()?.defaultPostStatus || "DRAFT"}
+              class="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
               <option value="DRAFT">Draft</option>
               <option value="PUBLISHED">Published</option>
               <option value="PRIVATE">Private</option>
@@ -348,6 +459,54 @@ function ContentSettings(props: { onSave: () => void; settings: any }) {
               Default status for new posts
             </p>
           </div>
+
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-2">
+              Revisions to keep
+            </label>
+            <input
+              type="number"
+              name="revisionLimit"
+              class="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={props.settings()?.revisionLimit ?? 25}
+              min="0"
+            />
+            <p class="text-xs text-gray-500 mt-1">
+              Older revisions of each post are deleted; 0 keeps them all
+            </p>
+          </div>
+
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-2">
+              Days to keep trash
+            </label>
+            <input
+              type="number"
+              name="trashRetentionDays"
+              class="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={props.settings()?.trashRetentionDays ?? 30}
+              min="0"
+            />
+            <p class="text-xs text-gray-500 mt-1">
+              Trashed posts, pages, comments and media are deleted for good after this; 0 keeps them
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-2">
+            Permalink structure
+          </label>
+          <input
+            type="text"
+            name="permalinkStructure"
+            class="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="/blog/:slug"
+            value={props.settings()?.permalinkStructure || "/blog/:slug"}
+          />
+          <p class="text-xs text-gray-500 mt-1">
+            Public URL of posts. Available tokens: :year, :month, :day, :id and :slug (required), e.g. /:year/:month/:slug
+          </p>
         </div>
 
         <div class="space-y-4">
@@ -359,8 +518,11 @@ function ContentSettings(props: { onSave: () => void; settings: any }) {
               </p>
             </div>
             <label class="relative inline-flex items-center cursor-pointer">
+              <input type="hidden" name="commentsEnabled" value="false" />
               <input
                 type="checkbox"
+                name="commentsEnabled"
+                value="true"
                 class="sr-only peer"
                 checked={props.settings()?.commentsEnabled || false}
               />
@@ -368,6 +530,240 @@ function ContentSettings(props: { onSave: () => void; settings: any }) {
             </label>
           </div>
 
+          <div class="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+            <div class="flex-1">
+              <h4 class="text-sm font-medium text-gray-900">
+                Hold comments for moderation
+              </h4>
+              <p class="text-sm text-gray-600">
+                New comments wait for approval before they appear
+              </p>
+            </div>
+            <label class="relative inline-flex items-center cursor-pointer">
+              <input type="hidden" name="commentsRequireApproval" value="false" />
+              <input
+                type="checkbox"
+                name="commentsRequireApproval"
+                value="true"
+                class="sr-only peer"
+                checked={props.settings()?.commentsRequireApproval ?? true}
+              />
+              <div class="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+
+          <div class="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+            <div class="flex-1">
+              <h4 class="text-sm font-medium text-gray-900">
+                Approve returning commenters
+              </h4>
+              <p class="text-sm text-gray-600">
+                Skip moderation for emails with a previously approved comment
+              </p>
+            </div>
+            <label class="relative inline-flex items-center cursor-pointer">
+              <input type="hidden" name="commentsAutoApproveKnown" value="false" />
+              <input
+                type="checkbox"
+                name="commentsAutoApproveKnown"
+                value="true"
+                class="sr-only peer"
+                checked={props.settings()?.commentsAutoApproveKnown ?? true}
+              />
+              <div class="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+
+          <div class="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+            <div class="flex-1">
+              <h4 class="text-sm font-medium text-gray-900">
+                Approve signed-in users
+              </h4>
+              <p class="text-sm text-gray-600">
+                Skip moderation for comments from signed-in users
+              </p>
+            </div>
+            <label class="relative inline-flex items-center cursor-pointer">
+              <input type="hidden" name="commentsAutoApproveUsers" value="false" />
+              <input
+                type="checkbox"
+                name="commentsAutoApproveUsers"
+                value="true"
+                class="sr-only peer"
+                checked={props.settings()?.commentsAutoApproveUsers ?? false}
+              />
+              <div class="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-6 p-4">
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-2">
+                Maximum reply depth
+              </label>
+              <input
+                type="number"
+                name="commentMaxDepth"
+                class="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                value={props.settings()?.commentMaxDepth ?? 3}
+                min="1"
+                max="10"
+              />
+              <p class="text-xs text-gray-500 mt-1">
+                Levels of nested replies; 1 allows no replies
+              </p>
+            </div>
+
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-2">
+                Close comments after (days)
+              </label>
+              <input
+                type="number"
+                name="closeCommentsAfterDays"
+                class="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                value={props.settings()?.closeCommentsAfterDays ?? 0}
+                min="0"
+              />
+              <p class="text-xs text-gray-500 mt-1">
+                Days after publishing; 0 keeps comments open
+              </p>
+            </div>
+          </div>
+
+          <div class="p-4 border border-gray-200 rounded-lg space-y-6">
+            <div>
+              <h4 class="text-sm font-medium text-gray-900">Spam protection</h4>
+              <p class="text-sm text-gray-600">
+                Comments caught by these checks go straight to the Spam tab
+              </p>
+            </div>
+
+            <div class="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label class="block text-sm font-medium text-gray-700 mb-2">
+                  Minimum time to submit (seconds)
+                </label>
+                <input
+                  type="number"
+                  name="spamMinSubmitSeconds"
+                  class="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  value={props.settings()?.spamMinSubmitSeconds ?? 3}
+                  min="0"
+                />
+                <p class="text-xs text-gray-500 mt-1">
+                  Faster submissions are from bots; 0 disables
+                </p>
+              </div>
+
+              <div>
+                <label class="block text-sm font-medium text-gray-700 mb-2">
+                  Maximum links
+                </label>
+                <input
+                  type="number"
+                  name="spamMaxLinks"
+                  class="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  value={props.settings()?.spamMaxLinks ?? 2}
+                  min="-1"
+                />
+                <p class="text-xs text-gray-500 mt-1">
+                  Links allowed in a comment; -1 allows any number
+                </p>
+              </div>
+
+              <div>
+                <label class="block text-sm font-medium text-gray-700 mb-2">
+                  Classifier threshold
+                </label>
+                <input
+                  type="number"
+                  name="spamClassifierThreshold"
+                  class="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  value={props.settings()?.spamClassifierThreshold ?? 0.9}
+                  min="0.5"
+                  max="1"
+                  step="0.01"
+                />
+                <p class="text-xs text-gray-500 mt-1">
+                  Spam probability at which comments are caught
+                </p>
+              </div>
+            </div>
+
+            <div class="flex items-center justify-between">
+              <div class="flex-1">
+                <h4 class="text-sm font-medium text-gray-900">
+                  Learn from moderation
+                </h4>
+                <p class="text-sm text-gray-600">
+                  Classify comments using those you've marked as spam or approved
+                </p>
+              </div>
+              <label class="relative inline-flex items-center cursor-pointer">
+                <input type="hidden" name="spamClassifierEnabled" value="false" />
+                <input
+                  type="checkbox"
+                  name="spamClassifierEnabled"
+                  value="true"
+                  class="sr-only peer"
+                  checked={props.settings()?.spamClassifierEnabled ?? true}
+                />
+                <div class="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+              </label>
+            </div>
+
+            <div class="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-2">
+                Blocked keywords
+              </label>
+              <textarea
+                name="spamBlockedKeywords"
+                rows={4}
+                class="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="casino"
+                value={props.settings()?.spamBlockedKeywords || ""}
+              ></textarea>
+              <p class="text-xs text-gray-500 mt-1">
+                One per line; matched anywhere in the comment
+              </p>
+            </div>
+
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-2">
+                Blocked IP addresses
+              </label>
+              <textarea
+                name="spamBlockedIps"
+                rows={4}
+                class="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="203.0.113.*"
+                value={props.settings()?.spamBlockedIps || ""}
+              ></textarea>
+              <p class="text-xs text-gray-500 mt-1">
+                One per line; end with * to match a prefix
+              </p>
+            </div>
+
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-2">
+                Blocked emails
+              </label>
+              <textarea
+                name="spamBlockedEmails"
+                rows={4}
+                class="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="@spam.example"
+                value={props.settings()?.spamBlockedEmails || ""}
+              ></textarea>
+              <p class="text-xs text-gray-500 mt-1">
+                One per line; start with @ to block a domain
+              </p>
+            </div>
+            </div>
+          </div>
+
           <div class="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
             <div class="flex-1">
               <h4 class="text-sm font-medium text-gray-900">
@@ -401,13 +797,13 @@ function ContentSettings(props: { onSave: () => void; settings: any }) {
 
         <div class="pt-4 border-t border-gray-200">
           <button
-            onClick={props.onSave}
+            type="submit"
             class="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
           >
             Save Content Settings
           </button>
         </div>
-      </div>
+      </form>
     </div>
   );
 }
@@ -647,6 +1043,29 @@ function AdvancedSettings(props: { onSave: () => void; settings: any }) {
           </div>
         </div>
 
+        <form action={saveSettings} method="post" class="space-y-3">
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-2">
+              robots.txt
+            </label>
+            <textarea
+              rows={8}
+              name="robotsTxt"
+              class="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              value={props.settings()?.robotsTxt || ""}
+            ></textarea>
+            <p class="text-xs text-gray-500 mt-1">
+              Served at /robots.txt. A Sitemap line pointing at /sitemap.xml is added automatically.
+            </p>
+          </div>
+          <button
+            type="submit"
+            class="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Save robots.txt
+          </button>
+        </form>
+
         <div class="space-y-4">
           <div class="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
             <div class="flex-1">
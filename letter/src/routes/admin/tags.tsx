@@ -0,0 +1,407 @@
+import { Show, For, createSignal, createEffect, on, type JSX } from "solid-js";
+import { createAsync, query, action, useAction, useSubmission, useSearchParams } from "@solidjs/router";
+import AdminLayout from "./layout";
+import { requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import {
+  getTagsForAdmin,
+  getTags,
+  createTag,
+  updateTag,
+  mergeTags,
+  bulkDeleteTags,
+  generateUniqueTagSlug,
+} from "~/lib";
+
+// Tags shown per page
+const PAGE_SIZE = 50;
+
+// Query one page of tags matching the search, plus every tag for the merge picker
+const getTagManager = query(async (search: string, page: number) => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_POSTS);
+  const [result, allTags] = await Promise.all([
+    getTagsForAdmin({
+      search: search || undefined,
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    }),
+    getTags(),
+  ]);
+
+  return {
+    session,
+    tags: result.data?.tags || [],
+    total: result.data?.total ?? 0,
+    allTags: (allTags.data || []).map((tag) => ({ id: tag.id, name: tag.name })),
+  };
+}, "tagManager");
+
+type ManagedTag = Awaited<ReturnType<typeof getTagManager>>["tags"][number];
+
+// Read the fields shared by the create and edit forms; a blank slug is generated from the name
+async function tagFields(formData: FormData, tagId?: number) {
+  const name = String(formData.get("name") || "").trim();
+  const slug = String(formData.get("slug") || "").trim();
+  return {
+    name,
+    slug: slug || (await generateUniqueTagSlug({ name, tagId })),
+    description: String(formData.get("description") || "").trim(),
+  };
+}
+
+// Server action to create a tag
+const addTag = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const { description, ...fields } = await tagFields(formData);
+  const result = await createTag({ ...fields, description: description || undefined });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to create tag");
+  }
+
+  return result.data;
+});
+
+// Server action to save a tag's name, slug and description
+const saveTag = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const id = Number(formData.get("id"));
+  const result = await updateTag({ id, ...(await tagFields(formData, id)) });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save tag");
+  }
+
+  return result.data;
+});
+
+// Server action to merge tags into one; the others are deleted
+const mergeTagsInto = action(async (sourceIds: number[], targetId: number) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  for (const sourceId of sourceIds) {
+    const result = await mergeTags({ sourceId, targetId });
+    if (result.error) {
+      throw new Error(result.error.message || "Failed to merge tags");
+    }
+  }
+
+  return { targetId };
+});
+
+// Server action to permanently delete tags
+const deleteTags = action(async (tagIds: number[]) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const result = await bulkDeleteTags(tagIds);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to delete tags");
+  }
+
+  return result.data;
+});
+
+export default function AdminTags(): JSX.Element {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const createSubmission = useSubmission(addTag);
+  const runMerge = useAction(mergeTagsInto);
+  const runDelete = useAction(deleteTags);
+  const [selected, setSelected] = createSignal<number[]>([]);
+  const [mergeTarget, setMergeTarget] = createSignal<number | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const search = () => String(searchParams.q || "");
+  const page = () => Math.max(1, Number(searchParams.page) || 1);
+
+  const data = createAsync(() => getTagManager(search(), page()), { deferStream: true });
+
+  const session = () => data()?.session;
+  const tags = () => data()?.tags || [];
+
+  // Selection doesn't carry over between searches or pages
+  createEffect(on([search, page], () => setSelected([]), { defer: true }));
+
+  const allSelected = () => tags().length > 0 && tags().every((tag) => selected().includes(tag.id));
+
+  const toggleSelected = (id: number) =>
+    setSelected((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]));
+
+  const run = async (task: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await task();
+      setSelected([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const merge = () => {
+    const targetId = mergeTarget();
+    const target = data()?.allTags.find((tag) => tag.id === targetId);
+    const sourceIds = selected().filter((id) => id !== targetId);
+    if (!target || sourceIds.length === 0) return;
+    if (!confirm(`Merge ${sourceIds.length === 1 ? "1 tag" : `${sourceIds.length} tags`} into "${target.name}"?`)) return;
+    return run(async () => {
+      await runMerge(sourceIds, target.id);
+      setMergeTarget(null);
+    });
+  };
+
+  const remove = (ids: number[]) => {
+    if (!confirm(`Permanently delete ${ids.length === 1 ? "this tag" : `${ids.length} tags`}?`)) return;
+    return run(() => runDelete(ids));
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-7xl mx-auto space-y-8">
+            <div>
+              <h1 class="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                <span class="mr-3">🔖</span>
+                Tags
+              </h1>
+              <p class="text-gray-600">Search, describe, merge and clean up tags. Post counts include drafts.</p>
+            </div>
+
+            <Show when={error() || createSubmission.error}>
+              <div class="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                {error() || createSubmission.error?.message}
+              </div>
+            </Show>
+
+            <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <input
+                  type="search"
+                  class={inputClass}
+                  placeholder="Search tags by name or slug"
+                  value={search()}
+                  onChange={(e) => setSearchParams({ q: e.currentTarget.value.trim() || undefined, page: undefined })}
+                />
+              </div>
+
+              {/* Bulk actions */}
+              <div class="px-6 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-3">
+                <label class="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    class="mr-2"
+                    checked={allSelected()}
+                    onChange={(e) => setSelected(e.currentTarget.checked ? tags().map((tag) => tag.id) : [])}
+                  />
+                  {selected().length > 0 ? `${selected().length} selected` : "Select all"}
+                </label>
+                <Show when={selected().length > 0}>
+                  <select
+                    class="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                    value={mergeTarget() ?? ""}
+                    onChange={(e) => setMergeTarget(Number(e.currentTarget.value) || null)}
+                  >
+                    <option value="">Merge into...</option>
+                    <For each={data()?.allTags || []}>
+                      {(tag) => <option value={tag.id}>{tag.name}</option>}
+                    </For>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={merge}
+                    disabled={!mergeTarget()}
+                    class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(selected())}
+                    class="px-3 py-1 text-sm rounded-lg bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    Delete
+                  </button>
+                </Show>
+              </div>
+
+              <Show
+                when={tags().length > 0}
+                fallback={<p class="p-12 text-center text-gray-500">No tags found.</p>}
+              >
+                <ul class="divide-y divide-gray-200">
+                  <For each={tags()}>
+                    {(tag) => (
+                      <TagRow
+                        tag={tag}
+                        selected={selected().includes(tag.id)}
+                        inputClass={inputClass}
+                        onToggle={() => toggleSelected(tag.id)}
+                        onDelete={() => remove([tag.id])}
+                      />
+                    )}
+                  </For>
+                </ul>
+              </Show>
+            </div>
+
+            {/* Pagination */}
+            <div class="flex items-center justify-between text-sm text-gray-600">
+              <button
+                type="button"
+                disabled={page() <= 1}
+                onClick={() => setSearchParams({ page: page() - 1 })}
+                class="px-3 py-1 rounded-lg border border-gray-300 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span>
+                Page {page()} · {data()?.total ?? 0} tags
+              </span>
+              <button
+                type="button"
+                disabled={page() * PAGE_SIZE >= (data()?.total ?? 0)}
+                onClick={() => setSearchParams({ page: page() + 1 })}
+                class="px-3 py-1 rounded-lg border border-gray-300 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+
+            <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h2 class="text-lg font-semibold text-gray-900">Add Tag</h2>
+              </div>
+              <form action={addTag} method="post" class="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TagFields inputClass={inputClass} />
+                <div class="md:col-span-2">
+                  <button
+                    type="submit"
+                    disabled={createSubmission.pending}
+                    class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                  >
+                    {createSubmission.pending ? "Adding..." : "Add Tag"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
+
+// One tag with its inline edit form
+function TagRow(props: {
+  tag: ManagedTag;
+  selected: boolean;
+  inputClass: string;
+  onToggle: () => void;
+  onDelete: () => void;
+}): JSX.Element {
+  const [editing, setEditing] = createSignal(false);
+  const submission = useSubmission(saveTag, ([formData]) => formData.get("id") === String(props.tag.id));
+
+  // Close the form once the tag is saved
+  createEffect(on(() => submission.result, (result) => result && setEditing(false), { defer: true }));
+
+  return (
+    <li class="px-6 py-4">
+      <div class="flex items-center gap-3">
+        <input type="checkbox" checked={props.selected} onChange={() => props.onToggle()} />
+        <div class="flex-1 min-w-0">
+          <div class="text-sm font-medium text-gray-900">
+            {props.tag.name}
+            <span class="ml-2 text-xs text-gray-500">/{props.tag.slug}</span>
+          </div>
+          <Show when={props.tag.description}>
+            <div class="text-xs text-gray-500 truncate">{props.tag.description}</div>
+          </Show>
+        </div>
+        <span class="text-xs text-gray-500 whitespace-nowrap">
+          {props.tag._count.posts === 1 ? "1 post" : `${props.tag._count.posts} posts`}
+        </span>
+        <button
+          type="button"
+          onClick={() => setEditing(!editing())}
+          class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+        >
+          {editing() ? "Close" : "Edit"}
+        </button>
+        <button
+          type="button"
+          onClick={() => props.onDelete()}
+          class="px-3 py-1 text-sm rounded-lg border border-red-300 text-red-700 hover:bg-red-50"
+        >
+          Delete
+        </button>
+      </div>
+
+      <Show when={editing()}>
+        <form action={saveTag} method="post" class="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input type="hidden" name="id" value={props.tag.id} />
+          <TagFields tag={props.tag} inputClass={props.inputClass} />
+          <Show when={submission.error}>
+            <p class="md:col-span-2 text-sm text-red-600">{submission.error?.message}</p>
+          </Show>
+          <div class="md:col-span-2">
+            <button
+              type="submit"
+              disabled={submission.pending}
+              class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+            >
+              {submission.pending ? "Saving..." : "Save Tag"}
+            </button>
+          </div>
+        </form>
+      </Show>
+    </li>
+  );
+}
+
+function TagFields(props: { tag?: ManagedTag; inputClass: string }): JSX.Element {
+  return (
+    <>
+      <label class="block text-sm text-gray-700">
+        Name
+        <input name="name" value={props.tag?.name ?? ""} required class={props.inputClass} />
+      </label>
+      <label class="block text-sm text-gray-700">
+        Slug
+        <input
+          name="slug"
+          value={props.tag?.slug ?? ""}
+          pattern="[a-z0-9-]+"
+          placeholder="Generated from the name"
+          class={props.inputClass}
+        />
+      </label>
+      <label class="block text-sm text-gray-700 md:col-span-2">
+        Description
+        <textarea name="description" rows={2} value={props.tag?.description ?? ""} class={props.inputClass} />
+      </label>
+    </>
+  );
+}
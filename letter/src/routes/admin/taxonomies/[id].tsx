@@ -0,0 +1,352 @@
+import { Show, For, createSignal, createEffect, on, type JSX } from "solid-js";
+import { A, createAsync, query, action, useAction, useParams, useSubmission } from "@solidjs/router";
+import AdminLayout from "../layout";
+import { requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import {
+  getTaxonomyWithTerms,
+  createTerm,
+  updateTerm,
+  deleteTerm,
+  generateUniqueTermSlug,
+  taxonomyTermPath,
+} from "~/lib";
+
+// Query a taxonomy with its terms
+const getTermManager = query(async (id: number) => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_POSTS);
+  const result = await getTaxonomyWithTerms(id);
+
+  return {
+    session,
+    taxonomy: result.data,
+  };
+}, "termManager");
+
+type ManagedTerm = NonNullable<Awaited<ReturnType<typeof getTermManager>>["taxonomy"]>["terms"][number];
+
+// Depth-first list of the terms, alphabetical within each level
+function flattenTerms(terms: ManagedTerm[]): Array<ManagedTerm & { depth: number }> {
+  const ids = new Set(terms.map((term) => term.id));
+  const rows: Array<ManagedTerm & { depth: number }> = [];
+  const visit = (parentId: number | null, depth: number) => {
+    for (const term of terms.filter((candidate) => candidate.parentId === parentId)) {
+      rows.push({ ...term, depth });
+      visit(term.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  for (const term of terms) {
+    if (term.parentId !== null && !ids.has(term.parentId)) {
+      rows.push({ ...term, depth: 0 });
+      visit(term.id, 1);
+    }
+  }
+  return rows;
+}
+
+// Read the fields shared by the create and edit forms; a blank slug is generated from the name
+async function termFields(formData: FormData, taxonomyId: number, termId?: number) {
+  const name = String(formData.get("name") || "").trim();
+  const slug = String(formData.get("slug") || "").trim();
+  return {
+    name,
+    slug: slug || (await generateUniqueTermSlug({ name, taxonomyId, termId })),
+    description: String(formData.get("description") || "").trim(),
+    parentId: Number(formData.get("parentId")) || null,
+  };
+}
+
+// Server action to create a term
+const addTerm = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const taxonomyId = Number(formData.get("taxonomyId"));
+  const { parentId, description, ...fields } = await termFields(formData, taxonomyId);
+  const result = await createTerm({
+    ...fields,
+    taxonomyId,
+    description: description || undefined,
+    parentId: parentId ?? undefined,
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to create term");
+  }
+
+  return result.data;
+});
+
+// Server action to save a term's name, slug, description and parent
+const saveTerm = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const id = Number(formData.get("id"));
+  const result = await updateTerm({
+    id,
+    ...(await termFields(formData, Number(formData.get("taxonomyId")), id)),
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save term");
+  }
+
+  return result.data;
+});
+
+// Server action to delete a term; its subterms move to the top level
+const removeTerm = action(async (id: number) => {
+  "use server";
+
+  await requirePermission(Permission.EDIT_POSTS);
+
+  const result = await deleteTerm(id);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to delete term");
+  }
+
+  return result.data;
+});
+
+export default function AdminTaxonomyTerms(): JSX.Element {
+  const params = useParams();
+  const data = createAsync(() => getTermManager(Number(params.id)), { deferStream: true });
+  const createSubmission = useSubmission(addTerm);
+  const runRemove = useAction(removeTerm);
+  const [editingId, setEditingId] = createSignal<number | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const session = () => data()?.session;
+  const taxonomy = () => data()?.taxonomy;
+  const terms = () => taxonomy()?.terms || [];
+  const rows = () => (taxonomy()?.hierarchical ? flattenTerms(terms()) : terms().map((term) => ({ ...term, depth: 0 })));
+
+  const remove = async (term: ManagedTerm) => {
+    if (!confirm(`Delete "${term.name}"? It will be removed from ${term._count.posts} entries.`)) return;
+    setError(null);
+    try {
+      await runRemove(term.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-7xl mx-auto space-y-8">
+            <Show
+              when={taxonomy()}
+              fallback={<p class="text-gray-500">Taxonomy not found.</p>}
+            >
+              {(current) => (
+                <>
+                  <div>
+                    <A href="/admin/taxonomies" class="text-sm text-blue-600 hover:text-blue-700">
+                      ← Back to Taxonomies
+                    </A>
+                    <h1 class="text-3xl font-bold text-gray-900 mt-2 mb-2">{current().label}</h1>
+                    <p class="text-gray-600">
+                      {current().hierarchical ? "Hierarchical" : "Flat"} taxonomy of{" "}
+                      {current().postType.label}. Post counts include drafts.
+                    </p>
+                  </div>
+
+                  <Show when={error() || createSubmission.error}>
+                    <div class="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                      {error() || createSubmission.error?.message}
+                    </div>
+                  </Show>
+
+                  <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                      <h2 class="text-lg font-semibold text-gray-900">Terms</h2>
+                    </div>
+                    <Show
+                      when={rows().length > 0}
+                      fallback={<p class="p-6 text-sm text-gray-500">No terms yet.</p>}
+                    >
+                      <ul class="divide-y divide-gray-100">
+                        <For each={rows()}>
+                          {(term) => (
+                            <li class="px-6 py-3" style={{ "padding-left": `${1.5 + term.depth * 1.5}rem` }}>
+                              <div class="flex items-center gap-3">
+                                <div class="flex-1 min-w-0">
+                                  <div class="text-sm font-medium text-gray-900">
+                                    <Show when={term.depth > 0}>
+                                      <span class="text-gray-400 mr-1">└</span>
+                                    </Show>
+                                    {term.name}
+                                    <Show
+                                      when={current().postType.public}
+                                      fallback={<span class="ml-2 text-xs text-gray-500">{term.slug}</span>}
+                                    >
+                                      <a
+                                        href={taxonomyTermPath(current().postType, current().name, term.slug)}
+                                        class="ml-2 text-xs text-gray-500 hover:text-blue-600"
+                                      >
+                                        {taxonomyTermPath(current().postType, current().name, term.slug)}
+                                      </a>
+                                    </Show>
+                                  </div>
+                                  <Show when={term.description}>
+                                    <div class="text-xs text-gray-500 truncate">{term.description}</div>
+                                  </Show>
+                                </div>
+                                <span class="text-xs text-gray-500 whitespace-nowrap">
+                                  {term._count.posts === 1 ? "1 entry" : `${term._count.posts} entries`}
+                                </span>
+                                <button
+                                  type="button"
+                                  onClick={() => setEditingId(editingId() === term.id ? null : term.id)}
+                                  class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+                                >
+                                  {editingId() === term.id ? "Close" : "Edit"}
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => remove(term)}
+                                  class="px-3 py-1 text-sm rounded-lg border border-red-300 text-red-700 hover:bg-red-50"
+                                >
+                                  Delete
+                                </button>
+                              </div>
+
+                              <Show when={editingId() === term.id}>
+                                <TermForm
+                                  taxonomyId={current().id}
+                                  hierarchical={current().hierarchical}
+                                  term={term}
+                                  terms={terms()}
+                                  inputClass={inputClass}
+                                  onSaved={() => setEditingId(null)}
+                                />
+                              </Show>
+                            </li>
+                          )}
+                        </For>
+                      </ul>
+                    </Show>
+                  </div>
+
+                  <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                      <h2 class="text-lg font-semibold text-gray-900">Add Term</h2>
+                    </div>
+                    <form action={addTerm} method="post" class="p-6">
+                      <input type="hidden" name="taxonomyId" value={current().id} />
+                      <TermFields hierarchical={current().hierarchical} terms={terms()} inputClass={inputClass} />
+                      <button
+                        type="submit"
+                        disabled={createSubmission.pending}
+                        class="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                      >
+                        {createSubmission.pending ? "Adding..." : "Add Term"}
+                      </button>
+                    </form>
+                  </div>
+                </>
+              )}
+            </Show>
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
+
+// Inline edit form of one term
+function TermForm(props: {
+  taxonomyId: number;
+  hierarchical: boolean;
+  term: ManagedTerm;
+  terms: ManagedTerm[];
+  inputClass: string;
+  onSaved: () => void;
+}): JSX.Element {
+  const submission = useSubmission(saveTerm, ([formData]) => formData.get("id") === String(props.term.id));
+
+  createEffect(on(() => submission.result, (result) => result && props.onSaved(), { defer: true }));
+
+  return (
+    <form action={saveTerm} method="post" class="mt-4">
+      <input type="hidden" name="id" value={props.term.id} />
+      <input type="hidden" name="taxonomyId" value={props.taxonomyId} />
+      <TermFields
+        term={props.term}
+        hierarchical={props.hierarchical}
+        terms={props.terms.filter((other) => other.id !== props.term.id)}
+        inputClass={props.inputClass}
+      />
+      <Show when={submission.error}>
+        <p class="mt-2 text-sm text-red-600">{submission.error?.message}</p>
+      </Show>
+      <button
+        type="submit"
+        disabled={submission.pending}
+        class="mt-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+      >
+        {submission.pending ? "Saving..." : "Save Term"}
+      </button>
+    </form>
+  );
+}
+
+function TermFields(props: {
+  term?: ManagedTerm;
+  hierarchical: boolean;
+  terms: ManagedTerm[];
+  inputClass: string;
+}): JSX.Element {
+  return (
+    <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <label class="block text-sm text-gray-700">
+        Name
+        <input name="name" value={props.term?.name ?? ""} required class={props.inputClass} />
+      </label>
+      <label class="block text-sm text-gray-700">
+        Slug
+        <input
+          name="slug"
+          value={props.term?.slug ?? ""}
+          pattern="[a-z0-9-]+"
+          placeholder="Generated from the name"
+          class={props.inputClass}
+        />
+      </label>
+      <Show when={props.hierarchical}>
+        <label class="block text-sm text-gray-700 md:col-span-2">
+          Parent
+          <select name="parentId" value={props.term?.parentId ?? ""} class={props.inputClass}>
+            <option value="">None (top level)</option>
+            <For each={props.terms}>
+              {(term) => <option value={term.id}>{term.name}</option>}
+            </For>
+          </select>
+        </label>
+      </Show>
+      <label class="block text-sm text-gray-700 md:col-span-2">
+        Description
+        <textarea name="description" rows={2} value={props.term?.description ?? ""} class={props.inputClass} />
+      </label>
+    </div>
+  );
+}
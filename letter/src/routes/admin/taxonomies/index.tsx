@@ -0,0 +1,281 @@
+import { Show, For, createSignal, type JSX } from "solid-js";
+import { A, createAsync, query, action, useAction, useSubmission } from "@solidjs/router";
+import AdminLayout from "../layout";
+import { requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import { getTaxonomies, getPostTypes, createTaxonomy, updateTaxonomy, deleteTaxonomy } from "~/lib";
+
+// Query the taxonomies and the post types they can belong to
+const getTaxonomyManager = query(async () => {
+  "use server";
+
+  const session = await requirePermission(Permission.MANAGE_CUSTOM_FIELDS);
+  const [taxonomies, postTypes] = await Promise.all([getTaxonomies(), getPostTypes()]);
+
+  return {
+    session,
+    taxonomies: taxonomies.data || [],
+    postTypes: (postTypes.data || []).map((postType) => ({ id: postType.id, label: postType.label })),
+  };
+}, "taxonomyManager");
+
+// Read the fields shared by the create and edit forms
+function taxonomyFields(formData: FormData) {
+  return {
+    label: String(formData.get("label") || "").trim(),
+    description: String(formData.get("description") || "").trim(),
+    hierarchical: formData.get("hierarchical") === "on",
+  };
+}
+
+// Server action to create a taxonomy
+const addTaxonomy = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.MANAGE_CUSTOM_FIELDS);
+
+  const { description, ...fields } = taxonomyFields(formData);
+  const result = await createTaxonomy({
+    ...fields,
+    description: description || undefined,
+    postTypeId: Number(formData.get("postTypeId")),
+    name: String(formData.get("name") || "").trim(),
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to create taxonomy");
+  }
+
+  return result.data;
+});
+
+// Server action to save a taxonomy's label, description and structure
+const saveTaxonomy = action(async (formData: FormData) => {
+  "use server";
+
+  await requirePermission(Permission.MANAGE_CUSTOM_FIELDS);
+
+  const result = await updateTaxonomy({
+    id: Number(formData.get("id")),
+    ...taxonomyFields(formData),
+  });
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to save taxonomy");
+  }
+
+  return result.data;
+});
+
+// Server action to delete a taxonomy with all its terms
+const removeTaxonomy = action(async (id: number) => {
+  "use server";
+
+  await requirePermission(Permission.MANAGE_CUSTOM_FIELDS);
+
+  const result = await deleteTaxonomy(id);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to delete taxonomy");
+  }
+
+  return result.data;
+});
+
+export default function AdminTaxonomies(): JSX.Element {
+  const data = createAsync(() => getTaxonomyManager(), { deferStream: true });
+  const createSubmission = useSubmission(addTaxonomy);
+  const saveSubmission = useSubmission(saveTaxonomy);
+  const runRemove = useAction(removeTaxonomy);
+  const [editingId, setEditingId] = createSignal<number | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const session = () => data()?.session;
+  const taxonomies = () => data()?.taxonomies || [];
+
+  const remove = async (taxonomy: { id: number; label: string; _count: { terms: number } }) => {
+    if (!confirm(`Delete ${taxonomy.label} and its ${taxonomy._count.terms} terms?`)) return;
+    setError(null);
+    try {
+      await runRemove(taxonomy.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-7xl mx-auto space-y-8">
+            <div>
+              <h1 class="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                <span class="mr-3">🧭</span>
+                Taxonomies
+              </h1>
+              <p class="text-gray-600">
+                Group the entries of a post type by things like brand or venue. Terms of public
+                post types are listed at{" "}
+                <code>/&lt;rewrite slug&gt;/&lt;taxonomy&gt;/&lt;term&gt;</code>.
+              </p>
+            </div>
+
+            <Show when={error() || createSubmission.error || saveSubmission.error}>
+              <div class="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                {error() || (createSubmission.error || saveSubmission.error)?.message}
+              </div>
+            </Show>
+
+            <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h2 class="text-lg font-semibold text-gray-900">Registered Taxonomies</h2>
+              </div>
+              <Show
+                when={taxonomies().length > 0}
+                fallback={<p class="p-6 text-sm text-gray-500">No taxonomies yet.</p>}
+              >
+                <ul class="divide-y divide-gray-100">
+                  <For each={taxonomies()}>
+                    {(taxonomy) => (
+                      <li class="px-6 py-4">
+                        <div class="flex items-center justify-between gap-4">
+                          <div>
+                            <div class="text-sm font-medium text-gray-900">
+                              {taxonomy.label}
+                              <span class="ml-2 text-xs text-gray-500">{taxonomy.name}</span>
+                              <Show when={taxonomy.pluginId}>
+                                <span class="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">
+                                  {taxonomy.pluginId}
+                                </span>
+                              </Show>
+                            </div>
+                            <div class="text-xs text-gray-500">
+                              {taxonomy.postType.label}
+                              <span class="mx-2">•</span>
+                              {taxonomy.hierarchical ? "Hierarchical" : "Flat"}
+                              <span class="mx-2">•</span>
+                              {taxonomy._count.terms} terms
+                            </div>
+                          </div>
+                          <div class="flex items-center gap-2">
+                            <A
+                              href={`/admin/taxonomies/${taxonomy.id}`}
+                              class="px-3 py-1 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white"
+                            >
+                              Terms
+                            </A>
+                            <button
+                              type="button"
+                              onClick={() => setEditingId(editingId() === taxonomy.id ? null : taxonomy.id)}
+                              class="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+                            >
+                              {editingId() === taxonomy.id ? "Close" : "Edit"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => remove(taxonomy)}
+                              class="px-3 py-1 text-sm rounded-lg border border-red-300 text-red-700 hover:bg-red-50"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+
+                        <Show when={editingId() === taxonomy.id}>
+                          <form action={saveTaxonomy} method="post" class="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <input type="hidden" name="id" value={taxonomy.id} />
+                            <label class="block text-sm text-gray-700">
+                              Label
+                              <input name="label" value={taxonomy.label} required class={inputClass} />
+                            </label>
+                            <label class="block text-sm text-gray-700">
+                              Description
+                              <input name="description" value={taxonomy.description || ""} class={inputClass} />
+                            </label>
+                            <label class="inline-flex items-center text-sm text-gray-700">
+                              <input type="checkbox" name="hierarchical" checked={taxonomy.hierarchical} class="mr-2" />
+                              Hierarchical (terms can have parents)
+                            </label>
+                            <div class="md:col-span-2">
+                              <button
+                                type="submit"
+                                disabled={saveSubmission.pending}
+                                class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                              >
+                                {saveSubmission.pending ? "Saving..." : "Save Taxonomy"}
+                              </button>
+                            </div>
+                          </form>
+                        </Show>
+                      </li>
+                    )}
+                  </For>
+                </ul>
+              </Show>
+            </div>
+
+            <div class="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div class="px-6 py-4 border-b border-gray-200 bg-gray-50">
+                <h2 class="text-lg font-semibold text-gray-900">Add Taxonomy</h2>
+              </div>
+              <Show
+                when={(data()?.postTypes.length ?? 0) > 0}
+                fallback={
+                  <p class="p-6 text-sm text-gray-500">
+                    Taxonomies belong to a post type. <A href="/admin/post-types" class="text-blue-600">Add a post type</A> first.
+                  </p>
+                }
+              >
+                <form action={addTaxonomy} method="post" class="p-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <label class="block text-sm text-gray-700">
+                    Post type
+                    <select name="postTypeId" required class={inputClass}>
+                      <For each={data()?.postTypes || []}>
+                        {(postType) => <option value={postType.id}>{postType.label}</option>}
+                      </For>
+                    </select>
+                  </label>
+                  <label class="block text-sm text-gray-700">
+                    Name
+                    <input name="name" required pattern="[a-z0-9-]+" placeholder="brand" class={inputClass} />
+                  </label>
+                  <label class="block text-sm text-gray-700">
+                    Label
+                    <input name="label" required placeholder="Brands" class={inputClass} />
+                  </label>
+                  <label class="block text-sm text-gray-700 md:col-span-2">
+                    Description
+                    <input name="description" class={inputClass} />
+                  </label>
+                  <label class="inline-flex items-center text-sm text-gray-700">
+                    <input type="checkbox" name="hierarchical" class="mr-2" />
+                    Hierarchical
+                  </label>
+                  <div class="md:col-span-3">
+                    <button
+                      type="submit"
+                      disabled={createSubmission.pending}
+                      class="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg text-sm font-medium"
+                    >
+                      {createSubmission.pending ? "Adding..." : "Add Taxonomy"}
+                    </button>
+                  </div>
+                </form>
+              </Show>
+            </div>
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
@@ -0,0 +1,201 @@
+import { Show, For, type JSX } from "solid-js";
+import { createAsync, query, action, useAction, useSubmission, useSearchParams } from "@solidjs/router";
+import AdminLayout from "./layout";
+import { requirePermission } from "~/lib/auth-utils";
+import { Permission } from "~/lib/permissions";
+import {
+  getTrash,
+  trashPurgeDate,
+  restorePosts,
+  restoreComments,
+  restoreMedia,
+  purgePosts,
+  purgePages,
+  purgeComments,
+  purgeMedia,
+} from "~/lib";
+import { TrashTable, type TrashRow } from "~/components/admin/trash-table";
+
+type TrashTab = "posts" | "pages" | "comments" | "media";
+
+const TABS: { id: TrashTab; label: string }[] = [
+  { id: "posts", label: "Posts" },
+  { id: "pages", label: "Pages" },
+  { id: "comments", label: "Comments" },
+  { id: "media", label: "Media" },
+];
+
+// Permission needed to restore or delete each kind of trash
+const TAB_PERMISSIONS: Record<TrashTab, Permission> = {
+  posts: Permission.DELETE_POSTS,
+  pages: Permission.DELETE_PAGES,
+  comments: Permission.DELETE_COMMENTS,
+  media: Permission.DELETE_MEDIA,
+};
+
+// Query everything in the trash
+const getTrashData = query(async () => {
+  "use server";
+
+  const session = await requirePermission(Permission.EDIT_POSTS);
+  const result = await getTrash();
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to load trash");
+  }
+
+  return { session, ...result.data };
+}, "trash");
+
+// Server action to restore trashed items to the status they had
+const restoreTrash = action(async (tab: TrashTab, ids: number[]) => {
+  "use server";
+
+  await requirePermission(TAB_PERMISSIONS[tab]);
+
+  const result =
+    tab === "comments" ? await restoreComments(ids) : tab === "media" ? await restoreMedia(ids) : await restorePosts(ids);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to restore from trash");
+  }
+
+  return result.data;
+});
+
+// Server action to delete trashed items for good; only items in the tab's trash are deleted
+const deleteTrash = action(async (tab: TrashTab, ids: number[]) => {
+  "use server";
+
+  await requirePermission(TAB_PERMISSIONS[tab]);
+
+  const purge = { posts: purgePosts, pages: purgePages, comments: purgeComments, media: purgeMedia }[tab];
+  if (!purge) throw new Error("Unknown trash tab");
+  const result = await purge(ids);
+
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to delete from trash");
+  }
+
+  return result.data;
+});
+
+function excerpt(text: string, length = 80): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+export default function AdminTrash(): JSX.Element {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const data = createAsync(() => getTrashData(), { deferStream: true });
+  const runRestore = useAction(restoreTrash);
+  const runDelete = useAction(deleteTrash);
+  const restoring = useSubmission(restoreTrash);
+  const deleting = useSubmission(deleteTrash);
+
+  const session = () => data()?.session;
+  const tab = (): TrashTab => TABS.find((t) => t.id === searchParams.tab)?.id ?? "posts";
+
+  // Trash from before trash was dated counts from its last change, as in the purge
+  const row = (
+    item: { id: number; trashedAt: Date | null; updatedAt: Date },
+    fields: Pick<TrashRow, "title" | "detail" | "restoresTo">
+  ): TrashRow => {
+    const trashedAt = item.trashedAt ?? item.updatedAt;
+    return {
+      id: item.id,
+      ...fields,
+      trashedAt,
+      purgeAt: trashPurgeDate(new Date(trashedAt), data()?.retentionDays ?? 0),
+    };
+  };
+
+  const rows = (): Record<TrashTab, TrashRow[]> => ({
+    posts: (data()?.posts || []).map((post) =>
+      row(post, {
+        title: post.title,
+        detail: [post.customType, post.author.name || post.author.username].filter(Boolean).join(" • ") || null,
+        restoresTo: post.statusBeforeTrash ?? "DRAFT",
+      })
+    ),
+    pages: (data()?.pages || []).map((page) =>
+      row(page, {
+        title: page.title,
+        detail: page.author.name || page.author.username,
+        restoresTo: page.statusBeforeTrash ?? "DRAFT",
+      })
+    ),
+    comments: (data()?.comments || []).map((comment) =>
+      row(comment, {
+        title: excerpt(comment.content),
+        detail: `${comment.authorName} on "${comment.post.title}"`,
+        restoresTo: comment.statusBeforeTrash ?? "PENDING",
+      })
+    ),
+    media: (data()?.media || []).map((media) =>
+      row(media, {
+        title: media.title || media.fileName,
+        detail: media.fileType,
+        restoresTo: null,
+      })
+    ),
+  });
+
+  return (
+    <Show
+      when={session()?.user}
+      fallback={
+        <div class="min-h-screen flex items-center justify-center">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminLayout user={session()!.user}>
+        <div class="p-6">
+          <div class="max-w-7xl mx-auto space-y-6">
+            <div>
+              <h1 class="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                <span class="mr-3">🗑️</span>
+                Trash
+              </h1>
+              <p class="text-gray-600">
+                <Show
+                  when={(data()?.retentionDays ?? 0) > 0}
+                  fallback="Trashed content is kept until you delete it."
+                >
+                  Trashed content is deleted for good {data()?.retentionDays} days after it was trashed.
+                </Show>{" "}
+                Restoring brings an item back with the status it had.
+              </p>
+            </div>
+
+            <div class="flex gap-2 border-b border-gray-200">
+              <For each={TABS}>
+                {(t) => (
+                  <button
+                    type="button"
+                    onClick={() => setSearchParams({ tab: t.id === "posts" ? undefined : t.id })}
+                    class={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                      tab() === t.id
+                        ? "border-blue-600 text-blue-700"
+                        : "border-transparent text-gray-600 hover:text-gray-900"
+                    }`}
+                  >
+                    {t.label} ({rows()[t.id].length})
+                  </button>
+                )}
+              </For>
+            </div>
+
+            <TrashTable
+              rows={rows()[tab()]}
+              noun={tab() === "media" ? "media items" : tab()}
+              busy={(restoring.pending || deleting.pending) ?? false}
+              onRestore={(ids) => runRestore(tab(), ids)}
+              onDelete={(ids) => runDelete(tab(), ids)}
+            />
+          </div>
+        </div>
+      </AdminLayout>
+    </Show>
+  );
+}
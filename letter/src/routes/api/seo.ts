@@ -1,6 +1,7 @@
 import { json } from "@solidjs/router";
 import { db } from "~/lib/db";
 import { requireAuth } from "~/lib/auth-utils";
+import { invalidatePostCache } from "~/lib/cms-utils";
 import { 
   SEODataSchema,
   PositiveIntegerSchema,
@@ -73,6 +74,9 @@ export async function POST({ request }: { request: Request }) {
       }
     }
 
+    // The robots meta decides sitemap inclusion
+    await invalidatePostCache(data.postId);
+
     return createSuccessResponse({ success: true });
   } catch (error) {
     console.error('SEO data save error:', error);
@@ -175,6 +179,8 @@ export async function DELETE({ request }: { request: Request }) {
       }
     });
 
+    await invalidatePostCache(postId);
+
     return createSuccessResponse({ success: true });
   } catch (error) {
     console.error('Delete SEO data error:', error);
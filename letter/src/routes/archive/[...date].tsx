@@ -0,0 +1,113 @@
+import { useParams, useSearchParams, createAsync } from "@solidjs/router";
+import { Show } from "solid-js";
+import {
+  getArchivePosts,
+  parseDateArchive,
+  dateArchivePath,
+  formatDateArchiveTitle,
+  getSeoMeta,
+  getStructuredData,
+} from "../../lib";
+import { ThemedLayout } from "~/components/theme";
+import {
+  ArchiveView,
+  ArchiveNotFound,
+  parsePageParam,
+  archivePageUrl,
+  type Breadcrumb,
+} from "~/components/theme/archive-view";
+import { ArchivesWidget } from "~/components/theme/archives-widget";
+
+// Server function to get a year, month or day archive page
+async function getDateArchive(path: string, page: number) {
+  "use server";
+
+  const range = parseDateArchive(path.split("/").filter(Boolean));
+
+  if (!range) return null;
+
+  const archive = await getArchivePosts(
+    { publishedFrom: range.from, publishedBefore: range.before },
+    page
+  );
+
+  if (!archive.data) return null;
+
+  const breadcrumbs: Breadcrumb[] = [
+    { name: "Home", url: "/" },
+    { name: String(range.year), url: dateArchivePath(range.year) },
+  ];
+  if (range.month !== undefined) {
+    breadcrumbs.push({
+      name: formatDateArchiveTitle({ granularity: "month", from: range.from }),
+      url: dateArchivePath(range.year, range.month),
+    });
+  }
+  if (range.day !== undefined) {
+    breadcrumbs.push({
+      name: formatDateArchiveTitle(range),
+      url: dateArchivePath(range.year, range.month, range.day),
+    });
+  }
+
+  const title = formatDateArchiveTitle(range);
+  const basePath = dateArchivePath(range.year, range.month, range.day);
+  const seo = await getSeoMeta({
+    path: archivePageUrl(basePath, page),
+    title: `Archive: ${title}`,
+  });
+
+  return {
+    title,
+    basePath,
+    archive: archive.data,
+    breadcrumbs,
+    seo,
+    structuredData: await getStructuredData({ kind: "collection", seo, breadcrumbs }),
+  };
+}
+
+export default function DateArchive() {
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+
+  const data = createAsync(
+    () => getDateArchive(params.date, parsePageParam(searchParams.page)),
+    { deferStream: true }
+  );
+
+  return (
+    <Show
+      when={data()}
+      fallback={
+        <ThemedLayout title="Archive Not Found" layoutType="archive">
+          <ArchiveNotFound label="Archive" />
+        </ThemedLayout>
+      }
+    >
+      {(view) => (
+        <ThemedLayout
+          title={`Archive: ${view().title}`}
+          layoutType="archive"
+          seo={view().seo}
+          structuredData={view().structuredData}
+        >
+          <div class="grid grid-cols-1 lg:grid-cols-4 gap-8">
+            <div class="lg:col-span-3">
+              <ArchiveView
+                label="Archive"
+                title={view().title}
+                breadcrumbs={view().breadcrumbs}
+                archive={view().archive}
+                basePath={view().basePath}
+              />
+            </div>
+            <aside>
+              <ArchivesWidget />
+            </aside>
+          </div>
+        </ThemedLayout>
+      )}
+    </Show>
+  );
+}
@@ -0,0 +1,6 @@
+import type { APIEvent } from "@solidjs/start/server";
+import { createFeedResponse } from "~/lib/feeds";
+
+export async function GET({ request }: APIEvent) {
+  return createFeedResponse(request, "atom");
+}
@@ -0,0 +1,6 @@
+import type { APIEvent } from "@solidjs/start/server";
+import { createFeedResponse } from "~/lib/feeds";
+
+export async function GET({ request, params }: APIEvent) {
+  return createFeedResponse(request, "rss", { author: params.username });
+}
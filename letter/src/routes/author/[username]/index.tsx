@@ -0,0 +1,116 @@
+import { useParams, useSearchParams, createAsync } from "@solidjs/router";
+import { Show } from "solid-js";
+import { getUserByUsername, getArchivePosts, getBreadcrumbs, getSeoMeta, getStructuredData, feedPath } from "../../../lib";
+import { ThemedLayout } from "~/components/theme";
+import {
+  ArchiveView,
+  ArchiveNotFound,
+  parsePageParam,
+  archivePageUrl,
+} from "~/components/theme/archive-view";
+
+// Server function to get an author archive page
+async function getAuthorArchive(username: string, page: number) {
+  "use server";
+
+  const result = await getUserByUsername(username);
+  const user = result.data;
+
+  if (!user) return null;
+
+  const [archive, breadcrumbs] = await Promise.all([
+    getArchivePosts({ authorId: user.id }, page),
+    getBreadcrumbs("author", user.id),
+  ]);
+
+  // Only authors with public posts get an archive
+  if (!archive.data || archive.data.total === 0) return null;
+
+  const seo = await getSeoMeta({
+    path: archivePageUrl(`/author/${user.username}`, page),
+    title: user.name || user.username!,
+    description: user.bio,
+    type: "website",
+  });
+
+  // Only expose public profile fields
+  return {
+    author: {
+      username: user.username!,
+      name: user.name,
+      image: user.image,
+      bio: user.bio,
+      website: user.website,
+    },
+    archive: archive.data,
+    breadcrumbs: breadcrumbs.data || [],
+    seo,
+    structuredData: await getStructuredData({
+      kind: "collection",
+      seo,
+      breadcrumbs: breadcrumbs.data || [],
+    }),
+  };
+}
+
+export default function AuthorArchive() {
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+
+  const data = createAsync(
+    () => getAuthorArchive(params.username, parsePageParam(searchParams.page)),
+    { deferStream: true }
+  );
+
+  const displayName = () => data()?.author.name || data()?.author.username || "";
+
+  return (
+    <Show
+      when={data()}
+      fallback={
+        <ThemedLayout title="Author Not Found" layoutType="archive">
+          <ArchiveNotFound label="Author" />
+        </ThemedLayout>
+      }
+    >
+      {(view) => (
+        <ThemedLayout
+          title={displayName()}
+          description={view().author.bio || undefined}
+          layoutType="archive"
+          seo={view().seo}
+          structuredData={view().structuredData}
+        >
+          <ArchiveView
+            label="Author"
+            title={displayName()}
+            description={view().author.bio}
+            breadcrumbs={view().breadcrumbs}
+            archive={view().archive}
+            basePath={`/author/${view().author.username}`}
+            feedUrl={feedPath("rss", { author: view().author.username })}
+          >
+            <div class="flex items-center gap-4 mt-4">
+              <Show when={view().author.image}>
+                <img
+                  src={view().author.image!}
+                  alt=""
+                  class="h-12 w-12 rounded-full object-cover"
+                />
+              </Show>
+              <Show when={view().author.website}>
+                <a
+                  href={view().author.website!}
+                  rel="noopener noreferrer"
+                  class="text-sm text-blue-600 hover:underline"
+                >
+                  {view().author.website}
+                </a>
+              </Show>
+            </div>
+          </ArchiveView>
+        </ThemedLayout>
+      )}
+    </Show>
+  );
+}
@@ -0,0 +1,112 @@
+import { useParams, useSearchParams, createAsync, A } from "@solidjs/router";
+import { For, Show } from "solid-js";
+import {
+  getCategoryBySlug,
+  getCategoryTreeIds,
+  getArchivePosts,
+  getBreadcrumbs,
+  getSeoMeta,
+  getStructuredData,
+  feedPath,
+} from "../../../lib";
+import { ThemedLayout } from "~/components/theme";
+import {
+  ArchiveView,
+  ArchiveNotFound,
+  parsePageParam,
+  archivePageUrl,
+} from "~/components/theme/archive-view";
+
+// Server function to get a category archive page, including posts in child categories
+async function getCategoryArchive(slug: string, page: number) {
+  "use server";
+
+  const result = await getCategoryBySlug(slug);
+  const category = result.data;
+
+  if (!category) return null;
+
+  const treeIds = await getCategoryTreeIds(category.id);
+
+  const [archive, breadcrumbs] = await Promise.all([
+    getArchivePosts({ categoryIds: treeIds.data || [category.id] }, page),
+    getBreadcrumbs("category", category.id),
+  ]);
+
+  if (!archive.data) return null;
+
+  const seo = await getSeoMeta({
+    path: archivePageUrl(`/category/${category.slug}`, page),
+    title: category.name,
+    description: category.description,
+  });
+
+  return {
+    category,
+    archive: archive.data,
+    breadcrumbs: breadcrumbs.data || [],
+    seo,
+    structuredData: await getStructuredData({
+      kind: "collection",
+      seo,
+      breadcrumbs: breadcrumbs.data || [],
+    }),
+  };
+}
+
+export default function CategoryArchive() {
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+
+  const data = createAsync(
+    () => getCategoryArchive(params.slug, parsePageParam(searchParams.page)),
+    { deferStream: true }
+  );
+
+  return (
+    <Show
+      when={data()}
+      fallback={
+        <ThemedLayout title="Category Not Found" layoutType="archive">
+          <ArchiveNotFound label="Category" />
+        </ThemedLayout>
+      }
+    >
+      {(view) => (
+        <ThemedLayout
+          title={view().category.name}
+          description={view().category.description || undefined}
+          layoutType="archive"
+          seo={view().seo}
+          structuredData={view().structuredData}
+        >
+          <ArchiveView
+            label="Category"
+            title={view().category.name}
+            description={view().category.description}
+            breadcrumbs={view().breadcrumbs}
+            archive={view().archive}
+            basePath={`/category/${view().category.slug}`}
+            feedUrl={feedPath("rss", { category: view().category.slug })}
+          >
+            <Show when={view().category.children.length > 0}>
+              <div class="flex flex-wrap items-center gap-2 mt-4">
+                <span class="text-sm text-gray-500">Subcategories:</span>
+                <For each={view().category.children}>
+                  {(child) => (
+                    <A
+                      href={`/category/${child.slug}`}
+                      class="px-3 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors"
+                    >
+                      {child.name}
+                    </A>
+                  )}
+                </For>
+              </div>
+            </Show>
+          </ArchiveView>
+        </ThemedLayout>
+      )}
+    </Show>
+  );
+}
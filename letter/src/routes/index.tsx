@@ -2,6 +2,8 @@ import { ThemedLayout } from "~/components/theme";
 import { DarkModeToggle } from "~/components/theme/dark-mode-toggle";
 import { createAsync } from "@solidjs/router";
 import { For, Show } from "solid-js";
+import { getSeoMeta } from "~/lib/seo";
+import { getStructuredData } from "~/lib/structured-data";
 
 // Server function to get plugin status
 async function getPluginStatus() {
@@ -31,14 +33,28 @@ async function getPluginStatus() {
   }
 }
 
+// Server function to resolve the home page head
+async function getHomeHead() {
+  "use server";
+
+  const seo = await getSeoMeta({ path: "/" });
+  return {
+    seo,
+    structuredData: await getStructuredData({ kind: "home", seo }),
+  };
+}
+
 export default function Home() {
   const pluginStatus = createAsync(() => getPluginStatus());
+  const head = createAsync(() => getHomeHead(), { deferStream: true });
 
   return (
     <ThemedLayout 
       title="Welcome to Letter-Press" 
       description="A modern CMS built with SolidJS"
       layoutType="home"
+      seo={head()?.seo}
+      structuredData={head()?.structuredData}
     >
       <div class="p-8">
         <div class="flex justify-between items-start mb-8">
@@ -0,0 +1,24 @@
+import type { APIEvent } from "@solidjs/start/server";
+import { db } from "~/lib/db";
+import { getPagePath } from "~/lib/page-hierarchy";
+
+// Pages used to be served flat under /pages/<slug>; send those links on
+// to the page's path in the page hierarchy. Slugs were unique across the
+// site back then, so the oldest page with the slug is the one linked to.
+export async function GET({ params }: APIEvent) {
+  const page = await db.post.findFirst({
+    where: { type: "PAGE", slug: params.slug },
+    orderBy: { id: "asc" },
+    select: { id: true },
+  });
+  const path = page ? await getPagePath(page.id) : null;
+
+  if (!path) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  return new Response(null, {
+    status: 301,
+    headers: { Location: path },
+  });
+}
@@ -0,0 +1,110 @@
+// Renders a post through a shareable preview link, whatever its status
+// The middleware marks every response under /preview/ as noindex and uncacheable
+
+import { useParams, createAsync } from "@solidjs/router";
+import { Show, Switch, Match } from "solid-js";
+import {
+  resolvePreviewToken,
+  getPostSeoMeta,
+  getSiteSettings,
+  getCustomFieldsForPostType,
+  buildCustomFieldValues,
+  buildPostPath,
+  getPagePath,
+  getPostTypeBaseMap,
+  DEFAULT_PERMALINK_STRUCTURE,
+} from "../../lib";
+import { ThemedLayout } from "~/components/theme";
+import { PostView } from "~/components/theme/post-view";
+import { PageView } from "~/components/theme/page-view";
+import { CustomFieldsView } from "~/components/theme/custom-fields-view";
+import { PreviewBanner } from "~/components/theme/preview-banner";
+import { ArchiveNotFound } from "~/components/theme/archive-view";
+
+// Server function to resolve a preview link to everything its view needs
+async function getPreview(token: string) {
+  "use server";
+
+  const result = await resolvePreviewToken(token);
+  if (!result.data) return null;
+
+  const { post, expiresAt } = result.data;
+  const settings = await getSiteSettings();
+  const permalinkStructure = settings.data?.permalinkStructure ?? DEFAULT_PERMALINK_STRUCTURE;
+
+  const fields = post.customType
+    ? (await getCustomFieldsForPostType(post.customType)).data || []
+    : [];
+
+  // The address the post will have once it's public
+  const typeBase = post.customType ? (await getPostTypeBaseMap()).get(post.customType) : undefined;
+  const path = post.type === "PAGE"
+    ? (await getPagePath(post.id)) ?? `/${post.slug}`
+    : post.customType
+    ? `/${typeBase ?? post.customType}/${post.slug}`
+    : buildPostPath(post, permalinkStructure);
+  const seo = await getPostSeoMeta(post, path, post.type === "PAGE" ? "website" : "article");
+
+  return {
+    post,
+    expiresAt,
+    permalinkStructure,
+    fields: fields.map(({ name, label, type }) => ({ name, label, type })),
+    values: buildCustomFieldValues(fields, post.postMeta),
+    seo: { ...seo, robots: "noindex, nofollow" },
+  };
+}
+
+export default function Preview() {
+  const params = useParams();
+
+  const data = createAsync(() => getPreview(params.token), { deferStream: true });
+
+  return (
+    <Show
+      when={data()}
+      fallback={
+        <ThemedLayout title="Preview Unavailable">
+          <ArchiveNotFound label="Preview" />
+        </ThemedLayout>
+      }
+    >
+      {(view) => (
+        <>
+          <PreviewBanner status={view().post.status} expiresAt={view().expiresAt} />
+          <Switch>
+            <Match when={view().post.type === "PAGE"}>
+              <ThemedLayout
+                title={view().post.title}
+                description={view().post.excerpt || undefined}
+                layoutType="page"
+                seo={view().seo}
+              >
+                <PageView page={view().post} breadcrumbs={[]} />
+              </ThemedLayout>
+            </Match>
+            <Match when={view().post.type !== "PAGE"}>
+              <ThemedLayout
+                title={view().post.title}
+                description={view().post.excerpt || undefined}
+                layoutType="post"
+                postType={view().post.customType || undefined}
+                fields={view().post.customType ? view().values : undefined}
+                seo={view().seo}
+              >
+                <PostView
+                  post={view().post}
+                  relatedPosts={[]}
+                  permalinkStructure={view().permalinkStructure}
+                  hideComments
+                >
+                  <CustomFieldsView fields={view().fields} values={view().values} />
+                </PostView>
+              </ThemedLayout>
+            </Match>
+          </Switch>
+        </>
+      )}
+    </Show>
+  );
+}
@@ -0,0 +1,14 @@
+import type { APIEvent } from "@solidjs/start/server";
+import { renderRobotsTxt } from "~/lib/sitemap";
+
+export async function GET({ request }: APIEvent) {
+  try {
+    const body = await renderRobotsTxt(new URL(request.url).origin);
+    return new Response(body, {
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("robots.txt generation error:", error);
+    return new Response("Failed to generate robots.txt", { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { useSearchParams, createAsync } from "@solidjs/router";
+import { Show } from "solid-js";
+import { searchContent, getSiteSettings, getSeoMeta, getStructuredData } from "../lib";
+import { ThemedLayout } from "~/components/theme";
+import { parsePageParam } from "~/components/theme/archive-view";
+import { SearchView, searchUrl, type SearchState } from "~/components/theme/search-view";
+
+// Server function to run a search with facet filters
+async function getSearchResults(state: SearchState) {
+  "use server";
+
+  const settings = await getSiteSettings();
+  const perPage = Math.max(1, settings.data?.postsPerPage ?? 10);
+
+  const result = await searchContent(state.query, {
+    postTypes: state.postTypes,
+    categorySlug: state.categorySlug,
+    tagSlug: state.tagSlug,
+    author: state.author,
+    limit: perPage,
+    offset: (state.page - 1) * perPage,
+  });
+
+  // Result pages are endless query variations; keep them out of indexes
+  const seo = await getSeoMeta({
+    path: searchUrl(state),
+    title: state.query ? `Search: ${state.query}` : "Search",
+    robots: "noindex, follow",
+  });
+
+  return {
+    search: result.data || {
+      results: [],
+      total: 0,
+      facets: { categories: [], tags: [], authors: [], types: [] },
+    },
+    perPage,
+    permalinkStructure: settings.data?.permalinkStructure,
+    seo,
+    structuredData: await getStructuredData({ kind: "search", seo }),
+  };
+}
+
+function firstParam(value: string | string[] | undefined): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw?.trim() || undefined;
+}
+
+export default function Search() {
+  const [searchParams] = useSearchParams();
+
+  const state = (): SearchState => {
+    const type = firstParam(searchParams.type);
+    return {
+      query: firstParam(searchParams.q) || "",
+      postTypes: type ? [type] : undefined,
+      categorySlug: firstParam(searchParams.category),
+      tagSlug: firstParam(searchParams.tag),
+      author: firstParam(searchParams.author),
+      page: parsePageParam(searchParams.page),
+    };
+  };
+
+  const data = createAsync(() => getSearchResults(state()), {
+    deferStream: true,
+  });
+
+  return (
+    <ThemedLayout
+      title={state().query ? `Search: ${state().query}` : "Search"}
+      layoutType="archive"
+      seo={data()?.seo}
+      structuredData={data()?.structuredData}
+    >
+      <Show when={data()}>
+        {(view) => (
+          <SearchView
+            state={state()}
+            search={view().search}
+            perPage={view().perPage}
+            permalinkStructure={view().permalinkStructure}
+          />
+        )}
+      </Show>
+    </ThemedLayout>
+  );
+}
@@ -0,0 +1,14 @@
+import type { APIEvent } from "@solidjs/start/server";
+import { renderSitemapIndex } from "~/lib/sitemap";
+
+export async function GET({ request }: APIEvent) {
+  try {
+    const body = await renderSitemapIndex(new URL(request.url).origin);
+    return new Response(body, {
+      headers: { "Content-Type": "application/xml; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Sitemap index generation error:", error);
+    return new Response("Failed to generate sitemap", { status: 500 });
+  }
+}
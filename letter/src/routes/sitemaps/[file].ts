@@ -0,0 +1,20 @@
+import type { APIEvent } from "@solidjs/start/server";
+import { renderSitemap, isSitemapName } from "~/lib/sitemap";
+
+export async function GET({ request, params }: APIEvent) {
+  const name = params.file.replace(/\.xml$/, "");
+
+  if (!params.file.endsWith(".xml") || !isSitemapName(name)) {
+    return new Response("Sitemap not found", { status: 404 });
+  }
+
+  try {
+    const body = await renderSitemap(name, new URL(request.url).origin);
+    return new Response(body, {
+      headers: { "Content-Type": "application/xml; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Sitemap generation error:", error);
+    return new Response("Failed to generate sitemap", { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { useParams, useSearchParams, createAsync } from "@solidjs/router";
+import { Show } from "solid-js";
+import { getTagBySlug, getArchivePosts, getBreadcrumbs, getSeoMeta, getStructuredData, feedPath } from "../../../lib";
+import { ThemedLayout } from "~/components/theme";
+import {
+  ArchiveView,
+  ArchiveNotFound,
+  parsePageParam,
+  archivePageUrl,
+} from "~/components/theme/archive-view";
+
+// Server function to get a tag archive page
+async function getTagArchive(slug: string, page: number) {
+  "use server";
+
+  const result = await getTagBySlug(slug);
+  const tag = result.data;
+
+  if (!tag) return null;
+
+  const [archive, breadcrumbs] = await Promise.all([
+    getArchivePosts({ tagId: tag.id }, page),
+    getBreadcrumbs("tag", tag.id),
+  ]);
+
+  if (!archive.data) return null;
+
+  const seo = await getSeoMeta({
+    path: archivePageUrl(`/tag/${tag.slug}`, page),
+    title: `#${tag.name}`,
+    description: tag.description,
+  });
+
+  return {
+    tag,
+    archive: archive.data,
+    breadcrumbs: breadcrumbs.data || [],
+    seo,
+    structuredData: await getStructuredData({
+      kind: "collection",
+      seo,
+      breadcrumbs: breadcrumbs.data || [],
+    }),
+  };
+}
+
+export default function TagArchive() {
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+
+  const data = createAsync(
+    () => getTagArchive(params.slug, parsePageParam(searchParams.page)),
+    { deferStream: true }
+  );
+
+  return (
+    <Show
+      when={data()}
+      fallback={
+        <ThemedLayout title="Tag Not Found" layoutType="archive">
+          <ArchiveNotFound label="Tag" />
+        </ThemedLayout>
+      }
+    >
+      {(view) => (
+        <ThemedLayout
+          title={`#${view().tag.name}`}
+          description={view().tag.description || undefined}
+          layoutType="archive"
+          seo={view().seo}
+          structuredData={view().structuredData}
+        >
+          <ArchiveView
+            label="Tag"
+            title={`#${view().tag.name}`}
+            description={view().tag.description}
+            breadcrumbs={view().breadcrumbs}
+            archive={view().archive}
+            basePath={`/tag/${view().tag.slug}`}
+            feedUrl={feedPath("rss", { tag: view().tag.slug })}
+          />
+        </ThemedLayout>
+      )}
+    </Show>
+  );
+}